@@ -1,9 +1,33 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import { AgentEvent } from '../types/agent-event';
 
 export class AnalyticsAgent extends BaseAgent {
-  constructor() {
-    super('AnalyticsAgent', 'Agent for data analysis and metrics');
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'analytics',
+    agente: 'AnalyticsAgent',
+    categoria: 'infraestructura',
+    descripcion: 'Analiza métricas del proyecto y genera reportes',
+    escribeArchivos: false,
+    usaLLM: false,
+    inputSchema: {
+      spec: { descripcion: 'Métricas separadas por coma (o vacío si se pasan en opciones.metrics)', requerido: false },
+      opciones: {
+        metrics: { tipo: 'string[]', descripcion: 'Lista de métricas a analizar' },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: projectId sale del contexto, las métricas de opciones o de la spec
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    const metrics = (input.opciones?.metrics as string[] | undefined)
+      || input.spec.split(',').map(m => m.trim()).filter(Boolean);
+    return this.execute({ projectId: input.contexto.id, metrics });
+  }
+
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'AnalyticsAgent';
   }
 
   async execute(params: { projectId: string; metrics: string[] }): Promise<AgentEvent> {
@@ -1,4 +1,5 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -15,6 +16,23 @@ import * as path from 'path';
  * 7. Optimizar rendimiento y seguridad de la API
  */
 export class APIAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'api',
+    agente: 'APIAgent',
+    categoria: 'backend',
+    descripcion: 'Diseña y genera APIs RESTful',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación de la API', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
   private apiSpec: string;
   private outputDir: string;
   private swaggerSpec: any;
@@ -24,8 +42,9 @@ export class APIAgent extends BaseAgent {
   private middlewares: Map<string, string> = new Map();
   private tests: Map<string, string> = new Map();
 
-  constructor() {
-    super('API Agent');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'APIAgent';
     this.outputDir = path.join(process.cwd(), 'src', 'api');
   }
 
@@ -39,17 +58,13 @@ export class APIAgent extends BaseAgent {
     this.updateAgentStatus('working', 'Analizando especificación de API');
 
     try {
-      // Leer contexto relevante
-      const coreContext: string = this.readContext('core.md');
-      const rulesContext: string = this.readContext('rules.md');
+      // Contexto relevante pa' la especificación (código, reglas, decisiones, historial)
+      const relevante = await this.contextoRelevante(apiSpec);
 
       // Crear prompt para el LLM
       const apiPrompt: string = `
-      # Contexto del Proyecto
-      ${coreContext}
-      
-      # Reglas Arquitectónicas
-      ${rulesContext}
+      # Contexto Relevante
+      ${relevante.texto || 'Sin contexto previo en la memoria.'}
       
       # Tarea de API Agent
       Actúa como el API Agent de CJ.DevMind. Tu tarea es diseñar y generar una API RESTful basada en la siguiente especificación:
@@ -114,19 +129,6 @@ export class APIAgent extends BaseAgent {
     }
   }
 
-  /**
-   * Lee un archivo de contexto
-   */
-  private readContext(filename: string): string {
-    try {
-      const contextPath = path.join(process.cwd(), 'context', filename);
-      return fs.existsSync(contextPath) ? fs.readFileSync(contextPath, 'utf-8') : '';
-    } catch (error) {
-      this.log(`⚠️ No se pudo leer el contexto ${filename}: ${error.message}`, 'warning');
-      return '';
-    }
-  }
-
   /**
    * Procesa y guarda los componentes de la API
    */
@@ -2545,20 +2547,4 @@ router.use('/users', userRoutes);`;
     fs.writeFileSync(filePath, content, 'utf-8');
     this.log(`📄 Guardado archivo: ${path.join(subdir, filename)}`);
   }
-
-  /**
-   * Lee un archivo de contexto
-   */
-  private readContext(filename: string): string {
-    try {
-      const contextPath = path.join(process.cwd(), 'context', filename);
-      if (fs.existsSync(contextPath)) {
-        return fs.readFileSync(contextPath, 'utf-8');
-      }
-      return '';
-    } catch (error) {
-      this.log(`⚠️ Error leyendo contexto ${filename}: ${error.message}`, 'warning');
-      return '';
-    }
-  }
 }
\ No newline at end of file
@@ -1,47 +1,82 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
-import { BaseAgent, ContextoProyecto } from './base-agent'; // Ajusta la ruta
+import { BaseAgent, ContextoProyecto, USUARIO_POR_DEFECTO } from './base-agent'; // Ajusta la ruta
+import { AgentCapabilities } from '../types/agent-runner';
+import { SeccionPrompt } from '../services/token-budget';
+import { z } from 'zod';
+import { DefinicionSalida } from '../services/structured-output';
 import { MemoryAgent } from './memory-agent'; // Suponemos que existe
 import { DashboardAgent } from './dashboard-agent'; // Pa’ reportes
 
-interface ArchitecturalDecision {
-  id: string;
-  title: string;
-  status: 'proposed' | 'accepted' | 'rejected' | 'deprecated';
-  context: string;
-  decision: string;
-  consequences: string;
-  alternatives?: string[];
-  date: string;
-}
+const esquemaDecision = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  status: z.enum(['proposed', 'accepted', 'rejected', 'deprecated']),
+  context: z.string(),
+  decision: z.string(),
+  consequences: z.string(),
+  alternatives: z.array(z.string()).optional(),
+  date: z.string(),
+});
+
+const esquemaBlueprintArquitectura = z.object({
+  projectName: z.string(),
+  description: z.string(),
+  folderStructure: z.record(z.string()),
+  components: z.array(z.object({
+    name: z.string(),
+    responsibility: z.string(),
+    dependencies: z.array(z.string()),
+  })).min(1),
+  dataFlow: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    description: z.string(),
+  })),
+  decisions: z.array(esquemaDecision),
+  technologies: z.record(z.string()),
+  diagram: z.string().optional(), // Código Mermaid
+});
+
+type ArchitecturalDecision = z.infer<typeof esquemaDecision>;
+type ArchitecturalBlueprint = z.infer<typeof esquemaBlueprintArquitectura>;
+
+const FORMATO_BLUEPRINT_ARQUITECTURA = `{
+      "projectName": "Nombre",
+      "description": "Descripción",
+      "folderStructure": { "carpeta": "Propósito" },
+      "components": [{ "name": "Nombre", "responsibility": "Responsabilidad", "dependencies": ["Dep"] }],
+      "dataFlow": [{ "from": "Origen", "to": "Destino", "description": "Flujo" }],
+      "decisions": [{ "id": "ADR-001", "title": "Título", "status": "accepted", "context": "Contexto", "decision": "Decisión", "consequences": "Consecuencias", "date": "2025-04-11T00:00:00.000Z" }],
+      "technologies": { "frontend": "Tech", "backend": "Tech", "database": "Tech" },
+      "diagram": "Código Mermaid"
+    }`;
 
-interface ArchitecturalBlueprint {
-  projectName: string;
-  description: string;
-  folderStructure: Record<string, string>;
-  components: Array<{
-    name: string;
-    responsibility: string;
-    dependencies: string[];
-  }>;
-  dataFlow: Array<{
-    from: string;
-    to: string;
-    description: string;
-  }>;
-  decisions: ArchitecturalDecision[];
-  technologies: Record<string, string>;
-  diagram?: string; // Código Mermaid
-}
+const SALIDA_BLUEPRINT_ARQUITECTURA: DefinicionSalida<ArchitecturalBlueprint> = {
+  nombre: 'ArchitecturalBlueprint',
+  esquema: esquemaBlueprintArquitectura,
+  formato: FORMATO_BLUEPRINT_ARQUITECTURA,
+};
 
 export class ArchitectAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'architect',
+    agente: 'ArchitectAgent',
+    categoria: 'meta',
+    descripcion: 'Diseña la estructura arquitectónica del proyecto',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Descripción del proyecto', requerido: true },
+    },
+  };
   private blueprintsDir: string;
   private decisionsDir: string;
   private currentBlueprint: ArchitecturalBlueprint | null = null;
-  private memoryAgent: MemoryAgent;
-  private dashboardAgent: DashboardAgent;
+  protected memoryAgent: MemoryAgent;
+  protected dashboardAgent: DashboardAgent;
 
-  constructor(userId: string) {
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
     super(userId);
     this.agentName = 'ArchitectAgent';
     this.blueprintsDir = join(process.cwd(), 'context', 'blueprints');
@@ -61,35 +96,22 @@ export class ArchitectAgent extends BaseAgent {
 
   // Ejecuta el agente
   async run(contexto: ContextoProyecto, prompt: string): Promise<void> {
-    if (contexto.licencia === 'Community' && prompt.includes('complex')) {
-      throw new Error('Community Edition no soporta proyectos complejos');
-    }
+    this.comprobarCupo('modulosPorProyecto', contexto.modulos?.length || 0);
 
     await this.registrarActividad(contexto, 'iniciando ArchitectAgent', { prompt });
 
-    // Leer contexto relevante
-    const coreContext = this.readContext('core.md');
-    const rulesContext = this.readContext('rules.md');
-    const technologiesContext = this.readContext('technologies.md');
-    const previousDecisions = await this.getPreviousDecisions();
-
-    const fullPrompt = `
-    # Contexto del Proyecto
-    ${coreContext}
-    
-    # Reglas Arquitectónicas
-    ${rulesContext}
-    
-    # Tecnologías Disponibles
-    ${technologiesContext}
-    
-    # Decisiones Previas
-    ${JSON.stringify(previousDecisions, null, 2)}
-    
-    # Contexto Actual
-    ${JSON.stringify(contexto, null, 2)}
-    
-    # Tarea
+    // Solo lo relevante pa' este proyecto: código, reglas, decisiones previas e historial
+    const relevante = await this.contextoRelevante(prompt, { documentos: ['core.md', 'rules.md', 'technologies.md'] }, contexto);
+
+    // Si no cabe en la ventana del modelo, se resume primero el contexto recuperado; la tarea nunca se toca
+    const fullPrompt: SeccionPrompt[] = [
+      { nombre: 'Contexto Relevante', contenido: relevante.texto || 'Sin contexto previo en la memoria.', prioridad: 1, estrategia: 'resumir' },
+      { nombre: 'Proyecto', contenido: this.resumenProyecto(contexto), prioridad: 2 },
+      {
+        nombre: 'Tarea',
+        prioridad: 3,
+        fija: true,
+        contenido: `
     Diseña la arquitectura para el proyecto "${prompt}" con base en el contexto.
     Genera un blueprint que incluya:
     1. Estructura de carpetas
@@ -100,20 +122,13 @@ export class ArchitectAgent extends BaseAgent {
     6. Diagrama en Mermaid
 
     Formato: JSON con la estructura:
-    {
-      "projectName": "Nombre",
-      "description": "Descripción",
-      "folderStructure": { "carpeta": "Propósito" },
-      "components": [{ "name": "Nombre", "responsibility": "Responsabilidad", "dependencies": ["Dep"] }],
-      "dataFlow": [{ "from": "Origen", "to": "Destino", "description": "Flujo" }],
-      "decisions": [{ "id": "ADR-001", "title": "Título", "status": "accepted", "context": "Contexto", "decision": "Decisión", "consequences": "Consecuencias", "date": "2025-04-11T00:00:00.000Z" }],
-      "technologies": { "frontend": "Tech", "backend": "Tech", "database": "Tech" },
-      "diagram": "Código Mermaid"
-    }
-    `;
+    ${FORMATO_BLUEPRINT_ARQUITECTURA}
+    `,
+      },
+    ];
 
-    const result = await this.ejecutarPrompt(contexto, fullPrompt);
-    await this.processArchitecturalBlueprint(contexto, result, prompt);
+    const blueprint = await this.salidaEstructurada(SALIDA_BLUEPRINT_ARQUITECTURA, fullPrompt, contexto);
+    await this.processArchitecturalBlueprint(contexto, blueprint);
     await this.dashboardAgent.actualizarWebview({
       proyectoId: contexto.id,
       blueprint: this.currentBlueprint,
@@ -121,8 +136,7 @@ export class ArchitectAgent extends BaseAgent {
     });
   }
 
-  private async processArchitecturalBlueprint(contexto: ContextoProyecto, result: string, prompt: string): Promise<void> {
-    const blueprint = JSON.parse(result) as ArchitecturalBlueprint;
+  private async processArchitecturalBlueprint(contexto: ContextoProyecto, blueprint: ArchitecturalBlueprint): Promise<void> {
     this.currentBlueprint = blueprint;
 
     // Guardar blueprint
@@ -186,18 +200,12 @@ export class ArchitectAgent extends BaseAgent {
 
     // Si el diagrama es muy complejo, simplifica
     if (this.currentBlueprint && this.currentBlueprint.components.length > 10) {
-      const prompt = `Simplifica el blueprint ${JSON.stringify(this.currentBlueprint)} reduciendo componentes. Formato: JSON.`;
-      const result = await this.ejecutarPrompt(contexto, prompt);
-      this.currentBlueprint = JSON.parse(result);
+      const prompt = `Simplifica el blueprint ${JSON.stringify(this.currentBlueprint)} reduciendo componentes. Formato: JSON con la misma estructura.`;
+      this.currentBlueprint = await this.salidaEstructurada(SALIDA_BLUEPRINT_ARQUITECTURA, prompt, contexto);
       await this.registrarActividad(contexto, 'mejora propuesta', { accion: 'simplificar blueprint' });
       return 'Blueprint simplificado pa’ reducir complejidad';
     }
 
     return null;
   }
-
-  private readContext(file: string): string {
-    const filePath = join(process.cwd(), 'context', file);
-    return existsSync(filePath) ? readFileSync(filePath, 'utf-8') : '';
-  }
-}
\ No newline at end of file
+}
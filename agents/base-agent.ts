@@ -1,95 +1,36 @@
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { pathToFileURL } from 'url';
 import * as fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
 import * as vscode from 'vscode'; // Integración con VS Code
 import { MemoryAgent } from './memoryAgent'; // Suponemos que existe
-import { ExtensionAgent } from './extensionAgent'; // Pa’ licencias y créditos
+import { ExtensionAgent } from './extensionAgent'; // Pa’ créditos en el dashboard
 import { DashboardAgent } from './dashboardAgent'; // Pa’ reportes
 import { SecurityAgent } from './securityAgent'; // Pa’ auditorías
-import { APIProxy } from './apiProxy'; // Proxy de APIs de IA
-import { EventBus } from './eventBus'; // Para manejar eventos entre agentes
-
-// Enum para los tipos de eventos de agentes
-export enum AgentEventType {
-  // Eventos de diseño y frontend (StyleAgent, UIDesignAgent, LayoutAgent)
-  DESIGN_SYSTEM_UPDATED = 'DESIGN_SYSTEM_UPDATED',
-  DESIGN_SYSTEM_REQUESTED = 'DESIGN_SYSTEM_REQUESTED',
-  COMPONENT_REQUESTED = 'COMPONENT_REQUESTED',
-  COMPONENT_CREATED = 'COMPONENT_CREATED',
-  COMPONENT_ERROR = 'COMPONENT_ERROR',
-  THEME_REQUESTED = 'THEME_REQUESTED',
-  THEME_CREATED = 'THEME_CREATED',
-  THEME_ERROR = 'THEME_ERROR',
-
-  // Eventos de pruebas (TestAgent, TestingAgent)
-  TEST_REQUESTED = 'TEST_REQUESTED',
-  TEST_CREATED = 'TEST_CREATED',
-  TEST_ERROR = 'TEST_ERROR',
-
-  // Eventos de automejora (SelfImprovementAgent)
-  SELF_IMPROVEMENT_REQUESTED = 'SELF_IMPROVEMENT_REQUESTED',
-  SELF_IMPROVEMENT_COMPLETED = 'SELF_IMPROVEMENT_COMPLETED',
-  SELF_IMPROVEMENT_ERROR = 'SELF_IMPROVEMENT_ERROR',
-
-  // Eventos de revisión de código (CodeReviewAgent)
-  CODE_REVIEW_REQUESTED = 'CODE_REVIEW_REQUESTED',
-  CODE_REVIEW_COMPLETED = 'CODE_REVIEW_COMPLETED',
-  CODE_REVIEW_ERROR = 'CODE_REVIEW_ERROR',
-
-  // Eventos de Meta-Nivel (QuestionAgent, OrchestratorAgent)
-  QUESTION_REQUESTED = 'QUESTION_REQUESTED',
-  QUESTION_PROCESSED = 'QUESTION_PROCESSED',
-  ORCHESTRATION_STARTED = 'ORCHESTRATION_STARTED',
-  ORCHESTRATION_COMPLETED = 'ORCHESTRATION_COMPLETED',
-
-  // Eventos de Backend (APIAgent, DatabaseAgent, LogicAgent)
-  API_ENDPOINT_REQUESTED = 'API_ENDPOINT_REQUESTED',
-  API_ENDPOINT_CREATED = 'API_ENDPOINT_CREATED',
-  API_ENDPOINT_ERROR = 'API_ENDPOINT_ERROR',
-  DATABASE_SCHEMA_REQUESTED = 'DATABASE_SCHEMA_REQUESTED',
-  DATABASE_SCHEMA_CREATED = 'DATABASE_SCHEMA_CREATED',
-  DATABASE_SCHEMA_ERROR = 'DATABASE_SCHEMA_ERROR',
-
-  // Eventos de Calidad (SecurityAgent, TestingAgent)
-  SECURITY_AUDIT_STARTED = 'SECURITY_AUDIT_STARTED',
-  SECURITY_AUDIT_COMPLETED = 'SECURITY_AUDIT_COMPLETED',
-  SECURITY_AUDIT_ERROR = 'SECURITY_AUDIT_ERROR',
-
-  // Eventos de Infraestructura (DevOpsAgent, MonitorAgent)
-  DEPLOYMENT_REQUESTED = 'DEPLOYMENT_REQUESTED',
-  DEPLOYMENT_COMPLETED = 'DEPLOYMENT_COMPLETED',
-  DEPLOYMENT_ERROR = 'DEPLOYMENT_ERROR',
-  MONITORING_ALERT = 'MONITORING_ALERT',
-
-  // Eventos de Documentación (DocAgent, MemoryAgent)
-  DOCUMENTATION_REQUESTED = 'DOCUMENTATION_REQUESTED',
-  DOCUMENTATION_CREATED = 'DOCUMENTATION_CREATED',
-  DOCUMENTATION_ERROR = 'DOCUMENTATION_ERROR',
-  MEMORY_STORED = 'MEMORY_STORED',
-  MEMORY_RETRIEVED = 'MEMORY_RETRIEVED',
-
-  // Eventos de Negocio (BusinessAgent, LaunchAgent, MarketAgent, GrowthAgent, AnalyticsAgent)
-  ROI_CALCULATION_REQUESTED = 'ROI_CALCULATION_REQUESTED',
-  ROI_CALCULATION_COMPLETED = 'ROI_CALCULATION_COMPLETED',
-  LAUNCH_PLAN_REQUESTED = 'LAUNCH_PLAN_REQUESTED',
-  LAUNCH_PLAN_CREATED = 'LAUNCH_PLAN_CREATED',
-  MARKET_ANALYSIS_REQUESTED = 'MARKET_ANALYSIS_REQUESTED',
-  MARKET_ANALYSIS_COMPLETED = 'MARKET_ANALYSIS_COMPLETED',
-  GROWTH_STRATEGY_REQUESTED = 'GROWTH_STRATEGY_REQUESTED',
-  GROWTH_STRATEGY_CREATED = 'GROWTH_STRATEGY_CREATED',
-  ANALYTICS_REPORT_REQUESTED = 'ANALYTICS_REPORT_REQUESTED',
-  ANALYTICS_REPORT_COMPLETED = 'ANALYTICS_REPORT_COMPLETED',
-
-  // Eventos de Autoextensión (ExtensionAgent)
-  EXTENSION_INSTALL_REQUESTED = 'EXTENSION_INSTALL_REQUESTED',
-  EXTENSION_INSTALLED = 'EXTENSION_INSTALLED',
-  EXTENSION_INSTALL_ERROR = 'EXTENSION_INSTALL_ERROR',
-
-  // Eventos de Otros (VSCodeAgentBridge, DashboardAgent, IntegrationAgent, etc.)
-  DASHBOARD_UPDATED = 'DASHBOARD_UPDATED',
-  INTEGRATION_REQUESTED = 'INTEGRATION_REQUESTED',
-  INTEGRATION_COMPLETED = 'INTEGRATION_COMPLETED',
-  INTEGRATION_ERROR = 'INTEGRATION_ERROR',
-}
+import { APIProxy, RespuestaAPI } from '../services/api-proxy'; // Proxy de APIs de IA (OpenAI, Anthropic, local, fixtures)
+import { SeccionPrompt, renderizarSecciones } from '../services/token-budget'; // Prompts que se recortan por prioridad si no caben
+import { LLMCache } from '../services/llm-cache'; // Respuestas ya pagadas, pa' las estadísticas del dashboard
+import { DefinicionSalida, SalidaInvalidaError, formatearErrores, obtenerSalida } from '../services/structured-output'; // JSON validado del LLM
+import { devmindConfig } from '../devmind.config';
+import { EventBus } from '../services/event-bus'; // Bus compartido entre todos los agentes
+import { TransactionManager } from '../services/transaction-manager'; // Snapshot y rollback de lo que escribe cada ejecución
+import { CreditLedger, CreditosInsuficientesError } from '../services/credit-ledger'; // Reserva, liquidación y reembolso de créditos por paso
+import { BudgetManager, PresupuestoExcedidoError } from '../services/budget-manager'; // Límites de gasto y bajada de modelo
+import { LicenseManager } from '../services/license-manager'; // Tier de la licencia firmada, verificado offline
+import { Entitlements } from '../services/entitlements'; // Funciones y cupos de cada tier
+import { ContextAssembler, ContextoEnsamblado, OpcionesContexto } from '../services/context-assembler'; // Contexto relevante pa' los prompts
+import { DashboardSync } from '../services/dashboard-sync'; // Copia de actividad y consumo en la API del dashboard
+import { AgentEventType, AgentEventPattern, AgentEvent } from '../types/agent-types';
+import { ProveedorLLM } from '../services/llm-providers';
+import { AgentCapabilities, AgentInput, AgentResult, AgentRunner } from '../types/agent-runner';
+import { AlcanceGasto, DecisionPresupuesto } from '../types/budget-types';
+import { TierLicencia } from '../types/license-types';
+import { Cupo, Funcion } from '../types/entitlement-types';
+import { EstadoAgenteVivo, LineaLogVivo } from '../types/realtime-types';
+import { OrigenTranscripcion } from '../types/transcript-types';
+
+// El enum vive en types/ para que el EventBus lo comparta sin dependencias circulares
+export { AgentEventType };
 
 // Interfaces pa’ estructura clara
 export interface HistorialEntry {
@@ -105,7 +46,9 @@ export interface MetricasProyecto {
   claridadContexto: number; // 0-100
   completitud: number; // 0-100
   gradoExploracion: 'bajo' | 'medio' | 'alto';
-  tokensUsados: number; // Pa’ APIs
+  tokensUsados: number; // Pa’ APIs (prompt + respuesta, según lo que reporta el proveedor)
+  tokensPrompt?: number;
+  tokensRespuesta?: number;
   tiempoEjecucion: number; // En ms
   codeQualityScore?: number; // Nuevo: Puntuación de calidad del código (CodeReviewAgent)
   testCoverage?: number; // Nuevo: Cobertura de pruebas (TestAgent)
@@ -134,18 +77,54 @@ export interface ContextoProyecto {
   problema?: string;
   usuarios?: string;
   modulos?: string[];
-  licencia: 'Community' | 'Professional' | 'Enterprise'; // Del Modelo de Negocio
-  creditosRestantes: number; // Pa’ APIs
+  licencia: TierLicencia; // Copia del tier de la licencia firmada (LicenseManager); no se respeta si se edita a mano
+  creditosRestantes: number; // Pa’ APIs; copia del disponible en el CreditLedger
+  estado?: any; // Estado de la orquestación (OrchestratorAgent.saveProjectState)
 }
 
+// Usuario con el que la CLI instancia agentes cuando no se indica otro
+export const USUARIO_POR_DEFECTO = process.env.CJ_USER_ID || 'local';
+
+// Proyecto de los comandos sueltos de la CLI: el mismo id cada vez que se lanzan desde un directorio,
+// pa' que le apliquen sus presupuestos y cuente una sola vez en el cupo de proyectos
+export const proyectoDelDirectorio = (directorio: string = process.cwd()): string =>
+  uuidv5(pathToFileURL(directorio).href, uuidv5.URL);
+
 // Configuración pa’ APIs
 interface APIConfig {
-  proveedor: 'openai' | 'anthropic' | 'local';
+  proveedor: ProveedorLLM;
   modelo: string;
   maxTokens: number;
 }
 
-export class BaseAgent {
+// Lo que se va acumulando durante una llamada a ejecutar()
+interface EjecucionEnCurso {
+  archivos: Set<string>;
+  tokens: number;
+  advertencias: string[];
+  tokensPorModelo: Map<string, number>; // Pa' liquidar la reserva por modelo
+  reservaId?: string; // Reserva de créditos abierta en el CreditLedger
+  reservado: number;
+  creditos: number; // Liquidados al terminar
+  alcance?: AlcanceGasto; // Proyecto, orquestación y agente cuyos presupuestos cuentan
+  llm?: { proveedor: ProveedorLLM; modelo: string }; // Modelo más barato si el presupuesto obligó a bajar
+  stepId?: string; // Paso del plan, pa' atribuirle el consumo en el dashboard
+  ultimaClaveCache?: string; // De la última respuesta del LLM en esta ejecución
+}
+
+// Una llamada a ejecutar() en curso. Vive en AsyncLocalStorage y no en la instancia: el orquestador
+// comparte cada agente entre pasos y dos pasos del mismo agente en un grupo paralelo se pisarían
+interface EjecucionAsincrona {
+  agente: BaseAgent;
+  ejecucion: EjecucionEnCurso;
+  contexto?: ContextoProyecto;
+  padre?: EjecucionAsincrona; // La del agente que lanzó esta (ej. el orquestador), pa' seguir viéndola dentro
+}
+
+const ejecucionesEnCurso = new AsyncLocalStorage<EjecucionAsincrona>();
+
+export abstract class BaseAgent implements AgentRunner {
+  abstract readonly capabilities: AgentCapabilities;
   protected userId: string;
   protected agentName: string;
   protected memoryAgent: MemoryAgent;
@@ -153,8 +132,10 @@ export class BaseAgent {
   protected dashboardAgent: DashboardAgent;
   protected securityAgent: SecurityAgent;
   protected apiProxy: APIProxy;
-  protected eventBus: EventBus; // Nuevo: Para emitir y escuchar eventos
+  protected eventBus: EventBus; // Compartido: EventBus.getInstance()
+  protected dashboardSync: DashboardSync;
   protected config: APIConfig;
+  private ultimaClaveCache?: string; // De la última respuesta del LLM fuera de ejecutar(), pa' descartarla si no sirve
 
   constructor(userId: string) {
     this.userId = userId;
@@ -164,22 +145,35 @@ export class BaseAgent {
     this.dashboardAgent = new DashboardAgent();
     this.securityAgent = new SecurityAgent();
     this.apiProxy = new APIProxy();
-    this.eventBus = new EventBus(); // Inicializamos el EventBus
+    this.eventBus = EventBus.getInstance(); // Un solo bus pa' que los agentes se escuchen entre sí
+    this.dashboardSync = DashboardSync.getInstance();
     this.config = this.inicializarConfig(); // Configuración inicial
   }
 
-  // Inicializa configuración según licencia y conexión
+  // Inicializa configuración según licencia (modelo del tier en MATRIZ_DERECHOS) y conexión
   private inicializarConfig(): APIConfig {
-    const licencia = this.extensionAgent.validarLicencia(this.userId);
-    const online = this.estaOnline();
-
-    if (licencia === 'Community' || !online) {
+    const derechos = Entitlements.getInstance();
+    if (!derechos.can('llm-nube') || !this.estaOnline()) {
       return { proveedor: 'local', modelo: 'Mistral', maxTokens: 500 }; // Límite offline
-    } else if (licencia === 'Professional') {
-      return { proveedor: 'openai', modelo: 'GPT-3.5', maxTokens: 2000 };
-    } else {
-      return { proveedor: 'openai', modelo: 'GPT-4', maxTokens: 4000 }; // Enterprise
     }
+    return { ...derechos.derechos().llm };
+  }
+
+  // La ejecución de este agente en la cadena async actual (null fuera de ejecutar())
+  private ejecucionPropia(): EjecucionAsincrona | undefined {
+    for (let actual = ejecucionesEnCurso.getStore(); actual; actual = actual.padre) {
+      if (actual.agente === this) return actual;
+    }
+    return undefined;
+  }
+
+  private get ejecucionActual(): EjecucionEnCurso | null {
+    return this.ejecucionPropia()?.ejecucion || null;
+  }
+
+  // Contexto de la ejecución en curso (pa' agentes que solo reciben spec)
+  protected get contextoActual(): ContextoProyecto | undefined {
+    return this.ejecucionPropia()?.contexto;
   }
 
   // Checa conexión (simulado, en prod usaría navigator.onLine)
@@ -187,16 +181,265 @@ export class BaseAgent {
     return true; // Placeholder
   }
 
-  // Emite un evento a través del EventBus
-  protected async emitirEvento(eventType: AgentEventType, payload: any): Promise<void> {
-    const eventData = {
-      type: eventType,
-      payload,
-      timestamp: new Date().toISOString(),
-      agentName: this.agentName,
-      correlationId: uuidv4(),
+  // Contrato único (AgentRunner): valida la entrada, ejecuta y devuelve un resultado estructurado
+  async ejecutar(input: AgentInput): Promise<AgentResult> {
+    const ejecucion: EjecucionEnCurso = { archivos: new Set(), tokens: 0, advertencias: [], tokensPorModelo: new Map(), reservado: 0, creditos: 0, stepId: input.stepId };
+    const enCurso: EjecucionAsincrona = { agente: this, ejecucion, contexto: input.contexto, padre: ejecucionesEnCurso.getStore() };
+    return ejecucionesEnCurso.run(enCurso, () => this.ejecutarEnCurso(input, ejecucion));
+  }
+
+  // El cuerpo de ejecutar(), ya dentro de su EjecucionAsincrona
+  private async ejecutarEnCurso(input: AgentInput, ejecucion: EjecucionEnCurso): Promise<AgentResult> {
+    const inicio = Date.now();
+    const eventos = new Set<AgentEventType>();
+    const dejarDeEscuchar = this.eventBus.on('*', (evento) => {
+      if (evento.agentName === this.agentName) eventos.add(evento.type);
+    });
+
+    if (input.contexto) {
+      input.contexto.licencia = LicenseManager.getInstance().tier(); // Manda la licencia firmada, no lo que diga el JSON
+    }
+
+    // Todo lo que escriba la ejecución queda en una transacción: si falla, el workspace vuelve a como estaba
+    const transacciones = TransactionManager.getInstance();
+    const transaccion = transacciones.iniciar({
+      agente: this.agentName,
+      proyectoId: input.contexto?.id,
+      stepId: input.stepId,
+    });
+
+    const resultado = (ok: boolean, extra: Partial<AgentResult>): AgentResult => ({
+      ok,
+      agente: this.agentName,
+      spec: input.spec,
+      archivos: [...new Set([...ejecucion.archivos, ...transacciones.archivos(transaccion.id)])],
+      transaccionId: transaccion.id,
+      eventos: [...eventos],
+      tokensUsados: ejecucion.tokens,
+      creditosUsados: ejecucion.creditos,
+      advertencias: ejecucion.advertencias,
+      duracionMs: Date.now() - inicio,
+      ...extra,
+    });
+
+    // Quien mire el proyecto en el dashboard ve qué agente está trabajando y en qué
+    const estadoEnVivo = (estado: EstadoAgenteVivo['estado'], error?: string) => {
+      if (!input.contexto) return;
+      this.dashboardSync.vivo({ id: input.contexto.id, nombre: input.contexto.nombre }, 'agente', {
+        agente: this.agentName,
+        estado,
+        tarea: input.spec?.substring(0, 200),
+        error,
+        stepId: input.stepId,
+      });
     };
-    await this.eventBus.emit(eventType, eventData);
+
+    try {
+      estadoEnVivo('activo');
+      this.validarEntrada(input);
+      await this.reservarCreditos(input, ejecucion);
+      // Se cobra una vez admitida, y solo la de primer nivel: los pasos de una orquestación no cuentan aparte
+      if (!ejecucionesEnCurso.getStore()?.padre) {
+        Entitlements.getInstance().consumir('ejecucionesPorDia', this.userId);
+      }
+      const salida = await transacciones.ejecutarEn(transaccion.id, () => this.ejecutarTarea(input));
+      transacciones.confirmar(transaccion.id);
+      this.cerrarReserva(input, ejecucion);
+      estadoEnVivo('inactivo');
+      return resultado(true, { salida });
+    } catch (error) {
+      const mensaje = (error as Error).message;
+      estadoEnVivo('error', mensaje);
+      this.cerrarReserva(input, ejecucion, mensaje);
+      const rollback = await transacciones.revertir(transaccion.id, { motivo: mensaje });
+      const revertidos = rollback.restaurados.length + rollback.eliminados.length;
+      if (revertidos > 0) {
+        this.advertir(`Cambios revertidos (${revertidos} archivos): ${[...rollback.restaurados, ...rollback.eliminados].join(', ')}`);
+      }
+      return resultado(false, { error: mensaje });
+    } finally {
+      dejarDeEscuchar();
+    }
+  }
+
+  // Atajos pa' los agentes: ¿la licencia incluye la función? / corta con el mensaje de mejora si no
+  protected puede(funcion: Funcion): boolean {
+    return Entitlements.getInstance().can(funcion);
+  }
+
+  protected exigir(funcion: Funcion): void {
+    Entitlements.getInstance().exigir(funcion);
+  }
+
+  protected comprobarCupo(cupo: Cupo, valor: number): void {
+    Entitlements.getInstance().comprobarLimite(cupo, valor);
+  }
+
+  // Créditos que se reservan pa' un paso de este agente (0 si no usa el LLM)
+  estimarCreditos(): number {
+    if (!this.capabilities.usaLLM) return 0;
+    return CreditLedger.getInstance().estimar(this.agentName, this.config.maxTokens);
+  }
+
+  // Aparta los créditos estimados del paso; sin saldo o sin presupuesto el paso ni empieza
+  private async reservarCreditos(input: AgentInput, ejecucion: EjecucionEnCurso): Promise<void> {
+    if (!this.capabilities.usaLLM || !input.contexto) return;
+    const alcance: AlcanceGasto = { userId: this.userId, proyectoId: input.contexto.id, ejecucionId: input.ejecucionId, agente: this.agentName };
+    const estimado = this.estimarCreditos();
+    const decision = await this.revisarPresupuesto(input.contexto, alcance, estimado, true);
+    if (decision.degradacion) {
+      ejecucion.llm = {
+        proveedor: (decision.degradacion.proveedor as ProveedorLLM | undefined) || this.config.proveedor,
+        modelo: decision.degradacion.modelo,
+      };
+    }
+
+    const ledger = CreditLedger.getInstance();
+    const reserva = ledger.reservar({ ...alcance, stepId: input.stepId }, estimado);
+    ejecucion.alcance = alcance;
+    ejecucion.reservaId = reserva.id;
+    ejecucion.reservado = estimado;
+    input.contexto.creditosRestantes = ledger.saldo(this.userId).disponible;
+  }
+
+  /**
+   * Presupuestos del alcance con `adicional` créditos más: corta con PresupuestoExcedidoError si se
+   * pasa del límite y, con `avisar`, deja el aviso en el resultado y emite un MONITORING_ALERT.
+   */
+  private async revisarPresupuesto(
+    contexto: ContextoProyecto | undefined,
+    alcance: AlcanceGasto,
+    adicional: number,
+    avisar: boolean
+  ): Promise<DecisionPresupuesto> {
+    const decision = BudgetManager.getInstance().evaluar(alcance, { adicional, modelo: this.llmActual().modelo });
+    const excedido = decision.estados.find(estado => estado.nivel === 'corte');
+    if (avisar || excedido) {
+      for (const estado of decision.estados.filter(e => e.nivel !== 'ok')) {
+        await this.emitirEvento(AgentEventType.MONITORING_ALERT, {
+          contexto,
+          metric: `presupuesto.${estado.ambito}`,
+          value: estado.fraccion,
+          severity: estado.nivel === 'corte' ? 'critical' : 'warning',
+        });
+      }
+    }
+    if (excedido) {
+      throw new PresupuestoExcedidoError(excedido);
+    }
+    if (avisar) {
+      decision.avisos.forEach(aviso => this.advertir(aviso));
+      if (decision.degradacion) this.advertir(`Modelo rebajado por presupuesto: ${decision.degradacion.motivo}`);
+    }
+    return decision;
+  }
+
+  // Proveedor y modelo pa' la próxima llamada: el del paso si el presupuesto obligó a bajar
+  private llmActual(): { proveedor: ProveedorLLM; modelo: string } {
+    return this.ejecucionActual?.llm || { proveedor: this.config.proveedor, modelo: this.config.modelo };
+  }
+
+  // Rebaja de modelo pa' lo que queda de la ejecución en curso; la configuración del agente no cambia
+  protected bajarModelo(modelo: string, proveedor?: ProveedorLLM): void {
+    const ejecucion = this.ejecucionActual;
+    if (ejecucion) ejecucion.llm = { proveedor: proveedor || this.llmActual().proveedor, modelo };
+  }
+
+  // Liquida la reserva con los tokens reales; si el paso falló, cobra lo gastado y reembolsa el resto
+  private cerrarReserva(input: AgentInput, ejecucion: EjecucionEnCurso, fallo?: string): void {
+    const reservaId = ejecucion.reservaId;
+    if (!reservaId) return;
+    ejecucion.reservaId = undefined;
+    const ledger = CreditLedger.getInstance();
+    const consumos = [...ejecucion.tokensPorModelo].map(([modelo, tokens]) => ({ modelo, tokens }));
+    const asientos = fallo ? ledger.reembolsar(reservaId, fallo, consumos) : ledger.liquidar(reservaId, consumos);
+    const cobrados = asientos.filter(asiento => asiento.tipo === 'liquidacion');
+    ejecucion.creditos = ledger.creditosDe(cobrados.reduce((total, asiento) => total + (asiento.atribucion.tokens || 0), 0));
+    input.contexto.creditosRestantes = ledger.saldo(this.userId).disponible;
+  }
+
+  // Adaptador entre el contrato y el método propio del agente.
+  // Por defecto sirve pa' los agentes con run(contexto, spec); el resto lo sobreescribe.
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    const agente = this as unknown as { run?: (contexto: ContextoProyecto, spec: string) => Promise<unknown> };
+    if (typeof agente.run !== 'function') {
+      throw new Error(`${this.agentName} no implementa run() ni ejecutarTarea()`);
+    }
+    return agente.run(input.contexto, input.spec);
+  }
+
+  // Valida spec y opciones contra el inputSchema declarado en capabilities
+  protected validarEntrada(input: AgentInput): void {
+    const schema = this.capabilities.inputSchema;
+    if (schema.spec.requerido && !input.spec?.trim()) {
+      throw new Error(`${this.agentName}: falta la especificación (${schema.spec.descripcion})`);
+    }
+
+    const opciones = input.opciones || {};
+    for (const [nombre, opcion] of Object.entries(schema.opciones || {})) {
+      const valor = opciones[nombre];
+      if (valor === undefined) {
+        if (opcion.requerido) throw new Error(`${this.agentName}: falta la opción requerida "${nombre}"`);
+        continue;
+      }
+      const tipoReal = Array.isArray(valor)
+        ? (valor.every(v => typeof v === 'string') ? 'string[]' : 'array')
+        : typeof valor;
+      if (tipoReal !== opcion.tipo) {
+        throw new Error(`${this.agentName}: la opción "${nombre}" debe ser ${opcion.tipo} (recibido ${tipoReal})`);
+      }
+      if (opcion.valores && !opcion.valores.includes(valor as string)) {
+        throw new Error(`${this.agentName}: la opción "${nombre}" debe ser una de: ${opcion.valores.join(', ')}`);
+      }
+    }
+
+    const desconocidas = Object.keys(opciones).filter(nombre => !schema.opciones?.[nombre]);
+    if (desconocidas.length > 0) {
+      this.advertir(`Opciones ignoradas: ${desconocidas.join(', ')}`);
+    }
+  }
+
+  // Marca un archivo como escrito en la ejecución actual (aparece en AgentResult.archivos)
+  protected registrarArchivo(ruta: string): void {
+    this.ejecucionActual?.archivos.add(ruta);
+  }
+
+  // Agrega una advertencia no fatal al resultado de la ejecución actual
+  protected advertir(mensaje: string): void {
+    this.ejecucionActual?.advertencias.push(mensaje);
+    if (this.contextoActual) {
+      this.dashboardSync.vivo({ id: this.contextoActual.id }, 'log', { agente: this.agentName, nivel: 'warning', mensaje });
+    }
+  }
+
+  // Línea de progreso del agente: a la consola y, dentro de una ejecución, al canal 'log' del dashboard.
+  // Con datos en vez de nivel (IntegrationAgent, AnalyticsAgent) van en JSON detrás del mensaje, como info
+  protected log(mensaje: string, nivel?: LineaLogVivo['nivel']): void;
+  protected log(mensaje: string, datos: Record<string, unknown>): void;
+  protected log(texto: string, nivelODatos: LineaLogVivo['nivel'] | Record<string, unknown> = 'info'): void {
+    const nivel = typeof nivelODatos === 'string' ? nivelODatos : 'info';
+    const mensaje = typeof nivelODatos === 'string' ? texto : `${texto} ${JSON.stringify(nivelODatos)}`;
+    const salida = nivel === 'error' ? console.error : nivel === 'warning' ? console.warn : console.log;
+    salida(mensaje);
+    if (this.contextoActual) {
+      this.dashboardSync.vivo({ id: this.contextoActual.id }, 'log', { agente: this.agentName, nivel, mensaje });
+    }
+  }
+
+  private contarTokens(tokens: number, modelo: string): void {
+    const ejecucion = this.ejecucionActual;
+    if (!ejecucion) return;
+    ejecucion.tokens += tokens;
+    ejecucion.tokensPorModelo.set(modelo, (ejecucion.tokensPorModelo.get(modelo) || 0) + tokens);
+  }
+
+  // Emite un evento a través del EventBus compartido
+  protected async emitirEvento(eventType: AgentEventType, payload: any): Promise<void> {
+    const eventData = await this.eventBus.emit(eventType, payload, { agentName: this.agentName });
+
+    // MEMORY_STORED ya nace de registrarActividad; registrarlo otra vez sería recursión infinita
+    if (eventType === AgentEventType.MEMORY_STORED) return;
+
     await this.registrarActividad(
       payload.contexto || { id: 'unknown', historial: [] },
       `Evento emitido: ${eventType}`,
@@ -204,23 +447,27 @@ export class BaseAgent {
     );
   }
 
-  // Escucha eventos específicos
-  protected escucharEvento(eventType: AgentEventType, callback: (data: any) => void): void {
-    this.eventBus.on(eventType, callback);
+  // Escucha eventos: tipo exacto, '*' o patrón como '*_ERROR'; replay entrega lo ya emitido
+  protected escucharEvento(
+    eventType: AgentEventPattern,
+    callback: (data: AgentEvent) => void | Promise<void>,
+    opciones: { replay?: boolean | number } = {}
+  ): () => void {
+    return this.eventBus.on(eventType, callback, opciones);
   }
 
   // Crea contexto inicial, alineado con dashboard y modelo de negocio
-  async crearContextoInicial(nombreProyecto: string): Promise<ContextoProyecto> {
-    const licencia = this.extensionAgent.validarLicencia(this.userId);
-    const creditos = this.extensionAgent.obtenerCreditos(this.userId);
-
-    if (licencia === 'Community' && nombreProyecto.length > 50) {
-      throw new Error('Community Edition limita nombres a 50 caracteres');
-    }
+  // Sin id es un proyecto nuevo; con uno ya contado (el del directorio, el de una tarea) no gasta cupo
+  async crearContextoInicial(nombreProyecto: string, id: string = uuidv4()): Promise<ContextoProyecto> {
+    const licencia = LicenseManager.getInstance().tier();
+    const creditos = CreditLedger.getInstance().saldo(this.userId).disponible;
+    const derechos = Entitlements.getInstance();
+    derechos.comprobarLimite('caracteresNombre', nombreProyecto.length);
+    derechos.consumir('proyectos', this.userId, id);
 
     const now = new Date().toISOString();
     const contexto: ContextoProyecto = {
-      id: uuidv4(),
+      id,
       nombre: nombreProyecto,
       creado: now,
       ultimaActualizacion: now,
@@ -264,10 +511,11 @@ export class BaseAgent {
       fecha: new Date().toISOString(),
       accion,
       datos,
-      correlationId: uuidv4(),
+      correlationId: this.eventBus.currentCorrelationId() || uuidv4(), // Hereda la cadena de eventos si la hay
       eventType, // Nuevo: Registrar el tipo de evento
     };
     contexto.historial.push(entry);
+    this.dashboardSync.actividad({ id: contexto.id, nombre: contexto.nombre }, entry, this.ejecucionActual?.stepId);
     await this.memoryAgent.store(entry, { tipo: 'actividad', proyectoId: contexto.id });
     await this.emitirEvento(AgentEventType.MEMORY_STORED, { entry, contexto });
     await this.securityAgent.auditarActividad(entry); // Auditoría
@@ -275,9 +523,7 @@ export class BaseAgent {
 
   // Avanza nivel contextual, con límites por licencia
   async avanzarNivel(contexto: ContextoProyecto): Promise<ContextoProyecto> {
-    if (contexto.licencia === 'Community' && contexto.nivelContextual >= 2) {
-      throw new Error('Community Edition limita a nivel 2');
-    }
+    this.comprobarCupo('nivelContextual', contexto.nivelContextual + 1);
     contexto.nivelContextual = Math.min(contexto.nivelContextual + 1, 5);
     await this.registrarActividad(contexto, 'avance de nivel', { nuevoNivel: contexto.nivelContextual }, AgentEventType.ORCHESTRATION_COMPLETED);
     return contexto;
@@ -332,39 +578,26 @@ export class BaseAgent {
     return contexto;
   }
 
-  // Ejecuta prompt en API de IA, con optimización de créditos
-  async ejecutarPrompt(contexto: ContextoProyecto, prompt: string): Promise<string> {
-    if (contexto.licencia === 'Community' && !this.estaOnline()) {
-      if (prompt.length > 500) {
-        throw new Error('Community Edition limita prompts offline a 500 caracteres');
-      }
-    }
-
-    if (contexto.creditosRestantes < 10) {
-      await vscode.window.showErrorMessage('Créditos insuficientes. Recarga en el dashboard.');
-      throw new Error('Créditos insuficientes');
-    }
-
+  // Ejecuta prompt en API de IA, con optimización de créditos: una respuesta de la caché no gasta créditos.
+  // Con secciones, si el prompt no cabe en la ventana del modelo se recortan primero las de menor prioridad
+  async ejecutarPrompt(contexto: ContextoProyecto, prompt: string | SeccionPrompt[]): Promise<string> {
+    const textoPrompt = typeof prompt === 'string' ? prompt : renderizarSecciones(prompt);
     const startTime = Date.now();
-    await this.emitirEvento(AgentEventType.QUESTION_REQUESTED, { contexto, prompt });
+    await this.emitirEvento(AgentEventType.QUESTION_REQUESTED, { contexto, prompt: textoPrompt });
 
     try {
-      const respuesta = await this.apiProxy.ejecutar({
-        proveedor: this.config.proveedor,
-        modelo: this.config.modelo,
-        prompt,
-        maxTokens: this.config.maxTokens,
-      });
-
-      const tokensUsados = respuesta.tokens || 100; // Placeholder
-      contexto.creditosRestantes -= tokensUsados / 100; // 100 tokens = 1 crédito
+      const respuesta = await this.consultarLLM(prompt, contexto);
+      const tokensUsados = respuesta.tokens; // 0 si salió de la caché
+      contexto.creditosRestantes = CreditLedger.getInstance().saldo(this.userId).disponible;
       contexto.metricas.tokensUsados += tokensUsados;
+      contexto.metricas.tokensPrompt = (contexto.metricas.tokensPrompt || 0) + respuesta.tokensPrompt;
+      contexto.metricas.tokensRespuesta = (contexto.metricas.tokensRespuesta || 0) + respuesta.tokensRespuesta;
       contexto.metricas.tiempoEjecucion += Date.now() - startTime;
 
       await this.registrarActividad(
         contexto,
         'prompt ejecutado',
-        { prompt, tokensUsados },
+        { transcripcionId: respuesta.transcripcionId, tokensUsados, tokensPrompt: respuesta.tokensPrompt, tokensRespuesta: respuesta.tokensRespuesta, recortes: respuesta.recortes, cache: respuesta.cache },
         AgentEventType.QUESTION_PROCESSED
       );
       await this.emitirEvento(AgentEventType.DASHBOARD_UPDATED, { contexto });
@@ -373,15 +606,170 @@ export class BaseAgent {
         proyectoId: contexto.id,
         creditos: contexto.creditosRestantes,
         tokensUsados,
+        cache: LLMCache.getInstance().estadisticas(),
       });
 
       return respuesta.resultado;
     } catch (error) {
-      await this.emitirEvento(AgentEventType.COMPONENT_ERROR, { contexto, error: error.message });
+      await this.emitirEvento(AgentEventType.COMPONENT_ERROR, { contexto, error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
   }
 
+  // Consulta al LLM sin historial ni métricas de proyecto, pa' agentes sin ContextoProyecto; el saldo,
+  // el presupuesto y el cobro son los mismos que en ejecutarPrompt
+  protected async queryLLM(prompt: string | SeccionPrompt[]): Promise<string> {
+    return (await this.consultarLLM(prompt, this.contextoActual)).resultado;
+  }
+
+  // Lo común a ejecutarPrompt y queryLLM. Dentro de un paso los créditos ya están reservados y se liquidan
+  // al cerrarlo; fuera, hace falta el mínimo disponible y cada respuesta se cobra al momento
+  private async consultarLLM(prompt: string | SeccionPrompt[], contexto?: ContextoProyecto): Promise<RespuestaAPI> {
+    const textoPrompt = typeof prompt === 'string' ? prompt : renderizarSecciones(prompt);
+    if (!this.estaOnline()) {
+      this.comprobarCupo('caracteresPromptOffline', textoPrompt.length);
+    }
+
+    const ledger = CreditLedger.getInstance();
+    const ejecucion = this.ejecucionActual;
+    const enPaso = Boolean(ejecucion?.reservaId);
+    const { disponible } = ledger.saldo(this.userId);
+    if (!enPaso && disponible < devmindConfig.creditos.minimo) {
+      await vscode.window.showErrorMessage('Créditos insuficientes. Recarga en el dashboard.');
+      throw new CreditosInsuficientesError(this.userId, devmindConfig.creditos.minimo, disponible);
+    }
+
+    // Lo que el paso ya gastó por encima de su reserva también cuenta pa'l límite
+    let llm = this.llmActual();
+    if (enPaso && ejecucion?.alcance) {
+      const exceso = Math.max(0, ledger.creditosDe(ejecucion.tokens) - ejecucion.reservado);
+      await this.revisarPresupuesto(contexto, ejecucion.alcance, exceso, false);
+    } else if (!enPaso) {
+      const decision = await this.revisarPresupuesto(contexto, { userId: this.userId, proyectoId: contexto?.id, agente: this.agentName }, 0, true);
+      if (decision.degradacion) {
+        llm = { proveedor: (decision.degradacion.proveedor as ProveedorLLM | undefined) || llm.proveedor, modelo: decision.degradacion.modelo };
+      }
+    }
+
+    const respuesta = await this.apiProxy.ejecutar({
+      proveedor: llm.proveedor,
+      modelo: llm.modelo,
+      prompt,
+      maxTokens: this.config.maxTokens,
+      origen: this.origenPrompt(contexto),
+    });
+    this.registrarConsumo(respuesta, contexto);
+    this.transcribir(textoPrompt, respuesta, contexto);
+    if (!enPaso) {
+      ledger.cobrar({ userId: this.userId, proyectoId: contexto?.id, agente: this.agentName, modelo: respuesta.modelo, tokens: respuesta.tokens });
+    }
+    return respuesta;
+  }
+
+  /**
+   * Respuesta JSON validada contra el esquema de `definicion`. Si no es válida, los errores vuelven
+   * al LLM (llm.maxReparaciones veces) y, si sigue mal, SalidaInvalidaError. Sin contexto va por queryLLM.
+   * Las respuestas inválidas se sacan de la caché pa' que un nuevo intento no repita el fallo.
+   */
+  protected async salidaEstructurada<T>(
+    definicion: DefinicionSalida<T>,
+    prompt: string | SeccionPrompt[],
+    contexto?: ContextoProyecto
+  ): Promise<T> {
+    const preguntar = (texto: string | SeccionPrompt[]) => (contexto ? this.ejecutarPrompt(contexto, texto) : this.queryLLM(texto));
+    const descartarUltima = () => {
+      const clave = this.ejecucionActual ? this.ejecucionActual.ultimaClaveCache : this.ultimaClaveCache;
+      if (clave) LLMCache.getInstance().descartar(clave);
+    };
+
+    try {
+      const { valor, reparaciones } = await obtenerSalida(definicion, await preguntar(prompt), {
+        maxReparaciones: devmindConfig.llm.maxReparaciones,
+        reparar: async (promptReparacion, errores, intento) => {
+          descartarUltima();
+          this.advertir(`Respuesta de ${definicion.nombre} inválida (intento ${intento}), pidiendo reparación:\n${formatearErrores(errores)}`);
+          if (contexto) await this.registrarActividad(contexto, 'salida inválida', { salida: definicion.nombre, intento, errores });
+          return preguntar(promptReparacion);
+        },
+      });
+      if (contexto && reparaciones > 0) {
+        await this.registrarActividad(contexto, 'salida reparada', { salida: definicion.nombre, reparaciones });
+      }
+      return valor;
+    } catch (error) {
+      if (error instanceof SalidaInvalidaError) descartarUltima();
+      throw error;
+    }
+  }
+
+  // Agente y paso pa' la transcripción del APIProxy (el correlationId lo pone él desde el EventBus)
+  private origenPrompt(contexto: ContextoProyecto | undefined = this.contextoActual): OrigenTranscripcion {
+    return { agente: this.agentName, proyectoId: contexto?.id, stepId: this.ejecucionActual?.stepId };
+  }
+
+  // Prompt y respuesta al detalle del paso en el dashboard (DashboardSync los redacta)
+  private transcribir(prompt: string, respuesta: RespuestaAPI, contexto: ContextoProyecto | undefined = this.contextoActual): void {
+    if (!contexto) return;
+    this.dashboardSync.prompt({ id: contexto.id, nombre: contexto.nombre }, {
+      agente: this.agentName,
+      stepId: this.ejecucionActual?.stepId,
+      modelo: respuesta.modelo,
+      prompt,
+      respuesta: respuesta.resultado,
+      tokens: respuesta.tokens,
+      duracionMs: respuesta.latenciaMs,
+      cache: respuesta.cache,
+    });
+  }
+
+  // Tokens reales al AgentResult (y al dashboard, con el proyecto si lo hay) y aviso si hubo que recortar el prompt pa' que cupiera
+  private registrarConsumo(respuesta: RespuestaAPI, contexto: ContextoProyecto | undefined = this.contextoActual): void {
+    const ejecucion = this.ejecucionActual;
+    if (ejecucion) {
+      ejecucion.ultimaClaveCache = respuesta.claveCache;
+    } else {
+      this.ultimaClaveCache = respuesta.claveCache;
+    }
+    this.contarTokens(respuesta.tokens, respuesta.modelo);
+    if (contexto && respuesta.tokens > 0) {
+      this.dashboardSync.uso({ id: contexto.id, nombre: contexto.nombre }, {
+        agente: this.agentName,
+        proveedor: respuesta.proveedor,
+        modelo: respuesta.modelo,
+        tokens: respuesta.tokens,
+        creditos: CreditLedger.getInstance().creditosDe(respuesta.tokens),
+        stepId: this.ejecucionActual?.stepId,
+      });
+    }
+    if (respuesta.recortes.length > 0) {
+      const detalle = respuesta.recortes
+        .map(r => `${r.nombre} ${r.tokensAntes}→${r.tokensDespues}${r.resumida ? ' (resumida)' : ''}`)
+        .join(', ');
+      this.advertir(`Prompt recortado pa' caber en la ventana de ${this.config.modelo}: ${detalle}`);
+    }
+  }
+
+  // Código, documentación, decisiones e historial relevantes pa' un prompt, dentro del presupuesto de tokens.
+  // Con el proyecto, su historial entra como candidato y las fuentes usadas quedan en la actividad
+  protected async contextoRelevante(consulta: string, opciones: OpcionesContexto = {}, proyecto?: ContextoProyecto): Promise<ContextoEnsamblado> {
+    const historial = proyecto?.historial.map(entry => ({ fecha: entry.fecha, descripcion: entry.accion, agente: entry.agente })) || [];
+    const ensamblado = await ContextAssembler.getInstance().ensamblar(consulta, {
+      agente: this.agentName,
+      ...opciones,
+      historial: [...historial, ...(opciones.historial || [])],
+    });
+    if (proyecto) {
+      await this.registrarActividad(proyecto, 'contexto ensamblado', { tokens: ensamblado.tokens, fuentes: ensamblado.fuentes.map(f => f.origen) });
+    }
+    return ensamblado;
+  }
+
+  // Lo que un prompt necesita del proyecto: sin historial, métricas ni estado de la orquestación
+  protected resumenProyecto(contexto: ContextoProyecto): string {
+    const { id, nombre, faseActual, idea, problema, usuarios, metas, riesgos, modulos, tags, licencia, nivelContextual } = contexto;
+    return JSON.stringify({ id, nombre, faseActual, idea, problema, usuarios, metas, riesgos, modulos, tags, licencia, nivelContextual }, null, 2);
+  }
+
   // Guarda contexto en archivo y MemoryAgent
   async guardarContexto(contexto: ContextoProyecto, ruta: string): Promise<void> {
     contexto.ultimaActualizacion = new Date().toISOString();
@@ -400,6 +788,7 @@ export class BaseAgent {
     if (fs.existsSync(ruta)) {
       const data = fs.readFileSync(ruta, 'utf-8');
       const contexto = JSON.parse(data) as ContextoProyecto;
+      contexto.licencia = LicenseManager.getInstance().tier();
       await this.registrarActividad(
         contexto,
         'contexto cargado',
@@ -410,6 +799,7 @@ export class BaseAgent {
     }
     const fromMemory = await this.memoryAgent.recuperar<ContextoProyecto>({ tipo: 'contexto', ruta });
     if (fromMemory) {
+      fromMemory.licencia = LicenseManager.getInstance().tier();
       await this.registrarActividad(
         fromMemory,
         'contexto cargado desde memoria',
@@ -470,16 +860,21 @@ export class BaseAgent {
         proyectoId: contexto.id,
       });
 
-      if (contexto.metricas.tokensUsados > 5000) {
-        const nuevoModelo = this.config.modelo === 'GPT-4' ? 'GPT-3.5' : 'Mistral';
-        this.config.modelo = nuevoModelo;
+      // Cerca de un límite de presupuesto se baja de modelo según presupuestos.degradacion, solo pa' la
+      // ejecución en curso; fuera de un paso cada llamada al LLM ya evalúa su propia rebaja
+      const { degradacion } = BudgetManager.getInstance().evaluar(
+        { userId: this.userId, proyectoId: contexto.id, agente: this.agentName },
+        { modelo: this.llmActual().modelo }
+      );
+      if (degradacion) {
+        this.bajarModelo(degradacion.modelo, degradacion.proveedor as ProveedorLLM | undefined);
         await this.registrarActividad(
           contexto,
           'mejora propuesta',
-          { nuevoModelo },
+          { nuevoModelo: degradacion.modelo, motivo: degradacion.motivo },
           AgentEventType.SELF_IMPROVEMENT_COMPLETED
         );
-        return `Cambiando a ${nuevoModelo} pa’ optimizar créditos`;
+        return `Cambiando a ${degradacion.modelo} pa’ optimizar créditos (${degradacion.motivo})`;
       }
 
       if (contexto.metricas.tiempoEjecucion > 10000) {
@@ -516,7 +911,7 @@ export class BaseAgent {
       await this.emitirEvento(AgentEventType.SELF_IMPROVEMENT_COMPLETED, { contexto, sugerencia: null });
       return null;
     } catch (error) {
-      await this.emitirEvento(AgentEventType.SELF_IMPROVEMENT_ERROR, { contexto, error: error.message });
+      await this.emitirEvento(AgentEventType.SELF_IMPROVEMENT_ERROR, { contexto, error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
   }
@@ -536,7 +931,7 @@ export class BaseAgent {
       );
       await this.emitirEvento(AgentEventType.CODE_REVIEW_COMPLETED, { contexto, qualityScore });
     } catch (error) {
-      await this.emitirEvento(AgentEventType.CODE_REVIEW_ERROR, { contexto, error: error.message });
+      await this.emitirEvento(AgentEventType.CODE_REVIEW_ERROR, { contexto, error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
   }
@@ -556,7 +951,7 @@ export class BaseAgent {
       );
       await this.emitirEvento(AgentEventType.TEST_CREATED, { contexto, testCoverage });
     } catch (error) {
-      await this.emitirEvento(AgentEventType.TEST_ERROR, { contexto, error: error.message });
+      await this.emitirEvento(AgentEventType.TEST_ERROR, { contexto, error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
   }
@@ -574,7 +969,7 @@ export class BaseAgent {
       );
       await this.emitirEvento(AgentEventType.COMPONENT_CREATED, { contexto, componente });
     } catch (error) {
-      await this.emitirEvento(AgentEventType.COMPONENT_ERROR, { contexto, error: error.message });
+      await this.emitirEvento(AgentEventType.COMPONENT_ERROR, { contexto, error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
   }
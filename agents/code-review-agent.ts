@@ -1,4 +1,5 @@
-import { BaseAgent, AgentEventType } from './base-agent';
+import { BaseAgent, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import { execSync } from 'child_process';
@@ -40,6 +41,29 @@ interface CodeReviewOptions {
 }
 
 export class CodeReviewAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'codeReview',
+    agente: 'CodeReviewAgent',
+    categoria: 'calidad',
+    descripcion: 'Revisa código y calcula un score de calidad',
+    escribeArchivos: false,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Ruta del archivo a revisar', requerido: true },
+      opciones: {
+        code: { tipo: 'string', descripcion: 'Código a revisar (si no se lee de la ruta)' },
+        strictMode: { tipo: 'boolean', descripcion: 'Revisión estricta' },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: spec = ruta del archivo; opciones.code permite revisar código en memoria
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    const options: CodeReviewOptions = { ...this.defaultOptions };
+    if (input.opciones?.strictMode !== undefined) options.strictMode = input.opciones.strictMode as boolean;
+    return this.reviewCode((input.opciones?.code as string) || '', input.spec, options);
+  }
+
   private reviewHistory: Map<string, ReviewResult[]>;
   private defaultOptions: CodeReviewOptions;
   private securityPatterns: RegExp[];
@@ -48,8 +72,9 @@ export class CodeReviewAgent extends BaseAgent {
   private styleGuides: Map<string, any>;
   private lastReviewTimestamp: Map<string, number>;
 
-  constructor() {
-    super('Code Review Agent');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'CodeReviewAgent';
     this.reviewHistory = new Map<string, ReviewResult[]>();
     this.lastReviewTimestamp = new Map<string, number>();
     this.defaultOptions = {
@@ -1,4 +1,7 @@
-import { BaseAgent, AgentEventType, ContextoProyecto } from './base-agent';
+import { BaseAgent, AgentEventType, ContextoProyecto, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities } from '../types/agent-runner';
+import { extraerBloquesCodigo } from '../services/structured-output';
+import { LicenseManager } from '../services/license-manager';
 import fs from 'fs';
 import path from 'path';
 import { execSync } from 'child_process';
@@ -52,6 +55,17 @@ interface ComponentResult {
  * 10. Generar estados (hover, focus, disabled) para componentes interactivos
  */
 export class ComponentAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'component',
+    agente: 'ComponentAgent',
+    categoria: 'frontend',
+    descripcion: 'Crea componentes React basados en el sistema de diseño',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación del componente', requerido: true },
+    },
+  };
   private designSystem: any = {};
   private componentLibrary: string = 'react';
   private stylingMethod: string = 'tailwind';
@@ -63,7 +77,7 @@ export class ComponentAgent extends BaseAgent {
   private supportedFrameworks: string[] = ['react', 'vue', 'angular', 'svelte'];
   private accessibilityLevel: string = 'AA'; // WCAG nivel AA por defecto
   
-  constructor(userId: string) {
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
     super(userId);
     this.agentName = 'ComponentAgent';
     this.registerEventHandlers();
@@ -77,14 +91,14 @@ export class ComponentAgent extends BaseAgent {
    */
   private initializeRelatedAgents(): void {
     try {
-      // Estos agentes solo están disponibles en licencias Professional y Enterprise
-      if (this.licenseType !== 'Community') {
+      // Estos agentes solo están disponibles en licencias que incluyen 'agentes-relacionados'
+      if (this.puede('agentes-relacionados')) {
         this.styleAgent = new StyleAgent(this.userId);
         this.testAgent = new TestAgent(this.userId);
         this.codeReviewAgent = new CodeReviewAgent(this.userId);
         this.log('🔄 Agentes relacionados inicializados correctamente');
       } else {
-        this.log('ℹ️ Agentes relacionados no disponibles en licencia Community');
+        this.log(`ℹ️ Agentes relacionados no disponibles en licencia ${LicenseManager.getInstance().tier()}`);
       }
     } catch (error) {
       this.log(`❌ Error inicializando agentes relacionados: ${error.message}`, 'error');
@@ -110,7 +124,7 @@ export class ComponentAgent extends BaseAgent {
         const contexto: ContextoProyecto = {
           id: message.content.projectId || 'default',
           nombre: message.content.projectName || 'Proyecto sin nombre',
-          licencia: this.licenseType,
+          licencia: LicenseManager.getInstance().tier(),
           usuario: this.userId,
           timestamp: new Date().toISOString(),
           directorio: message.content.projectDir || process.cwd()
@@ -193,17 +207,17 @@ export class ComponentAgent extends BaseAgent {
       const result = await this.generateComponent(contexto, componentName, componentSpec, config);
       
       // Solicitar estilos al StyleAgent si está disponible
-      if (this.styleAgent && contexto.licencia !== 'Community') {
+      if (this.styleAgent && this.puede('agentes-relacionados')) {
         await this.requestStyles(contexto, componentName, config);
       }
       
       // Solicitar pruebas al TestAgent si está disponible
-      if (this.testAgent && contexto.licencia !== 'Community') {
+      if (this.testAgent && this.puede('agentes-relacionados')) {
         await this.requestTests(contexto, componentName, config);
       }
       
       // Solicitar revisión de código al CodeReviewAgent si está disponible
-      if (this.codeReviewAgent && contexto.licencia !== 'Community') {
+      if (this.codeReviewAgent && this.puede('agentes-relacionados')) {
         await this.requestCodeReview(contexto, componentName, result.files.component);
       }
       
@@ -396,7 +410,7 @@ export class ComponentAgent extends BaseAgent {
       }
       
       // Si no existe, solicitar al StyleAgent si está disponible
-      if (this.styleAgent && contexto.licencia !== 'Community') {
+      if (this.styleAgent && this.puede('agentes-relacionados')) {
         this.log('🔄 Solicitando sistema de diseño a StyleAgent...');
         await this.styleAgent.run(contexto, 'generate-design-system');
         return;
@@ -681,49 +695,33 @@ export class ComponentAgent extends BaseAgent {
   }
   
   /**
-   * Extrae bloques de código de la respuesta del LLM
+   * Extrae el bloque de código de un tipo (Component, Storybook, Test, Docs, Styles) de la respuesta del LLM.
+   * Una misma respuesta puede traer varios bloques: se elige por contenido, luego por extensión,
+   * luego el primero; sin bloques se usa el texto completo.
    * @param text Texto de respuesta
    * @param extension Extensión del archivo
    * @param type Tipo de archivo
    */
   private extractCodeBlock(text: string, extension: string, type: string): string {
-    // Crear un patrón que incluya varias posibilidades de lenguaje
-    const languageOptions = [
-      extension,
-      'typescript', 'javascript', 'tsx', 'jsx', 'vue', 'svelte', 'html', 'css',
-      'scss', 'less', 'markdown', 'md', 'angular', 'ng'
-    ].join('|');
-    
-    const regex = new RegExp(`\`\`\`(?:${languageOptions})([\\s\\S]*?)\`\`\``, 'g');
-    const matches = [...text.matchAll(regex)];
-    
-    // Buscar el bloque que corresponde al tipo
-    for (const match of matches) {
-      const code = match[1].trim();
-      
-      // Identificar el tipo de archivo por su contenido
-      if (type === 'Component' && this.isComponentCode(code, extension)) {
-        return code;
-      } else if (type === 'Storybook' && code.includes('stories') || code.includes('Story')) {
-        return code;
-      } else if (type === 'Test' && (code.includes('test') || code.includes('spec') || code.includes('describe') || code.includes('it('))) {
-        return code;
-      } else if (      type === 'Docs' && (code.includes('# ') || code.includes('## ')) {
-        return code;
-      } else if (type === 'Styles' && (code.includes('style') || code.includes('css') || code.includes('@media'))) {
-        return code;
-      }
+    const bloques = extraerBloquesCodigo(text).map(bloque => ({ ...bloque, codigo: bloque.codigo.trim() }));
+    if (bloques.length === 0) {
+      this.log(`⚠️ No se encontró bloque de código para ${type}, usando texto completo`, 'warning');
+      return text.trim();
     }
     
-    // Si no se encontró un bloque específico, buscar cualquier bloque que coincida con la extensión
-    for (const match of matches) {
-      if (match[0].includes(extension)) {
-        return match[1].trim();
+    // Identificar el tipo de archivo por su contenido
+    const porTipo = bloques.find(({ codigo }) => {
+      switch (type) {
+        case 'Component': return this.isComponentCode(codigo, extension);
+        case 'Storybook': return codigo.includes('stories') || codigo.includes('Story');
+        case 'Test': return codigo.includes('test') || codigo.includes('spec') || codigo.includes('describe') || codigo.includes('it(');
+        case 'Docs': return codigo.includes('# ') || codigo.includes('## ');
+        case 'Styles': return codigo.includes('style') || codigo.includes('css') || codigo.includes('@media');
+        default: return false;
       }
-    }
+    });
     
-    // Si no se encontró ningún bloque, devolver el primer bloque
-    return matches.length > 0 ? matches[0][1].trim() : '';
+    return (porTipo || bloques.find(bloque => bloque.lenguaje === extension) || bloques[0]).codigo;
   }
   
   /**
@@ -1294,7 +1292,7 @@ export class ComponentAgent extends BaseAgent {
       }
       
       // Solicitar revisión de código al CodeReviewAgent si está disponible
-      if (this.codeReviewAgent && contexto.licencia !== 'Community') {
+      if (this.codeReviewAgent && this.puede('agentes-relacionados')) {
         await this.requestCodeReview(contexto, componentName, componentCode);
       }
       
@@ -1518,7 +1516,7 @@ export class ComponentAgent extends BaseAgent {
         this.log(`✅ Análisis completado y guardado en: ${analysisFilePath}`);
         
         // Solicitar revisión de código si está disponible
-        if (this.codeReviewAgent && contexto.licencia !== 'Community') {
+        if (this.codeReviewAgent && this.puede('agentes-relacionados')) {
           await this.requestCodeReview(contexto, componentName, componentCode);
         }
         
@@ -1716,7 +1714,7 @@ export class ComponentAgent extends BaseAgent {
       const framework = this.detectFramework(extension, componentCode);
       
       // Si TestAgent está disponible, solicitar pruebas
-      if (this.testAgent && contexto.licencia !== 'Community') {
+      if (this.testAgent && this.puede('agentes-relacionados')) {
         this.log(`🔄 Solicitando pruebas a TestAgent...`);
         await this.requestTests(contexto, componentName, {
           name: componentName,
@@ -1794,7 +1792,7 @@ export class ComponentAgent extends BaseAgent {
       const framework = this.detectFramework(extension, componentCode);
       
       // Si StyleAgent está disponible, solicitar estilos
-      if (this.styleAgent && contexto.licencia !== 'Community') {
+      if (this.styleAgent && this.puede('agentes-relacionados')) {
         this.log(`🔄 Solicitando estilos a StyleAgent...`);
         await this.requestStyles(contexto, componentName, {
           name: componentName,
@@ -2024,7 +2022,7 @@ export class ComponentAgent extends BaseAgent {
       this.log(`📝 Explicación guardada en: ${explanationFilePath}`);
       
       // Solicitar revisión de código si está disponible
-      if (this.codeReviewAgent && contexto.licencia !== 'Community') {
+      if (this.codeReviewAgent && this.puede('agentes-relacionados')) {
         await this.requestCodeReview(contexto, `${componentName}.optimized`, optimizedCode);
       }
       
@@ -2164,7 +2162,7 @@ export class ComponentAgent extends BaseAgent {
             const contexto: ContextoProyecto = {
               nombre: event.data.projectName || 'Proyecto sin nombre',
               descripcion: event.data.projectDescription || 'Sin descripción',
-              licencia: event.data.license || 'Community',
+              licencia: LicenseManager.getInstance().tier(), // La del evento no cuenta: manda la licencia firmada
               version: event.data.version || '1.0.0',
               autor: event.data.author || 'Usuario',
               fecha: new Date().toISOString(),
@@ -2354,41 +2352,6 @@ export class ComponentAgent extends BaseAgent {
     }
   }
   
-  /**
-   * Extrae un bloque de código de un texto
-   * @param text Texto que contiene el bloque de código
-   * @param extension Extensión del archivo
-   * @param type Tipo de código (Component, Test, Styles, etc.)
-   */
-  private extractCodeBlock(text: string, extension: string, type: string): string {
-    try {
-      // Buscar bloques de código con la extensión especificada
-      const regex = new RegExp(`\`\`\`(?:${extension})?\\s*([\\s\\S]*?)\\s*\`\`\``, 'g');
-      const matches = [...text.matchAll(regex)];
-      
-      if (matches.length > 0) {
-        // Devolver el primer bloque de código encontrado
-        return matches[0][1].trim();
-      }
-      
-      // Si no se encuentra un bloque con la extensión específica, buscar cualquier bloque de código
-      const genericRegex = /```(?:\w+)?\s*([\s\S]*?)\s*```/g;
-      const genericMatches = [...text.matchAll(genericRegex)];
-      
-      if (genericMatches.length > 0) {
-        // Devolver el primer bloque de código genérico
-        return genericMatches[0][1].trim();
-      }
-      
-      // Si no se encuentra ningún bloque de código, devolver el texto completo
-      this.log(`⚠️ No se encontró bloque de código para ${type}, usando texto completo`, 'warning');
-      return text.trim();
-    } catch (error) {
-      this.log(`❌ Error extrayendo bloque de código: ${error.message}`, 'error');
-      return text.trim();
-    }
-  }
-  
   /**
    * Obtiene la extensión de archivo según el tipo y framework
    * @param type Tipo de archivo (component, test, styles, storybook)
@@ -2431,46 +2394,6 @@ export class ComponentAgent extends BaseAgent {
     }
   }
   
-  /**
-   * Registra una actividad en el historial
-   * @param contexto Contexto del proyecto
-   * @param tipo Tipo de actividad
-   * @param datos Datos adicionales
-   */
-  private async registrarActividad(contexto: ContextoProyecto, tipo: string, datos: any = {}): Promise<void> {
-    try {
-      const actividad = {
-        agente: 'ComponentAgent',
-        tipo,
-        datos,
-        timestamp: new Date().toISOString(),
-        contexto: {
-          id: contexto.id,
-          nombre: contexto.nombre,
-          tipo: contexto.tipo
-        }
-      };
-      
-      // Guardar actividad en el historial
-      const historialDir = path.join(this.componentsDir, '../historial');
-      if (!fs.existsSync(historialDir)) {
-        fs.mkdirSync(historialDir, { recursive: true });
-      }
-      
-      const historialFilePath = path.join(historialDir, `${contexto.id}.json`);
-      
-      let historial = [];
-      if (fs.existsSync(historialFilePath)) {
-        historial = JSON.parse(fs.readFileSync(historialFilePath, 'utf-8'));
-      }
-      
-      historial.push(actividad);
-      fs.writeFileSync(historialFilePath, JSON.stringify(historial, null, 2));
-    } catch (error) {
-      this.log(`❌ Error registrando actividad: ${error.message}`, 'error');
-    }
-  }
-  
   /**
    * Envía un evento a otro agente
    * @param type Tipo de evento
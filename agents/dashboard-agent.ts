@@ -1,7 +1,11 @@
-import { BaseAgent, AgentEventType } from './base-agent';
+import { BaseAgent, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
+import { AgentEventPattern } from '../types/agent-types';
+import { CacheVivo } from '../types/realtime-types';
 import fs from 'fs';
 import path from 'path';
 import { exec } from 'child_process';
+import { extraerBloquesCodigo } from '../services/structured-output';
 
 /**
  * Dashboard Agent - Crea y gestiona el dashboard visual del proyecto
@@ -14,12 +18,30 @@ import { exec } from 'child_process';
  * 5. Mantener el estado global del sistema
  */
 export class DashboardAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'dashboard',
+    agente: 'DashboardAgent',
+    categoria: 'infraestructura',
+    descripcion: 'Crea y gestiona el dashboard visual del proyecto',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Acción (init, start, stop, status, update) o personalización', requerido: true, operaciones: ['update:'] },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
   private dashboardDir: string;
   private serverProcess: any;
   private isRunning: boolean = false;
   
-  constructor() {
-    super('Dashboard Agent');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'DashboardAgent';
     this.dashboardDir = path.join(process.cwd(), 'dashboard');
     
     // Registrar manejadores de eventos específicos para el dashboard
@@ -52,16 +74,51 @@ export class DashboardAgent extends BaseAgent {
         await this.updateAgentStatus();
       }
     });
+
+    // Resultados de calidad emitidos por TestAgent y CodeReviewAgent durante la orquestación
+    this.listenForEvent(AgentEventType.TEST_CREATED, async (event) => {
+      this.log(`🧪 ${event.agentName} generó pruebas (cobertura: ${event.payload.testCoverage ?? 'n/d'}%)`);
+      if (this.isRunning) {
+        await this.updateAgentStatus();
+      }
+    });
+
+    this.listenForEvent(AgentEventType.CODE_REVIEW_COMPLETED, async (event) => {
+      this.log(`🔍 Revisión de código completada (score: ${event.payload.qualityScore ?? 'n/d'})`);
+      if (this.isRunning) {
+        await this.updateAgentStatus();
+      }
+    });
+
+    // Cualquier *_ERROR de cualquier agente
+    this.listenForEvent('*_ERROR', async (event) => {
+      this.log(`❌ ${event.type} en ${event.agentName}: ${event.payload.error}`, 'error');
+    });
   }
   
   /**
    * Escucha un tipo específico de evento
+   * Usa replay pa' recibir lo que otros agentes emitieron antes de que el dashboard arrancara
    */
-  private listenForEvent(eventType: AgentEventType, handler: Function): void {
-    // Implementar usando el sistema de eventos de BaseAgent
-    this.on(eventType, (message) => {
+  private listenForEvent(eventType: AgentEventPattern, handler: Function): void {
+    this.escucharEvento(eventType, (message) => {
       handler(message);
-    });
+    }, { replay: true });
+  }
+  
+  /**
+   * Estado y progreso que los agentes quieren mostrar en el dashboard: van al canal `flujo` del proyecto
+   * (GET /api/stream) vía DashboardSync, y las estadísticas de la caché del LLM al canal `cache`.
+   * El resto de campos (métricas, tags…) ya llega con la actividad
+   */
+  async actualizarWebview(actualizacion: { proyectoId: string; estado?: string; progreso?: number; cache?: CacheVivo; [campo: string]: unknown }): Promise<void> {
+    const { proyectoId, estado, progreso, cache } = actualizacion;
+    if (estado !== undefined || progreso !== undefined) {
+      this.dashboardSync.vivo({ id: proyectoId }, 'flujo', { estado, progreso });
+    }
+    if (cache) {
+      this.dashboardSync.vivo({ id: proyectoId }, 'cache', cache);
+    }
   }
   
   /**
@@ -118,8 +175,10 @@ export class DashboardAgent extends BaseAgent {
     
     // Iniciar el servidor
     try {
-      // Crear un servidor WebSocket para comunicación en tiempo real
-      this.setupWebSocketServer();
+      // Lo que pasa en vivo (agentes, pasos, logs, créditos, revisiones) lo sirve la API en GET /api/stream
+      if (!this.dashboardSync.activo()) {
+        this.log('⚠️ Sin CJ_DASHBOARD_URL y CJ_DASHBOARD_TOKEN el dashboard no recibe nada en vivo', 'warning');
+      }
       
       // Iniciar el servidor Next.js
       this.serverProcess = exec('cd dashboard && npm run dev', (error, stdout, stderr) => {
@@ -201,203 +260,6 @@ export class DashboardAgent extends BaseAgent {
     }
   }
   
-  /**
-   * Configura un servidor WebSocket para comunicación en tiempo real
-   */
-  private setupWebSocketServer(): void {
-    // Implementar un servidor WebSocket simple para comunicación en tiempo real
-    // Esto permitirá enviar actualizaciones en tiempo real al dashboard
-    
-    // Generar el archivo del servidor WebSocket
-    const wsServerDir = path.join(this.dashboardDir, 'server');
-    if (!fs.existsSync(wsServerDir)) {
-      fs.mkdirSync(wsServerDir, { recursive: true });
-    }
-    
-    const wsServerCode = `const WebSocket = require('ws');
-const http = require('http');
-const fs = require('fs');
-const path = require('path');
-
-// Crear servidor HTTP
-const server = http.createServer();
-
-// Crear servidor WebSocket
-const wss = new WebSocket.Server({ server });
-
-// Almacenar conexiones activas
-const clients = new Set();
-
-// Manejar conexiones
-wss.on('connection', (ws) => {
-  console.log('Cliente conectado');
-  clients.add(ws);
-  
-  // Enviar logs iniciales
-  const logsDir = path.join(__dirname, '..', '..', 'logs');
-  if (fs.existsSync(logsDir)) {
-    const logFiles = fs.readdirSync(logsDir).filter(file => file.endsWith('.log'));
-    
-    for (const logFile of logFiles) {
-      try {
-        const logPath = path.join(logsDir, logFile);
-        const logContent = fs.readFileSync(logPath, 'utf-8');
-        const logEntries = logContent.split('\\n')
-          .filter(line => line.trim())
-          .map(line => {
-            // Parsear la línea de log
-            const match = line.match(/\\[(.*?)\\] \\[(.*?)\\] \\[(.*?)\\] (.*)/);
-            if (match) {
-              return {
-                timestamp: match[1],
-                agent: match[2],
-                level: match[3].toLowerCase(),
-                message: match[4]
-              };
-            }
-            return null;
-          })
-          .filter(entry => entry);
-        
-        // Enviar los últimos 100 logs
-        const recentLogs = logEntries.slice(-100);
-        for (const log of recentLogs) {
-          ws.send(JSON.stringify(log));
-        }
-      } catch (error) {
-        console.error(\`Error al leer archivo de log \${logFile}:\`, error);
-      }
-    }
-  }
-  
-  // Configurar vigilancia de archivos de log
-  const watchLogFiles = () => {
-    if (fs.existsSync(logsDir)) {
-      fs.watch(logsDir, (eventType, filename) => {
-        if (eventType === 'change' && filename.endsWith('.log')) {
-          try {
-            const logPath = path.join(logsDir, filename);
-            const stats = fs.statSync(logPath);
-            const fileSizeInBytes = stats.size;
-            
-            // Leer solo las últimas líneas añadidas
-            const fileDescriptor = fs.openSync(logPath, 'r');
-            const buffer = Buffer.alloc(1024); // Leer los últimos 1KB
-            const bytesToRead = Math.min(1024, fileSizeInBytes);
-            const position = Math.max(0, fileSizeInBytes - bytesToRead);
-            
-            fs.readSync(fileDescriptor, buffer, 0, bytesToRead, position);
-            fs.closeSync(fileDescriptor);
-            
-            const content = buffer.toString('utf8');
-            const lines = content.split('\\n').filter(line => line.trim());
-            
-            // Tomar solo la última línea completa
-            if (lines.length > 0) {
-              const lastLine = lines[lines.length - 1];
-              const match = lastLine.match(/\\[(.*?)\\] \\[(.*?)\\] \\[(.*?)\\] (.*)/);
-              
-              if (match) {
-                const logEntry = {
-                  timestamp: match[1],
-                  agent: match[2],
-                  level: match[3].toLowerCase(),
-                  message: match[4]
-                };
-                
-                // Enviar a todos los clientes
-                for (const client of clients) {
-                  if (client.readyState === WebSocket.OPEN) {
-                    client.send(JSON.stringify(logEntry));
-                  }
-                }
-              }
-            }
-          } catch (error) {
-            console.error(\`Error al procesar cambio en archivo de log \${filename}:\`, error);
-          }
-        }
-      });
-    }
-  };
-  
-  watchLogFiles();
-  
-  // Manejar mensajes del cliente
-  ws.on('message', (message) => {
-    try {
-      const data = JSON.parse(message);
-      console.log('Mensaje recibido:', data);
-      
-      // Aquí se pueden implementar comandos específicos
-      // Por ejemplo, solicitar actualizaciones de estado
-    } catch (error) {
-      console.error('Error al procesar mensaje:', error);
-    }
-  });
-  
-  // Manejar desconexión
-  ws.on('close', () => {
-    console.log('Cliente desconectado');
-    clients.delete(ws);
-  });
-});
-
-// Iniciar servidor
-const PORT = process.env.WS_PORT || 3001;
-server.listen(PORT, () => {
-  console.log(\`Servidor WebSocket iniciado en puerto \${PORT}\`);
-});
-
-// Función para enviar actualizaciones a todos los clientes
-function broadcastUpdate(type, data) {
-  const message = JSON.stringify({ type, data, timestamp: new Date() });
-  
-  for (const client of clients) {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(message);
-    }
-  }
-}
-
-// Exportar para uso externo
-module.exports = { broadcastUpdate };
-`;
-    
-    fs.writeFileSync(
-      path.join(wsServerDir, 'ws-server.js'),
-      wsServerCode,
-      'utf-8'
-    );
-    
-    // Agregar dependencia de ws al package.json
-    const packageJsonPath = path.join(this.dashboardDir, 'package.json');
-    if (fs.existsSync(packageJsonPath)) {
-      try {
-        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-        packageJson.dependencies = packageJson.dependencies || {};
-        packageJson.dependencies.ws = "^8.13.0";
-        
-        // Agregar script para iniciar el servidor WebSocket
-        packageJson.scripts = packageJson.scripts || {};
-        packageJson.scripts.ws = "node server/ws-server.js";
-        
-        fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf-8');
-      } catch (error) {
-        this.log(`❌ Error al actualizar package.json: ${error}`, 'error');
-      }
-    }
-    
-    // Iniciar el servidor WebSocket
-    exec('cd dashboard && npm install ws && node server/ws-server.js', (error, stdout, stderr) => {
-      if (error) {
-        this.log(`❌ Error al iniciar servidor WebSocket: ${error}`, 'error');
-        return;
-      }
-      this.log('✅ Servidor WebSocket iniciado en puerto 3001');
-    });
-  }
-  
   /**
    * Inicializa el dashboard por primera vez
    */
@@ -1236,7 +1098,7 @@ export default function ProjectGraph() {
    * Genera el componente para visualizar el estado de los agentes
    */
   private generateAgentStatusComponent(): void {
-    const agentStatusComponent = `import useSWR from 'swr';
+    const agentStatusComponent = `import { useEffect, useState } from 'react';
 
 interface Agent {
   id: string;
@@ -1244,23 +1106,46 @@ interface Agent {
   status: 'active' | 'idle' | 'error';
   lastActivity: string;
   currentTask: string;
-  progress: number;
+  error?: string;
 }
 
+const ESTADOS: Record<string, Agent['status']> = { activo: 'active', inactivo: 'idle', error: 'error' };
+
+// Canal \`agente\` del proyecto en la API del dashboard: cada agente al empezar y al terminar una ejecución
 export default function AgentStatus() {
-  const { data, error, isLoading } = useSWR<{ agents: Agent[] }>(
-    '/api/agent-status',
-    async (url) => {
-      const res = await fetch(url);
-      if (!res.ok) throw new Error('Error fetching agent status');
-      return res.json();
-    },
-    { refreshInterval: 3000 } // Actualizar cada 3 segundos
-  );
+  const [agents, setAgents] = useState<Record<string, Agent>>({});
+  const [error, setError] = useState<string | null>(null);
   
-  if (isLoading) return <div className="p-4">Cargando estado de agentes...</div>;
-  if (error) return <div className="p-4 text-red-500">Error: {error.message}</div>;
-  if (!data?.agents || data.agents.length === 0) {
+  useEffect(() => {
+    const params = new URLSearchParams({
+      projectId: process.env.NEXT_PUBLIC_CJ_PROJECT_ID || '',
+      canales: 'agente',
+      token: process.env.NEXT_PUBLIC_CJ_DASHBOARD_TOKEN || '',
+    });
+    const source = new EventSource(\`\${process.env.NEXT_PUBLIC_CJ_DASHBOARD_URL || 'http://localhost:3001'}/api/stream?\${params}\`);
+    source.onopen = () => setError(null);
+    source.onerror = () => setError('Sin conexión con la API del dashboard; reintentando…');
+    source.addEventListener('reinicio', () => setAgents({}));
+    source.addEventListener('agente', (event) => {
+      const { fecha, datos } = JSON.parse((event as MessageEvent).data);
+      setAgents((prev) => ({
+        ...prev,
+        [datos.agente]: {
+          id: datos.agente,
+          name: datos.agente,
+          status: ESTADOS[datos.estado] || 'idle',
+          lastActivity: fecha,
+          currentTask: datos.estado === 'activo' ? datos.tarea || '' : '',
+          error: datos.error,
+        },
+      }));
+    });
+    return () => source.close();
+  }, []);
+  
+  const data = { agents: Object.values(agents) };
+  if (error) return <div className="p-4 text-red-500">{error}</div>;
+  if (data.agents.length === 0) {
     return <div className="p-4">No hay agentes activos</div>;
   }
   
@@ -1294,15 +1179,9 @@ export default function AgentStatus() {
                 {agent.currentTask || 'Ninguna'}
               </div>
               
-              <div className="w-full bg-gray-200 rounded-full h-2.5">
-                <div 
-                  className="bg-blue-600 h-2.5 rounded-full" 
-                  style={{ width: \`\${agent.progress}%\` }}
-                ></div>
-              </div>
-              <div className="text-right text-xs mt-1">
-                {agent.progress}%
-              </div>
+              {agent.error && (
+                <div className="text-red-600">{agent.error}</div>
+              )}
             </div>
           </div>
         ))}
@@ -1343,61 +1222,41 @@ export default function LogViewer() {
   const [agents, setAgents] = useState<string[]>([]);
   
   const logContainerRef = useRef<HTMLDivElement>(null);
-  const wsRef = useRef<WebSocket | null>(null);
-  
-  // Conectar al WebSocket
+  // Canal \`log\` del proyecto en la API del dashboard (Server-Sent Events); EventSource reconecta solo y,
+  // con Last-Event-ID, la API reenvía lo que se perdió
   useEffect(() => {
-    const connectWebSocket = () => {
-      const ws = new WebSocket('ws://localhost:3001');
-      
-      ws.onopen = () => {
-        console.log('Conectado al servidor WebSocket');
-        setConnected(true);
-      };
-      
-      ws.onmessage = (event) => {
-        try {
-          const logEntry = JSON.parse(event.data) as LogEntry;
-          
-          setLogs((prevLogs) => {
-            // Limitar a los últimos 1000 logs para evitar problemas de rendimiento
-            const newLogs = [...prevLogs, logEntry].slice(-1000);
-            
-            // Actualizar lista de agentes
-            const agentSet = new Set(newLogs.map(log => log.agent));
-            setAgents(Array.from(agentSet));
-            
-            return newLogs;
-          });
-        } catch (error) {
-          console.error('Error al procesar mensaje WebSocket:', error);
-        }
-      };
-      
-      ws.onclose = () => {
-        console.log('Desconectado del servidor WebSocket');
-        setConnected(false);
-        
-        // Reconectar después de 3 segundos
-        setTimeout(connectWebSocket, 3000);
-      };
-      
-      ws.onerror = (error) => {
-        console.error('Error en la conexión WebSocket:', error);
-        ws.close();
-      };
-      
-      wsRef.current = ws;
-    };
+    const params = new URLSearchParams({
+      projectId: process.env.NEXT_PUBLIC_CJ_PROJECT_ID || '',
+      canales: 'log',
+      token: process.env.NEXT_PUBLIC_CJ_DASHBOARD_TOKEN || '',
+    });
+    const source = new EventSource(\`\${process.env.NEXT_PUBLIC_CJ_DASHBOARD_URL || 'http://localhost:3001'}/api/stream?\${params}\`);
     
-    connectWebSocket();
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    source.addEventListener('reinicio', () => setLogs([]));
+    source.addEventListener('log', (event) => {
+      try {
+        const { fecha, datos } = JSON.parse((event as MessageEvent).data);
+        const logEntry: LogEntry = { timestamp: fecha, agent: datos.agente, level: datos.nivel, message: datos.mensaje };
+        
+        setLogs((prevLogs) => {
+          // Limitar a los últimos 1000 logs para evitar problemas de rendimiento
+          const newLogs = [...prevLogs, logEntry].slice(-1000);
+          
+          // Actualizar lista de agentes
+          const agentSet = new Set(newLogs.map(log => log.agent));
+          setAgents(Array.from(agentSet));
+          
+          return newLogs;
+        });
+      } catch (error) {
+        console.error('Error al procesar mensaje en vivo:', error);
+      }
+    });
     
     // Limpiar al desmontar
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-    };
+    return () => source.close();
   }, []);
   
   // Auto-scroll
@@ -1766,30 +1625,15 @@ export default function Dashboard() {
    * Extrae bloques de código de una respuesta de texto
    */
   private extractCodeBlocks(text: string): Array<{ language: string, filePath: string, code: string }> {
-    const codeBlocks = [];
-    const regex = /```([a-zA-Z]+)(?::(.+?))?\n([\s\S]*?)```/g;
-    
-    let match;
-    while ((match = regex.exec(text)) !== null) {
-      const language = match[1];
-      const filePath = match[2] ? match[2] : '';
-      const code = match[3];
-      
-      if (filePath) {
+    // Solo los bloques con lenguaje y ruta: ```lenguaje:ruta
+    return extraerBloquesCodigo(text)
+      .filter(bloque => bloque.lenguaje && bloque.ruta)
+      .map(({ lenguaje, ruta, codigo }) => ({
+        language: lenguaje,
         // Convertir la ruta relativa a absoluta si es necesario
-        const absolutePath = filePath.startsWith('/') || filePath.includes(':') 
-          ? filePath 
-          : path.join(this.dashboardDir, filePath);
-        
-        codeBlocks.push({
-          language,
-          filePath: absolutePath,
-          code
-        });
-      }
-    }
-    
-    return codeBlocks;
+        filePath: ruta!.startsWith('/') || ruta!.includes(':') ? ruta! : path.join(this.dashboardDir, ruta!),
+        code: codigo,
+      }));
   }
   
   /**
@@ -1867,146 +1711,4 @@ export default function Dashboard() {
       this.log('✅ Servidor del dashboard detenido');
     }
   }
-  
-  /**
-   * Crea un servidor WebSocket para comunicación en tiempo real
-   */
-  private createWebSocketServer(): void {
-    this.log('🔌 Creando servidor WebSocket...');
-    
-    // Crear archivo para el servidor WebSocket
-    const wsServerCode = `const WebSocket = require('ws');
-const http = require('http');
-
-// Crear servidor HTTP
-const server = http.createServer((req, res) => {
-  res.writeHead(200, { 'Content-Type': 'text/plain' });
-  res.end('WebSocket Server for CJ.DevMind Dashboard');
-});
-
-// Crear servidor WebSocket
-const wss = new WebSocket.Server({ server });
-
-// Manejar conexiones
-wss.on('connection', (ws) => {
-  console.log('Cliente conectado');
-  
-  // Enviar mensaje de bienvenida
-  ws.send(JSON.stringify({
-    timestamp: new Date().toISOString(),
-    agent: 'WebSocket Server',
-    level: 'info',
-    message: 'Conectado al servidor WebSocket'
-  }));
-  
-  // Manejar mensajes recibidos
-  ws.on('message', (message) => {
-    console.log('Mensaje recibido:', message);
-    
-    // Reenviar mensaje a todos los clientes
-    wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
-      }
-    });
-  });
-  
-  // Manejar desconexiones
-  ws.on('close', () => {
-    console.log('Cliente desconectado');
-  });
-});
-
-// Puerto para el servidor
-const PORT = process.env.WS_PORT || 3001;
-
-// Iniciar servidor
-server.listen(PORT, () => {
-  console.log(\`Servidor WebSocket iniciado en puerto \${PORT}\`);
-});
-
-// Función para enviar logs a todos los clientes
-function broadcastLog(logEntry) {
-  wss.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(JSON.stringify(logEntry));
-    }
-  });
-}
-
-// Exportar función para enviar logs
-module.exports = {
-  broadcastLog
-};
-
-// Enviar logs de ejemplo cada 5 segundos
-setInterval(() => {
-  const agents = ['UI Agent', 'API Agent', 'Database Agent', 'Dashboard Agent'];
-  const levels = ['info', 'warning', 'error'];
-  const messages = [
-    'Procesando solicitud',
-    'Generando componente',
-    'Actualizando base de datos',
-    'Conexión establecida',
-    'Tiempo de respuesta elevado',
-    'Error al procesar solicitud'
-  ];
-  
-  const randomAgent = agents[Math.floor(Math.random() * agents.length)];
-  const randomLevel = levels[Math.floor(Math.random() * levels.length)];
-  const randomMessage = messages[Math.floor(Math.random() * messages.length)];
-  
-  const logEntry = {
-    timestamp: new Date().toISOString(),
-    agent: randomAgent,
-    level: randomLevel,
-    message: randomMessage
-  };
-  
-  broadcastLog(logEntry);
-}, 5000);
-`;
-
-    const serverDir = path.join(this.dashboardDir, 'server');
-    if (!fs.existsSync(serverDir)) {
-      fs.mkdirSync(serverDir, { recursive: true });
-    }
-    
-    fs.writeFileSync(
-      path.join(serverDir, 'ws-server.js'),
-      wsServerCode,
-      'utf-8'
-    );
-    
-    // Actualizar package.json para incluir el servidor WebSocket
-    const packageJsonPath = path.join(this.dashboardDir, 'package.json');
-    if (fs.existsSync(packageJsonPath)) {
-      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-      
-      // Agregar dependencia de ws
-      if (!packageJson.dependencies.ws) {
-        packageJson.dependencies.ws = '^8.13.0';
-      }
-      
-      // Agregar script para iniciar el servidor WebSocket
-      if (!packageJson.scripts.server) {
-        packageJson.scripts.server = 'node server/ws-server.js';
-      }
-      
-      // Agregar script para iniciar todo
-      if (!packageJson.scripts.start) {
-        packageJson.scripts.start = 'concurrently "npm run dev" "npm run server"';
-      }
-      
-      // Agregar dependencia de concurrently
-      if (!packageJson.dependencies.concurrently) {
-        packageJson.devDependencies = packageJson.devDependencies || {};
-        packageJson.devDependencies.concurrently = '^8.2.0';
-      }
-      
-      fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf-8');
-    }
-    
-    this.log('✅ Servidor WebSocket creado');
-  }
 }
\ No newline at end of file
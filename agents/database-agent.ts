@@ -1,6 +1,64 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
+import { z } from 'zod';
+import { DefinicionSalida, extraerBloquesCodigo } from '../services/structured-output';
+
+const esquemaSQL = z.object({
+  tables: z.array(z.object({
+    name: z.string().min(1),
+    fields: z.array(z.object({
+      name: z.string().min(1),
+      type: z.string().min(1),
+      primaryKey: z.boolean().optional(),
+      nullable: z.boolean().optional(),
+      unique: z.boolean().optional(),
+      default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+      foreignKey: z.object({ table: z.string(), field: z.string() }).optional(),
+    }).passthrough()).min(1),
+    indices: z.array(z.object({ name: z.string().optional(), fields: z.array(z.string()), unique: z.boolean().optional() })).default([]),
+  })).min(1),
+  relations: z.array(z.object({
+    from: z.object({ table: z.string(), field: z.string() }),
+    to: z.object({ table: z.string(), field: z.string() }),
+    type: z.string(),
+  })).default([]),
+});
+
+const esquemaNoSQL = z.object({
+  collections: z.array(z.object({
+    name: z.string().min(1),
+    // Campo → definición ({ type, required, unique, default... } o un subdocumento)
+    schema: z.record(z.object({}).passthrough()),
+    indices: z.array(z.object({ fields: z.record(z.union([z.number(), z.string()])), options: z.object({}).passthrough().optional() })).default([]),
+  })).min(1),
+});
+
+const SALIDA_ESQUEMA_SQL: DefinicionSalida<z.infer<typeof esquemaSQL>> = {
+  nombre: 'esquema SQL',
+  esquema: esquemaSQL,
+  formato: `{
+  "tables": [{
+    "name": "users",
+    "fields": [{ "name": "id", "type": "INTEGER", "primaryKey": true }, { "name": "team_id", "type": "INTEGER", "nullable": false, "foreignKey": { "table": "teams", "field": "id" } }],
+    "indices": [{ "name": "users_team_id", "fields": ["team_id"], "unique": false }]
+  }],
+  "relations": [{ "from": { "table": "users", "field": "team_id" }, "to": { "table": "teams", "field": "id" }, "type": "many-to-one" }]
+}`,
+};
+
+const SALIDA_ESQUEMA_NOSQL: DefinicionSalida<z.infer<typeof esquemaNoSQL>> = {
+  nombre: 'esquema NoSQL',
+  esquema: esquemaNoSQL,
+  formato: `{
+  "collections": [{
+    "name": "users",
+    "schema": { "email": { "type": "String", "required": true, "unique": true }, "createdAt": { "type": "Date", "default": "Date.now" } },
+    "indices": [{ "fields": { "email": 1 }, "options": { "unique": true } }]
+  }]
+}`,
+};
 
 /**
  * Database Agent - Diseña y genera esquemas de base de datos
@@ -13,8 +71,26 @@ import path from 'path';
  * 5. Implementar relaciones y validaciones de datos
  */
 export class DatabaseAgent extends BaseAgent {
-  constructor() {
-    super('Database Agent');
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'database',
+    agente: 'DatabaseAgent',
+    categoria: 'backend',
+    descripcion: 'Diseña y genera esquemas de base de datos',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación de la base de datos', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'DatabaseAgent';
   }
   
   /**
@@ -130,19 +206,11 @@ export class DatabaseAgent extends BaseAgent {
    * Extrae bloques de código de la respuesta del LLM
    */
   private extractCodeBlock(text: string, type: string): string {
-    const regex = /```(?:js|javascript|typescript|ts)([^`]+)```/g;
-    const matches = [...text.matchAll(regex)];
-    
-    // Buscar el bloque que corresponde al tipo
-    for (const match of matches) {
-      const code = match[1].trim();
-      if (code.includes(type) || code.includes(type.replace('s', ''))) {
-        return code;
-      }
-    }
+    const bloques = extraerBloquesCodigo(text).filter(b => ['js', 'javascript', 'typescript', 'ts'].includes(b.lenguaje));
     
-    // Si no se encuentra un bloque específico, devolver el primero
-    return matches.length > 0 ? matches[0][1].trim() : '';
+    // Buscar el bloque que corresponde al tipo; si no, el primero
+    const bloque = bloques.find(b => b.codigo.includes(type) || b.codigo.includes(type.replace('s', ''))) || bloques[0];
+    return bloque ? bloque.codigo.trim() : '';
   }
   
   /**
@@ -1080,23 +1148,6 @@ module.exports = User;
       }
     }
     
-    /**
-     * Consulta al LLM para obtener una respuesta
-     * @param prompt Prompt para el LLM
-     * @returns Respuesta del LLM
-     */
-    private async queryLLM(prompt: string): Promise<string> {
-      // Aquí se implementaría la lógica para consultar al LLM
-      // Por ahora, simulamos una respuesta
-      
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          // Simulación de respuesta del LLM
-          resolve(`Respuesta simulada para el prompt: "${prompt.substring(0, 50)}..."`);
-        }, 1000);
-      });
-    }
-    
     /**
      * Genera un esquema de base de datos completo
      * @param dbSpec Especificación de la base de datos
@@ -1126,112 +1177,22 @@ module.exports = User;
       5. Consideraciones de rendimiento
       
       El esquema debe seguir las mejores prácticas para ${dbType === 'SQL' ? 'bases de datos relacionales' : 'bases de datos NoSQL'}.
+      
+      Formato: JSON con la estructura:
+      ${(dbType === 'SQL' ? SALIDA_ESQUEMA_SQL : SALIDA_ESQUEMA_NOSQL).formato}
       `;
       
       try {
-        // Consultar al LLM
-        const response = await this.queryLLM(schemaPrompt);
-        
-        // Extraer el esquema de la respuesta
-        const schema = this.parseSchemaFromResponse(response, dbType);
-        
-        return schema;
+        // Consultar al LLM; el esquema sale validado (o SalidaInvalidaError tras las reparaciones)
+        return dbType === 'SQL'
+          ? await this.salidaEstructurada(SALIDA_ESQUEMA_SQL, schemaPrompt)
+          : await this.salidaEstructurada(SALIDA_ESQUEMA_NOSQL, schemaPrompt);
       } catch (error) {
         console.error('❌ Error al generar esquema de base de datos:', error);
         throw error;
       }
     }
     
-    /**
-     * Analiza la respuesta del LLM para extraer el esquema
-     * @param response Respuesta del LLM
-     * @param dbType Tipo de base de datos
-     * @returns Esquema estructurado
-     */
-    private parseSchemaFromResponse(response: string, dbType: 'SQL' | 'NoSQL'): any {
-      // Aquí se implementaría la lógica para extraer el esquema de la respuesta
-      // Por ahora, devolvemos un esquema simulado
-      
-      if (dbType === 'SQL') {
-        return {
-          tables: [
-            {
-              name: 'users',
-              fields: [
-                { name: 'id', type: 'INTEGER', primaryKey: true, autoIncrement: true },
-                { name: 'name', type: 'VARCHAR(100)', nullable: false },
-                { name: 'email', type: 'VARCHAR(100)', nullable: false, unique: true },
-                { name: 'password', type: 'VARCHAR(255)', nullable: false },
-                { name: 'role', type: 'ENUM', values: ['user', 'admin'], default: 'user' },
-                { name: 'created_at', type: 'TIMESTAMP', default: 'CURRENT_TIMESTAMP' },
-                { name: 'updated_at', type: 'TIMESTAMP', default: 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' }
-              ],
-              indices: [
-                { name: 'users_email_unique', fields: ['email'], unique: true }
-              ]
-            },
-            {
-              name: 'products',
-              fields: [
-                { name: 'id', type: 'INTEGER', primaryKey: true, autoIncrement: true },
-                { name: 'name', type: 'VARCHAR(100)', nullable: false },
-                { name: 'description', type: 'TEXT', nullable: true },
-                { name: 'price', type: 'DECIMAL(10,2)', nullable: false },
-                { name: 'stock', type: 'INTEGER', default: 0 },
-                { name: 'category_id', type: 'INTEGER', foreignKey: { table: 'categories', field: 'id' } },
-                { name: 'created_at', type: 'TIMESTAMP', default: 'CURRENT_TIMESTAMP' },
-                { name: 'updated_at', type: 'TIMESTAMP', default: 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' }
-              ],
-              indices: [
-                { name: 'products_category_id', fields: ['category_id'] }
-              ]
-            }
-          ],
-          relations: [
-            { from: { table: 'products', field: 'category_id' }, to: { table: 'categories', field: 'id' }, type: 'many-to-one' }
-          ]
-        };
-      } else {
-        return {
-          collections: [
-            {
-              name: 'users',
-              schema: {
-                name: { type: 'String', required: true },
-                email: { type: 'String', required: true, unique: true },
-                password: { type: 'String', required: true },
-                role: { type: 'String', enum: ['user', 'admin'], default: 'user' },
-                createdAt: { type: 'Date', default: 'Date.now' },
-                updatedAt: { type: 'Date', default: 'Date.now' }
-              },
-              indices: [
-                { fields: { email: 1 }, options: { unique: true } }
-              ]
-            },
-            {
-              name: 'products',
-              schema: {
-                name: { type: 'String', required: true },
-                description: { type: 'String' },
-                price: { type: 'Number', required: true },
-                stock: { type: 'Number', default: 0 },
-                category: {
-                  _id: { type: 'ObjectId', ref: 'Category' },
-                  name: { type: 'String' }
-                },
-                createdAt: { type: 'Date', default: 'Date.now' },
-                updatedAt: { type: 'Date', default: 'Date.now' }
-              },
-              indices: [
-                { fields: { 'category._id': 1 } },
-                { fields: { name: 'text', description: 'text' } }
-              ]
-            }
-          ]
-        };
-      }
-    }
-    
     /**
      * Genera un diagrama ER para una base de datos SQL
      * @param schema Esquema de la base de datos
@@ -2,7 +2,8 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import { AgentEventType, AgentType, TaskPriority, TaskStatus } from '../types/agent-types';
 import { DeploymentConfig, DeploymentEnvironment, DeploymentResult, InfrastructureType, MonitoringConfig, ScalingConfig } from '../types/devops-types';
 import { CloudProvider, ContainerConfig, DockerComposeConfig, KubernetesConfig, TerraformConfig } from '../types/infrastructure-types';
@@ -18,6 +19,43 @@ import { CIService } from '../services/ci-service';
 const execAsync = promisify(exec);
 
 export class DevOpsAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'devops',
+    agente: 'DevOpsAgent',
+    categoria: 'infraestructura',
+    descripcion: 'Genera configuraciones para CI/CD, despliegues, monitoreo y escalado',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Tipo de configuración', requerido: true, operaciones: ['deploy:'] },
+      opciones: {
+        config: { tipo: 'object', descripcion: 'Configuración específica del tipo (DeploymentConfig, MonitoringConfig, ...)' },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: spec = tipo de configuración (ci, cd, docker, monitoring, scaling, deploy:<entorno>)
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    const config = (input.opciones?.config || {}) as any;
+    if (input.spec.startsWith('deploy:')) {
+      const environment = input.spec.substring('deploy:'.length).trim() as DeploymentEnvironment;
+      return this.deployToEnvironment(environment, config as DeploymentConfig);
+    }
+    switch (input.spec) {
+      case 'ci':
+      case 'cd':
+        return this.setupCICDPipeline({ type: input.spec, ...config });
+      case 'docker':
+        return this.setupDocker(config);
+      case 'monitoring':
+        return this.setupMonitoring(config as MonitoringConfig);
+      case 'scaling':
+        return this.setupScaling(config as ScalingConfig);
+      default:
+        throw new Error(`Tipo de configuración no soportado: ${input.spec}. Usa ci, cd, docker, monitoring, scaling o deploy:<entorno>`);
+    }
+  }
+
   private gitService: GitService;
   private dockerService: DockerService;
   private kubernetesService: KubernetesService;
@@ -33,8 +71,9 @@ export class DevOpsAgent extends BaseAgent {
   private environmentVariables: Map<string, Map<string, string>> = new Map();
   private deploymentLocks: Set<string> = new Set();
 
-  constructor() {
-    super(AgentType.DEVOPS);
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'DevOpsAgent';
     this.gitService = new GitService();
     this.dockerService = new DockerService();
     this.kubernetesService = new KubernetesService();
@@ -1,4 +1,5 @@
-import { BaseAgent, AgentEventType } from './base-agent';
+import { BaseAgent, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import { execSync } from 'child_process';
@@ -14,6 +15,23 @@ import { execSync } from 'child_process';
  * 5. Generar guías de usuario y desarrollador
  */
 export class DocAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'doc',
+    agente: 'DocAgent',
+    categoria: 'documentacion',
+    descripcion: 'Genera documentación técnica y de usuario',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Ruta del módulo o tipo de documentación', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
   private docOutputPath: string = '';
   private projectStructure: any = {};
   private docFormat: string = 'markdown';
@@ -21,8 +39,9 @@ export class DocAgent extends BaseAgent {
   private includeDiagrams: boolean = true;
   private lastGeneratedDocs: Record<string, string> = {};
   
-  constructor() {
-    super('Doc Agent');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'DocAgent';
     this.registerEventHandlers();
   }
   
@@ -1229,7 +1248,7 @@ La arquitectura sigue un patrón modular con separación clara de responsabilida
           path: relativePath,
           title,
           headings,
-          content: content.substring(0, 1000) // Primeros 1000 caracteres para resumen
+          content // Completo: truncarlo dejaba fuera de la búsqueda todo lo que no fuera la intro
         });
       }
       
@@ -1238,6 +1257,7 @@ La arquitectura sigue un patrón modular con separación clara de responsabilida
       fs.writeFileSync(indexPath, JSON.stringify(searchIndex, null, 2), 'utf-8');
       
       this.log(`✅ Índice de búsqueda generado en: ${indexPath}`);
+      this.log('💡 La documentación también entra en la búsqueda híbrida: `cj docs memory index` y `cj docs memory search:<consulta>`');
     } catch (error) {
       this.log(`⚠️ Error generando índice de búsqueda: ${error.message}`, 'warning');
     }
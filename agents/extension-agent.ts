@@ -1,4 +1,5 @@
-import { BaseAgent, ContextoProyecto } from '../base-agent'; // Ajusta la ruta
+import { BaseAgent, ContextoProyecto, USUARIO_POR_DEFECTO } from './base-agent'; // Ajusta la ruta
+import { AgentCapabilities } from '../types/agent-runner';
 import { MemoryAgent } from '../memory-agent';
 import { DashboardAgent } from '../dashboard-agent';
 import { writeFileSync, existsSync, mkdirSync } from 'fs';
@@ -17,12 +18,23 @@ interface Extension {
 }
 
 export class ExtensionAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'extension',
+    agente: 'ExtensionAgent',
+    categoria: 'meta',
+    descripcion: 'Propone, implementa y evalúa extensiones del sistema',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Operación sobre extensiones', requerido: true, operaciones: ['propose:', 'implement:', 'evaluate:'] },
+    },
+  };
   private extensionsDir: string;
-  private memoryAgent: MemoryAgent;
-  private dashboardAgent: DashboardAgent;
+  protected memoryAgent: MemoryAgent;
+  protected dashboardAgent: DashboardAgent;
   private currentExtension: Extension | null = null;
 
-  constructor(userId: string) {
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
     super(userId);
     this.agentName = 'ExtensionAgent';
     this.extensionsDir = join(process.cwd(), 'context', 'extensions');
@@ -37,16 +49,13 @@ export class ExtensionAgent extends BaseAgent {
 
   // Método principal para ejecutar ExtensionAgent
   async run(contexto: ContextoProyecto, spec: string): Promise<void> {
-    if (contexto.licencia === 'Community' && spec.includes('advanced')) {
-      throw new Error('Community Edition no soporta extensiones avanzadas');
-    }
-
     await this.registrarActividad(contexto, 'iniciando ExtensionAgent', { spec });
 
     if (spec.startsWith('propose:')) {
       const extensionIdea = spec.substring('propose:'.length).trim();
       await this.proposeExtension(contexto, extensionIdea);
     } else if (spec.startsWith('implement:')) {
+      this.exigir('extensiones');
       const extensionId = spec.substring('implement:'.length).trim();
       await this.implementExtension(contexto, extensionId);
     } else if (spec.startsWith('evaluate:')) {
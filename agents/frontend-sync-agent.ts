@@ -1,4 +1,5 @@
-import { BaseAgent, AgentEventType, AgentOptions, AgentMessage } from './base-agent';
+import { BaseAgent, AgentEventType, AgentMessage, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import { execSync } from 'child_process';
@@ -42,7 +43,24 @@ interface IntegrationConfig {
  * 6. Optimizar rendimiento de comunicación cliente-servidor
  * 7. Implementar estrategias de manejo de errores y reintentos
  */
-class FrontendSyncAgent extends BaseAgent {
+export class FrontendSyncAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'frontendSync',
+    agente: 'FrontendSyncAgent',
+    categoria: 'frontend',
+    descripcion: 'Integra el frontend con el backend (estado, auth, comunicación)',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación de la integración', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
   private apiSpecs: ApiSpec[] = [];
   private integrationConfig: IntegrationConfig = {
     frontendTech: 'React',
@@ -56,12 +74,9 @@ class FrontendSyncAgent extends BaseAgent {
   private generatedFiles: Record<string, string> = {};
   private projectRoot: string;
   
-  constructor(options?: AgentOptions) {
-    super({
-      name: 'Frontend Sync Agent',
-      description: 'Integra frontend con backend, gestiona estado, autenticación y comunicación',
-      ...options
-    });
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'FrontendSyncAgent';
     
     this.projectRoot = process.cwd();
     
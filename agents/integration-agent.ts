@@ -1,15 +1,42 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import { AgentEvent } from '../types/agent-event';
 import * as fs from 'fs';
 import * as path from 'path';
 import axios from 'axios';
 
 export class IntegrationAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'integration',
+    agente: 'IntegrationAgent',
+    categoria: 'backend',
+    descripcion: 'Conecta el proyecto con servicios externos',
+    escribeArchivos: true,
+    usaLLM: false,
+    inputSchema: {
+      spec: { descripcion: 'Servicio a integrar (ej. stripe, github)', requerido: true },
+      opciones: {
+        config: { tipo: 'object', descripcion: 'Configuración del servicio' },
+        action: { tipo: 'string', descripcion: 'Acción a realizar (por defecto setup)' },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: spec = servicio; config y action vienen en opciones
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.execute({
+      service: input.spec.trim(),
+      config: input.opciones?.config || {},
+      action: input.opciones?.action as string | undefined,
+    });
+  }
+
   private integrationConfigs: Map<string, any>;
   private supportedServices: string[];
 
-  constructor() {
-    super('IntegrationAgent', 'Agent for connecting with external systems and services');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'IntegrationAgent';
     
     // Inicializar mapa de configuraciones
     this.integrationConfigs = new Map();
@@ -1,4 +1,5 @@
-import { BaseAgent, ContextoProyecto, AgentEventType } from './base-agent';
+import { BaseAgent, ContextoProyecto, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities } from '../types/agent-runner';
 import { MemoryAgent } from './memory-agent';
 import { DashboardAgent } from './dashboard-agent';
 import fs from 'fs';
@@ -51,15 +52,26 @@ interface NavigationRoute {
  * 6. Exportar recursos a formatos como PNG/PDF
  */
 export class LayoutAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'layout',
+    agente: 'LayoutAgent',
+    categoria: 'frontend',
+    descripcion: 'Estructura la navegación y organización espacial de la interfaz',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación del layout', requerido: true },
+    },
+  };
   private wireframesDir: string;
   private diagramsDir: string;
   private layoutsDir: string;
   private navigationDir: string;
   private projectRoot: string;
-  private memoryAgent: MemoryAgent;
-  private dashboardAgent: DashboardAgent;
+  protected memoryAgent: MemoryAgent;
+  protected dashboardAgent: DashboardAgent;
 
-  constructor(userId: string) {
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
     super(userId);
     this.agentName = 'LayoutAgent';
     this.projectRoot = process.cwd();
@@ -97,10 +109,6 @@ export class LayoutAgent extends BaseAgent {
    * @param spec Especificación del layout a generar
    */
   async run(contexto: ContextoProyecto, spec: string): Promise<void> {
-    if (contexto.licencia === 'Community' && spec.includes('advanced')) {
-      throw new Error('Community Edition no soporta layouts avanzados');
-    }
-
     await this.registrarActividad(contexto, 'iniciando LayoutAgent', { spec });
 
     try {
@@ -114,6 +122,7 @@ export class LayoutAgent extends BaseAgent {
         const responsiveSpec = spec.substring(11).trim();
         await this.generateResponsiveLayout(contexto, responsiveSpec);
       } else if (spec.startsWith('prototype:')) {
+        this.exigir('prototipos');
         const prototypeSpec = spec.substring(10).trim();
         await this.generatePrototype(contexto, prototypeSpec);
       } else {
@@ -1,4 +1,5 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import { exec } from 'child_process';
@@ -14,8 +15,26 @@ import { exec } from 'child_process';
  * 5. Documentar la lógica de negocio con ejemplos
  */
 export class LogicAgent extends BaseAgent {
-  constructor() {
-    super('Logic Agent');
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'logic',
+    agente: 'LogicAgent',
+    categoria: 'backend',
+    descripcion: 'Implementa algoritmos y reglas de negocio',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación de la lógica de negocio', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'LogicAgent';
   }
 
   /**
@@ -982,21 +1001,4 @@ export function generateId(): string {
       throw error;
     }
   }
-  
-  /**
-   * Consulta al LLM para obtener una respuesta
-   * @param prompt Prompt para el LLM
-   * @returns Respuesta del LLM
-   */
-  private async queryLLM(prompt: string): Promise<string> {
-    // Aquí se implementaría la lógica para consultar al LLM
-    // Por ahora, simulamos una respuesta
-    
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Simulación de respuesta del LLM
-        resolve(`Respuesta simulada para el prompt: "${prompt.substring(0, 50)}..."`);
-      }, 1000);
-    });
-  }
 }
\ No newline at end of file
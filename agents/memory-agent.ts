@@ -1,46 +1,94 @@
-import { BaseAgent, AgentEventType, AgentOptions } from './base-agent';
+import { BaseAgent, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
-import { PineconeClient } from '@pinecone-database/pinecone';
-import { OpenAIEmbeddings } from 'langchain/embeddings/openai';
-import { Document } from 'langchain/document';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
-import { PineconeStore } from 'langchain/vectorstores/pinecone';
 import { glob } from 'glob';
+import { devmindConfig } from '../devmind.config';
+import { crearEmbedder, Embedder } from '../services/embedders';
+import { v4 as uuidv4 } from 'uuid';
+import { crearVectorStore, MetadataChunk, VectorStore } from '../services/vector-store';
+import { dividirEnChunks } from '../services/chunker';
+import { IndexManifest, ResumenIndexacion, hashContenido } from '../services/index-manifest';
+import { KeywordIndex } from '../services/keyword-index';
+import { FiltrosBusquedaCodigo, ResultadoBusquedaCodigo, buscarCodigo } from '../services/code-search';
+import { ContextAssembler, ContextoEnsamblado } from '../services/context-assembler';
+import {
+  PREGUNTAS_GRAFO,
+  aVisualizacion,
+  complejidadCiclomatica,
+  construirGrafoCodigo,
+  consultarGrafo,
+  simboloEnLinea,
+  simbolosDeArchivo,
+} from '../services/code-graph';
+import { GrafoCodigo, ResultadoConsultaGrafo } from '../types/code-graph-types';
+
+const PATRON_INDEXABLE = '**/*.{ts,tsx,js,jsx,md}';
+const NAMESPACE_REGISTROS = 'registros'; // Lo que guardan los demás agentes con store(), aparte del código indexado
+const MAX_TEXTO_REGISTRO = 8000; // Caracteres que se embeben de cada registro (un ContextoProyecto entero no cabe en un embedding)
+const IGNORADOS_INDEXACION = ['**/node_modules/**', '**/dist/**', '**/build/**'];
+
+// Mismo criterio que PATRON_INDEXABLE/IGNORADOS_INDEXACION, pa' las rutas que llegan del watcher
+const esIndexable = (source: string): boolean =>
+  /\.(ts|tsx|js|jsx|md)$/.test(source) && !/(^|\/)(node_modules|dist|build|\.git)\//.test(source);
 
 /**
  * Memory Agent - Sistema de memoria y conocimiento del proyecto
  * 
  * Este agente es responsable de:
  * 1. Generar embeddings para código y documentación
- * 2. Mantener una base de datos vectorial (Pinecone)
+ * 2. Mantener una base de datos vectorial (local en memory/vectors o Pinecone, según devmind.config.ts)
  * 3. Construir un grafo de conocimiento visualizable
  * 4. Registrar historial de cambios con justificaciones
  * 5. Proporcionar búsqueda semántica en el código base
  */
 export class MemoryAgent extends BaseAgent {
-  private pineconeClient: PineconeClient;
-  private embeddings: OpenAIEmbeddings;
-  private indexName: string = 'cj-devmind-memory';
-  private namespace: string = 'default';
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'memory',
+    agente: 'MemoryAgent',
+    categoria: 'documentacion',
+    descripcion: 'Indexa el código, construye el grafo de conocimiento y registra cambios',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Operación de memoria', requerido: true, operaciones: ['index', 'index:full', 'watch', 'query', 'graph', 'graph:', 'search:', 'context:', 'record:', 'analyze:', 'embed:'] },
+      opciones: {
+        ruta: { tipo: 'string', descripcion: 'search: solo en rutas que casen con este glob (services/**/*.ts)' },
+        lenguaje: { tipo: 'string', descripcion: 'search: solo en un lenguaje', valores: ['typescript', 'javascript', 'markdown', 'ts', 'tsx', 'js', 'jsx', 'md'] },
+        tipo: { tipo: 'string', descripcion: 'search: solo fragmentos de un tipo de símbolo', valores: ['clase', 'interfaz', 'funcion', 'metodo', 'tipo', 'enum', 'variable'] },
+        limite: { tipo: 'number', descripcion: 'search: número de resultados (10 por defecto)' },
+        presupuesto: { tipo: 'number', descripcion: 'context: presupuesto de tokens (memory.contexto en devmind.config.ts por defecto)' },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: la especificación y, pa' search:, los filtros de opciones
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec, input.opciones);
+  }
+
+  private almacen: VectorStore;
+  private embedder: Embedder;
+  private manifest = new IndexManifest();
+  private namespace: string = devmindConfig.memory.namespace;
+  private palabrasClave = new KeywordIndex(this.namespace);
   private memoryDir: string;
   private graphsDir: string;
+  private codeGraphPath: string;
   private historyDir: string;
+  private almacenListo?: Promise<void>;
   
-  constructor(options?: Partial<AgentOptions>) {
-    super({
-      name: 'Memory Agent',
-      ...(options || {})
-    });
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'MemoryAgent';
     
-    this.pineconeClient = new PineconeClient();
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: process.env.OPENAI_API_KEY,
-    });
+    this.almacen = crearVectorStore();
+    this.embedder = crearEmbedder();
     
     // Inicializar directorios
-    this.memoryDir = path.join(process.cwd(), 'memory');
+    this.memoryDir = path.resolve(process.cwd(), devmindConfig.memory.dir);
     this.graphsDir = path.join(this.memoryDir, 'graphs');
+    this.codeGraphPath = path.join(this.graphsDir, 'code-graph.json');
     this.historyDir = path.join(this.memoryDir, 'history');
     
     // Crear directorios si no existen
@@ -61,25 +109,40 @@ export class MemoryAgent extends BaseAgent {
   /**
    * Ejecuta el Memory Agent para gestionar la memoria del sistema
    * @param memorySpec Especificación de la operación de memoria a realizar
+   * @param opciones Filtros de search: (ruta, lenguaje, tipo, limite) y presupuesto de context:
+   * @returns El resultado de la operación (resumen de indexación, resultados de búsqueda, consulta al grafo...)
    */
-  async run(memorySpec: string): Promise<void> {
+  async run(memorySpec: string, opciones: Record<string, unknown> = {}): Promise<unknown> {
     this.log(`🧠 Memory Agent trabajando en: "${memorySpec}"`);
     this.updateAgentStatus('working', `Procesando: ${memorySpec}`);
     
     try {
-      // Inicializar Pinecone
-      await this.initializePinecone();
+      // Inicializar el almacén de vectores
+      await this.initializeStore();
       
       // Determinar la acción a realizar
+      let resultado: unknown;
       if (memorySpec === 'index') {
-        await this.indexCodebase();
+        resultado = await this.indexCodebase();
+      } else if (memorySpec === 'index:full') {
+        resultado = await this.indexCodebase(true);
+      } else if (memorySpec === 'watch') {
+        await this.watchCodebase();
       } else if (memorySpec === 'query') {
         await this.queryMemory();
       } else if (memorySpec === 'graph') {
-        await this.generateKnowledgeGraph();
+        resultado = await this.generateKnowledgeGraph();
+      } else if (memorySpec.startsWith('graph:')) {
+        resultado = await this.queryKnowledgeGraph(memorySpec.substring(6).trim());
       } else if (memorySpec.startsWith('search:')) {
         const query = memorySpec.substring(7).trim();
-        await this.searchCodebase(query);
+        resultado = await this.searchCodebase(query, {
+          ruta: opciones.ruta as string | undefined,
+          lenguaje: opciones.lenguaje as string | undefined,
+          tipoSimbolo: opciones.tipo as string | undefined,
+        }, opciones.limite as number | undefined);
+      } else if (memorySpec.startsWith('context:')) {
+        resultado = await this.assembleContext(memorySpec.substring(8).trim(), opciones.presupuesto as number | undefined);
       } else if (memorySpec.startsWith('record:')) {
         const change = memorySpec.substring(7).trim();
         await this.recordChange(change);
@@ -90,11 +153,12 @@ export class MemoryAgent extends BaseAgent {
         const content = memorySpec.substring(6).trim();
         await this.generateEmbedding(content);
       } else {
-        this.log('⚠️ Operación no reconocida. Usa: index, query, graph, search:query, record:change, analyze:target, embed:content', 'warning');
+        this.log('⚠️ Operación no reconocida. Usa: index, index:full, watch, query, graph, graph:callers:símbolo, search:query, context:prompt, record:change, analyze:target, embed:content', 'warning');
       }
       
       this.updateAgentStatus('idle');
       this.log('✅ Operación completada con éxito');
+      return resultado;
     } catch (error) {
       this.log(`❌ Error en Memory Agent: ${error}`, 'error');
       this.updateAgentStatus('error', `Error: ${error}`);
@@ -103,61 +167,66 @@ export class MemoryAgent extends BaseAgent {
   }
   
   /**
-   * Inicializa la conexión con Pinecone
+   * Guarda un registro de otro agente (actividad, contexto del proyecto, paso del plan, diseño...):
+   * se embebe su JSON y va al namespace `registros` con los metadatos escalares (tipo, proyectoId...)
+   * @param contenido Texto u objeto a recordar
+   * @param metadatos Pa' filtrar después; los valores que no son texto, número o booleano se ignoran
    */
-  private async initializePinecone(): Promise<void> {
+  async store(contenido: unknown, metadatos: Record<string, unknown> = {}): Promise<void> {
+    const texto = (typeof contenido === 'string' ? contenido : JSON.stringify(contenido)).substring(0, MAX_TEXTO_REGISTRO);
+    // El almacén se carga una sola vez por instancia, no en cada registro
+    this.almacenListo ??= this.almacen.inicializar(this.embedder);
+    await this.almacenListo;
+
+    const metadata: MetadataChunk = { source: `registro:${metadatos.tipo ?? 'general'}`, fecha: new Date().toISOString() };
+    for (const [clave, valor] of Object.entries(metadatos)) {
+      if (typeof valor === 'string' || typeof valor === 'number' || typeof valor === 'boolean') metadata[clave] = valor;
+    }
+    const [vector] = await this.embedder.embed([texto]);
+    await this.almacen.upsert([{ id: uuidv4(), texto, vector, metadata }], NAMESPACE_REGISTROS);
+    await this.almacen.guardar();
+  }
+
+  /**
+   * Inicializa el almacén de vectores configurado (memory.store en devmind.config.ts)
+   * y el manifiesto de la indexación incremental
+   */
+  private async initializeStore(): Promise<void> {
     try {
-      await this.pineconeClient.init({
-        apiKey: process.env.PINECONE_API_KEY || '',
-        environment: process.env.PINECONE_ENVIRONMENT || '',
-      });
-      
-      // Verificar si el índice existe, si no, crearlo
-      const existingIndexes = await this.pineconeClient.listIndexes();
-      
-      if (!existingIndexes.includes(this.indexName)) {
-        this.log(`🔧 Creando índice ${this.indexName} en Pinecone...`);
-        await this.pineconeClient.createIndex({
-          createRequest: {
-            name: this.indexName,
-            dimension: 1536, // Dimensión para embeddings de OpenAI
-            metric: 'cosine',
-          },
-        });
-        this.log('✅ Índice creado correctamente');
+      this.almacenListo = this.almacen.inicializar(this.embedder);
+      await this.almacenListo;
+      this.manifest.cargar(this.embedder.nombre, this.almacen.nombre, this.namespace);
+      this.palabrasClave.cargar();
+
+      // Un manifiesto sin vectores o palabras clave detrás (borrados a mano) haría saltarse todo: se reindexa
+      const stats = await this.almacen.estadisticas();
+      const vacio = !stats.namespaces[this.namespace] || this.palabrasClave.total === 0;
+      if (vacio && this.manifest.fuentes().length > 0) {
+        this.manifest.vaciar();
       }
-      
-      this.log('🔌 Conexión con Pinecone establecida');
+      this.log(`🔌 Memoria lista: almacén ${this.almacen.nombre}, embedder ${this.embedder.nombre}`);
     } catch (error) {
-      this.log('❌ Error al inicializar Pinecone:', 'error');
+      this.log(`❌ Error al inicializar el almacén ${this.almacen.nombre}:`, 'error');
       throw error;
     }
   }
   
   /**
-   * Indexa todo el código base del proyecto
+   * Indexa el código base del proyecto. Solo embebe lo que cambió desde la última vez
+   * (según el manifiesto); con `completo` rehace todos los archivos.
    */
-  private async indexCodebase(): Promise<void> {
-    this.log('📑 Indexando código base...');
+  private async indexCodebase(completo: boolean = false): Promise<ResumenIndexacion> {
+    this.log(completo ? '📑 Reindexando todo el código base...' : '📑 Indexando código base (incremental)...');
     
     try {
       // Obtener todos los archivos de código
-      const files = await glob('**/*.{ts,tsx,js,jsx,md}', {
-        ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
-        cwd: process.cwd(),
-      });
-      
+      const files = await glob(PATRON_INDEXABLE, { ignore: IGNORADOS_INDEXACION, cwd: process.cwd() });
       this.log(`🔍 Encontrados ${files.length} archivos para indexar`);
       
-      // Procesar archivos en lotes para evitar sobrecargar la API
-      const batchSize = 10;
-      for (let i = 0; i < files.length; i += batchSize) {
-        const batch = files.slice(i, i + batchSize);
-        await Promise.all(batch.map(file => this.indexFile(file)));
-        this.log(`✅ Procesado lote ${Math.floor(i / batchSize) + 1}/${Math.ceil(files.length / batchSize)}`);
-      }
-      
+      const resumen = await this.indexarArchivos(files, { completo, eliminarAusentes: true });
+      this.logResumenIndexacion(resumen);
       this.log('🎉 Indexación completada con éxito');
+      return resumen;
     } catch (error) {
       this.log('❌ Error al indexar el código base:', 'error');
       throw error;
@@ -165,49 +234,209 @@ export class MemoryAgent extends BaseAgent {
   }
   
   /**
-   * Indexa un archivo individual
+   * Lleva al índice el estado actual de los archivos dados: los que tienen el mismo hash se saltan
+   * y los que ya no existen se borran. Con `eliminarAusentes` también se borran los del manifiesto
+   * que no vienen en la lista (archivos eliminados o movidos).
    */
-  private async indexFile(filePath: string): Promise<void> {
+  private async indexarArchivos(
+    files: string[],
+    opciones: { completo?: boolean; eliminarAusentes?: boolean } = {}
+  ): Promise<ResumenIndexacion> {
+    const resumen: ResumenIndexacion = {
+      nuevos: [],
+      modificados: [],
+      eliminados: [],
+      sinCambios: 0,
+      fragmentosEmbebidos: 0,
+      fragmentosReutilizados: 0,
+      fragmentosEliminados: 0,
+    };
+    const presentes = new Set(files);
+    const ausentes = opciones.eliminarAusentes ? this.manifest.fuentes().filter(f => !presentes.has(f)) : [];
+    const pendientes = [...files, ...ausentes];
+    
+    // Procesar archivos en lotes para evitar sobrecargar la API
+    const batchSize = 10;
+    for (let i = 0; i < pendientes.length; i += batchSize) {
+      const batch = pendientes.slice(i, i + batchSize);
+      await Promise.all(batch.map(file => this.sincronizarArchivo(file, resumen, opciones.completo === true)));
+      if (pendientes.length > batchSize) {
+        this.log(`✅ Procesado lote ${Math.floor(i / batchSize) + 1}/${Math.ceil(pendientes.length / batchSize)}`);
+      }
+    }
+    
+    await this.almacen.guardar();
+    this.palabrasClave.guardar();
+    this.manifest.guardar();
+    return resumen;
+  }
+  
+  /**
+   * Decide qué hacer con un archivo (saltar, indexar o borrar del índice) y lo apunta en el resumen
+   */
+  private async sincronizarArchivo(filePath: string, resumen: ResumenIndexacion, completo: boolean): Promise<void> {
+    const fullPath = path.join(process.cwd(), filePath);
+    const previo = this.manifest.obtener(filePath);
+    
     try {
-      const fullPath = path.join(process.cwd(), filePath);
+      if (!fs.existsSync(fullPath)) {
+        if (!previo) return;
+        await this.almacen.eliminar(previo.chunks, this.namespace);
+        this.palabrasClave.eliminar(previo.chunks);
+        this.manifest.eliminar(filePath);
+        resumen.eliminados.push(filePath);
+        resumen.fragmentosEliminados += previo.chunks.length;
+        this.log(`🗑️ Eliminado del índice: ${filePath}`);
+        return;
+      }
+      
       const content = fs.readFileSync(fullPath, 'utf-8');
+      const hash = hashContenido(content);
+      if (previo && previo.hash === hash && !completo) {
+        resumen.sinCambios++;
+        return;
+      }
       
-      // Dividir el contenido en chunks para mejor procesamiento
-      const textSplitter = new RecursiveCharacterTextSplitter({
-        chunkSize: 1000,
-        chunkOverlap: 200,
+      const cambios = await this.indexFile(filePath, content, hash, completo);
+      (previo ? resumen.modificados : resumen.nuevos).push(filePath);
+      resumen.fragmentosEmbebidos += cambios.embebidos;
+      resumen.fragmentosReutilizados += cambios.reutilizados;
+      resumen.fragmentosEliminados += cambios.eliminados;
+    } catch (error) {
+      this.log(`❌ Error al indexar ${filePath}: ${error}`, 'error');
+    }
+  }
+  
+  /**
+   * Indexa un archivo individual a nivel de fragmento: embebe solo los fragmentos nuevos
+   * y borra del almacén los que ya no están
+   */
+  private async indexFile(
+    filePath: string,
+    content: string,
+    hash: string,
+    completo: boolean = false
+  ): Promise<{ embebidos: number; reutilizados: number; eliminados: number }> {
+    const stat = fs.statSync(path.join(process.cwd(), filePath));
+    const previo = completo ? undefined : this.manifest.obtener(filePath);
+    
+    // Dividir el contenido en chunks para mejor procesamiento
+    const chunks = dividirEnChunks(content, filePath, { tamano: 1000, solape: 200 });
+    const actuales = new Set(chunks.map(chunk => chunk.id));
+    
+    // Sin entrada en el manifiesto no sabemos qué quedó en el almacén: se limpia el archivo entero
+    if (!previo) {
+      await this.almacen.eliminarFuente(filePath, this.namespace);
+      this.palabrasClave.eliminarFuente(filePath);
+    }
+    const existentes = new Set(previo?.chunks || []);
+    const nuevos = chunks.filter(chunk => !existentes.has(chunk.id));
+    const sobrantes = [...existentes].filter(id => !actuales.has(id));
+    
+    if (nuevos.length > 0) {
+      const simbolos = /\.(ts|tsx|js|jsx)$/.test(filePath) ? simbolosDeArchivo(content, filePath) : [];
+      const etiquetados = nuevos.map(chunk => {
+        const delFragmento = simbolos.filter(simbolo => simbolo.lineaInicio <= chunk.lineaFin && simbolo.lineaFin >= chunk.lineaInicio);
+        return { chunk, delFragmento, simbolo: simboloEnLinea(delFragmento, chunk.lineaInicio, chunk.lineaFin) };
       });
-      
-      const docs = await textSplitter.createDocuments([content], [{ source: filePath }]);
-      
-      // Crear metadatos adicionales
-      const docsWithMetadata = docs.map(doc => {
-        return new Document({
-          pageContent: doc.pageContent,
+      const vectors = await this.embedder.embed(nuevos.map(chunk => chunk.texto));
+      await this.almacen.upsert(
+        etiquetados.map(({ chunk, simbolo }, i) => ({
+          id: chunk.id,
+          texto: chunk.texto,
+          vector: vectors[i],
           metadata: {
-            ...doc.metadata,
+            source: filePath,
             fileName: path.basename(filePath),
             fileType: path.extname(filePath).substring(1),
-            lastModified: fs.statSync(fullPath).mtime.toISOString(),
-            fileSize: fs.statSync(fullPath).size,
+            lineStart: chunk.lineaInicio,
+            lineEnd: chunk.lineaFin,
+            lastModified: stat.mtime.toISOString(),
+            fileSize: stat.size,
+            ...(simbolo ? { symbol: simbolo.nombre, symbolKind: simbolo.tipo } : {}),
           },
-        });
-      });
-      
-      // Obtener el índice de Pinecone
-      const index = this.pineconeClient.Index(this.indexName);
-      
-      // Almacenar en Pinecone
-      await PineconeStore.fromDocuments(docsWithMetadata, this.embeddings, {
-        pineconeIndex: index,
-        namespace: this.namespace,
-        textKey: 'text',
-      });
-      
-      this.log(`📄 Indexado: ${filePath}`);
-    } catch (error) {
-      this.log(`❌ Error al indexar ${filePath}:`, 'error');
+        })),
+        this.namespace
+      );
+      this.palabrasClave.agregar(etiquetados.map(({ chunk, delFragmento }) => ({
+        id: chunk.id,
+        source: filePath,
+        lineaInicio: chunk.lineaInicio,
+        lineaFin: chunk.lineaFin,
+        texto: chunk.texto,
+        simbolos: delFragmento,
+      })));
+    }
+    if (sobrantes.length > 0) {
+      await this.almacen.eliminar(sobrantes, this.namespace);
+      this.palabrasClave.eliminar(sobrantes);
     }
+    
+    this.manifest.actualizar(filePath, { hash, chunks: chunks.map(chunk => chunk.id), indexado: new Date().toISOString() });
+    this.log(`📄 Indexado: ${filePath} (${nuevos.length} fragmentos nuevos, ${sobrantes.length} eliminados)`);
+    return { embebidos: nuevos.length, reutilizados: chunks.length - nuevos.length, eliminados: sobrantes.length };
+  }
+  
+  private logResumenIndexacion(resumen: ResumenIndexacion): void {
+    this.log('📊 Resumen de la indexación:');
+    this.log(`- Nuevos: ${resumen.nuevos.length}`);
+    this.log(`- Modificados: ${resumen.modificados.length}`);
+    this.log(`- Eliminados: ${resumen.eliminados.length}`);
+    this.log(`- Sin cambios: ${resumen.sinCambios}`);
+    this.log(`- Fragmentos embebidos: ${resumen.fragmentosEmbebidos} (reutilizados: ${resumen.fragmentosReutilizados}, eliminados: ${resumen.fragmentosEliminados})`);
+  }
+  
+  /**
+   * Mantiene el índice al día mientras se edita: indexa lo pendiente y luego vigila el proyecto,
+   * reindexando los archivos tocados (agrupados con un pequeño retardo) hasta Ctrl+C
+   */
+  private async watchCodebase(): Promise<void> {
+    await this.indexCodebase();
+    this.log('👀 Vigilando cambios en el código base (Ctrl+C para salir)...');
+    
+    const cambiados = new Set<string>();
+    let temporizador: NodeJS.Timeout | undefined;
+    let enCurso: Promise<void> = Promise.resolve();
+    
+    const procesar = () => {
+      const lote = [...cambiados];
+      cambiados.clear();
+      // En serie: dos lotes a la vez pisarían el manifiesto
+      enCurso = enCurso
+        .then(() => this.indexarArchivos(lote))
+        .then(resumen => {
+          const tocados = resumen.nuevos.length + resumen.modificados.length + resumen.eliminados.length;
+          if (tocados > 0) {
+            this.log(`🔄 Índice actualizado: ${tocados} archivos, ${resumen.fragmentosEmbebidos} fragmentos embebidos`);
+          }
+        })
+        .catch(error => this.log(`❌ Error al actualizar el índice: ${error}`, 'error'));
+    };
+    
+    const watcher = fs.watch(process.cwd(), { recursive: true }, (_evento, archivo) => {
+      if (!archivo) return;
+      const source = archivo.toString().split(path.sep).join('/');
+      if (!esIndexable(source)) return;
+      cambiados.add(source);
+      if (temporizador) clearTimeout(temporizador);
+      temporizador = setTimeout(procesar, devmindConfig.memory.watchDebounceMs);
+    });
+    
+    await new Promise<void>(resolve => {
+      const detener = () => {
+        process.removeListener('SIGINT', detener);
+        process.removeListener('SIGTERM', detener);
+        watcher.close();
+        if (temporizador) clearTimeout(temporizador);
+        if (cambiados.size > 0) procesar();
+        resolve();
+      };
+      process.once('SIGINT', detener);
+      process.once('SIGTERM', detener);
+    });
+    
+    await enCurso;
+    this.log('👋 Vigilancia detenida');
   }
   
   /**
@@ -218,11 +447,11 @@ export class MemoryAgent extends BaseAgent {
     
     try {
       // Obtener estadísticas del índice
-      const index = this.pineconeClient.Index(this.indexName);
-      const stats = await index.describeIndexStats();
+      const stats = await this.almacen.estadisticas();
       
       this.log('📊 Estadísticas de la memoria:');
-      this.log(`- Total de vectores: ${stats.totalVectorCount}`);
+      this.log(`- Almacén: ${stats.backend} (embedder ${stats.embedder})`);
+      this.log(`- Total de vectores: ${stats.total}`);
       this.log(`- Dimensión: ${stats.dimension}`);
       this.log(`- Namespaces: ${Object.keys(stats.namespaces).join(', ')}`);
       
@@ -237,74 +466,35 @@ export class MemoryAgent extends BaseAgent {
   }
   
   /**
-   * Genera un grafo de conocimiento visualizable
+   * Genera el grafo de símbolos del código (compilador de TypeScript) y lo exporta al dashboard
    */
-  private async generateKnowledgeGraph(): Promise<void> {
+  private async generateKnowledgeGraph(): Promise<GrafoCodigo> {
     this.log('🕸️ Generando grafo de conocimiento...');
     
     try {
-      // Obtener todos los archivos de código
-      const files = await glob('**/*.{ts,tsx,js,jsx}', {
-        ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
-        cwd: process.cwd(),
-      });
-      
-      // Analizar importaciones y relaciones entre archivos
-      const graph = {
-        nodes: [] as any[],
-        links: [] as any[],
-      };
-      
-      // Crear nodos para cada archivo
-      files.forEach(file => {
-        graph.nodes.push({
-          id: file,
-          group: this.getFileGroup(file),
-          label: path.basename(file),
-        });
-      });
+      const grafo = await construirGrafoCodigo(process.cwd());
       
-      // Analizar importaciones para crear enlaces
-      for (const file of files) {
-        const fullPath = path.join(process.cwd(), file);
-        const content = fs.readFileSync(fullPath, 'utf-8');
-        
-        // Buscar importaciones (patrón simple, podría mejorarse)
-        const importRegex = /import\s+.*?from\s+['"](.+?)['"]/g;
-        let match;
-        
-        while ((match = importRegex.exec(content)) !== null) {
-          const importPath = match[1];
-          
-          // Ignorar importaciones de bibliotecas
-          if (!importPath.startsWith('.')) continue;
-          
-          // Resolver ruta relativa
-          const resolvedPath = this.resolveImportPath(file, importPath);
-          if (resolvedPath && files.includes(resolvedPath)) {
-            graph.links.push({
-              source: file,
-              target: resolvedPath,
-              value: 1,
-            });
-          }
-        }
-      }
+      const porTipo = (valores: string[]) =>
+        Object.entries(valores.reduce<Record<string, number>>((conteo, v) => ({ ...conteo, [v]: (conteo[v] || 0) + 1 }), {}))
+          .map(([tipo, total]) => `${tipo}: ${total}`)
+          .join(', ');
+      this.log(`📊 ${grafo.archivos} archivos, ${grafo.nodos.length} nodos, ${grafo.relaciones.length} relaciones`);
+      this.log(`- Nodos: ${porTipo(grafo.nodos.map(nodo => nodo.tipo))}`);
+      this.log(`- Relaciones: ${porTipo(grafo.relaciones.map(relacion => relacion.tipo))}`);
       
-      // Guardar grafo en un archivo JSON
+      // Guardar grafo en el formato del dashboard
       const graphPath = path.join(process.cwd(), 'dashboard', 'public', 'knowledge-graph.json');
-      
-      // Asegurar que el directorio existe
-      const dir = path.dirname(graphPath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      
-      fs.writeFileSync(graphPath, JSON.stringify(graph, null, 2), 'utf-8');
+      this.ensureDirectoryExists(path.dirname(graphPath));
+      fs.writeFileSync(graphPath, JSON.stringify(aVisualizacion(grafo), null, 2), 'utf-8');
       this.log(`📊 Grafo de conocimiento generado en: ${graphPath}`);
       
       // Generar componente de visualización para el dashboard
       this.generateGraphVisualization();
+      
+      // El último: queryKnowledgeGraph lo da por bueno si es más nuevo que cualquier archivo de código
+      fs.writeFileSync(this.codeGraphPath, JSON.stringify(grafo, null, 2), 'utf-8');
+      this.log(`📄 Grafo de símbolos guardado en: ${this.codeGraphPath}`);
+      return grafo;
     } catch (error) {
       this.log('❌ Error al generar el grafo de conocimiento:', 'error');
       throw error;
@@ -312,55 +502,92 @@ export class MemoryAgent extends BaseAgent {
   }
   
   /**
-   * Busca en el código base usando embeddings
+   * Preguntas de impacto sobre el grafo de símbolos (graph:callers:X, graph:implements:Y, graph:impact:Z...)
+   * Reutiliza el grafo guardado si ningún archivo de código cambió desde que se generó.
    */
-  private async searchCodebase(query: string): Promise<void> {
+  private async queryKnowledgeGraph(consulta: string): Promise<ResultadoConsultaGrafo> {
+    const separador = consulta.indexOf(':');
+    const pregunta = PREGUNTAS_GRAFO[separador === -1 ? consulta : consulta.substring(0, separador)];
+    const simbolo = separador === -1 ? '' : consulta.substring(separador + 1).trim();
+    if (!pregunta || !simbolo) {
+      throw new Error(`Consulta de grafo no válida: "${consulta}". Usa graph:<${Object.keys(PREGUNTAS_GRAFO).join('|')}>:<símbolo>`);
+    }
+    
+    let grafo: GrafoCodigo | undefined;
+    if (fs.existsSync(this.codeGraphPath)) {
+      const generado = fs.statSync(this.codeGraphPath).mtimeMs;
+      const files = await glob('**/*.{ts,tsx,js,jsx}', { ignore: IGNORADOS_INDEXACION, cwd: process.cwd() });
+      if (files.every(file => fs.statSync(path.join(process.cwd(), file)).mtimeMs <= generado)) {
+        grafo = JSON.parse(fs.readFileSync(this.codeGraphPath, 'utf-8')) as GrafoCodigo;
+      }
+    }
+    grafo = grafo ?? await this.generateKnowledgeGraph();
+    
+    const resultado = consultarGrafo(grafo, pregunta, simbolo);
+    if (resultado.objetivos.length === 0) {
+      this.log(`⚠️ No hay ningún símbolo "${simbolo}" en el grafo`, 'warning');
+      return resultado;
+    }
+    
+    this.log(`🔎 ${pregunta} de ${resultado.objetivos.map(nodo => nodo.id).join(', ')}: ${resultado.resultados.length}`);
+    for (const { nodo, relacion, profundidad, archivo, linea } of resultado.resultados) {
+      const sangria = '  '.repeat(profundidad);
+      this.log(`${sangria}- ${nodo.id} (${nodo.tipo}, ${relacion}) — ${archivo}:${linea}`);
+    }
+    return resultado;
+  }
+  
+  /**
+   * Busca en el código base combinando palabras clave (BM25) y embeddings
+   */
+  private async searchCodebase(query: string, filtros: FiltrosBusquedaCodigo = {}, limite: number = 10): Promise<ResultadoBusquedaCodigo[]> {
     this.log(`🔍 Buscando: "${query}" en el código base...`);
     
     try {
-      // Obtener el índice de Pinecone
-      const index = this.pineconeClient.Index(this.indexName);
-      
-      // Crear store de vectores
-      const vectorStore = await PineconeStore.fromExistingIndex(this.embeddings, {
-        pineconeIndex: index,
+      const results = await buscarCodigo(query, {
+        store: this.almacen,
+        embedder: this.embedder,
+        indice: this.palabrasClave,
         namespace: this.namespace,
-        textKey: 'text',
+        limite,
+        filtros,
       });
       
-      // Realizar búsqueda semántica
-      const results = await vectorStore.similaritySearch(query, 5);
-      
       this.log('🔎 Resultados de la búsqueda:');
       results.forEach((result, i) => {
         this.log(`\n--- Resultado ${i + 1} ---`);
-        this.log(`Archivo: ${result.metadata.source}`);
-        this.log(`Relevancia: Alta`);
-        this.log(`Fragmento:\n${result.pageContent.substring(0, 200)}...`);
+        this.log(`Archivo: ${result.archivo}:${result.lineaInicio}-${result.lineaFin}${result.simbolo ? ` (${result.tipoSimbolo} ${result.simbolo})` : ''}`);
+        this.log(`Relevancia: ${(result.puntuacion * 100).toFixed(0)}% (palabras clave ${(result.puntuacionClave * 100).toFixed(0)}%, semántica ${(result.puntuacionVector * 100).toFixed(0)}%)`);
+        this.log(`Fragmento:\n${result.fragmento.split('\n').map((linea, j) => `${String(result.lineaFragmento + j).padStart(5)} | ${linea}`).join('\n')}`);
       });
+      if (results.length === 0) {
+        this.log('Sin resultados. ¿Está indexado? Prueba `cj docs memory index`');
+      }
       
       // Guardar resultados en un archivo
       const resultsPath = path.join(this.contextPath, 'search-results.json');
-      fs.writeFileSync(
-        resultsPath,
-        JSON.stringify(
-          results.map(r => ({
-            source: r.metadata.source,
-            content: r.pageContent,
-            metadata: r.metadata,
-          })),
-          null,
-          2
-        ),
-        'utf-8'
-      );
+      fs.writeFileSync(resultsPath, JSON.stringify(results, null, 2), 'utf-8');
       this.log(`📄 Resultados guardados en: ${resultsPath}`);
+      return results;
     } catch (error) {
       this.log('❌ Error al buscar en el código base:', 'error');
       throw error;
     }
   }
   
+  /**
+   * Muestra el contexto que recibiría un prompt sobre `consulta` (lo que inyectan los agentes)
+   */
+  private async assembleContext(consulta: string, presupuestoTokens?: number): Promise<ContextoEnsamblado> {
+    const assembler = new ContextAssembler({ store: this.almacen, embedder: this.embedder, indice: this.palabrasClave, namespace: this.namespace });
+    const contexto = await assembler.ensamblar(consulta, { presupuestoTokens, agente: this.agentName });
+
+    this.log(`📚 Contexto pa' "${consulta}": ~${contexto.tokens}/${contexto.presupuestoTokens} tokens, ${contexto.fuentes.length} fuentes${contexto.descartadas ? ` (${contexto.descartadas} no cupieron)` : ''}`);
+    contexto.fuentes.forEach(fuente => this.log(`- [${fuente.tipo}] ${fuente.origen} — ${fuente.titulo}`));
+    if (contexto.texto) this.log(`\n${contexto.texto}`);
+    return contexto;
+  }
+  
   /**
    * Registra un cambio en el historial con justificación
    */
@@ -385,7 +612,8 @@ export class MemoryAgent extends BaseAgent {
       };
       
       // Leer historial existente o crear uno nuevo
-      const historyPath = path.join(this.contextPath, 'change-history.json');
+      // Mismo archivo que lee el ContextAssembler pa'l historial de los prompts
+      const historyPath = path.resolve(process.cwd(), devmindConfig.contextPath, 'change-history.json');
       let history = [];
       
       if (fs.existsSync(historyPath)) {
@@ -399,9 +627,9 @@ export class MemoryAgent extends BaseAgent {
       fs.writeFileSync(historyPath, JSON.stringify(history, null, 2), 'utf-8');
       this.log(`✅ Cambio registrado en el historial`);
       
-      // Actualizar embeddings para el archivo modificado
-      if (fs.existsSync(path.join(process.cwd(), file))) {
-        await this.indexFile(file);
+      // Actualizar embeddings para el archivo modificado (o quitarlo si se borró)
+      const resumen = await this.indexarArchivos([file]);
+      if (resumen.nuevos.length + resumen.modificados.length + resumen.eliminados.length > 0) {
         this.log(`🔄 Embeddings actualizados para: ${file}`);
       }
     } catch (error) {
@@ -424,11 +652,14 @@ interface GraphData {
     id: string;
     group: number;
     label: string;
+    kind: string; // clase, interfaz, funcion, metodo, tipo, enum, variable, archivo
+    file: string;
   }[];
   links: {
     source: string;
     target: string;
     value: number;
+    kind: string; // importa, llama, extiende, implementa, referencia
   }[];
 }
 
@@ -468,17 +699,20 @@ const KnowledgeGraph: React.FC = () => {
       <ForceGraph3D
         ref={graphRef}
         graphData={graphData}
-        nodeLabel="label"
+        nodeLabel={node => \`\${(node as any).label} · \${(node as any).kind} · \${(node as any).file}\`}
         nodeColor={node => {
           const colors = [
-            '#4285F4', // Azul - Agentes
-            '#EA4335', // Rojo - CLI
-            '#FBBC05', // Amarillo - Contexto
-            '#34A853', // Verde - Utilidades
-            '#8334A2', // Púrpura - Componentes
+            '#4285F4', // Azul - Clases
+            '#34A853', // Verde - Funciones
+            '#FBBC05', // Amarillo - Interfaces
+            '#8334A2', // Púrpura - Métodos
+            '#EA4335', // Rojo - Tipos y enums
+            '#9CA3AF', // Gris - Variables exportadas
+            '#F9FAFB', // Blanco - Archivos
           ];
           return colors[(node as any).group % colors.length];
         }}
+        linkLabel="kind"
         nodeRelSize={6}
         linkWidth={1}
         linkDirectionalParticles={2}
@@ -599,7 +833,7 @@ export default KnowledgeGraph;`;
           exports: [] as string[],
           classes: [] as string[],
           functions: [] as string[],
-          complexity: this.calculateComplexity(content),
+          complexity: complejidadCiclomatica(content, file),
         };
         
         // Extraer importaciones
@@ -652,21 +886,6 @@ export default KnowledgeGraph;`;
     }
   }
   
-  /**
-   * Calcula la complejidad de un fragmento de código
-   * @param content Contenido del código
-   */
-  private calculateComplexity(content: string): number {
-    // Métricas simples de complejidad
-    const lines = content.split('\n').length;
-    const conditionals = (content.match(/if|else|switch|case|for|while|do/g) || []).length;
-    const functions = (content.match(/function|\=\>|\=\s*\(.*?\)\s*\=\>/g) || []).length;
-    const classes = (content.match(/class\s+\w+/g) || []).length;
-    
-    // Fórmula simple de complejidad
-    return Math.round((lines / 100) * 0.3 + conditionals * 0.5 + functions * 0.7 + classes * 1.0);
-  }
-  
   /**
    * Genera una visualización del análisis de código
    * @param analysis Análisis de código
@@ -936,17 +1155,13 @@ export default KnowledgeGraph;`;
     this.log('🧠 Generando embedding para contenido...');
     
     try {
-      // Crear documento
-      const doc = new Document({
-        pageContent: content,
-        metadata: {
-          source: 'manual-input',
-          timestamp: new Date().toISOString(),
-        },
-      });
+      const metadata = {
+        source: 'manual-input',
+        timestamp: new Date().toISOString(),
+      };
       
       // Generar embedding
-      const embedding = await this.embeddings.embedDocuments([doc.pageContent]);
+      const [embedding] = await this.embedder.embed([content]);
       
       // Guardar embedding
       const embeddingPath = path.join(this.memoryDir, 'embeddings', `manual-${Date.now()}.json`);
@@ -955,24 +1170,24 @@ export default KnowledgeGraph;`;
       fs.writeFileSync(
         embeddingPath,
         JSON.stringify({
-          content: doc.pageContent,
-          embedding: embedding[0],
-          metadata: doc.metadata,
+          content,
+          embedding,
+          embedder: this.embedder.nombre,
+          metadata,
         }, null, 2),
         'utf-8'
       );
       
       this.log(`✅ Embedding generado y guardado en: ${embeddingPath}`);
       
-      // Opcional: almacenar en Pinecone
-      const index = this.pineconeClient.Index(this.indexName);
-      await PineconeStore.fromDocuments([doc], this.embeddings, {
-        pineconeIndex: index,
-        namespace: 'manual-embeddings',
-        textKey: 'text',
-      });
+      // Almacenar también en la memoria, en su propio namespace
+      await this.almacen.upsert(
+        [{ id: `manual-${Date.now()}`, texto: content, vector: embedding, metadata }],
+        'manual-embeddings'
+      );
+      await this.almacen.guardar();
       
-      this.log('✅ Embedding almacenado en Pinecone');
+      this.log(`✅ Embedding almacenado en el almacén ${this.almacen.nombre}`);
     } catch (error) {
       this.log(`❌ Error al generar embedding: ${error}`, 'error');
       throw error;
@@ -1,7 +1,35 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import { exec } from 'child_process';
+import { z } from 'zod';
+import { DefinicionSalida } from '../services/structured-output';
+
+const FORMATO_METRICAS = `{
+  "metrics": [
+    { "name": "http_requests_total", "description": "Descripción", "type": "counter", "unit": "requests", "frequency": "15s" }
+  ],
+  "prometheusConfig": "YAML de Prometheus (opcional)"
+}`;
+
+// Métricas que define el LLM; los campos extra que agregue se conservan en el JSON guardado
+const esquemaMetricas = z.object({
+  metrics: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string(),
+    type: z.enum(['counter', 'gauge', 'histogram', 'summary']),
+    unit: z.string(),
+    frequency: z.string(),
+  }).passthrough()).min(1),
+  prometheusConfig: z.string().optional(),
+}).passthrough();
+
+const SALIDA_METRICAS: DefinicionSalida<z.infer<typeof esquemaMetricas>> = {
+  nombre: 'definición de métricas',
+  esquema: esquemaMetricas,
+  formato: FORMATO_METRICAS,
+};
 
 /**
  * Monitor Agent - Configura la supervisión del sistema en producción
@@ -14,8 +42,26 @@ import { exec } from 'child_process';
  * 5. Generar scripts de instalación y configuración
  */
 export class MonitorAgent extends BaseAgent {
-  constructor() {
-    super('Monitor Agent');
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'monitor',
+    agente: 'MonitorAgent',
+    categoria: 'infraestructura',
+    descripcion: 'Configura la supervisión del sistema en producción',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación de monitoreo', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'MonitorAgent';
   }
 
   /**
@@ -80,23 +126,13 @@ export class MonitorAgent extends BaseAgent {
     4. Frecuencia de recolección recomendada
     5. Configuración para Prometheus (si aplica)
     
-    Estructura tu respuesta en formato JSON.
+    Formato: JSON con la estructura:
+    ${FORMATO_METRICAS}
     `;
     
     try {
       // Consultar al LLM
-      const response = await this.queryLLM(metricsPrompt);
-      
-            // Extraer el JSON de la respuesta
-            const jsonMatch = response.match(/```(?:json)\n([\s\S]*?)\n```/) || 
-            response.match(/```\n([\s\S]*?)\n```/) ||
-            response.match(/{[\s\S]*?}/);
-
-if (!jsonMatch) {
-throw new Error('No se pudo extraer la definición de métricas de la respuesta del LLM');
-}
-
-const metrics = JSON.parse(jsonMatch[1] || jsonMatch[0]);
+      const metrics = await this.salidaEstructurada(SALIDA_METRICAS, metricsPrompt);
 
 // Generar nombre de archivo basado en la especificación
 const fileName = `${spec.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '')}-metrics.json`;
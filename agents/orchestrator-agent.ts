@@ -1,4 +1,17 @@
-import { BaseAgent, ContextoProyecto } from './base-agent'; // Ajusta la ruta
+import { BaseAgent, ContextoProyecto, USUARIO_POR_DEFECTO } from './base-agent'; // Ajusta la ruta
+import { AgentCapabilities, AgentResult, AgentRunner } from '../types/agent-runner';
+import { Task } from '../types/task-types';
+import { MAX_INTENTOS, TaskManager } from '../services/task-manager';
+import { TransactionManager } from '../services/transaction-manager';
+import { BudgetManager, PresupuestoExcedidoError, formatearEstimacion } from '../services/budget-manager';
+import { Entitlements } from '../services/entitlements';
+import { devmindConfig } from '../devmind.config';
+import { WorkflowPlan } from '../types/workflow-types';
+import { EstimacionPlan } from '../types/budget-types';
+import { AgentesConocidos, calcularNiveles, formatearPlan, salidaPlan } from '../services/workflow-plan';
+import { existsSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { isAbsolute, join } from 'path';
 import { MemoryAgent } from './memory-agent';
 import { DashboardAgent } from './dashboard-agent';
 import { QuestionAgent } from './question-agent';
@@ -31,6 +44,7 @@ import { ExtensionAgent } from './extension-agent';
 import { RiskManagementAgent } from './risk-management-agent';
 import { NewsAnalysisAgent } from './news-analysis-agent';
 import { AlertAgent } from './alert-agent';
+import { AccionDashboard, EventoProyecto, ResultadoAccion } from '../types/dashboard-sync-types';
 
 interface ProjectState {
   id: string;
@@ -43,8 +57,18 @@ interface ProjectState {
   agentProgress: Record<string, number>;
   overallProgress: number;
   lastError?: { agent: string; timestamp: string; message: string; context?: string };
+  plan?: WorkflowPlan; // Se guarda al planificar pa' poder reanudar con --resume
+  ejecucionId?: string; // Id de la orquestación en el CreditLedger (presupuesto por ejecución); se conserva al reanudar
 }
 
+// Estado de la orquestación → Project.status del dashboard
+const ESTADO_DASHBOARD: Record<ProjectState['status'], EventoProyecto['estado']> = {
+  not_started: 'planning',
+  in_progress: 'active',
+  completed: 'completed',
+  failed: 'failed',
+};
+
 interface WorkflowStep {
   id: number;
   agentType: string;
@@ -55,22 +79,13 @@ interface WorkflowStep {
   error?: string;
 }
 
-interface WorkflowPlan {
-  steps: {
-    id: string;
-    agent: string;
-    input: string;
-    description: string;
-    dependsOn?: string | string[];
-    priority: number;
-  }[];
-}
-
 interface QueuedExecution {
+  contexto: ContextoProyecto;
   agentType: string;
   input: string;
   priority: number;
-  resolve: (value: string) => void;
+  planStepId?: string;
+  resolve: (value: AgentResult) => void;
   reject: (error: Error) => void;
 }
 
@@ -80,23 +95,37 @@ interface DependencyGraph {
 }
 
 export class OrchestratorAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'orchestrator',
+    agente: 'OrchestratorAgent',
+    categoria: 'meta',
+    descripcion: 'Coordina un proyecto completo entre todos los agentes',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Descripción del proyecto', requerido: true },
+    },
+  };
   private projectState: ProjectState;
   private workflowHistory: WorkflowStep[] = [];
-  private agentRegistry: Record<string, any>;
-  private parallelExecutionLimit: number = 3;
+  private agentRegistry: Record<string, AgentRunner>;
+  private parallelExecutionLimit: number = Entitlements.getInstance().cupo('paralelismo') || 8; // Cupo de la licencia; proponerMejora lo baja si hay fallos
   private activeExecutions: number = 0;
   private executionQueue: QueuedExecution[] = [];
-  private memoryAgent: MemoryAgent;
-  private dashboardAgent: DashboardAgent;
+  protected memoryAgent: MemoryAgent;
+  protected dashboardAgent: DashboardAgent;
   private selfImprovementAgent: SelfImprovementAgent;
+  private taskManager: TaskManager;
+  private ultimasCorrecciones: string[] = [];
 
-  constructor(userId: string) {
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
     super(userId);
     this.agentName = 'OrchestratorAgent';
     this.projectState = this.loadProjectState();
     this.memoryAgent = new MemoryAgent();
     this.dashboardAgent = new DashboardAgent();
     this.selfImprovementAgent = new SelfImprovementAgent(this.userId);
+    this.taskManager = new TaskManager();
 
     // Registro de agentes actualizado para incluir los 30 agentes especializados
     this.agentRegistry = {
@@ -151,14 +180,10 @@ export class OrchestratorAgent extends BaseAgent {
   }
 
   async run(contexto: ContextoProyecto, description: string): Promise<void> {
-    if (contexto.licencia === 'Community' && description.includes('complex')) {
-      throw new Error('Community Edition no soporta proyectos complejos');
-    }
-
     await this.registrarActividad(contexto, 'iniciando OrchestratorAgent', { description });
 
     try {
-      this.initializeProjectState(contexto, description);
+      await this.initializeProjectState(contexto, description);
       await this.dashboardAgent.actualizarWebview({
         proyectoId: contexto.id,
         estado: 'proyecto iniciado',
@@ -169,7 +194,20 @@ export class OrchestratorAgent extends BaseAgent {
       await this.checkForExtensions(contexto, description);
 
       const workflow = await this.planWorkflow(contexto, description);
-      await this.executeWorkflow(contexto, workflow);
+      this.comprobarCupo('pasosPorPlan', workflow.steps.length);
+      this.projectState.plan = workflow;
+      await this.saveProjectState(contexto);
+      this.publicarPlan(contexto, workflow);
+      const estimacion = this.estimarPlan(contexto, workflow);
+      await this.dashboardAgent.actualizarWebview({
+        proyectoId: contexto.id,
+        estado: 'plan generado',
+        plan: formatearPlan(workflow, this.ultimasCorrecciones),
+        costeEstimado: estimacion.total,
+      });
+      await this.comprobarPresupuestoPlan(contexto, estimacion);
+
+      await this.conManejoDeInterrupcion(contexto, () => this.executeWorkflow(contexto, workflow));
       await this.finalizeProject(contexto);
     } catch (error) {
       await this.handleProjectError(contexto, error as Error);
@@ -177,9 +215,92 @@ export class OrchestratorAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Reanuda una orquestación desde context/<projectId>-state.json (cj system orchestrate --resume)
+   * Los pasos completados cuyos archivos siguen en disco no se vuelven a pagar
+   */
+  async reanudar(projectId: string): Promise<void> {
+    const contexto = await this.cargarContexto(this.rutaEstado(projectId));
+    const estadoGuardado = contexto?.estado as ProjectState | undefined;
+    if (!contexto || !estadoGuardado) {
+      throw new Error(`No hay estado guardado pa' el proyecto ${projectId} (${this.rutaEstado(projectId)})`);
+    }
+    if (!estadoGuardado.plan) {
+      throw new Error(`El proyecto ${projectId} no llegó a planificarse; inícialo de nuevo con cj system orchestrate`);
+    }
+    if (estadoGuardado.status === 'completed') {
+      throw new Error(`El proyecto ${projectId} ya está completado`);
+    }
+
+    this.projectState = this.loadProjectState(contexto);
+    this.projectState.ejecucionId = this.projectState.ejecucionId || uuidv4();
+    this.projectState.status = 'in_progress';
+    this.projectState.lastError = undefined;
+    await this.saveProjectState(contexto);
+
+    const plan = this.projectState.plan!;
+    this.publicarPlan(contexto, plan);
+    await this.registrarActividad(contexto, 'reanudando OrchestratorAgent', { pasos: plan.steps.length });
+    await this.aplicarAccionesDashboard(contexto.id);
+    await this.dashboardAgent.actualizarWebview({
+      proyectoId: contexto.id,
+      estado: 'proyecto reanudado',
+      progreso: this.projectState.overallProgress,
+    });
+
+    try {
+      await this.conManejoDeInterrupcion(contexto, () => this.executeWorkflow(contexto, plan));
+      await this.finalizeProject(contexto);
+    } catch (error) {
+      await this.handleProjectError(contexto, error as Error);
+      throw error;
+    }
+  }
+
+  // Deja el proyecto en 'failed' con el último error: --resume retoma desde ahí
+  private async handleProjectError(contexto: ContextoProyecto, error: Error): Promise<void> {
+    this.projectState.status = 'failed';
+    this.projectState.lastError = {
+      agent: this.agentName,
+      timestamp: new Date().toISOString(),
+      message: error.message,
+      context: `paso ${this.projectState.currentStep}/${this.projectState.totalSteps}`,
+    };
+    await this.saveProjectState(contexto);
+    await this.registrarActividad(contexto, 'orquestación fallida', { error: error.message });
+    await this.dashboardAgent.actualizarWebview({
+      proyectoId: contexto.id,
+      estado: 'proyecto fallido',
+      error: error.message,
+      reanudar: `cj system orchestrate --resume ${contexto.id}`,
+    });
+  }
+
+  // Ctrl-C: deja las tareas en curso en ERROR y el estado guardado pa' poder reanudar
+  private async conManejoDeInterrupcion(contexto: ContextoProyecto, fn: () => Promise<void>): Promise<void> {
+    const alInterrumpir = async () => {
+      const enCurso = this.taskManager.listar({ proyectoId: contexto.id, estado: 'IN_PROGRESS' });
+      for (const tarea of enCurso) {
+        await this.taskManager.transicionar(tarea.id, 'ERROR', { motivo: 'Interrumpida por el usuario', actor: this.agentName });
+      }
+      this.projectState.status = 'failed';
+      this.projectState.lastError = { agent: this.agentName, timestamp: new Date().toISOString(), message: 'Interrumpida por el usuario' };
+      await this.saveProjectState(contexto);
+      console.log(`\n⏸️ Orquestación interrumpida. Reanuda con: cj system orchestrate --resume ${contexto.id}`);
+      process.exit(130);
+    };
+
+    process.once('SIGINT', alInterrumpir);
+    try {
+      await fn();
+    } finally {
+      process.removeListener('SIGINT', alInterrumpir);
+    }
+  }
+
   // Nuevo método para verificar si se necesitan extensiones
   private async checkForExtensions(contexto: ContextoProyecto, description: string): Promise<void> {
-    if (contexto.licencia === 'Community') return; // Solo disponible en licencias Professional y Enterprise
+    if (!this.puede('extensiones')) return;
     
     const extensionAgent = this.agentRegistry['extension'] as ExtensionAgent;
     const requiredExtensions = await extensionAgent.analyzeRequirements(contexto, description);
@@ -197,7 +318,7 @@ export class OrchestratorAgent extends BaseAgent {
     }
   }
 
-  private initializeProjectState(contexto: ContextoProyecto, description: string): void {
+  private async initializeProjectState(contexto: ContextoProyecto, description: string): Promise<void> {
     this.projectState = {
       id: contexto.id,
       description,
@@ -208,15 +329,19 @@ export class OrchestratorAgent extends BaseAgent {
       totalSteps: 0,
       agentProgress: {},
       overallProgress: 0,
+      ejecucionId: uuidv4(),
     };
     contexto.nombre = description;
-    this.saveProjectState(contexto);
+    await this.saveProjectState(contexto);
   }
 
   private async planWorkflow(contexto: ContextoProyecto, description: string): Promise<WorkflowPlan> {
+    const relevante = await this.contextoRelevante(description, {}, contexto);
     const prompt = `
     Genera un plan de flujo de trabajo para el proyecto "${description}" con base en el contexto:
-    ${JSON.stringify(contexto, null, 2)}
+    ${this.resumenProyecto(contexto)}
+
+    ${relevante.texto}
 
     Incluye pasos para:
     1. Recolectar requisitos (QuestionAgent)
@@ -243,6 +368,8 @@ export class OrchestratorAgent extends BaseAgent {
     22. Planificar negocio (BusinessAgent)
     23. Mejorar automáticamente (SelfImprovementAgent)
 
+    En "agent" usa solo una de estas claves: ${Object.keys(this.agentRegistry).join(', ')}
+
     Formato: JSON con la estructura:
     {
       "steps": [
@@ -258,96 +385,448 @@ export class OrchestratorAgent extends BaseAgent {
     }
     `;
 
-    const result = await this.ejecutarPrompt(contexto, prompt);
-    return JSON.parse(result) as WorkflowPlan;
+    // Los errores concretos (agentes inexistentes, ciclos...) vuelven al LLM hasta llm.maxReparaciones veces
+    const { plan, correcciones } = await this.salidaEstructurada(salidaPlan(this.agentesConocidos()), prompt, contexto);
+    await this.registrarActividad(contexto, 'plan validado', { pasos: plan.steps.length, correcciones });
+    this.ultimasCorrecciones = correcciones;
+    return plan;
+  }
+
+  // Claves del registro + nombres de clase, pa' resolver los nombres que inventa el LLM
+  private agentesConocidos(): AgentesConocidos {
+    const agentes: AgentesConocidos = {};
+    for (const [clave, agent] of Object.entries(this.agentRegistry)) {
+      agentes[clave] = agent?.capabilities ? [agent.capabilities.agente] : [];
+    }
+    return agentes;
+  }
+
+  /**
+   * Genera y valida el plan sin ejecutarlo (cj system orchestrate --preview)
+   */
+  async previsualizarPlan(contexto: ContextoProyecto, description: string): Promise<{ plan: WorkflowPlan; estimacion: EstimacionPlan; vista: string }> {
+    const plan = await this.planWorkflow(contexto, description);
+    const estimacion = this.estimarPlan(contexto, plan);
+    return { plan, estimacion, vista: `${formatearPlan(plan, this.ultimasCorrecciones)}\n\n${formatearEstimacion(estimacion)}` };
+  }
+
+  /**
+   * Coste previsto del plan: lo que reservaría cada paso según el historial de su agente, evaluado
+   * contra los presupuestos del proyecto, de la orquestación y de cada agente
+   */
+  estimarPlan(contexto: ContextoProyecto, plan: WorkflowPlan): EstimacionPlan {
+    const pasos = plan.steps.map(step => {
+      const agent = this.agentRegistry[step.agent];
+      return {
+        stepId: step.id,
+        agente: agent?.capabilities?.agente || step.agent,
+        creditos: agent?.estimarCreditos?.() || 0,
+      };
+    });
+    return BudgetManager.getInstance().estimarPlan(pasos, {
+      userId: this.userId,
+      proyectoId: contexto.id,
+      ejecucionId: this.projectState.ejecucionId || 'nueva', // Vista previa: una orquestación que aún no gastó nada
+    });
+  }
+
+  // Un plan que no cabe en el presupuesto no arranca: mejor cortar antes del primer paso que a mitad
+  private async comprobarPresupuestoPlan(contexto: ContextoProyecto, estimacion: EstimacionPlan): Promise<void> {
+    await this.registrarActividad(contexto, 'coste del plan estimado', {
+      total: estimacion.total,
+      disponible: estimacion.disponible,
+      avisos: estimacion.decision.avisos,
+    });
+    estimacion.decision.avisos.forEach(aviso => this.advertir(aviso));
+    const excedido = estimacion.decision.estados.find(estado => estado.nivel === 'corte');
+    if (excedido) {
+      throw new PresupuestoExcedidoError(excedido);
+    }
+  }
+
+  // Grafo por índice de paso; planWorkflow ya garantizó que los dependsOn existen
+  private analyzeDependencies(plan: WorkflowPlan): DependencyGraph {
+    const indices = new Map(plan.steps.map((step, index) => [step.id, index]));
+    const dependencies = plan.steps.map(step =>
+      ([] as string[]).concat(step.dependsOn || []).map(id => indices.get(id)).filter((i): i is number => i !== undefined)
+    );
+    const dependents: number[][] = plan.steps.map(() => []);
+    dependencies.forEach((deps, index) => deps.forEach(dep => dependents[dep].push(index)));
+    return { dependencies, dependents };
+  }
+
+  // Grupos de pasos que pueden correr en paralelo, en orden de ejecución
+  private identifyParallelSteps(graph: DependencyGraph): number[][] {
+    const plan: WorkflowPlan = {
+      steps: graph.dependencies.map((deps, index) => ({
+        id: String(index),
+        agent: '',
+        input: '',
+        description: '',
+        dependsOn: deps.map(String),
+        priority: 0,
+      })),
+    };
+    const { niveles, enCiclo } = calcularNiveles(plan);
+    if (enCiclo.length > 0) {
+      throw new Error(`El plan tiene dependencias circulares entre los pasos ${enCiclo.map(i => Number(i) + 1).join(', ')}`);
+    }
+    return niveles.map(nivel => nivel.map(Number));
   }
 
   private async executeWorkflow(contexto: ContextoProyecto, plan: WorkflowPlan): Promise<void> {
     const dependencyGraph = this.analyzeDependencies(plan);
     const executionGroups = this.identifyParallelSteps(dependencyGraph);
+    const tareas = await this.prepararTareas(contexto, plan);
 
     for (let groupIndex = 0; groupIndex < executionGroups.length; groupIndex++) {
       const group = executionGroups[groupIndex];
       const groupPromises = group.map(async (stepIndex) => {
         const step = plan.steps[stepIndex];
+        const tarea = tareas.get(step.id)!;
+        if (tarea.estado === 'COMPLETED') return `${step.agent} ya completado`;
+        if (this.taskManager.estaCancelada(tarea.id)) return `${step.agent} cancelado`;
+
         this.projectState.currentStep = stepIndex + 1;
         this.projectState.totalSteps = plan.steps.length;
-        this.saveProjectState(contexto);
-
-        try {
-          const result = await this.executeAgentWithQueue(contexto, step.agent, step.input, step.priority);
-          this.projectState.agentProgress[step.agent] = 100;
-          this.calculateOverallProgress();
-          this.saveProjectState(contexto);
-          return result;
-        } catch (error) {
-          const resolved = await this.resolveConflict(contexto, step, error as Error);
-          if (!resolved) throw error;
-          return 'Conflict resolved';
+        await this.saveProjectState(contexto);
+        await this.taskManager.iniciar(tarea.id, this.agentName);
+
+        // Una dependencia que no terminó deja la tarea bloqueada en vez de ejecutarla a ciegas (una omitida cuenta como hecha)
+        const pendientes = tarea.dependeDe
+          .map(id => this.taskManager.obtener(id))
+          .filter(dep => dep && dep.estado !== 'COMPLETED' && !dep.omitida) as Task[];
+        if (pendientes.length > 0) {
+          await this.taskManager.bloquear(
+            tarea.id,
+            `Dependencias sin completar: ${pendientes.map(dep => `${dep.stepId || dep.id} (${dep.estado})`).join(', ')}`,
+            this.agentName
+          );
+          return `${step.agent} bloqueado`;
         }
+
+        return this.ejecutarPaso(contexto, step, tarea);
       });
 
-      await Promise.all(groupPromises);
+      // Se espera a todo el grupo antes de cortar: ningún paso hermano queda corriendo sin mirar.
+      // Un paso que agotó sus intentos corta la orquestación; --resume retoma desde aquí
+      const resultados = await Promise.allSettled(groupPromises);
+      const errores = resultados
+        .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+        .map(r => r.reason as Error);
+      if (errores.length === 1) throw errores[0];
+      if (errores.length > 1) throw new Error(`Pasos fallidos: ${errores.map(error => error.message).join('; ')}`);
+
       await this.dashboardAgent.actualizarWebview({
         proyectoId: contexto.id,
         estado: `grupo ${groupIndex + 1}/${executionGroups.length} completado`,
         progreso: this.projectState.overallProgress,
       });
+      await this.aplicarAccionesDashboard(contexto.id);
     }
   }
 
-  private async executeAgentWithQueue(contexto: ContextoProyecto, agentType: string, input: string, priority: number): Promise<string> {
+  /**
+   * Ejecuta un paso ya en IN_PROGRESS. Si falla, TaskManager.fallar lo deja en ERROR y se reintenta con
+   * espera exponencial; al llegar a MAX_INTENTOS pasa a CANCELLED (context/rules.md, Manejo de Errores)
+   */
+  private async ejecutarPaso(contexto: ContextoProyecto, step: WorkflowPlan['steps'][number], tarea: Task): Promise<string> {
+    for (;;) {
+      try {
+        const result = await this.executeAgentWithQueue(contexto, step.agent, step.input, step.priority, step.id);
+        if (this.taskManager.estaCancelada(tarea.id)) return `${step.agent} cancelado`;
+        await this.taskManager.completar(tarea.id, this.resumirResultado(result), this.agentName, result.archivos);
+        this.projectState.agentProgress[step.agent] = 100;
+        this.calculateOverallProgress();
+        await this.saveProjectState(contexto);
+        return `${step.agent} completado`;
+      } catch (error) {
+        if (this.taskManager.estaCancelada(tarea.id)) return `${step.agent} cancelado`;
+        const mensaje = (error as Error).message;
+        const fallida = await this.taskManager.fallar(tarea.id, mensaje, this.agentName);
+        if (fallida.estado !== 'ERROR') {
+          throw new Error(`${step.agent} (${step.id}) cancelado tras ${MAX_INTENTOS} intentos: ${mensaje}`);
+        }
+        const espera = devmindConfig.tareas.reintentoBaseMs * 2 ** (fallida.intentos - 1);
+        await this.registrarActividad(contexto, 'reintentando paso', { stepId: step.id, intento: fallida.intentos + 1, esperaMs: espera, error: mensaje });
+        await new Promise(resolve => setTimeout(resolve, espera));
+        if (this.taskManager.estaCancelada(tarea.id)) return `${step.agent} cancelado`;
+        await this.taskManager.iniciar(tarea.id, this.agentName);
+      }
+    }
+  }
+
+  // El grafo del flujo en el dashboard, con los dependsOn ya normalizados por validarPlan
+  private publicarPlan(contexto: ContextoProyecto, plan: WorkflowPlan): void {
+    this.dashboardSync.plan({ id: contexto.id, nombre: contexto.nombre }, plan.steps.map(step => ({
+      id: step.id,
+      agente: step.agent,
+      descripcion: step.description,
+      input: step.input,
+      dependeDe: ([] as string[]).concat(step.dependsOn || []),
+      prioridad: step.priority,
+    })));
+  }
+
+  /**
+   * Reintentos y omisiones de pasos pedidos desde el dashboard. Se aplican entre grupos, al reanudar y con
+   * `cj system sync apply`; cada resultado vuelve al dashboard. Si no se puede hablar con él, no hay nada que aplicar
+   */
+  async aplicarAccionesDashboard(proyectoId?: string): Promise<{ accion: AccionDashboard; resultado: ResultadoAccion }[]> {
+    if (!this.dashboardSync.activo()) return [];
+    let acciones: AccionDashboard[];
+    try {
+      acciones = await this.dashboardSync.acciones(proyectoId);
+    } catch (error) {
+      this.advertir(`No se pudieron leer las acciones pendientes del dashboard: ${(error as Error).message}`);
+      return [];
+    }
+
+    const aplicadas: { accion: AccionDashboard; resultado: ResultadoAccion }[] = [];
+    for (const accion of acciones) {
+      const resultado = await this.aplicarAccion(accion);
+      aplicadas.push({ accion, resultado });
+      await this.dashboardSync.confirmarAccion(accion.id, resultado).catch((error: Error) => {
+        this.advertir(`No se pudo confirmar la acción ${accion.id} en el dashboard: ${error.message}`);
+      });
+    }
+    return aplicadas;
+  }
+
+  private async aplicarAccion(accion: AccionDashboard): Promise<ResultadoAccion> {
+    // La tarea más reciente del paso: el dashboard puede no conocer aún la que creó un --resume
+    const tarea = this.taskManager.listar({ proyectoId: accion.proyectoId }).filter(t => t.stepId === accion.stepId).pop();
+    if (!tarea) return { estado: 'failed', detalle: `No hay ninguna tarea pa'l paso ${accion.stepId}` };
+
+    try {
+      if (accion.accion === 'skip') {
+        await this.taskManager.omitir(tarea.id, 'Omitida desde el dashboard', 'dashboard');
+        return { estado: 'done', detalle: `Tarea ${tarea.id} omitida` };
+      }
+      if (tarea.estado !== 'ERROR' && tarea.estado !== 'BLOCKED') {
+        return { estado: 'failed', detalle: `Solo se reintentan pasos en ERROR o BLOCKED (la tarea ${tarea.id} está en ${tarea.estado})` };
+      }
+      const reintentada = await this.reintentarTarea(tarea.id);
+      return reintentada.estado === 'COMPLETED'
+        ? { estado: 'done', detalle: reintentada.resultado }
+        : { estado: 'failed', detalle: reintentada.error };
+    } catch (error) {
+      return { estado: 'failed', detalle: (error as Error).message };
+    }
+  }
+
+  /**
+   * Una tarea por paso del plan, creada antes de ejecutar nada: si el proceso muere queda el registro.
+   * Al reanudar se reutilizan las tareas existentes del proyecto:
+   * - COMPLETED con sus archivos en disco → se omite
+   * - COMPLETED con archivos faltantes → tarea nueva pa' volver a ejecutar el paso
+   * - IN_PROGRESS (el proceso murió a mitad) → ERROR, y se reintenta
+   * - ERROR, BLOCKED, REVIEW, PENDING → se vuelven a ejecutar; CANCELLED se respeta
+   */
+  private async prepararTareas(contexto: ContextoProyecto, plan: WorkflowPlan): Promise<Map<string, Task>> {
+    const existentes = new Map<string, Task>();
+    for (const tarea of this.taskManager.listar({ proyectoId: contexto.id })) {
+      if (tarea.stepId) existentes.set(tarea.stepId, tarea); // La más reciente gana (listar ordena por creación)
+    }
+
+    // Un dependsOn a un paso que no está en el plan se corta antes de crear nada
+    const idsPlan = new Set(plan.steps.map(step => step.id));
+    for (const step of plan.steps) {
+      const desconocidos = ([] as string[]).concat(step.dependsOn || []).filter(id => !idsPlan.has(id));
+      if (desconocidos.length > 0) {
+        throw new Error(`El paso ${step.id} depende de pasos que no están en el plan: ${desconocidos.join(', ')}`);
+      }
+    }
+
+    const tareas = new Map<string, Task>();
+    const nuevas: WorkflowPlan['steps'] = [];
+    for (const step of plan.steps) {
+      let tarea = existentes.get(step.id);
+
+      if (tarea?.estado === 'IN_PROGRESS') {
+        tarea = await this.taskManager.transicionar(tarea.id, 'ERROR', {
+          motivo: 'La orquestación terminó mientras se ejecutaba',
+          actor: this.agentName,
+        });
+      }
+
+      if (tarea?.estado === 'COMPLETED') {
+        const faltantes = this.archivosFaltantes(tarea);
+        if (faltantes.length > 0) {
+          await this.registrarActividad(contexto, 'paso completado con archivos faltantes', { stepId: step.id, faltantes });
+          tarea = undefined;
+        } else {
+          this.projectState.agentProgress[step.agent] = 100;
+        }
+      }
+
+      if (!tarea) {
+        tarea = await this.taskManager.crear({
+          proyectoId: contexto.id,
+          stepId: step.id,
+          agente: step.agent,
+          input: step.input,
+          descripcion: step.description,
+          prioridad: step.priority,
+        }, this.agentName);
+        nuevas.push(step);
+      }
+      tareas.set(step.id, tarea);
+    }
+
+    // Segunda pasada, con todas las tareas ya creadas: un paso puede depender de otro que va después en el plan
+    for (const step of nuevas) {
+      const dependsOn = ([] as string[]).concat(step.dependsOn || []);
+      if (dependsOn.length === 0) continue;
+      const tarea = tareas.get(step.id)!;
+      tareas.set(step.id, this.taskManager.enlazarDependencias(tarea.id, dependsOn.map(id => tareas.get(id)!.id)));
+    }
+
+    this.calculateOverallProgress();
+    return tareas;
+  }
+
+  private archivosFaltantes(tarea: Task): string[] {
+    return (tarea.archivos || [])
+      .map(archivo => (isAbsolute(archivo) ? archivo : join(process.cwd(), archivo)))
+      .filter(archivo => !existsSync(archivo));
+  }
+
+  // Reintenta una tarea en ERROR o BLOCKED (cj system tasks retry)
+  async reintentarTarea(taskId: string): Promise<Task> {
+    const tarea = this.taskManager.obtener(taskId);
+    if (!tarea) throw new Error(`Tarea "${taskId}" no encontrada`);
+
+    const contexto = (await this.cargarContexto(this.rutaEstado(tarea.proyectoId))) || (await this.crearContextoInicial(tarea.proyectoId, tarea.proyectoId));
+
+    await this.taskManager.iniciar(tarea.id, this.agentName);
+    try {
+      const result = await this.executeAgent(contexto, tarea.agente, tarea.input, tarea.stepId);
+      return await this.taskManager.completar(tarea.id, this.resumirResultado(result), this.agentName, result.archivos);
+    } catch (error) {
+      return await this.taskManager.fallar(tarea.id, (error as Error).message, this.agentName);
+    }
+  }
+
+  private async executeAgentWithQueue(
+    contexto: ContextoProyecto,
+    agentType: string,
+    input: string,
+    priority: number,
+    planStepId?: string
+  ): Promise<AgentResult> {
     if (this.activeExecutions < this.parallelExecutionLimit) {
       this.activeExecutions++;
       try {
-        return await this.executeAgent(contexto, agentType, input);
+        return await this.executeAgent(contexto, agentType, input, planStepId);
       } finally {
         this.activeExecutions--;
-        this.processNextInQueue(contexto);
+        this.processNextInQueue();
       }
     } else {
       return new Promise((resolve, reject) => {
-        this.executionQueue.push({ agentType, input, priority, resolve, reject });
+        this.executionQueue.push({ contexto, agentType, input, priority, planStepId, resolve, reject });
         this.executionQueue.sort((a, b) => a.priority - b.priority);
       });
     }
   }
 
-  private async executeAgent(contexto: ContextoProyecto, agentType: string, input: string): Promise<string> {
+  // Arranca las ejecuciones encoladas mientras haya hueco bajo parallelExecutionLimit (menor prioridad primero)
+  private processNextInQueue(): void {
+    while (this.activeExecutions < this.parallelExecutionLimit && this.executionQueue.length > 0) {
+      const siguiente = this.executionQueue.shift()!;
+      this.activeExecutions++;
+      this.executeAgent(siguiente.contexto, siguiente.agentType, siguiente.input, siguiente.planStepId)
+        .then(siguiente.resolve, siguiente.reject)
+        .finally(() => {
+          this.activeExecutions--;
+          this.processNextInQueue();
+        });
+    }
+  }
+
+  // Los cambios del paso quedan en una transacción: se revierten solos si el agente falla
+  // y aquí si la revisión de código no llega a devmindConfig.transactions.reviewThreshold
+  private async executeAgent(contexto: ContextoProyecto, agentType: string, input: string, planStepId?: string): Promise<AgentResult> {
     if (!this.agentRegistry[agentType]) throw new Error(`Agente "${agentType}" no encontrado`);
 
-    const stepId = this.recordWorkflowStep({ agentType, input, status: 'started', timestamp: new Date().toISOString() });
+    const stepId = await this.recordWorkflowStep({ agentType, input, status: 'started', timestamp: new Date().toISOString() });
     const agent = this.agentRegistry[agentType];
-    await agent.run(contexto, input);
+    const resultado = await agent.ejecutar({ contexto, spec: input, stepId: planStepId, ejecucionId: this.projectState.ejecucionId });
+    if (!resultado.ok) {
+      this.updateWorkflowStep(stepId, { status: 'failed', error: resultado.error, timestamp: new Date().toISOString() });
+      throw new Error(`${agentType} falló: ${resultado.error}`);
+    }
 
     // Añadir revisión de código automática después de pasos de implementación
     if (['component', 'api', 'logic', 'database', 'integration'].includes(agentType)) {
-      await this.runCodeReview(contexto, agentType, input);
+      const puntuacion = await this.runCodeReview(contexto, agentType, resultado.archivos);
+      const umbral = devmindConfig.transactions.reviewThreshold;
+      if (puntuacion !== undefined && puntuacion < umbral && resultado.transaccionId) {
+        const motivo = `Revisión de código ${puntuacion}/100 (mínimo ${umbral})`;
+        const rollback = await TransactionManager.getInstance().revertir(resultado.transaccionId, { motivo });
+        const error = rollback.conflictos.length > 0
+          ? `${motivo}; no se revirtió porque cambiaron después: ${rollback.conflictos.join(', ')}`
+          : `${motivo}; cambios revertidos`;
+        this.updateWorkflowStep(stepId, { status: 'failed', error, timestamp: new Date().toISOString() });
+        throw new Error(`${agentType}: ${error}`);
+      }
     }
 
-    this.updateWorkflowStep(stepId, { status: 'completed', timestamp: new Date().toISOString() });
-    return `${agentType} completado`;
+    this.updateWorkflowStep(stepId, { status: 'completed', output: this.resumirResultado(resultado), timestamp: new Date().toISOString() });
+    return resultado;
   }
 
-  // Nuevo método para ejecutar revisión de código
-  private async runCodeReview(contexto: ContextoProyecto, agentType: string, input: string): Promise<void> {
-    if (contexto.licencia === 'Community') return; // Solo disponible en licencias Professional y Enterprise
+  private resumirResultado(resultado: AgentResult): string {
+    const archivos = resultado.archivos.length > 0 ? `${resultado.archivos.length} archivos` : 'sin archivos';
+    return `${archivos}, ${resultado.tokensUsados} tokens, ${resultado.creditosUsados} créditos, ${resultado.duracionMs}ms`;
+  }
+
+  // Capacidades de todos los agentes registrados (pa' la CLI y el dashboard)
+  listarCapacidades(): AgentCapabilities[] {
+    return Object.entries(this.agentRegistry)
+      .filter(([, agent]) => agent && agent.capabilities)
+      .map(([nombre, agent]) => ({ ...agent.capabilities, nombre }));
+  }
+
+  // Revisa los archivos que escribió el paso; devuelve la puntuación media (undefined si no se revisó nada)
+  private async runCodeReview(contexto: ContextoProyecto, agentType: string, archivos: string[]): Promise<number | undefined> {
+    if (!this.puede('revision-codigo')) return undefined;
     
     const codeReviewAgent = this.agentRegistry['codeReview'] as CodeReviewAgent;
-    const reviewInput = `Revisar código generado por ${agentType}: ${input}`;
     
     await this.dashboardAgent.actualizarWebview({
       proyectoId: contexto.id,
       estado: `revisando código de ${agentType}`,
     });
     
-    await codeReviewAgent.run(contexto, reviewInput);
+    const puntuaciones: number[] = [];
+    for (const archivo of archivos.filter(a => existsSync(a))) {
+      const resultado = await codeReviewAgent.ejecutar({ contexto, spec: archivo });
+      const score = (resultado.salida as { score?: number } | undefined)?.score;
+      if (!resultado.ok) {
+        await this.registrarActividad(contexto, 'revisión de código fallida', { agentType, archivo, error: resultado.error });
+      } else if (typeof score === 'number') {
+        puntuaciones.push(score);
+      }
+    }
+    if (puntuaciones.length === 0) return undefined;
+    const puntuacion = Math.round(puntuaciones.reduce((a, b) => a + b, 0) / puntuaciones.length);
+    const umbral = devmindConfig.transactions.reviewThreshold;
+    this.dashboardSync.vivo({ id: contexto.id, nombre: contexto.nombre }, 'revision', {
+      agente: agentType,
+      puntuacion,
+      umbral,
+      aprobada: puntuacion >= umbral,
+      archivos: puntuaciones.length,
+    });
+    return puntuacion;
   }
 
   private async finalizeProject(contexto: ContextoProyecto): Promise<void> {
     this.projectState.status = 'completed';
     this.projectState.lastUpdated = new Date().toISOString();
-    this.saveProjectState(contexto);
+    await this.saveProjectState(contexto);
 
     // Ejecutar mejora automática al finalizar el proyecto
     await this.runSelfImprovement(contexto);
@@ -360,21 +839,42 @@ export class OrchestratorAgent extends BaseAgent {
     });
   }
 
+  // Resumen de la orquestación en el historial y el dashboard: tareas por estado, archivos y consumo
+  private async generateFinalReport(contexto: ContextoProyecto): Promise<void> {
+    const tareas = this.taskManager.listar({ proyectoId: contexto.id });
+    const porEstado = tareas.reduce((cuenta, tarea) => {
+      const estado = tarea.omitida ? 'OMITIDA' : tarea.estado;
+      cuenta[estado] = (cuenta[estado] || 0) + 1;
+      return cuenta;
+    }, {} as Record<string, number>);
+    const informe = {
+      descripcion: this.projectState.description,
+      pasos: tareas.length,
+      porEstado,
+      reintentos: tareas.reduce((total, tarea) => total + Math.max(0, tarea.intentos - 1), 0),
+      archivos: [...new Set(tareas.flatMap(tarea => tarea.archivos || []))].length,
+      tokensUsados: contexto.metricas.tokensUsados,
+      creditosRestantes: contexto.creditosRestantes,
+    };
+    await this.registrarActividad(contexto, 'informe final', informe);
+    await this.dashboardAgent.actualizarWebview({ proyectoId: contexto.id, estado: 'informe final', informe });
+  }
+
   // Nuevo método para ejecutar mejora automática
   private async runSelfImprovement(contexto: ContextoProyecto): Promise<void> {
-    if (contexto.licencia === 'Community') return; // Solo disponible en licencias Professional y Enterprise
+    if (!this.puede('automejora')) return;
     
     await this.dashboardAgent.actualizarWebview({
       proyectoId: contexto.id,
       estado: 'optimizando para futuros proyectos',
     });
     
-    await this.selfImprovementAgent.run(contexto, this.projectState.description);
+    await this.selfImprovementAgent.ejecutar({ contexto, spec: 'report' });
   }
 
   async proponerMejora(contexto: ContextoProyecto): Promise<string | null> {
     // Primero consultamos al SelfImprovementAgent para sugerencias
-    if (contexto.licencia !== 'Community') {
+    if (this.puede('automejora')) {
       const sugerencia = await this.selfImprovementAgent.suggestImprovement(contexto, this.projectState);
       if (sugerencia) {
         await this.registrarActividad(contexto, 'mejora propuesta por SelfImprovementAgent', { sugerencia });
@@ -418,7 +918,11 @@ export class OrchestratorAgent extends BaseAgent {
       : 0;
   }
 
-  private loadProjectState(): ProjectState {
+  // Estado guardado en el contexto (al reanudar) o uno nuevo
+  private loadProjectState(contexto?: ContextoProyecto): ProjectState {
+    if (contexto?.estado) {
+      return { ...(contexto.estado as ProjectState) };
+    }
     return {
       id: '',
       description: '',
@@ -432,15 +936,21 @@ export class OrchestratorAgent extends BaseAgent {
     };
   }
 
-  private saveProjectState(contexto: ContextoProyecto): void {
+  // Es el checkpoint de cada paso (y del Ctrl-C antes de salir): se espera a que quede escrito
+  private async saveProjectState(contexto: ContextoProyecto): Promise<void> {
     contexto.estado = this.projectState;
-    this.guardarContexto(contexto, join(process.cwd(), 'context', `${contexto.id}-state.json`));
+    await this.guardarContexto(contexto, this.rutaEstado(contexto.id));
+    this.dashboardSync.proyecto({ id: contexto.id, nombre: contexto.nombre }, ESTADO_DASHBOARD[this.projectState.status], this.projectState.overallProgress);
+  }
+
+  private rutaEstado(projectId: string): string {
+    return join(process.cwd(), 'context', `${projectId}-state.json`);
   }
 
-  private recordWorkflowStep(step: Omit<WorkflowStep, 'id'>): number {
+  private async recordWorkflowStep(step: Omit<WorkflowStep, 'id'>): Promise<number> {
     const id = this.workflowHistory.length + 1;
     this.workflowHistory.push({ ...step, id });
-    this.memoryAgent.store(step, { tipo: 'workflow', proyectoId: this.projectState.id });
+    await this.memoryAgent.store(step, { tipo: 'workflow', proyectoId: this.projectState.id });
     return id;
   }
 
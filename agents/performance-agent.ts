@@ -1,6 +1,8 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
+import { extraerBloquesCodigo, extraerCodigo } from '../services/structured-output';
 
 /**
  * Performance Agent - Analiza y optimiza el rendimiento de aplicaciones
@@ -16,8 +18,26 @@ import path from 'path';
  * 8. Realizar análisis de carga y estrés
  */
 export class PerformanceAgent extends BaseAgent {
-  constructor() {
-    super('Performance Agent');
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'performance',
+    agente: 'PerformanceAgent',
+    categoria: 'calidad',
+    descripcion: 'Analiza y optimiza el rendimiento de aplicaciones',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación o ruta del código a analizar', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'PerformanceAgent';
   }
   
   /**
@@ -203,15 +223,7 @@ export class PerformanceAgent extends BaseAgent {
    * @returns Array de bloques de código
    */
   private extractCodeBlocks(text: string): string[] {
-    const codeBlockRegex = /```(?:[\w-]+)?\n([\s\S]*?)```/g;
-    const codeBlocks: string[] = [];
-    let match;
-    
-    while ((match = codeBlockRegex.exec(text)) !== null) {
-      codeBlocks.push(match[1]);
-    }
-    
-    return codeBlocks;
+    return extraerBloquesCodigo(text).map(bloque => bloque.codigo);
   }
   
   /**
@@ -220,16 +232,7 @@ export class PerformanceAgent extends BaseAgent {
    * @returns Código limpio
    */
   private cleanLLMResponse(response: string): string {
-    // Eliminar marcadores de código markdown
-    let cleaned = response.replace(/```[\w-]*\n/g, '').replace(/```/g, '');
-    
-    // Eliminar explicaciones fuera de bloques de código
-    const codeBlockMatch = cleaned.match(/[\s\S]+/);
-    if (codeBlockMatch) {
-      cleaned = codeBlockMatch[0];
-    }
-    
-    return cleaned;
+    return extraerCodigo(response);
   }
   
   /**
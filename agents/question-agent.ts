@@ -1,5 +1,6 @@
 import * as vscode from 'vscode'; // Pa’ interacción con VS Code
-import { ContextoProyecto, BaseAgent } from './base-agent'; // Ajusta la ruta según tu estructura
+import { ContextoProyecto, BaseAgent, USUARIO_POR_DEFECTO } from './base-agent'; // Ajusta la ruta según tu estructura
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import { MemoryAgent } from './memory-agent'; // Suponemos que existe
 import { DashboardAgent } from './dashboard-agent'; // Pa’ reportes
 
@@ -17,8 +18,33 @@ interface PatronRespuesta {
 }
 
 export class QuestionAgent extends BaseAgent {
-  private memoryAgent: MemoryAgent;
-  private dashboardAgent: DashboardAgent;
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'question',
+    agente: 'QuestionAgent',
+    categoria: 'meta',
+    descripcion: 'Realiza un cuestionario para definir el proyecto',
+    escribeArchivos: false,
+    usaLLM: false,
+    inputSchema: {
+      spec: { descripcion: 'Idea inicial del proyecto', requerido: true },
+      opciones: {
+        dominio: { tipo: 'string', descripcion: 'Dominio de las preguntas', valores: ['general', 'trading'] },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: genera preguntas, recoge respuestas y actualiza el contexto
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    const contexto = input.contexto;
+    contexto.idea = contexto.idea || input.spec;
+    const preguntas = await this.generarPreguntas(contexto, (input.opciones?.dominio as string) || 'general');
+    const respuestas = await this.recolectarRespuestas(contexto, preguntas);
+    await this.actualizarContexto(contexto, respuestas);
+    return respuestas;
+  }
+
+  protected memoryAgent: MemoryAgent;
+  protected dashboardAgent: DashboardAgent;
   private preguntasBase: PreguntaDinamica[] = [
     // Nivel 1: Exploración inicial
     { texto: '¿Cuál es la idea principal del proyecto?', nivel: 1, dominio: 'general' },
@@ -44,7 +70,7 @@ export class QuestionAgent extends BaseAgent {
     { texto: '¿Qué indicadores técnicos prefieres? (ej. RSI, MACD)', nivel: 3, dominio: 'trading', dependeDe: { pregunta: '¿Qué estrategias de trading prefieres?', respuestaEsperada: '.*' } },
   ];
 
-  constructor(userId: string) {
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
     super(userId);
     this.agentName = 'QuestionAgent';
     this.memoryAgent = new MemoryAgent();
@@ -53,9 +79,7 @@ export class QuestionAgent extends BaseAgent {
 
   // Genera preguntas dinámicas según nivel y dominio
   async generarPreguntas(contexto: ContextoProyecto, dominio: string = 'general'): Promise<string[]> {
-    if (contexto.licencia === 'Community' && contexto.nivelContextual > 2) {
-      throw new Error('Community Edition limita a nivel 2');
-    }
+    this.comprobarCupo('nivelContextual', contexto.nivelContextual);
 
     // Filtra preguntas según nivel y dominio
     const preguntasFiltradas = this.preguntasBase.filter(
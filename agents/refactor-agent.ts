@@ -1,8 +1,11 @@
-import { BaseAgent, AgentEventType } from './base-agent';
+import { BaseAgent, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import glob from 'glob';
 import { exec } from 'child_process';
+import { devmindConfig } from '../devmind.config';
+import { extraerBloquesCodigo } from '../services/structured-output';
 
 /**
  * Refactor Agent - Analiza y refactoriza código existente
@@ -18,6 +21,23 @@ import { exec } from 'child_process';
  * 8. Colaborar con el CodeReviewAgent para validar refactorizaciones
  */
 export class RefactorAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'refactor',
+    agente: 'RefactorAgent',
+    categoria: 'calidad',
+    descripcion: 'Analiza y refactoriza código existente',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Tarea de refactorización', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
   private codebasePath: string;
   private dryRun: boolean = false;
   private metricsEnabled: boolean = true;
@@ -25,8 +45,9 @@ export class RefactorAgent extends BaseAgent {
   /**
    * Constructor del Refactor Agent
    */
-  constructor() {
-    super('Refactor Agent');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'RefactorAgent';
     this.codebasePath = process.cwd();
     this.registerRefactorEventHandlers();
   }
@@ -37,9 +58,8 @@ export class RefactorAgent extends BaseAgent {
   public async run(spec: string): Promise<void> {
     this.log(`🔄 Ejecutando Refactor Agent con: ${spec}`);
     
-    // Cargar contexto del proyecto
-    const coreContext = await this.loadContext('core');
-    const rulesContext = await this.loadContext('rules');
+    // Cargar contexto del proyecto relevante pa' la tarea
+    const { coreContext, rulesContext } = await this.loadContext(spec);
     
     // Determinar el tipo de operación
     if (spec.startsWith('analyze:')) {
@@ -1643,76 +1663,10 @@ export class RefactorAgent extends BaseAgent {
          * Extrae bloques de código de una respuesta
          */
         private extractCodeBlocks(text: string): Array<{ filePath: string; code: string }> {
-          const codeBlocks: Array<{ filePath: string; code: string }> = [];
-          
-          // Expresión regular para encontrar bloques de código con ruta de archivo
-          // Formato: ```lenguaje:ruta%2Fal%2Farchivo
-          // código
-          // ```
-          const regex = /```(?:\w+)?(?::([^\n]+))?\n([\s\S]*?)```/g;
-          
-          let match;
-          while ((match = regex.exec(text)) !== null) {
-            const [, filePath, code] = match;
-            
-            if (filePath && code) {
-              codeBlocks.push({
-                filePath: filePath.trim(),
-                code: code.trim()
-              });
-            }
-          }
-          
-          return codeBlocks;
-        }
-        
-        /**
-         * Consulta al LLM con un prompt
-         */
-        private async queryLLM(prompt: string): Promise<string> {
-          try {
-            // Aquí se implementaría la lógica para consultar al LLM
-            // Por ahora, simulamos una respuesta
-            
-            // En una implementación real, se usaría la API del LLM
-            // Por ejemplo:
-            // const response = await fetch('https://api.openai.com/v1/chat/completions', {
-            //   method: 'POST',
-            //   headers: {
-            //     'Content-Type': 'application/json',
-            //     'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
-            //   },
-            //   body: JSON.stringify({
-            //     model: 'gpt-4',
-            //     messages: [
-            //       { role: 'system', content: 'Eres un asistente experto en refactorización de código.' },
-            //       { role: 'user', content: prompt }
-            //     ],
-            //     temperature: 0.2
-            //   })
-            // });
-            // const data = await response.json();
-            // return data.choices[0].message.content;
-            
-            // Simulación de respuesta
-            return `Análisis completado. Aquí están los cambios sugeridos:
-            
-            \`\`\`typescript:${path.join(this.codebasePath, 'example.ts')}
-            // Código refactorizado de ejemplo
-            function optimizedFunction() {
-              console.log('Este es un ejemplo de código refactorizado');
-            }
-            \`\`\`
-            
-            Explicación de los cambios:
-            1. Se ha mejorado la eficiencia del algoritmo
-            2. Se ha reducido la complejidad ciclomática
-            3. Se ha mejorado la legibilidad del código
-            `;
-          } catch (error) {
-            this.log(`❌ Error al consultar al LLM: ${error}`, 'error');
-            throw error;
-          }
+          // Solo los bloques con ruta: ```lenguaje:ruta/al/archivo
+          return extraerBloquesCodigo(text)
+            .filter(bloque => bloque.ruta && bloque.codigo.trim())
+            .map(bloque => ({ filePath: bloque.ruta!, code: bloque.codigo.trim() }));
         }
         
         /**
@@ -1731,9 +1685,8 @@ export class RefactorAgent extends BaseAgent {
                 return;
               }
               
-              // Cargar contexto del proyecto
-              const coreContext = await this.loadContext('core');
-              const rulesContext = await this.loadContext('rules');
+              // Cargar contexto del proyecto relevante pa' la tarea
+              const { coreContext, rulesContext } = await this.loadContext(`${type || 'general'} ${target}`);
               
               // Ejecutar la refactorización según el tipo
               if (type === 'pattern') {
@@ -1790,9 +1743,8 @@ export class RefactorAgent extends BaseAgent {
                 return;
               }
               
-              // Cargar contexto del proyecto
-              const coreContext = await this.loadContext('core');
-              const rulesContext = await this.loadContext('rules');
+              // Cargar contexto del proyecto relevante pa' la tarea
+              const { coreContext, rulesContext } = await this.loadContext(`metrics ${target}`);
               
               // Calcular métricas
               await this.calculateMetrics(target, coreContext, rulesContext);
@@ -1804,22 +1756,18 @@ export class RefactorAgent extends BaseAgent {
         }
         
         /**
-         * Carga un archivo de contexto
+         * Carga el contexto relevante pa' una tarea (services/context-assembler.ts): código, documentación
+         * e historial por un lado y reglas/decisiones por otro, cada uno con la mitad del presupuesto
          */
-        private async loadContext(contextType: string): Promise<string> {
-          try {
-            const contextPath = path.join(this.contextPath, `${contextType}.md`);
-            
-            if (fs.existsSync(contextPath)) {
-              return fs.readFileSync(contextPath, 'utf-8');
-            } else {
-              this.log(`⚠️ Archivo de contexto no encontrado: ${contextPath}`, 'warning');
-              return `# ${contextType.charAt(0).toUpperCase() + contextType.slice(1)} Context\n\nNo hay información disponible.`;
-            }
-          } catch (error) {
-            this.log(`❌ Error al cargar contexto ${contextType}: ${error}`, 'error');
-            return `# ${contextType.charAt(0).toUpperCase() + contextType.slice(1)} Context\n\nError al cargar información.`;
-          }
+        private async loadContext(consulta: string): Promise<{ coreContext: string; rulesContext: string }> {
+          const presupuestoTokens = Math.floor(devmindConfig.memory.contexto.presupuestoTokens / 2);
+          const core = await this.contextoRelevante(consulta, { presupuestoTokens, tipos: ['codigo', 'documento', 'historial'], documentos: ['core.md'] });
+          const rules = await this.contextoRelevante(consulta, { presupuestoTokens, tipos: ['documento', 'decision'], documentos: ['rules.md'] });
+          this.log(`📚 Contexto: ${core.fuentes.length + rules.fuentes.length} fuentes, ~${core.tokens + rules.tokens} tokens`);
+          return {
+            coreContext: core.texto || 'No hay información relevante en la memoria.',
+            rulesContext: rules.texto || 'No hay reglas relevantes pa\' esta tarea.',
+          };
         }
         
         /**
@@ -1,4 +1,5 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import { AgentEvent } from '../types/agent-event';
@@ -17,12 +18,30 @@ import { AgentEvent } from '../types/agent-event';
  * 8. Proteger contra ataques comunes (XSS, CSRF, inyección SQL, etc.)
  */
 export class SecurityAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'security',
+    agente: 'SecurityAgent',
+    categoria: 'calidad',
+    descripcion: 'Analiza y mejora la seguridad del código',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación o ruta del código a analizar', requerido: true },
+    },
+  };
+
+  // Adaptador AgentRunner: este agente solo recibe la especificación
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    return this.run(input.spec);
+  }
+
   private securityRules: Map<string, any>;
   private vulnerabilityPatterns: Map<string, RegExp[]>;
   private securityTools: Map<string, Function>;
   
-  constructor() {
-    super('Security Agent');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'SecurityAgent';
     this.initializeSecurityRules();
     this.initializeVulnerabilityPatterns();
     this.initializeSecurityTools();
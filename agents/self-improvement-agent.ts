@@ -1,10 +1,11 @@
-import { BaseAgent, AgentEventType } from './base-agent';
+import { BaseAgent, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
-import { LLMService } from '../services/llm-service';
 import { MemoryService } from '../services/memory-service';
 import { AnalyticsService } from '../services/analytics-service';
 import { CodeAnalysisService } from '../services/code-analysis-service';
+import { TransactionManager } from '../services/transaction-manager';
 
 /**
  * Interfaz para las métricas de rendimiento de un agente
@@ -92,7 +93,31 @@ interface OptimizationResult {
  * Agente responsable de mejorar automáticamente el código y los prompts de otros agentes
  */
 export class SelfImprovementAgent extends BaseAgent {
-  private llmService: LLMService;
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'selfImprovement',
+    agente: 'SelfImprovementAgent',
+    categoria: 'calidad',
+    descripcion: 'Mejora automáticamente el código y los prompts de otros agentes',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Nombre del agente a mejorar o "report"', requerido: true, operaciones: ['report'] },
+      opciones: {
+        goals: { tipo: 'string[]', descripcion: 'Objetivos de mejora (performance, readability, ...)' },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: spec = agente a mejorar, o "report" pa' el reporte de rendimiento del sistema
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    if (input.spec === 'report') {
+      return this.generateSystemPerformanceReport();
+    }
+    const agentName = input.spec.trim();
+    const goals = (input.opciones?.goals as string[] | undefined) || this.determineImprovementGoals(agentName);
+    return this.improveAgentCode(await this.getAgentCode(agentName), goals, agentName);
+  }
+
   private memoryService: MemoryService;
   private analyticsService: AnalyticsService;
   private codeAnalysisService: CodeAnalysisService;
@@ -101,9 +126,9 @@ export class SelfImprovementAgent extends BaseAgent {
   private optimizationCooldown: number = 24 * 60 * 60 * 1000; // 24 horas entre optimizaciones
   private metricsHistoryLimit: number = 100; // Número máximo de métricas a almacenar por agente
 
-  constructor() {
-    super('Self Improvement Agent');
-    this.llmService = new LLMService();
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'SelfImprovementAgent';
     this.memoryService = new MemoryService();
     this.analyticsService = new AnalyticsService();
     this.codeAnalysisService = new CodeAnalysisService();
@@ -292,12 +317,8 @@ export class SelfImprovementAgent extends BaseAgent {
     // Preparar el prompt para el LLM
     const prompt = this.buildImprovementPrompt(code, codeAnalysis, executionHistory, metrics, goals);
     
-    // Obtener sugerencias del LLM
-    const response = await this.llmService.getCompletion(prompt, {
-      temperature: 0.2,
-      max_tokens: 2000,
-      model: 'gpt-4'
-    });
+    // Obtener sugerencias del LLM: por BaseAgent, pa' que se cobre y respete el presupuesto
+    const response = await this.queryLLM(prompt);
     
     try {
       // Parsear la respuesta del LLM
@@ -307,7 +328,7 @@ export class SelfImprovementAgent extends BaseAgent {
         return parsedResponse.suggestions;
       }
     } catch (error) {
-      this.log(`❌ Error al parsear sugerencias: ${error.message}`, 'error');
+      this.log(`❌ Error al parsear sugerencias: ${error instanceof Error ? error.message : String(error)}`, 'error');
       
       // Intentar extraer sugerencias con un enfoque más flexible
       return this.extractSuggestionsFromText(response);
@@ -1576,22 +1597,15 @@ ${this.generateAdditionalRecommendations(agentName, metrics)}
         throw new Error(`Archivo del agente no encontrado: ${agentFilePath}`);
       }
       
-      // Hacer backup del código original
-      const backupPath = path.join(__dirname, '../backups', `${agentFileName}.backup-${Date.now()}`);
-      
-      // Crear directorio de backups si no existe
-      const backupDir = path.dirname(backupPath);
-      if (!fs.existsSync(backupDir)) {
-        fs.mkdirSync(backupDir, { recursive: true });
-      }
-      
-      // Guardar backup
-      fs.copyFileSync(agentFilePath, backupPath);
-      
-      // Actualizar el archivo
-      fs.writeFileSync(agentFilePath, newCode, 'utf-8');
+      // Transacción propia (stepId optimize:<agente>) pa' poder revertir aunque el proceso se reinicie
+      const transacciones = TransactionManager.getInstance();
+      const transaccion = transacciones.iniciar({ agente: this.agentName, stepId: `optimize:${agentName}` });
+      await transacciones.ejecutarEn(transaccion.id, async () => {
+        fs.writeFileSync(agentFilePath, newCode, 'utf-8');
+      });
+      transacciones.confirmar(transaccion.id);
       
-      this.log(`✅ Código del agente ${agentName} actualizado. Backup guardado en: ${backupPath}`);
+      this.log(`✅ Código del agente ${agentName} actualizado (transacción ${transaccion.id.substring(0, 8)})`);
       return true;
     } catch (error) {
       this.log(`❌ Error al actualizar código del agente ${agentName}: ${error.message}`, 'error');
@@ -1604,33 +1618,16 @@ ${this.generateAdditionalRecommendations(agentName, metrics)}
    */
   private async revertAgentCode(agentName: string): Promise<boolean> {
     try {
-      // Construir la ruta del archivo del agente
-      const agentFileName = this.convertAgentNameToFileName(agentName);
-      const agentFilePath = path.join(__dirname, agentFileName);
-      
-      // Buscar el backup más reciente
-      const backupDir = path.join(__dirname, '../backups');
-      if (!fs.existsSync(backupDir)) {
-        throw new Error(`Directorio de backups no encontrado: ${backupDir}`);
+      // La última actualización de este agente que no se haya revertido ya
+      const transacciones = TransactionManager.getInstance();
+      const ultima = transacciones.listar({ stepId: `optimize:${agentName}`, estado: 'confirmada' }).pop();
+      if (!ultima) {
+        throw new Error(`No hay cambios del agente ${agentName} que revertir`);
       }
       
-      // Obtener archivos de backup para este agente
-      const backupFiles = fs.readdirSync(backupDir)
-        .filter(file => file.startsWith(agentFileName))
-        .sort()
-        .reverse(); // Ordenar por nombre (que incluye timestamp) en orden descendente
-      
-      if (backupFiles.length === 0) {
-        throw new Error(`No se encontraron backups para el agente ${agentName}`);
-      }
-      
-      // Obtener el backup más reciente
-      const latestBackup = path.join(backupDir, backupFiles[0]);
-      
-      // Restaurar desde el backup
-      fs.copyFileSync(latestBackup, agentFilePath);
+      const resultado = await transacciones.revertir(ultima.id, { motivo: 'Optimización sin mejora', forzar: true });
       
-      this.log(`✅ Código del agente ${agentName} revertido a la versión: ${backupFiles[0]}`);
+      this.log(`✅ Código del agente ${agentName} revertido (${resultado.restaurados.join(', ')})`);
       return true;
     } catch (error) {
       this.log(`❌ Error al revertir código del agente ${agentName}: ${error.message}`, 'error');
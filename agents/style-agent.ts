@@ -1,4 +1,5 @@
-import { BaseAgent, AgentEventType, AgentOptions, AgentMessage } from './base-agent';
+import { BaseAgent, AgentEventType, AgentMessage, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import { execSync } from 'child_process';
@@ -27,6 +28,29 @@ interface StyleOptions {
 }
 
 export class StyleAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'style',
+    agente: 'StyleAgent',
+    categoria: 'frontend',
+    descripcion: 'Gestiona el sistema de diseño, temas y estilos de la aplicación',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación del tema', requerido: true, operaciones: ['brand:', 'export:'] },
+    },
+  };
+
+  // Adaptador AgentRunner: brand:<descripción>, export:<formato> o, por defecto, un tema
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    if (input.spec.startsWith('brand:')) {
+      return this.generateDesignSystemFromBrand(input.spec.substring('brand:'.length).trim());
+    }
+    if (input.spec.startsWith('export:')) {
+      return this.exportDesignSystem(input.spec.substring('export:'.length).trim() as any);
+    }
+    return this.generateTheme(input.spec);
+  }
+
   private designSystem: DesignSystem = {
     colors: {},
     typography: {},
@@ -48,13 +72,10 @@ export class StyleAgent extends BaseAgent {
   };
   private projectRoot: string;
 
-  constructor(options?: AgentOptions) {
-    super({
-      name: 'Style Agent',
-      description: 'Gestiona el sistema de diseño, temas y estilos de la aplicación',
-      ...options
-    });
-    this.projectRoot = options?.projectRoot || process.cwd();
+  constructor(userId: string = USUARIO_POR_DEFECTO, options: { projectRoot?: string } = {}) {
+    super(userId);
+    this.agentName = 'StyleAgent';
+    this.projectRoot = options.projectRoot || process.cwd();
     this.themesDir = path.join(this.projectRoot, 'themes');
     this.registerEventHandlers();
     this.loadDesignSystem();
@@ -1,4 +1,5 @@
-import { BaseAgent, AgentEventType } from './base-agent';
+import { BaseAgent, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import glob from 'glob';
@@ -8,6 +9,29 @@ import glob from 'glob';
  * del sistema. Soporta pruebas unitarias, de integración, de usabilidad y de accesibilidad.
  */
 export class TestAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'test',
+    agente: 'TestAgent',
+    categoria: 'calidad',
+    descripcion: 'Genera pruebas para componentes',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Ruta del componente', requerido: true },
+      opciones: {
+        componentName: { tipo: 'string', descripcion: 'Nombre del componente (por defecto, el del archivo)' },
+        testTypes: { tipo: 'string[]', descripcion: 'Tipos de prueba (unit, integration, e2e, ...)' },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: spec = ruta del componente
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    const componentName = (input.opciones?.componentName as string) || path.basename(input.spec, path.extname(input.spec));
+    const testTypes = (input.opciones?.testTypes as TestType[] | undefined) || ['unit'];
+    return this.generateTests(componentName, input.spec, testTypes);
+  }
+
   private testsDir: string = path.join(process.cwd(), 'tests');
   private lastGeneratedTests: string[] = [];
   private testConfig: TestConfig = {
@@ -19,8 +43,9 @@ export class TestAgent extends BaseAgent {
     includeE2E: false
   };
 
-  constructor() {
-    super('Test Agent');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'TestAgent';
     this.registerEventHandlers();
     this.initializeTestDirectory();
   }
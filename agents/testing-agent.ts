@@ -1,4 +1,5 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO } from './base-agent';
+import { AgentCapabilities, AgentInput } from '../types/agent-runner';
 import fs from 'fs';
 import path from 'path';
 import { AgentEvent } from '../types/agent-event';
@@ -16,11 +17,42 @@ import { AgentEvent } from '../types/agent-event';
  * 7. Analizar cobertura de código y sugerir mejoras
  */
 export class TestingAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'testing',
+    agente: 'TestingAgent',
+    categoria: 'calidad',
+    descripcion: 'Genera pruebas automatizadas (unit, integration, e2e)',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Especificación o ruta del código a probar', requerido: true },
+      opciones: {
+        testType: { tipo: 'string', descripcion: 'Tipo de prueba', valores: ['unit', 'integration', 'e2e'] },
+        framework: { tipo: 'string', descripcion: 'Framework de pruebas' },
+        mockData: { tipo: 'boolean', descripcion: 'Generar datos mock' },
+        coverage: { tipo: 'boolean', descripcion: 'Configurar cobertura' },
+      },
+    },
+  };
+
+  // Adaptador AgentRunner: spec = qué probar; el resto de parámetros viene en opciones
+  protected async ejecutarTarea(input: AgentInput): Promise<unknown> {
+    const opciones = input.opciones || {};
+    return this.execute({
+      testSpec: input.spec,
+      testType: opciones.testType as 'unit' | 'integration' | 'e2e' | undefined,
+      framework: opciones.framework as string | undefined,
+      mockData: opciones.mockData as boolean | undefined,
+      coverage: opciones.coverage as boolean | undefined,
+    });
+  }
+
   private supportedFrameworks: Map<string, string[]>;
   private testingStrategies: Map<string, Function>;
   
-  constructor() {
-    super('TestingAgent', 'Agente para generar pruebas automatizadas');
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
+    super(userId);
+    this.agentName = 'TestingAgent';
     
     // Inicializar frameworks soportados por tipo de prueba
     this.supportedFrameworks = new Map([
@@ -1,4 +1,5 @@
-import { BaseAgent, ContextoProyecto, AgentEventType } from './base-agent'; // Ajusta la ruta
+import { BaseAgent, ContextoProyecto, AgentEventType, USUARIO_POR_DEFECTO } from './base-agent'; // Ajusta la ruta
+import { AgentCapabilities } from '../types/agent-runner';
 import { MemoryAgent } from './memory-agent';
 import { DashboardAgent } from './dashboard-agent';
 import fs from 'fs';
@@ -18,12 +19,23 @@ import { execSync } from 'child_process';
  * 7. Generar componentes React/Vue basados en el sistema de diseño
  */
 export class UIDesignAgent extends BaseAgent {
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'uiDesign',
+    agente: 'UIDesignAgent',
+    categoria: 'frontend',
+    descripcion: 'Crea un sistema de diseño coherente',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Descripción del proyecto o módulo', requerido: true },
+    },
+  };
   private designSystem: Record<string, any> = {};
   private designMode: string = 'default';
-  private memoryAgent: MemoryAgent;
-  private dashboardAgent: DashboardAgent;
+  protected memoryAgent: MemoryAgent;
+  protected dashboardAgent: DashboardAgent;
 
-  constructor(userId: string) {
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
     super(userId);
     this.agentName = 'UIDesignAgent';
     this.memoryAgent = new MemoryAgent();
@@ -37,14 +49,11 @@ export class UIDesignAgent extends BaseAgent {
    * @param spec Especificación o comando a ejecutar
    */
   async run(contexto: ContextoProyecto, spec: string): Promise<void> {
-    if (contexto.licencia === 'Community' && spec.includes('advanced')) {
-      throw new Error('Community Edition no soporta diseños avanzados');
-    }
-
     await this.registrarActividad(contexto, 'iniciando UIDesignAgent', { spec });
 
     try {
       if (spec.startsWith('mode:')) {
+        this.exigir('diseno-avanzado');
         const [_, mode, description] = spec.match(/mode:(\w+)\s+(.+)/) || [];
         if (mode && description) {
           this.designMode = mode;
@@ -59,6 +68,7 @@ export class UIDesignAgent extends BaseAgent {
         const themeSpec = spec.substring('theme:'.length).trim();
         await this.generateTheme(contexto, themeSpec);
       } else if (spec.startsWith('export:')) {
+        this.exigir('diseno-avanzado');
         const exportFormat = spec.substring('export:'.length).trim();
         await this.exportDesignSystem(contexto, exportFormat);
       } else if (spec.startsWith('load:')) {
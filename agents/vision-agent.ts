@@ -1,7 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode'; // Pa’ interacción con VS Code
-import { BaseAgent, ContextoProyecto } from './base-agent'; // Ajusta la ruta
+import { BaseAgent, ContextoProyecto, USUARIO_POR_DEFECTO } from './base-agent'; // Ajusta la ruta
+import { AgentCapabilities } from '../types/agent-runner';
+import { z } from 'zod';
+import { DefinicionSalida } from '../services/structured-output';
 import { MemoryAgent } from './memory-agent'; // Suponemos que existe
 import { DashboardAgent } from './dashboard-agent'; // Pa’ reportes
 
@@ -13,23 +16,53 @@ interface SocraticQuestion {
   dominio: string; // Ej. "trading", "general"
 }
 
-interface Blueprint {
-  idea: string;
-  modules: string[];
-  requirements: {
-    functional: string[];
-    nonFunctional: string[];
-  };
-  architectureDiagram: string;
-  roadmap: { phase: string; duration: string }[];
-  technologies: string[];
-  resources: { role: string; count: number }[];
-  estimatedTime: string;
-}
+const esquemaBlueprint = z.object({
+  idea: z.string(),
+  modules: z.array(z.string()).min(1),
+  requirements: z.object({
+    functional: z.array(z.string()),
+    nonFunctional: z.array(z.string()),
+  }),
+  architectureDiagram: z.string(),
+  roadmap: z.array(z.object({ phase: z.string(), duration: z.string() })),
+  technologies: z.array(z.string()),
+  resources: z.array(z.object({ role: z.string(), count: z.number() })),
+  estimatedTime: z.string(),
+});
+
+type Blueprint = z.infer<typeof esquemaBlueprint>;
+
+const FORMATO_BLUEPRINT = `{
+  "idea": "Idea del proyecto",
+  "modules": ["Módulo"],
+  "requirements": { "functional": ["Requisito"], "nonFunctional": ["Requisito"] },
+  "architectureDiagram": "Diagrama ASCII",
+  "roadmap": [{ "phase": "Fase", "duration": "2 semanas" }],
+  "technologies": ["Tecnología"],
+  "resources": [{ "role": "Rol", "count": 1 }],
+  "estimatedTime": "3 meses"
+}`;
+
+const SALIDA_BLUEPRINT: DefinicionSalida<Blueprint> = {
+  nombre: 'Blueprint',
+  esquema: esquemaBlueprint,
+  formato: FORMATO_BLUEPRINT,
+};
 
 export class VisionAgent extends BaseAgent {
-  private memoryAgent: MemoryAgent;
-  private dashboardAgent: DashboardAgent;
+  readonly capabilities: AgentCapabilities = {
+    nombre: 'vision',
+    agente: 'VisionAgent',
+    categoria: 'meta',
+    descripcion: 'Traduce una idea en requisitos técnicos (blueprint)',
+    escribeArchivos: true,
+    usaLLM: true,
+    inputSchema: {
+      spec: { descripcion: 'Idea del proyecto', requerido: true, operaciones: ['interactive:', 'evaluate:', 'estimate:', 'refine:', 'compare:'] },
+    },
+  };
+  protected memoryAgent: MemoryAgent;
+  protected dashboardAgent: DashboardAgent;
   private interactiveMode: boolean = false;
   private answers: Record<string, string> = {};
   private currentBlueprint: Blueprint | null = null;
@@ -47,7 +80,7 @@ export class VisionAgent extends BaseAgent {
     { id: 'risk', question: '¿Qué nivel de gestión de riesgos necesitas?', options: ['Básico', 'Avanzado'], defaultOption: 'Avanzado', dominio: 'trading' },
   ];
 
-  constructor(userId: string) {
+  constructor(userId: string = USUARIO_POR_DEFECTO) {
     super(userId);
     this.agentName = 'VisionAgent';
     this.memoryAgent = new MemoryAgent();
@@ -56,13 +89,10 @@ export class VisionAgent extends BaseAgent {
 
   // Método principal para ejecutar el VisionAgent
   async run(contexto: ContextoProyecto, spec: string): Promise<void> {
-    if (contexto.licencia === 'Community' && spec.includes('interactive')) {
-      throw new Error('Community Edition no soporta modo interactivo');
-    }
-
     await this.registrarActividad(contexto, 'iniciando VisionAgent', { spec });
 
     if (spec.startsWith('interactive:')) {
+      this.exigir('vision-interactiva');
       this.interactiveMode = true;
       const idea = spec.substring('interactive:'.length).trim();
       await this.runInteractiveQuestionnaire(contexto, idea);
@@ -155,11 +185,11 @@ export class VisionAgent extends BaseAgent {
     5. Tecnologías recomendadas
     6. Estimación de recursos y tiempos
 
-    Formato: JSON estructurado.
+    Formato: JSON con la estructura:
+    ${FORMATO_BLUEPRINT}
     `;
 
-    const response = await this.ejecutarPrompt(contexto, prompt);
-    this.currentBlueprint = JSON.parse(response) as Blueprint;
+    this.currentBlueprint = await this.salidaEstructurada(SALIDA_BLUEPRINT, prompt, contexto);
     contexto.idea = initialIdea;
     contexto.modulos = this.currentBlueprint.modules;
 
@@ -234,11 +264,10 @@ export class VisionAgent extends BaseAgent {
     const prompt = `
     Refina el blueprint ${JSON.stringify(this.currentBlueprint)} con el feedback: "${feedback}".
     Mantén la estructura pero ajusta según el feedback.
-    Formato: JSON.
+    Formato: JSON con la misma estructura.
     `;
 
-    const response = await this.ejecutarPrompt(contexto, prompt);
-    this.currentBlueprint = JSON.parse(response) as Blueprint;
+    this.currentBlueprint = await this.salidaEstructurada(SALIDA_BLUEPRINT, prompt, contexto);
 
     await this.registrarActividad(contexto, 'blueprint refinado', { feedback, blueprint: this.currentBlueprint });
     await this.dashboardAgent.actualizarWebview({
@@ -312,7 +341,7 @@ export class VisionAgent extends BaseAgent {
     // Si el blueprint usa muchos tokens, optimiza el prompt
     if (contexto.metricas.tokensUsados > 5000) {
       const nuevoModelo = this.config.modelo === 'GPT-4' ? 'GPT-3.5' : 'Mistral';
-      this.config.modelo = nuevoModelo;
+      this.bajarModelo(nuevoModelo);
       await this.registrarActividad(contexto, 'mejora propuesta', { nuevoModelo });
       return `Cambiando a ${nuevoModelo} pa’ optimizar créditos`;
     }
@@ -2,8 +2,8 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import figlet from 'figlet';
-import { existsSync, readFileSync } from 'fs';
-import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, isAbsolute, join, relative, resolve } from 'path';
 
 // Importación de agentes
 import { ArchitectAgent } from '../agents/architect-agent';
@@ -26,6 +26,28 @@ import { QuestionAgent } from '../agents/question-agent';
 import { FrontendSyncAgent } from '../agents/frontend-sync-agent';
 import { DashboardAgent } from '../agents/dashboard-agent';
 import { MemoryAgent } from '../agents/memory-agent';
+import { BaseAgent, USUARIO_POR_DEFECTO, proyectoDelDirectorio } from '../agents/base-agent';
+import { AgentResult, OpcionSchema } from '../types/agent-runner';
+import { Task, TaskState, TASK_STATES } from '../types/task-types';
+import { TaskManager } from '../services/task-manager';
+import { VirtualFileSystem } from '../services/virtual-fs';
+import { TransactionManager } from '../services/transaction-manager';
+import { LLMCache } from '../services/llm-cache';
+import { TranscriptStore } from '../services/transcript-store';
+import { APIProxy } from '../services/api-proxy';
+import { ProveedorLLM } from '../services/llm-providers';
+import { diffUnificado } from '../services/diff';
+import { CreditLedger, CreditosInsuficientesError } from '../services/credit-ledger';
+import { BudgetManager, PresupuestoExcedidoError, describirAmbito } from '../services/budget-manager';
+import { LicenseManager } from '../services/license-manager';
+import { Entitlements } from '../services/entitlements';
+import { DashboardSync } from '../services/dashboard-sync';
+import { devmindConfig } from '../devmind.config';
+import { ResultadoRollback } from '../types/transaction-types';
+import { DimensionConsumo } from '../types/ledger-types';
+import { EstadoPresupuesto, LimitesPresupuesto } from '../types/budget-types';
+import { LicenciaVerificada, TierLicencia } from '../types/license-types';
+import { Transcripcion } from '../types/transcript-types';
 
 // Leer versión del package.json
 let version = '0.1.0';
@@ -54,6 +76,8 @@ program
   .option('-v, --verbose', 'Mostrar información detallada')
   .option('-d, --debug', 'Activar modo de depuración')
   .option('-o, --output <dir>', 'Directorio de salida para los archivos generados')
+  .option('--dry-run', 'Modo simulación: muestra el diff de lo que se escribiría sin tocar el disco')
+  .option('--no-cache', 'No usar ni guardar respuestas del LLM en caché (context/cache/llm)')
   .hook('preAction', (thisCommand, actionCommand) => {
     const options = actionCommand.opts();
     if (options.verbose) {
@@ -62,17 +86,111 @@ program
     if (options.debug) {
       console.log(chalk.yellow('Modo debug activado'));
     }
+    if (program.opts().dryRun) {
+      console.log(chalk.magenta('Modo simulación activado: no se escribirá nada en disco ni se lanzarán comandos externos'));
+      VirtualFileSystem.getInstance().activar();
+    }
+    if (program.opts().cache === false) {
+      LLMCache.getInstance().desactivar();
+    }
+  })
+  .hook('postAction', async (_thisCommand, actionCommand) => {
+    mostrarSimulacion();
+    if (actionCommand.name() !== 'sync') await enviarAlDashboard();
   });
 
+// Lo que la ejecución dejó en el outbox del dashboard sale antes de terminar; si la API no responde, se queda pa' la próxima
+const enviarAlDashboard = async () => {
+  const sync = DashboardSync.getInstance();
+  if (!sync.activo() || sync.pendientes().eventos === 0) return;
+  try {
+    await sync.enviar();
+  } catch (error) {
+    console.log(chalk.gray(`Dashboard sin sincronizar (${error.message}); se reintenta en la próxima ejecución o con "cj system sync flush"`));
+  }
+};
+
+// Imprime el árbol y el diff de la simulación (solo con --dry-run)
+const mostrarSimulacion = () => {
+  const vfs = VirtualFileSystem.getInstance();
+  if (!vfs.estaActivo()) return;
+  vfs.desactivar();
+  const [cabecera, ...resto] = vfs.resumen().split('\n');
+  console.log(chalk.magenta(`\n🔍 ${cabecera}`));
+  resto.forEach(linea => console.log(colorDiff(linea)));
+  console.log(chalk.gray('Los prompts al LLM sí se mandan y se cobran en el libro de créditos'));
+};
+
+const colorDiff = (linea: string) => {
+  if (linea.startsWith('+++') || linea.startsWith('---')) return chalk.bold(linea);
+  if (linea.startsWith('@@')) return chalk.cyan(linea);
+  if (linea.startsWith('+')) return chalk.green(linea);
+  if (linea.startsWith('-')) return chalk.red(linea);
+  return linea;
+};
+
 // Función auxiliar para manejar errores de forma consistente
 const handleAgentError = (error: any) => {
   console.error(chalk.red('❌ Error:'), error.message || error);
   if (program.opts().debug) {
     console.error(chalk.gray('Stack trace:'), error.stack);
   }
+  mostrarSimulacion();
   process.exit(1);
 };
 
+// Resumen común de cualquier ejecución de agente
+const mostrarResultado = (resultado: AgentResult) => {
+  for (const advertencia of resultado.advertencias) {
+    console.log(chalk.yellow(`⚠️ ${advertencia}`));
+  }
+  if (resultado.archivos.length > 0) {
+    console.log(chalk.green(`📄 Archivos generados (${resultado.archivos.length}):`));
+    resultado.archivos.forEach(archivo => console.log(`  ${archivo}`));
+  }
+  if (program.opts().verbose) {
+    console.log(chalk.gray(`Tokens: ${resultado.tokensUsados} · Créditos: ${resultado.creditosUsados} · Duración: ${resultado.duracionMs}ms · Eventos: ${resultado.eventos.join(', ') || 'ninguno'}`));
+  }
+};
+
+// Contexto de una ejecución: el proyecto del directorio, o uno nuevo (una orquestación tiene su propio estado y plan)
+const contextoDeEjecucion = (agent: BaseAgent, proyectoNuevo = false) =>
+  agent.crearContextoInicial(basename(process.cwd()), proyectoNuevo ? undefined : proyectoDelDirectorio());
+
+// Ejecuta un agente con el contrato AgentRunner sobre el proyecto del directorio actual
+const ejecutarAgente = async (agent: BaseAgent, spec: string, opciones?: Record<string, unknown>, proyectoNuevo = false) => {
+  try {
+    const contexto = await contextoDeEjecucion(agent, proyectoNuevo);
+    const resultado = await agent.ejecutar({ contexto, spec, opciones });
+    mostrarResultado(resultado);
+    if (!resultado.ok) {
+      handleAgentError(new Error(resultado.error));
+    }
+  } catch (error) {
+    handleAgentError(error);
+  }
+};
+
+// Como ejecutarAgente, pero imprime la salida del agente en JSON por stdout; sus logs van a stderr
+const ejecutarAgenteJson = async (agent: BaseAgent, spec: string, opciones?: Record<string, unknown>) => {
+  const log = console.log;
+  console.log = (...args: unknown[]) => console.error(...args);
+  let resultado: AgentResult;
+  try {
+    const contexto = await contextoDeEjecucion(agent);
+    resultado = await agent.ejecutar({ contexto, spec, opciones });
+  } catch (error) {
+    console.log = log;
+    return handleAgentError(error);
+  } finally {
+    console.log = log;
+  }
+  if (!resultado.ok) {
+    handleAgentError(new Error(resultado.error));
+  }
+  console.log(JSON.stringify(resultado.salida ?? null, null, 2));
+};
+
 // Agrupar comandos por categorías
 // ===============================
 
@@ -87,11 +205,7 @@ planningCommand
   .action(async (idea) => {
     console.log(chalk.blue('🔍 CJ.DevMind - Vision Agent'));
     const agent = new VisionAgent();
-    try {
-      await agent.run(idea);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, idea);
   });
 
 planningCommand
@@ -101,11 +215,7 @@ planningCommand
   .action(async (idea) => {
     console.log(chalk.blue('❓ CJ.DevMind - Question Agent'));
     const agent = new QuestionAgent();
-    try {
-      await agent.run(idea);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, idea);
   });
 
 planningCommand
@@ -115,11 +225,7 @@ planningCommand
   .action(async (prompt) => {
     console.log(chalk.blue('🏗️ CJ.DevMind - Architect Agent'));
     const agent = new ArchitectAgent();
-    try {
-      await agent.run(prompt);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, prompt);
   });
 
 planningCommand
@@ -129,11 +235,7 @@ planningCommand
   .action(async (project) => {
     console.log(chalk.blue('🎨 CJ.DevMind - UI Design Agent'));
     const agent = new UIDesignAgent();
-    try {
-      await agent.run(project);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, project);
   });
 
 // Categoría: Frontend
@@ -147,11 +249,7 @@ frontendCommand
   .action(async (spec) => {
     console.log(chalk.blue('🧩 CJ.DevMind - Component Agent'));
     const agent = new ComponentAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 frontendCommand
@@ -161,11 +259,7 @@ frontendCommand
   .action(async (spec) => {
     console.log(chalk.blue('🏗️ CJ.DevMind - Layout Agent'));
     const agent = new LayoutAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 frontendCommand
@@ -175,11 +269,7 @@ frontendCommand
   .action(async (spec) => {
     console.log(chalk.blue('🔄 CJ.DevMind - Frontend Sync Agent'));
     const agent = new FrontendSyncAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 // Categoría: Backend
@@ -193,11 +283,7 @@ backendCommand
   .action(async (spec) => {
     console.log(chalk.blue('🔌 CJ.DevMind - API Agent'));
     const agent = new APIAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 backendCommand
@@ -207,11 +293,7 @@ backendCommand
   .action(async (spec) => {
     console.log(chalk.blue('🗄️ CJ.DevMind - Database Agent'));
     const agent = new DatabaseAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 backendCommand
@@ -221,11 +303,7 @@ backendCommand
   .action(async (spec) => {
     console.log(chalk.blue('🧮 CJ.DevMind - Logic Agent'));
     const agent = new LogicAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 // Categoría: Calidad y Seguridad
@@ -239,11 +317,7 @@ qualityCommand
   .action(async (spec) => {
     console.log(chalk.blue('🧪 CJ.DevMind - Testing Agent'));
     const agent = new TestingAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 qualityCommand
@@ -253,11 +327,7 @@ qualityCommand
   .action(async (spec) => {
     console.log(chalk.blue('🔒 CJ.DevMind - Security Agent'));
     const agent = new SecurityAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 qualityCommand
@@ -267,11 +337,7 @@ qualityCommand
   .action(async (spec) => {
     console.log(chalk.blue('⚡ CJ.DevMind - Performance Agent'));
     const agent = new PerformanceAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 qualityCommand
@@ -281,11 +347,7 @@ qualityCommand
   .action(async (task) => {
     console.log(chalk.blue('♻️ CJ.DevMind - Refactor Agent'));
     const agent = new RefactorAgent();
-    try {
-      await agent.run(task);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, task);
   });
 
 // Categoría: Operaciones
@@ -307,11 +369,7 @@ opsCommand
     }
     
     const agent = new DevOpsAgent();
-    try {
-      await agent.run(type);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, type);
   });
 
 opsCommand
@@ -321,11 +379,7 @@ opsCommand
   .action(async (spec) => {
     console.log(chalk.blue('📊 CJ.DevMind - Monitor Agent'));
     const agent = new MonitorAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 // Categoría: Documentación y Conocimiento
@@ -339,25 +393,32 @@ docsCommand
   .action(async (modulePath) => {
     console.log(chalk.blue('📚 CJ.DevMind - Doc Agent'));
     const agent = new DocAgent();
-    try {
-      await agent.run(modulePath);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, modulePath);
   });
 
 docsCommand
   .command('memory')
   .description('Gestiona el sistema de memoria y conocimiento del proyecto')
-  .argument('<spec>', 'Operación (index, query, graph, search:query, record:change)')
-  .action(async (spec) => {
-    console.log(chalk.blue('🧠 CJ.DevMind - Memory Agent'));
+  .argument('<spec>', 'Operación (index, index:full, watch, query, graph, graph:callers|callees|implements|extends|refs|impact:símbolo, search:query, context:prompt, record:change)')
+  .option('--json', 'Salida en formato JSON (resultados de search:, context:, graph:, index)')
+  .option('--path <glob>', 'search: solo en rutas que casen con el glob (ej. "services/**/*.ts")')
+  .option('--lang <lenguaje>', 'search: solo en un lenguaje (typescript, javascript, markdown)')
+  .option('--kind <tipo>', 'search: solo un tipo de símbolo (clase, interfaz, funcion, metodo, tipo, enum, variable)')
+  .option('--limit <n>', 'search: número de resultados', '10')
+  .option('--budget <tokens>', 'context: presupuesto de tokens del contexto ensamblado')
+  .action(async (spec, options) => {
     const agent = new MemoryAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
+    const opciones: Record<string, unknown> = { limite: Number(options.limit) };
+    if (options.path) opciones.ruta = options.path;
+    if (options.lang) opciones.lenguaje = options.lang;
+    if (options.kind) opciones.tipo = options.kind;
+    if (options.budget) opciones.presupuesto = Number(options.budget);
+    if (options.json) {
+      await ejecutarAgenteJson(agent, spec, opciones);
+      return;
     }
+    console.log(chalk.blue('🧠 CJ.DevMind - Memory Agent'));
+    await ejecutarAgente(agent, spec, opciones);
   });
 
 // Categoría: Sistema
@@ -378,22 +439,738 @@ systemCommand
       spec = `update:${options.component}`;
     }
     
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 systemCommand
   .command('orchestrate')
   .description('Coordina un proyecto completo entre todos los agentes')
-  .argument('<description>', 'Descripción del proyecto')
-  .action(async (description) => {
+  .argument('[description]', 'Descripción del proyecto')
+  .option('--resume <projectId>', 'Reanuda una orquestación interrumpida desde su último checkpoint')
+  .option('--preview', 'Genera y valida el plan de trabajo sin ejecutarlo')
+  .action(async (description, options) => {
     console.log(chalk.blue('🎭 CJ.DevMind - Orchestrator Agent'));
     const agent = new OrchestratorAgent();
+    if (options.preview && description) {
+      try {
+        const contexto = await contextoDeEjecucion(agent);
+        const { vista, estimacion } = await agent.previsualizarPlan(contexto, description);
+        console.log(vista);
+        if (!estimacion.decision.permitido) process.exit(1);
+      } catch (error) {
+        handleAgentError(error);
+      }
+      return;
+    }
+    if (options.resume) {
+      try {
+        await agent.reanudar(options.resume);
+      } catch (error) {
+        handleAgentError(error);
+      }
+      return;
+    }
+    if (!description) {
+      handleAgentError(new Error('Indica la descripción del proyecto o usa --resume <projectId>'));
+      return;
+    }
+    await ejecutarAgente(agent, description, undefined, true);
+  });
+
+systemCommand
+  .command('agents')
+  .description('Lista los agentes disponibles y la entrada que aceptan')
+  .option('--json', 'Salida en formato JSON')
+  .action((options) => {
+    const capacidades = new OrchestratorAgent().listarCapacidades();
+    if (options.json) {
+      console.log(JSON.stringify(capacidades, null, 2));
+      return;
+    }
+    for (const cap of capacidades) {
+      const flags = [cap.escribeArchivos ? 'escribe' : null, cap.usaLLM ? 'llm' : null].filter(Boolean).join(', ');
+      console.log(`${chalk.cyan(cap.nombre.padEnd(16))} ${cap.descripcion} ${chalk.gray(`[${cap.categoria}${flags ? `; ${flags}` : ''}]`)}`);
+      console.log(chalk.gray(`  spec: ${cap.inputSchema.spec.descripcion}`));
+      const opciones: Record<string, OpcionSchema> = cap.inputSchema.opciones || {};
+      for (const [nombre, opcion] of Object.entries(opciones)) {
+        console.log(chalk.gray(`  --${nombre} <${opcion.tipo}> ${opcion.descripcion}`));
+      }
+    }
+  });
+
+// Colores por estado pa' los listados de tareas (se rellena antes de colorear pa' alinear columnas)
+const colorEstado = (estado: TaskState, ancho: number = 0): string => {
+  const texto = estado.padEnd(ancho);
+  switch (estado) {
+    case 'COMPLETED': return chalk.green(texto);
+    case 'IN_PROGRESS': return chalk.blue(texto);
+    case 'BLOCKED':
+    case 'REVIEW': return chalk.yellow(texto);
+    case 'ERROR': return chalk.red(texto);
+    case 'CANCELLED': return chalk.gray(texto);
+    default: return texto;
+  }
+};
+
+const mostrarTarea = (tarea: Task) => {
+  console.log(`${chalk.cyan(tarea.id)} ${colorEstado(tarea.estado)}`);
+  console.log(`  Proyecto:    ${tarea.proyectoId}${tarea.stepId ? ` (${tarea.stepId})` : ''}`);
+  console.log(`  Agente:      ${tarea.agente}`);
+  console.log(`  Entrada:     ${tarea.input}`);
+  if (tarea.descripcion) console.log(`  Descripción: ${tarea.descripcion}`);
+  console.log(`  Prioridad:   ${tarea.prioridad} · Intentos: ${tarea.intentos}`);
+  if (tarea.dependeDe.length > 0) console.log(`  Depende de:  ${tarea.dependeDe.join(', ')}`);
+  if (tarea.motivoBloqueo) console.log(chalk.yellow(`  Bloqueada:   ${tarea.motivoBloqueo}`));
+  if (tarea.error) console.log(chalk.red(`  Error:       ${tarea.error}`));
+  if (tarea.resultado) console.log(`  Resultado:   ${tarea.resultado}`);
+  console.log('  Historial:');
+  for (const paso of tarea.historial) {
+    const motivo = paso.motivo ? ` — ${paso.motivo}` : '';
+    console.log(chalk.gray(`    ${paso.fecha} ${paso.de || '∅'} → ${paso.a}${paso.agente ? ` [${paso.agente}]` : ''}${motivo}`));
+  }
+};
+
+const tasksCommand = systemCommand
+  .command('tasks')
+  .description('Gestiona las tareas persistidas por el TaskManager (context/tasks.json)');
+
+tasksCommand
+  .command('list')
+  .description('Lista tareas')
+  .option('-p, --project <id>', 'Filtrar por proyecto')
+  .option('-s, --state <estado>', `Filtrar por estado (${TASK_STATES.join(', ')})`)
+  .option('-a, --agent <nombre>', 'Filtrar por agente')
+  .option('--json', 'Salida en formato JSON')
+  .action((options) => {
     try {
-      await agent.run(description);
+      const estado = options.state ? (options.state.toUpperCase() as TaskState) : undefined;
+      if (estado && !TASK_STATES.includes(estado)) {
+        throw new Error(`Estado inválido. Debe ser uno de: ${TASK_STATES.join(', ')}`);
+      }
+      const tareas = new TaskManager().listar({ proyectoId: options.project, estado, agente: options.agent });
+      if (options.json) {
+        console.log(JSON.stringify(tareas, null, 2));
+        return;
+      }
+      if (tareas.length === 0) {
+        console.log(chalk.gray('No hay tareas registradas'));
+        return;
+      }
+      for (const tarea of tareas) {
+        const detalle = tarea.motivoBloqueo || tarea.error || tarea.descripcion || tarea.input;
+        console.log(`${chalk.cyan(tarea.id.substring(0, 8))} ${colorEstado(tarea.estado, 11)} ${tarea.agente.padEnd(14)} ${chalk.gray(detalle)}`);
+      }
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+tasksCommand
+  .command('inspect')
+  .description('Muestra el detalle y el historial de transiciones de una tarea')
+  .argument('<id>', 'Id de la tarea (basta el prefijo)')
+  .option('--json', 'Salida en formato JSON')
+  .action((id, options) => {
+    const tarea = new TaskManager().obtener(id);
+    if (!tarea) {
+      handleAgentError(new Error(`Tarea "${id}" no encontrada`));
+      return;
+    }
+    if (options.json) {
+      console.log(JSON.stringify(tarea, null, 2));
+      return;
+    }
+    mostrarTarea(tarea);
+  });
+
+tasksCommand
+  .command('cancel')
+  .description('Cancela una tarea (o todas las abiertas de un proyecto con --project)')
+  .argument('<id>', 'Id de la tarea, o del proyecto con --project')
+  .option('-p, --project', 'Interpretar <id> como id de proyecto')
+  .option('-r, --reason <motivo>', 'Motivo de la cancelación')
+  .action(async (id, options) => {
+    const taskManager = new TaskManager();
+    try {
+      if (options.project) {
+        const canceladas = await taskManager.cancelarProyecto(id, options.reason, 'cli');
+        console.log(chalk.green(`✅ ${canceladas.length} tareas canceladas en el proyecto ${id}`));
+        return;
+      }
+      const tarea = await taskManager.cancelar(id, options.reason, 'cli');
+      console.log(chalk.green(`✅ Tarea ${tarea.id} cancelada`));
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+tasksCommand
+  .command('skip')
+  .description('Omite una tarea: queda cancelada, pero las que dependen de ella se ejecutan igual')
+  .argument('<id>', 'Id de la tarea (basta el prefijo)')
+  .option('-r, --reason <motivo>', 'Motivo de la omisión')
+  .action(async (id, options) => {
+    try {
+      const tarea = await new TaskManager().omitir(id, options.reason, 'cli');
+      console.log(chalk.green(`✅ Tarea ${tarea.id} omitida`));
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+tasksCommand
+  .command('retry')
+  .description('Reintenta una tarea en ERROR o BLOCKED ejecutando de nuevo su agente')
+  .argument('<id>', 'Id de la tarea (basta el prefijo)')
+  .action(async (id) => {
+    try {
+      const tarea = await new OrchestratorAgent().reintentarTarea(id);
+      mostrarTarea(tarea);
+      if (tarea.estado !== 'COMPLETED') process.exit(1);
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+systemCommand
+  .command('rollback')
+  .description('Revierte los cambios de un paso, un proyecto o una transacción (sin argumento lista las recientes)')
+  .argument('[id]', 'stepId del plan, id de proyecto o id de transacción (basta el prefijo)')
+  .option('-p, --project <id>', 'Limitar a un proyecto (pa\' stepIds repetidos entre proyectos)')
+  .option('-f, --force', 'Revertir aunque los archivos hayan cambiado después del paso')
+  .option('--json', 'Salida en formato JSON')
+  .action(async (id, options) => {
+    const transacciones = TransactionManager.getInstance();
+    try {
+      if (!id) {
+        const recientes = transacciones.listar({ proyectoId: options.project }).slice(-20);
+        if (options.json) {
+          console.log(JSON.stringify(recientes, null, 2));
+          return;
+        }
+        if (recientes.length === 0) {
+          console.log(chalk.gray('No hay transacciones registradas'));
+          return;
+        }
+        for (const t of recientes) {
+          const paso = t.stepId ? ` ${t.stepId}` : '';
+          console.log(`${chalk.cyan(t.id.substring(0, 8))} ${t.estado.padEnd(10)} ${t.agente.padEnd(20)} ${chalk.gray(`${t.proyectoId || '-'}${paso} · ${t.archivos.length} archivos · ${t.creada}`)}`);
+        }
+        return;
+      }
+
+      // De la más reciente a la más antigua: cada snapshot espera el estado que dejó la siguiente
+      const candidatas = transacciones.buscar(id)
+        .filter(t => t.estado !== 'revertida' && (!options.project || t.proyectoId === options.project))
+        .reverse();
+      if (candidatas.length === 0) {
+        throw new Error(`No hay cambios pendientes de revertir para "${id}"`);
+      }
+
+      const resultados: ResultadoRollback[] = [];
+      for (const transaccion of candidatas) {
+        const resultado = await transacciones.revertir(transaccion.id, { motivo: 'cj system rollback', forzar: options.force });
+        resultados.push(resultado);
+        if (resultado.conflictos.length > 0 && !options.force) {
+          console.error(chalk.red(`❌ ${transaccion.agente}${transaccion.stepId ? ` (${transaccion.stepId})` : ''}: archivos modificados después del paso:`));
+          resultado.conflictos.forEach(archivo => console.error(`  ${archivo}`));
+          console.error(chalk.yellow('Usa --force pa\' sobrescribirlos'));
+          break;
+        }
+        const paso = transaccion.stepId ? ` (${transaccion.stepId})` : '';
+        if (options.json) continue;
+        console.log(chalk.green(`↩️ ${transaccion.agente}${paso}: ${resultado.restaurados.length} restaurados, ${resultado.eliminados.length} eliminados`));
+        [...resultado.restaurados.map(a => `~ ${a}`), ...resultado.eliminados.map(a => `- ${a}`)].forEach(linea => console.log(`  ${linea}`));
+      }
+
+      if (options.json) console.log(JSON.stringify(resultados, null, 2));
+      if (resultados.some(r => r.conflictos.length > 0) && !options.force) process.exit(1);
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+systemCommand
+  .command('cache')
+  .description('Estadísticas de la caché de respuestas del LLM; clear la vacía, prune quita expiradas y excedentes')
+  .argument('[accion]', 'stats, clear o prune', 'stats')
+  .option('--json', 'Salida en formato JSON')
+  .action((accion, options) => {
+    const cache = LLMCache.getInstance();
+    try {
+      if (accion === 'clear' || accion === 'prune') {
+        const borradas = accion === 'clear' ? cache.limpiar() : cache.podar();
+        if (options.json) {
+          console.log(JSON.stringify({ borradas, ...cache.estadisticas() }, null, 2));
+          return;
+        }
+        console.log(chalk.green(`✅ ${borradas} respuestas borradas de la caché`));
+        return;
+      }
+      if (accion !== 'stats') {
+        throw new Error(`Acción inválida "${accion}". Debe ser stats, clear o prune`);
+      }
+
+      const stats = cache.estadisticas();
+      if (options.json) {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
+      }
+      const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
+      console.log(`Caché del LLM ${stats.activa ? chalk.green('activa') : chalk.yellow('desactivada')}`);
+      console.log(`  Entradas:    ${stats.entradas} (${mb(stats.bytes)} / ${mb(stats.maxBytes)} MB)`);
+      console.log(`  Aciertos:    ${stats.aciertos} de ${stats.aciertos + stats.fallos} (${(stats.tasaAcierto * 100).toFixed(1)}%)`);
+      console.log(`  Ahorrado:    ${stats.tokensAhorrados} tokens`);
+      console.log(chalk.gray(`  Expiradas: ${stats.expiradas} · Desalojadas por tamaño: ${stats.desalojadas}`));
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+const PROVEEDORES_LLM: ProveedorLLM[] = ['openai', 'anthropic', 'local', 'fixture'];
+
+// Una línea por transcripción: id corto, fecha, agente, paso, modelo, tokens y latencia
+const lineaTranscripcion = (t: Transcripcion) => {
+  const estado = t.error ? chalk.red('error') : t.cache ? chalk.gray('caché') : chalk.green('ok');
+  const paso = t.stepId ? ` ${t.stepId}` : '';
+  const extra = `${t.tipo === 'resumen' ? ' · resumen' : ''}${t.replayDe ? ` · replay de ${t.replayDe.substring(0, 8)}` : ''}`;
+  return `${chalk.cyan(t.id.substring(0, 8))} ${t.fecha.substring(0, 19).replace('T', ' ')} ${t.agente.padEnd(20)} ${t.modelo.padEnd(16)} ${estado} ${chalk.gray(`${t.tokensPrompt}+${t.tokensRespuesta} tokens · ${t.latenciaMs} ms${paso}${extra}`)}`;
+};
+
+const mostrarTranscripcion = (t: Transcripcion) => {
+  console.log(lineaTranscripcion(t));
+  console.log(chalk.gray(`  Id: ${t.id}`));
+  console.log(chalk.gray(`  Proveedor: ${t.proveedor} · modelo pedido ${t.modeloPedido} · temperatura ${t.temperatura ?? 'por defecto'} · máx. ${t.maxTokens} tokens`));
+  if (t.proyectoId) console.log(chalk.gray(`  Proyecto: ${t.proyectoId}${t.stepId ? ` · paso ${t.stepId}` : ''}`));
+  if (t.correlationId) console.log(chalk.gray(`  CorrelationId: ${t.correlationId}`));
+  const redacciones = Object.entries(t.redacciones).map(([tipo, veces]) => `${tipo} ×${veces}`);
+  if (redacciones.length > 0) console.log(chalk.yellow(`  Secretos redactados: ${redacciones.join(', ')}`));
+  if (t.error) console.log(chalk.red(`  Error: ${t.error}`));
+  console.log(chalk.bold('\n--- Prompt ---'));
+  console.log(t.prompt);
+  console.log(chalk.bold('\n--- Respuesta ---'));
+  console.log(t.respuesta);
+};
+
+const transcriptCommand = systemCommand
+  .command('transcript')
+  .description('Prompts y respuestas de cada llamada al LLM (context/transcripts), con los secretos redactados');
+
+transcriptCommand
+  .command('list')
+  .description('Lista las transcripciones, las más recientes primero')
+  .option('-a, --agent <nombre>', 'Filtrar por agente')
+  .option('-p, --project <id>', 'Filtrar por proyecto')
+  .option('--step <id>', 'Filtrar por paso del plan')
+  .option('-c, --correlation <id>', 'Filtrar por correlationId')
+  .option('-m, --model <modelo>', 'Filtrar por modelo')
+  .option('-s, --since <fecha>', 'Solo desde esta fecha (ISO, ej. 2026-10-01)')
+  .option('--errors', 'Solo las llamadas que fallaron')
+  .option('-n, --limit <n>', 'Máximo de transcripciones', '50')
+  .option('--json', 'Salida en formato JSON')
+  .action((options) => {
+    try {
+      const transcripciones = TranscriptStore.getInstance().listar({
+        agente: options.agent,
+        proyectoId: options.project,
+        stepId: options.step,
+        correlationId: options.correlation,
+        modelo: options.model,
+        desde: options.since,
+        soloErrores: Boolean(options.errors),
+        limite: Number(options.limit),
+      });
+      if (options.json) {
+        console.log(JSON.stringify(transcripciones, null, 2));
+        return;
+      }
+      if (transcripciones.length === 0) {
+        console.log(chalk.gray(TranscriptStore.getInstance().activo ? 'No hay transcripciones' : 'Transcripciones desactivadas (CJ_TRANSCRIPTS=off)'));
+        return;
+      }
+      transcripciones.forEach(t => console.log(lineaTranscripcion(t)));
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+transcriptCommand
+  .command('show')
+  .description('Muestra una transcripción con el prompt enviado y la respuesta cruda')
+  .argument('<id>', 'Id de la transcripción (basta el prefijo)')
+  .option('--json', 'Salida en formato JSON')
+  .action((id, options) => {
+    try {
+      const transcripcion = TranscriptStore.getInstance().obtener(id);
+      if (!transcripcion) {
+        throw new Error(`Transcripción "${id}" no encontrada`);
+      }
+      if (options.json) {
+        console.log(JSON.stringify(transcripcion, null, 2));
+        return;
+      }
+      mostrarTranscripcion(transcripcion);
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+transcriptCommand
+  .command('replay')
+  .description('Repite el prompt de una transcripción (sin caché), por defecto con el mismo modelo, y compara las respuestas')
+  .argument('<id>', 'Id de la transcripción (basta el prefijo)')
+  .option('-m, --model <modelo>', 'Modelo con el que repetirlo')
+  .option('--provider <proveedor>', `Proveedor (${PROVEEDORES_LLM.join(', ')}); por defecto el de la transcripción`)
+  .option('-t, --temperature <n>', 'Temperatura; por defecto la de la transcripción')
+  .option('--max-tokens <n>', 'Máximo de tokens de respuesta; por defecto los de la transcripción')
+  .option('--fail-on-diff', 'Sale con código 1 si la respuesta cambia (pa\' pruebas de regresión de prompts)')
+  .option('-u, --user <id>', 'Usuario del libro al que se cobra', USUARIO_POR_DEFECTO)
+  .option('--json', 'Salida en formato JSON')
+  .action(async (id, options) => {
+    try {
+      const store = TranscriptStore.getInstance();
+      const original = store.obtener(id);
+      if (!original) {
+        throw new Error(`Transcripción "${id}" no encontrada`);
+      }
+      const proveedor = (options.provider || original.proveedor) as ProveedorLLM;
+      if (!PROVEEDORES_LLM.includes(proveedor)) {
+        throw new Error(`Proveedor inválido "${proveedor}". Debe ser uno de: ${PROVEEDORES_LLM.join(', ')}`);
+      }
+      const modelo = options.model || original.modeloPedido;
+      const maxTokens = options.maxTokens ? Number(options.maxTokens) : original.maxTokens;
+
+      // Un replay es un prompt más fuera de un paso: licencia, saldo mínimo y presupuesto, y luego se cobra
+      if (proveedor === 'openai' || proveedor === 'anthropic') Entitlements.getInstance().exigir('llm-nube');
+      const ledger = CreditLedger.getInstance();
+      const { disponible } = ledger.saldo(options.user);
+      if (disponible < devmindConfig.creditos.minimo) {
+        throw new CreditosInsuficientesError(options.user, devmindConfig.creditos.minimo, disponible);
+      }
+      const alcance = { userId: options.user, proyectoId: original.proyectoId || proyectoDelDirectorio(), agente: original.agente };
+      const previsto = ledger.creditosDe(original.tokensPrompt + maxTokens);
+      const excedido = BudgetManager.getInstance().evaluar(alcance, { adicional: previsto, modelo }).estados.find(e => e.nivel === 'corte');
+      if (excedido) throw new PresupuestoExcedidoError(excedido);
+
+      const respuesta = await new APIProxy().ejecutar({
+        proveedor,
+        modelo,
+        prompt: original.prompt,
+        maxTokens,
+        temperatura: options.temperature !== undefined ? Number(options.temperature) : original.temperatura,
+        cache: false,
+        origen: { agente: original.agente, proyectoId: alcance.proyectoId, stepId: original.stepId, replayDe: original.id },
+      });
+      ledger.cobrar({ ...alcance, modelo: respuesta.modelo, tokens: respuesta.tokens });
+      const creditos = ledger.creditosDe(respuesta.tokens);
+      const igual = respuesta.resultado.trim() === original.respuesta.trim();
+      const diff = igual ? '' : diffUnificado('respuesta', original.respuesta, respuesta.resultado);
+      if (options.json) {
+        const replay = respuesta.transcripcionId ? store.obtener(respuesta.transcripcionId) : undefined;
+        console.log(JSON.stringify({ original, replay: replay || respuesta, igual, diff, creditos }, null, 2));
+      } else {
+        if (Object.keys(original.redacciones).length > 0) {
+          console.log(chalk.yellow('⚠️ El prompt original llevaba secretos: se repite con ellos redactados'));
+        }
+        console.log(`Original: ${original.modelo.padEnd(16)} ${original.tokensPrompt}+${original.tokensRespuesta} tokens · ${original.latenciaMs} ms`);
+        console.log(`Replay:   ${respuesta.modelo.padEnd(16)} ${respuesta.tokensPrompt}+${respuesta.tokensRespuesta} tokens · ${respuesta.latenciaMs} ms · ${creditos} créditos${respuesta.transcripcionId ? chalk.gray(` (${respuesta.transcripcionId.substring(0, 8)})`) : ''}`);
+        if (igual) {
+          console.log(chalk.green('✅ Misma respuesta'));
+        } else {
+          console.log('');
+          diff.split('\n').forEach(linea => console.log(colorDiff(linea)));
+        }
+      }
+      if (!igual && options.failOnDiff) process.exit(1);
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+const DIMENSIONES_CONSUMO: DimensionConsumo[] = ['agente', 'proyecto', 'modelo', 'paso', 'ejecucion'];
+
+systemCommand
+  .command('credits')
+  .description('Saldo y consumo de créditos (CreditLedger); report lo agrupa, grant abona créditos')
+  .argument('[accion]', 'balance, report o grant', 'balance')
+  .argument('[monto]', 'Créditos a abonar (grant)')
+  .option('-b, --by <dimension>', `Agrupar el consumo por: ${DIMENSIONES_CONSUMO.join(', ')}`, 'agente')
+  .option('-p, --project <id>', 'Limitar el reporte a un proyecto')
+  .option('-s, --since <fecha>', 'Solo movimientos desde esta fecha (ISO, ej. 2026-10-01)')
+  .option('-u, --user <id>', 'Usuario del libro', USUARIO_POR_DEFECTO)
+  .option('--ref <referencia>', 'Referencia del abono (ej. id del CreditPack)')
+  .option('--json', 'Salida en formato JSON')
+  .action((accion, monto, options) => {
+    const ledger = CreditLedger.getInstance();
+    try {
+      if (accion === 'grant') {
+        const asiento = ledger.acreditar(options.user, Number(monto), { motivo: 'cj system credits grant', referencia: options.ref });
+        const saldo = ledger.saldo(options.user);
+        if (options.json) {
+          console.log(JSON.stringify({ asiento, saldo }, null, 2));
+          return;
+        }
+        console.log(chalk.green(`✅ ${monto} créditos abonados a ${options.user}; disponible: ${saldo.disponible}`));
+        return;
+      }
+      if (accion !== 'balance' && accion !== 'report') {
+        throw new Error(`Acción inválida "${accion}". Debe ser balance, report o grant`);
+      }
+      if (!DIMENSIONES_CONSUMO.includes(options.by)) {
+        throw new Error(`Dimensión inválida "${options.by}". Debe ser una de: ${DIMENSIONES_CONSUMO.join(', ')}`);
+      }
+
+      const saldo = ledger.saldo(options.user);
+      const consumo = ledger.consumoPor(options.by, { userId: options.user, proyectoId: options.project, desde: options.since });
+      if (options.json) {
+        console.log(JSON.stringify(accion === 'report' ? consumo : { ...saldo, consumo }, null, 2));
+        return;
+      }
+
+      if (accion === 'balance') {
+        console.log(`Créditos de ${saldo.userId}`);
+        console.log(`  Disponible:  ${chalk.green(saldo.disponible)}`);
+        console.log(`  Reservado:   ${saldo.reservado}`);
+        console.log(`  Consumido:   ${saldo.consumido}`);
+        if (consumo.length > 0) console.log('');
+      }
+      if (consumo.length === 0) {
+        if (accion === 'report') console.log(chalk.gray('No hay consumo registrado'));
+        return;
+      }
+      const filas = accion === 'balance' ? consumo.slice(0, 5) : consumo;
+      console.log(chalk.bold(`Consumo por ${options.by}${accion === 'balance' && consumo.length > 5 ? ' (top 5)' : ''}`));
+      for (const grupo of filas) {
+        const reembolsos = grupo.reembolsados > 0 ? ` · ${grupo.reembolsados} fallidos reembolsados` : '';
+        console.log(`  ${grupo.clave.padEnd(24)} ${String(grupo.creditos).padStart(10)} créditos ${chalk.gray(`${grupo.tokens} tokens · ${grupo.asientos} cobros${reembolsos}`)}`);
+      }
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+// --agent APIAgent=200 --agent DocAgent=50 → { APIAgent: 200, DocAgent: 50 }
+const limitesPorAgente = (valores: string[] = []): Record<string, number> =>
+  Object.fromEntries(valores.map(valor => {
+    const [agente, limite] = valor.split('=');
+    if (!agente || limite === undefined) throw new Error(`Formato inválido "${valor}". Usa Agente=créditos (ej. APIAgent=200)`);
+    return [agente, Number(limite)];
+  }));
+
+systemCommand
+  .command('budget')
+  .description('Límites de gasto en créditos; show los muestra con lo gastado, set los cambia en un proyecto, clear vuelve a los de la configuración')
+  .argument('[accion]', 'show, set o clear', 'show')
+  .option('-p, --project <id>', 'Proyecto (por defecto, el del directorio actual)')
+  .option('--limit <creditos>', 'Límite del proyecto (0 = sin límite)')
+  .option('--run <creditos>', 'Límite por orquestación')
+  .option('--agent <agente=creditos...>', 'Límite de un agente en el proyecto (ej. APIAgent=200)')
+  .option('-u, --user <id>', 'Usuario del libro de créditos', USUARIO_POR_DEFECTO)
+  .option('--json', 'Salida en formato JSON')
+  .action((accion, options) => {
+    const presupuestos = BudgetManager.getInstance();
+    const proyectoId: string = options.project || proyectoDelDirectorio();
+    try {
+      if (accion === 'set' || accion === 'clear') {
+        if (accion === 'clear') {
+          const quitado = presupuestos.quitar(proyectoId);
+          console.log(quitado ? chalk.green(`✅ El proyecto ${proyectoId} vuelve a los límites de la configuración`) : chalk.gray('El proyecto no tenía límites propios'));
+          return;
+        }
+        const cambios: LimitesPresupuesto = {};
+        if (options.limit !== undefined) cambios.proyecto = Number(options.limit);
+        if (options.run !== undefined) cambios.ejecucion = Number(options.run);
+        if (options.agent) cambios.agentes = limitesPorAgente(options.agent);
+        if (Object.keys(cambios).length === 0) throw new Error('Indica al menos --limit, --run o --agent');
+        presupuestos.fijar(proyectoId, cambios);
+      } else if (accion !== 'show') {
+        throw new Error(`Acción inválida "${accion}". Debe ser show, set o clear`);
+      }
+
+      const limites = presupuestos.limites(proyectoId);
+      const alcance = { userId: options.user, proyectoId };
+      const estados: EstadoPresupuesto[] = [...presupuestos.evaluar(alcance).estados];
+      for (const agente of Object.keys(limites.agentes)) {
+        estados.push(...presupuestos.evaluar({ ...alcance, agente }).estados.filter(estado => estado.ambito === 'agente'));
+      }
+      if (options.json) {
+        console.log(JSON.stringify({ limites, estados }, null, 2));
+        return;
+      }
+
+      const limite = (valor?: number) => (valor ? `${valor} créditos` : chalk.gray('sin límite'));
+      console.log(`Presupuestos del proyecto ${proyectoId}`);
+      console.log(`  Proyecto:      ${limite(limites.proyecto)}`);
+      console.log(`  Orquestación:  ${limite(limites.ejecucion)}`);
+      Object.entries(limites.agentes).forEach(([agente, valor]) => console.log(`  ${agente.padEnd(14)} ${limite(valor)}`));
+      for (const estado of estados) {
+        const color = estado.nivel === 'corte' ? chalk.red : estado.nivel === 'aviso' ? chalk.yellow : chalk.green;
+        console.log(color(`  Gastado ${describirAmbito(estado)}: ${estado.gastado}/${estado.limite} (${Math.round(estado.fraccion * 100)}%)`));
+      }
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+const mostrarLicencia = (licencia: LicenciaVerificada) => {
+  const color = licencia.estado === 'activa' ? chalk.green : licencia.estado === 'gracia' ? chalk.yellow : chalk.red;
+  console.log(`Licencia: ${color(licencia.estado)} · tier efectivo ${chalk.bold(licencia.tier)}`);
+  if (licencia.datos) {
+    console.log(`  Titular:     ${licencia.datos.titular}`);
+    console.log(`  Tier:        ${licencia.datos.tier} · ${licencia.datos.asientos} asiento(s)`);
+    console.log(`  Expira:      ${licencia.datos.expira.substring(0, 10)}${licencia.diasRestantes !== undefined && licencia.diasRestantes >= 0 ? ` (${licencia.diasRestantes} días)` : ''}`);
+    if (licencia.datos.features.length > 0) console.log(`  Features:    ${licencia.datos.features.join(', ')}`);
+    console.log(chalk.gray(`  Id:          ${licencia.datos.id}`));
+  }
+  if (licencia.motivo) console.log(color(`  ${licencia.motivo}`));
+};
+
+// Lo que incluye el tier efectivo (MATRIZ_DERECHOS) y cuánto queda de cada cupo
+const mostrarDerechos = (userId: string) => {
+  const derechos = Entitlements.getInstance();
+  const { llm } = derechos.derechos();
+  console.log(chalk.bold('\nIncluye'));
+  console.log(`  Modelo:      ${llm.modelo} (${llm.proveedor})`);
+  for (const { incluida, descripcion } of derechos.funciones()) {
+    console.log(`  ${incluida ? chalk.green('✔') : chalk.gray('✘')} ${descripcion.charAt(0).toUpperCase()}${descripcion.slice(1)}`);
+  }
+  console.log(chalk.bold('Cupos'));
+  for (const uso of derechos.uso(userId)) {
+    const limite = uso.limite > 0 ? String(uso.limite) : chalk.gray('sin límite');
+    const usado = uso.usado !== undefined ? ` · usado ${uso.usado}` : '';
+    console.log(`  ${Entitlements.describirCupo(uso.cupo).padEnd(38)} ${limite}${usado}`);
+  }
+};
+
+// La privada del emisor nunca vive junto al código que se publica: ni keygen la deja ahí ni issue la lee de ahí
+const dentroDeLaCli = (ruta: string): boolean => {
+  const relativa = relative(resolve(__dirname, '..'), resolve(ruta));
+  return !relativa.startsWith('..') && !isAbsolute(relativa);
+};
+
+systemCommand
+  .command('license')
+  .description('Licencia firmada; status la verifica y muestra qué incluye, activate la instala, issue y keygen son pa\' los admins que las emiten')
+  .argument('[accion]', 'status, activate, issue o keygen', 'status')
+  .argument('[licencia]', 'Licencia a activar (cjl1.…)')
+  .option('--holder <titular>', 'Titular de la licencia (issue)')
+  .option('--tier <tier>', 'Community, Professional o Enterprise (issue)', 'Professional')
+  .option('--seats <n>', 'Asientos (issue)', '1')
+  .option('--days <n>', 'Vigencia en días (issue)', '365')
+  .option('--features <lista>', 'Features extra separadas por comas (issue)')
+  .option('--key <ruta>', 'Clave privada Ed25519 en PEM (issue); también CJ_LICENSE_PRIVATE_KEY')
+  .option('--out <dir>', 'Carpeta donde keygen deja el par de claves, fuera de la instalación de la CLI (keygen)')
+  .option('-u, --user <id>', 'Usuario del que se muestran los cupos gastados', USUARIO_POR_DEFECTO)
+  .option('--json', 'Salida en formato JSON')
+  .action((accion, token, options) => {
+    const licencias = LicenseManager.getInstance();
+    try {
+      if (accion === 'keygen') {
+        if (!options.out) throw new Error('Indica con --out una carpeta fuera de la CLI pa\' el par de claves (ej. ~/.cj-devmind-issuer)');
+        if (dentroDeLaCli(options.out)) {
+          throw new Error(`${options.out} está dentro de la instalación de la CLI; la privada no puede quedar junto al código que se publica`);
+        }
+        const claves = licencias.generarClaves();
+        const privada = join(options.out, 'private.pem');
+        if (existsSync(privada)) throw new Error(`Ya existe ${privada}; bórrala a mano si de verdad quieres otra clave (las licencias emitidas con ella dejarían de valer)`);
+        mkdirSync(options.out, { recursive: true });
+        writeFileSync(privada, claves.privada, { mode: 0o600 });
+        writeFileSync(join(options.out, 'public.pem'), claves.publica);
+        console.log(chalk.green(`✅ Claves en ${options.out}: public.pem se copia en CLAVE_PUBLICA_EMISOR (services/license-manager.ts) y se publica una versión nueva; private.pem no sale de los admins`));
+        return;
+      }
+      if (accion === 'issue') {
+        if (!options.holder) throw new Error('Indica el titular con --holder');
+        const rutaClave = options.key || process.env.CJ_LICENSE_PRIVATE_KEY;
+        if (!rutaClave) throw new Error('Indica la clave privada con --key o CJ_LICENSE_PRIVATE_KEY');
+        if (dentroDeLaCli(rutaClave)) {
+          throw new Error(`${rutaClave} está dentro de la instalación de la CLI; guarda la privada fuera (ej. ~/.cj-devmind-issuer) y bórrala de aquí`);
+        }
+        const licencia = licencias.emitir({
+          titular: options.holder,
+          tier: options.tier as TierLicencia,
+          asientos: Number(options.seats),
+          dias: Number(options.days),
+          features: options.features ? String(options.features).split(',').map((f: string) => f.trim()).filter(Boolean) : [],
+        }, readFileSync(rutaClave, 'utf-8'));
+        const verificacion = licencias.verificar(licencia);
+        if (verificacion.estado === 'invalida') {
+          throw new Error('La clave privada no corresponde a CLAVE_PUBLICA_EMISOR: la CLI publicada rechazaría esta licencia');
+        }
+        if (options.json) {
+          console.log(JSON.stringify({ licencia, verificacion }, null, 2));
+          return;
+        }
+        console.log(licencia);
+        return;
+      }
+
+      let licencia: LicenciaVerificada;
+      if (accion === 'activate') {
+        if (!token) throw new Error('Indica la licencia: cj system license activate <licencia>');
+        licencia = licencias.activar(token);
+      } else if (accion === 'status') {
+        licencia = licencias.actual();
+      } else {
+        throw new Error(`Acción inválida "${accion}". Debe ser status, activate, issue o keygen`);
+      }
+      if (options.json) {
+        const derechos = Entitlements.getInstance();
+        console.log(JSON.stringify({ ...licencia, funciones: derechos.funciones(), cupos: derechos.uso(options.user) }, null, 2));
+        return;
+      }
+      if (accion === 'activate') console.log(chalk.green('✅ Licencia activada'));
+      mostrarLicencia(licencia);
+      mostrarDerechos(options.user);
+    } catch (error) {
+      handleAgentError(error);
+    }
+  });
+
+systemCommand
+  .command('sync')
+  .description('Copia de la actividad y el consumo en el dashboard (CJ_DASHBOARD_URL y CJ_DASHBOARD_TOKEN); status muestra lo pendiente, flush lo manda ya, apply ejecuta los reintentos y omisiones de pasos pedidos desde el dashboard')
+  .argument('[accion]', 'status, flush o apply', 'status')
+  .option('-p, --project <id>', 'Con apply, solo las acciones de un proyecto')
+  .option('--json', 'Salida en formato JSON')
+  .action(async (accion, options) => {
+    const sync = DashboardSync.getInstance();
+    try {
+      if (!['status', 'flush', 'apply'].includes(accion)) {
+        throw new Error(`Acción inválida "${accion}". Debe ser status, flush o apply`);
+      }
+      if (!sync.activo()) {
+        throw new Error('Sincronización desactivada: define CJ_DASHBOARD_URL y CJ_DASHBOARD_TOKEN (el token de POST /api/auth/login)');
+      }
+      if (accion === 'apply') {
+        const aplicadas = await new OrchestratorAgent().aplicarAccionesDashboard(options.project);
+        await sync.enviar().catch(() => undefined); // Los nuevos estados de los pasos; postAction no envía tras sync
+        if (options.json) {
+          console.log(JSON.stringify(aplicadas, null, 2));
+          return;
+        }
+        if (aplicadas.length === 0) console.log(chalk.gray('No hay acciones pendientes en el dashboard'));
+        for (const { accion: pedida, resultado } of aplicadas) {
+          const linea = `${pedida.accion} ${pedida.stepId} (${pedida.proyectoId})${resultado.detalle ? `: ${resultado.detalle}` : ''}`;
+          console.log(resultado.estado === 'done' ? chalk.green(`✅ ${linea}`) : chalk.red(`❌ ${linea}`));
+        }
+        if (aplicadas.some(({ resultado }) => resultado.estado === 'failed')) process.exit(1);
+        return;
+      }
+      const resultado = accion === 'flush' ? await sync.enviar() : undefined;
+      const pendientes = sync.pendientes();
+      if (options.json) {
+        console.log(JSON.stringify({ url: devmindConfig.dashboard.url, ...pendientes, resultado }, null, 2));
+        return;
+      }
+      if (resultado) {
+        console.log(chalk.green(`✅ Enviados: ${resultado.aceptados} nuevos, ${resultado.duplicados} ya estaban`));
+        resultado.rechazados.forEach(({ id, error }) => console.log(chalk.yellow(`  Rechazado ${id}: ${error}`)));
+      }
+      console.log(`Dashboard: ${devmindConfig.dashboard.url}`);
+      console.log(`  Pendientes: ${pendientes.eventos}`);
+      if (pendientes.ultimoError) console.log(chalk.red(`  Último error: ${pendientes.ultimoError}`));
+      if (pendientes.siguienteIntento) console.log(chalk.gray(`  Siguiente intento: ${pendientes.siguienteIntento}`));
     } catch (error) {
       handleAgentError(error);
     }
@@ -414,11 +1191,7 @@ program
   .action(async (spec) => {
     deprecationWarning('performance', 'quality performance');
     const agent = new PerformanceAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 program
@@ -428,11 +1201,7 @@ program
   .action(async (spec) => {
     deprecationWarning('security', 'quality security');
     const agent = new SecurityAgent();
-    try {
-      await agent.run(spec);
-    } catch (error) {
-      handleAgentError(error);
-    }
+    await ejecutarAgente(agent, spec);
   });
 
 // Añadir más comandos obsoletos siguiendo el mismo patrón...
@@ -467,8 +1236,8 @@ program
     console.log('  cj <categoría> <comando> --help - Muestra ayuda sobre un comando específico\n');
   });
 
-// Procesar argumentos
-program.parse(process.argv);
+// Procesar argumentos (async pa' que postAction espere a los comandos asíncronos)
+program.parseAsync(process.argv);
 
 // Si no se proporcionan argumentos, mostrar ayuda
 if (!process.argv.slice(2).length) {
@@ -0,0 +1,4 @@
+import { PrismaClient } from '@prisma/client';
+
+// Un solo cliente pa' todas las rutas (DATABASE_URL; en local, SQLite: "file:./dev.db")
+export const prisma = new PrismaClient();
@@ -1,48 +0,0 @@
-const express = require('express');
-const cors = require('cors');
-const dotenv = require('dotenv');
-const { PrismaClient } = require('@prisma/client');
-
-// Cargar variables de entorno
-dotenv.config();
-
-// Inicializar Prisma
-const prisma = new PrismaClient();
-
-// Crear aplicación Express
-const app = express();
-const PORT = process.env.PORT || 3001;
-
-// Middleware
-app.use(cors());
-app.use(express.json());
-
-// Importar rutas
-const authRoutes = require('./routes/auth');
-const userRoutes = require('./routes/user');
-const projectRoutes = require('./routes/project');
-const licenseRoutes = require('./routes/license');
-const creditRoutes = require('./routes/credit');
-
-// Usar rutas
-app.use('/api/auth', authRoutes);
-app.use('/api/user', userRoutes);
-app.use('/api/projects', projectRoutes);
-app.use('/api/licenses', licenseRoutes);
-app.use('/api/credits', creditRoutes);
-
-// Ruta de prueba
-app.get('/', (req, res) => {
-  res.json({ message: 'API de CJ.DevMind funcionando correctamente' });
-});
-
-// Iniciar servidor
-app.listen(PORT, () => {
-  console.log(`Servidor ejecutándose en http://localhost:${PORT}`);
-});
-
-// Manejar cierre de la aplicación
-process.on('SIGINT', async () => {
-  await prisma.$disconnect();
-  process.exit(0);
-});
\ No newline at end of file
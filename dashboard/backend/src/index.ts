@@ -0,0 +1,54 @@
+import express from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import { prisma } from './db';
+import { guardarCuerpoCrudo } from './lib/auth';
+import { manejarErrores } from './lib/http';
+import authRoutes from './routes/auth';
+import userRoutes from './routes/user';
+import projectRoutes from './routes/project';
+import licenseRoutes from './routes/license';
+import creditRoutes from './routes/credit';
+import syncRoutes from './routes/sync';
+import streamRoutes from './routes/stream';
+import workflowRoutes from './routes/workflow';
+
+// Cargar variables de entorno
+dotenv.config();
+
+// Crear aplicación Express
+const app = express();
+const PORT = process.env.PORT || 3001;
+
+// Middleware
+app.use(cors());
+app.use(express.json({ verify: guardarCuerpoCrudo })); // El cuerpo crudo es pa' las firmas de la pasarela de pago
+
+// Usar rutas
+app.use('/api/auth', authRoutes);
+app.use('/api/user', userRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/projects/:projectId/workflow', workflowRoutes);
+app.use('/api/licenses', licenseRoutes);
+app.use('/api/credits', creditRoutes);
+app.use('/api/sync', syncRoutes);
+app.use('/api/stream', streamRoutes);
+
+// Ruta de prueba
+app.get('/', (req, res) => {
+  res.json({ message: 'API de CJ.DevMind funcionando correctamente' });
+});
+
+// Errores de las rutas (HttpError → su código; el resto, 500)
+app.use(manejarErrores);
+
+// Iniciar servidor
+app.listen(PORT, () => {
+  console.log(`Servidor ejecutándose en http://localhost:${PORT}`);
+});
+
+// Manejar cierre de la aplicación
+process.on('SIGINT', async () => {
+  await prisma.$disconnect();
+  process.exit(0);
+});
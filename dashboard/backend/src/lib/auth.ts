@@ -0,0 +1,93 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { HttpError } from './http';
+
+/**
+ * Contraseñas con scrypt (sal aleatoria por usuario) y sesiones con JWT firmados con JWT_SECRET.
+ * Las llamadas de la pasarela de pago no llevan sesión: van firmadas con HMAC y PAYMENTS_WEBHOOK_SECRET
+ */
+
+const scrypt = promisify(crypto.scrypt) as (password: crypto.BinaryLike, salt: crypto.BinaryLike, keylen: number) => Promise<Buffer>;
+const LARGO_CLAVE = 64;
+
+// Formato guardado en User.passwordHash: scrypt$<sal>$<hash>, ambos en base64
+export async function hashearPassword(password: string): Promise<string> {
+  const sal = crypto.randomBytes(16);
+  const hash = await scrypt(password, sal, LARGO_CLAVE);
+  return `scrypt$${sal.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verificarPassword(password: string, guardado: string): Promise<boolean> {
+  const [algoritmo, sal, hash] = guardado.split('$');
+  if (algoritmo !== 'scrypt' || !sal || !hash) return false;
+  const esperado = Buffer.from(hash, 'base64');
+  const calculado = await scrypt(password, Buffer.from(sal, 'base64'), esperado.length);
+  return crypto.timingSafeEqual(calculado, esperado);
+}
+
+// Sin JWT_SECRET, en desarrollo se usa uno aleatorio (las sesiones no sobreviven a un reinicio); en producción falla.
+// Se lee al usarlo, no al importar, pa' que dotenv ya haya cargado el .env
+let secretoTemporal: string | undefined;
+function secreto(): string {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Falta JWT_SECRET: sin él no se pueden firmar las sesiones');
+  }
+  if (secretoTemporal) return secretoTemporal;
+  console.warn('⚠️ JWT_SECRET no definido: se usa uno temporal y las sesiones caducan al reiniciar');
+  secretoTemporal = crypto.randomBytes(32).toString('hex');
+  return secretoTemporal;
+}
+
+export function firmarSesion(userId: string): string {
+  return jwt.sign({}, secreto(), { subject: userId, expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as jwt.SignOptions);
+}
+
+export interface RequestAutenticada extends Request {
+  userId: string;
+}
+
+// Authorization: Bearer <jwt> → req.userId; sin sesión válida, 401
+export function requerirSesion(req: Request, _res: Response, next: NextFunction): void {
+  const [tipo, token] = (req.headers.authorization || '').split(' ');
+  if (tipo !== 'Bearer' || !token) {
+    next(new HttpError(401, 'Falta la sesión (Authorization: Bearer <token>)'));
+    return;
+  }
+  try {
+    const payload = jwt.verify(token, secreto()) as jwt.JwtPayload;
+    if (!payload.sub) throw new Error('sin sujeto');
+    (req as RequestAutenticada).userId = payload.sub;
+    next();
+  } catch {
+    next(new HttpError(401, 'Sesión inválida o caducada; vuelve a iniciar sesión'));
+  }
+}
+
+export interface RequestFirmada extends Request {
+  cuerpoCrudo?: Buffer;
+}
+
+// verify de express.json(): la firma se calcula sobre los bytes tal como llegaron, no sobre el JSON ya parseado
+export const guardarCuerpoCrudo = (req: Request, _res: Response, cuerpo: Buffer): void => {
+  (req as RequestFirmada).cuerpoCrudo = cuerpo;
+};
+
+// X-CJ-Signature: sha256=<hmac hex del cuerpo> → sigue; sin secreto configurado, 503; firma mala, 401
+export function requerirFirmaPagos(req: Request, _res: Response, next: NextFunction): void {
+  const secretoPagos = process.env.PAYMENTS_WEBHOOK_SECRET;
+  if (!secretoPagos) {
+    next(new HttpError(503, 'Compras desactivadas: falta PAYMENTS_WEBHOOK_SECRET pa\' verificar a la pasarela de pago'));
+    return;
+  }
+  const [algoritmo, firma] = String(req.headers['x-cj-signature'] || '').split('=');
+  const esperada = crypto.createHmac('sha256', secretoPagos).update((req as RequestFirmada).cuerpoCrudo || '').digest();
+  const recibida = Buffer.from(firma || '', 'hex');
+  if (algoritmo !== 'sha256' || recibida.length !== esperada.length || !crypto.timingSafeEqual(recibida, esperada)) {
+    next(new HttpError(401, 'Firma de la pasarela de pago inválida'));
+    return;
+  }
+  next();
+}
@@ -0,0 +1,93 @@
+import { CreditPack } from '@prisma/client';
+import { prisma } from '../db';
+import { HttpError } from './http';
+import { configCompartida } from '../shared/config';
+
+/**
+ * Saldo y consumo sobre los CreditPack del usuario: un consumo se descuenta de los paquetes vigentes,
+ * primero los que caducan antes, y deja un ApiUsage por cada paquete que tocó (más uno sin paquete por lo que
+ * no cubran, si el consumo lo permite)
+ */
+
+const redondear = (valor: number): number => Math.round(valor * 1000) / 1000;
+
+const vigente = (pack: CreditPack, ahora: Date): boolean => !pack.expiryDate || pack.expiryDate > ahora;
+
+// Los que caducan antes primero; los que no caducan, al final; a igualdad, los más viejos
+const ordenDeConsumo = (a: CreditPack, b: CreditPack): number =>
+  (a.expiryDate?.getTime() ?? Infinity) - (b.expiryDate?.getTime() ?? Infinity) || a.purchaseDate.getTime() - b.purchaseDate.getTime();
+
+export async function saldoDe(userId: string): Promise<{ disponible: number; total: number; paquetes: number }> {
+  const ahora = new Date();
+  const packs = (await prisma.creditPack.findMany({ where: { userId } })).filter(pack => vigente(pack, ahora));
+  return {
+    disponible: redondear(packs.reduce((suma, pack) => suma + pack.remaining, 0)),
+    total: packs.reduce((suma, pack) => suma + pack.amount, 0),
+    paquetes: packs.length,
+  };
+}
+
+export interface Consumo {
+  userId: string;
+  projectId: string;
+  provider: string;
+  model: string;
+  tokensUsed: number;
+  id?: string; // Los ApiUsage quedan como <id>-0, <id>-1…: reenviar el mismo consumo choca con la clave primaria
+  agent?: string;
+  stepId?: string;
+  timestamp?: Date;
+  // Lo que no cubren los paquetes se apunta sin paquete en vez de dar 402 (consumo que la CLI ya hizo)
+  permitirSinSaldo?: boolean;
+}
+
+// El coste siempre sale de los tokens, como en el CreditLedger de la CLI: el cliente no decide cuánto se le cobra
+export async function consumirCreditos(consumo: Consumo) {
+  const coste = redondear(consumo.tokensUsed / configCompartida.creditos.tokensPorCredito);
+  const proyecto = await prisma.project.findFirst({ where: { id: consumo.projectId, userId: consumo.userId } });
+  if (!proyecto) throw new HttpError(404, `Proyecto ${consumo.projectId} no encontrado`);
+
+  return prisma.$transaction(async (tx) => {
+    const ahora = new Date();
+    const packs = (await tx.creditPack.findMany({ where: { userId: consumo.userId, remaining: { gt: 0 } } }))
+      .filter(pack => vigente(pack, ahora))
+      .sort(ordenDeConsumo);
+    const disponible = packs.reduce((suma, pack) => suma + pack.remaining, 0);
+    if (disponible < coste && !consumo.permitirSinSaldo) {
+      throw new HttpError(402, `Créditos insuficientes: el consumo cuesta ${coste} y quedan ${redondear(disponible)}`);
+    }
+
+    const usos = [];
+    let pendiente = coste;
+    const registrar = (porcion: number, creditPackId: string | null) => tx.apiUsage.create({
+      data: {
+        id: consumo.id ? `${consumo.id}-${usos.length}` : undefined,
+        provider: consumo.provider,
+        model: consumo.model,
+        tokensUsed: coste > 0 ? Math.round(consumo.tokensUsed * (porcion / coste)) : consumo.tokensUsed,
+        cost: porcion,
+        timestamp: consumo.timestamp,
+        agent: consumo.agent,
+        stepId: consumo.stepId,
+        projectId: consumo.projectId,
+        creditPackId,
+      },
+    });
+    for (const pack of packs) {
+      if (pendiente <= 0) break;
+      const porcion = redondear(Math.min(pack.remaining, pendiente));
+      // Condicional: si otro consumo se llevó el saldo entre medias, no se deja el paquete en negativo
+      const { count } = await tx.creditPack.updateMany({
+        where: { id: pack.id, remaining: { gte: porcion } },
+        data: { remaining: { decrement: porcion } },
+      });
+      if (count === 0) throw new HttpError(409, 'El saldo cambió mientras se cobraba; reintenta');
+      usos.push(await registrar(porcion, pack.id));
+      pendiente = redondear(pendiente - porcion);
+    }
+    if (pendiente > 0 || usos.length === 0) {
+      usos.push(await registrar(pendiente, null));
+    }
+    return { coste, usos };
+  });
+}
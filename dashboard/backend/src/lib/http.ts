@@ -0,0 +1,45 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+
+// Error con el código HTTP que debe devolver la API; el resto de errores salen como 500
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Express 4 no captura los rechazos de los handlers async: se pasan a next() pa' que lleguen a manejarErrores
+export const conErrores = <R extends Request = Request>(
+  handler: (req: R, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req, res, next) => {
+  handler(req as R, res, next).catch(next);
+};
+
+// Cuerpo o query validados con zod; si no cuadra, 400 con lo que falla. T es la salida (tras transform/coerce)
+export function validar<T>(esquema: ZodType<T, ZodTypeDef, unknown>, datos: unknown): T {
+  const resultado = esquema.safeParse(datos);
+  if (!resultado.success) {
+    throw new HttpError(400, formatearZod(resultado.error));
+  }
+  return resultado.data;
+}
+
+const formatearZod = (error: ZodError): string =>
+  error.issues.map(issue => `${issue.path.join('.') || 'cuerpo'}: ${issue.message}`).join('; ');
+
+// ?page=1&pageSize=20 (máximo 100) → lo que va a skip/take de Prisma; las respuestas son { items, page, pageSize, total }
+export function paginacion(query: Request['query']): { page: number; pageSize: number; skip: number; take: number } {
+  const page = Math.max(1, Number.parseInt(String(query.page ?? '1'), 10) || 1);
+  const pageSize = Math.min(100, Math.max(1, Number.parseInt(String(query.pageSize ?? '20'), 10) || 20));
+  return { page, pageSize, skip: (page - 1) * pageSize, take: pageSize };
+}
+
+export const manejarErrores = (error: Error, _req: Request, res: Response, _next: NextFunction) => {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error('Error no controlado en la API:', error);
+  res.status(500).json({ error: 'Error interno del servidor' });
+};
@@ -0,0 +1,74 @@
+import { CanalVivo, DatosCanalVivo, MensajeVivo } from '../shared/realtime-types';
+
+/**
+ * Reparto en memoria de los canales en vivo: cada mensaje se guarda en los recientes del usuario (pa' el
+ * backfill al reconectar) y se manda a sus suscripciones de ese proyecto y canal. Vale pa' una sola
+ * instancia de la API; con varias haría falta un broker delante.
+ */
+
+const MAX_RECIENTES = 1000; // Por usuario
+
+// Los ids llevan el arranque: un Last-Event-ID de antes de reiniciar la API no se confunde con uno de ahora
+const ARRANQUE = Date.now().toString(36);
+let secuencia = 0;
+
+export interface FiltroVivo {
+  proyectoId: string;
+  canales: CanalVivo[];
+}
+
+type Suscriptor = { filtro: FiltroVivo; enviar: (mensaje: MensajeVivo) => void };
+
+const recientes = new Map<string, MensajeVivo[]>();
+const suscriptores = new Map<string, Set<Suscriptor>>();
+
+const coincide = (mensaje: MensajeVivo, filtro: FiltroVivo): boolean =>
+  (mensaje.proyectoId === null || mensaje.proyectoId === filtro.proyectoId) && filtro.canales.includes(mensaje.canal);
+
+// proyectoId null = del usuario (ej. su saldo), llega a todas sus suscripciones
+export function publicar<C extends CanalVivo>(userId: string, canal: C, datos: DatosCanalVivo[C], proyectoId: string | null = null): MensajeVivo<C> {
+  const mensaje: MensajeVivo<C> = { id: `${ARRANQUE}.${++secuencia}`, canal, proyectoId, fecha: new Date().toISOString(), datos };
+  const lista = recientes.get(userId) || [];
+  lista.push(mensaje);
+  if (lista.length > MAX_RECIENTES) lista.splice(0, lista.length - MAX_RECIENTES);
+  recientes.set(userId, lista);
+
+  for (const suscriptor of suscriptores.get(userId) || []) {
+    if (!coincide(mensaje, suscriptor.filtro)) continue;
+    try {
+      suscriptor.enviar(mensaje);
+    } catch (error) {
+      console.error('Error enviando un mensaje en vivo:', error);
+    }
+  }
+  return mensaje;
+}
+
+/**
+ * Lo que el cliente se perdió desde `ultimoId` (o todos los recientes si no trae). `reinicio` avisa de que
+ * hay un hueco (la API reinició o el mensaje ya salió de los recientes): el cliente descarta lo que tenía
+ */
+export function recientesDesde(userId: string, filtro: FiltroVivo, ultimoId?: string): { mensajes: MensajeVivo[]; reinicio: boolean } {
+  const lista = (recientes.get(userId) || []).filter(mensaje => coincide(mensaje, filtro));
+  if (!ultimoId) return { mensajes: lista, reinicio: false };
+
+  const [arranque, numero] = ultimoId.split('.');
+  const desde = Number(numero);
+  const primero = Number((recientes.get(userId)?.[0]?.id || '').split('.')[1] || secuencia + 1);
+  if (arranque !== ARRANQUE || !Number.isFinite(desde) || desde > secuencia || desde + 1 < primero) {
+    return { mensajes: lista, reinicio: true };
+  }
+  return { mensajes: lista.filter(mensaje => Number(mensaje.id.split('.')[1]) > desde), reinicio: false };
+}
+
+// Devuelve la función pa' darse de baja (al cerrarse la conexión)
+export function suscribir(userId: string, filtro: FiltroVivo, enviar: (mensaje: MensajeVivo) => void): () => void {
+  const suscriptor: Suscriptor = { filtro, enviar };
+  const conjunto = suscriptores.get(userId) || new Set<Suscriptor>();
+  conjunto.add(suscriptor);
+  suscriptores.set(userId, conjunto);
+  return () => {
+    conjunto.delete(suscriptor);
+    if (conjunto.size === 0) suscriptores.delete(userId);
+  };
+}
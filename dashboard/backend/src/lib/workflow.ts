@@ -0,0 +1,112 @@
+import { WorkflowStep } from '@prisma/client';
+import { calcularNiveles } from '../shared/workflow-plan';
+
+/**
+ * El WorkflowPlan de un proyecto como grafo: niveles de ejecución (los mismos grupos que
+ * OrchestratorAgent.identifyParallelSteps) y ruta crítica, la cadena de dependencias más larga en tiempo
+ */
+
+export interface PasoGrafo {
+  id: string;
+  agente: string;
+  descripcion: string;
+  dependeDe: string[];
+  prioridad: number;
+  estado: string; // TaskState de la CLI
+  taskId: string | null;
+  intentos: number;
+  omitido: boolean;
+  error: string | null;
+  nivel: number;
+  duracionMs: number | null; // null si no ha terminado nunca (o está corriendo sin haber terminado antes)
+  inicio: Date | null;
+  fin: Date | null;
+}
+
+export interface Grafo {
+  pasos: PasoGrafo[];
+  niveles: string[][];
+  rutaCritica: string[];
+  duracionCriticaMs: number; // Con la duración media pa' los pasos que aún no terminaron
+}
+
+const leerLista = (json: string): string[] => {
+  try {
+    const lista = JSON.parse(json);
+    return Array.isArray(lista) ? lista.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const dependenciasDe = (paso: WorkflowStep): string[] => leerLista(paso.dependsOn);
+
+export const archivosDe = (paso: WorkflowStep): string[] => leerLista(paso.files);
+
+// Lo que tardó su último intento; un paso en curso cuenta hasta ahora
+export function duracionDe(paso: WorkflowStep, ahora: Date = new Date()): number | null {
+  if (!paso.startedAt) return null;
+  const fin = paso.finishedAt || (paso.status === 'IN_PROGRESS' ? ahora : null);
+  return fin ? Math.max(0, fin.getTime() - paso.startedAt.getTime()) : null;
+}
+
+export function construirGrafo(registros: WorkflowStep[]): Grafo {
+  const ahora = new Date();
+  const { niveles } = calcularNiveles({
+    steps: registros.map(paso => ({
+      id: paso.stepId,
+      dependsOn: dependenciasDe(paso),
+    })),
+  });
+  const nivelDe = new Map(niveles.flatMap((nivel, indice) => nivel.map(id => [id, indice] as [string, number])));
+
+  const pasos: PasoGrafo[] = registros.map(paso => ({
+    id: paso.stepId,
+    agente: paso.agent,
+    descripcion: paso.description,
+    dependeDe: dependenciasDe(paso),
+    prioridad: paso.priority,
+    estado: paso.status,
+    taskId: paso.taskId,
+    intentos: paso.attempts,
+    omitido: paso.skipped,
+    error: paso.error,
+    nivel: nivelDe.get(paso.stepId) ?? niveles.length, // Un ciclo (la CLI no lo deja pasar) iría al final
+    duracionMs: duracionDe(paso, ahora),
+    inicio: paso.startedAt,
+    fin: paso.finishedAt,
+  }));
+
+  const { ruta, total } = rutaCritica(pasos, niveles);
+  return { pasos, niveles, rutaCritica: ruta, duracionCriticaMs: total };
+}
+
+/**
+ * Camino más largo del DAG recorriendo los niveles en orden (ya son un orden topológico). Los pasos sin
+ * duración medida pesan la media de los que sí la tienen; sin ninguna medida, 1 cada uno (el más largo en pasos)
+ */
+export function rutaCritica(pasos: PasoGrafo[], niveles: string[][]): { ruta: string[]; total: number } {
+  const medidas = pasos.map(paso => paso.duracionMs).filter((ms): ms is number => ms !== null);
+  const estimada = medidas.length > 0 ? medidas.reduce((suma, ms) => suma + ms, 0) / medidas.length : 1;
+  const porId = new Map(pasos.map(paso => [paso.id, paso]));
+
+  const acumulado = new Map<string, { total: number; previo?: string }>();
+  for (const id of niveles.flat()) {
+    const paso = porId.get(id);
+    if (!paso) continue;
+    let mejor: { total: number; previo?: string } = { total: 0 };
+    for (const dep of paso.dependeDe) {
+      const desde = acumulado.get(dep);
+      if (desde && desde.total > mejor.total) mejor = { total: desde.total, previo: dep };
+    }
+    acumulado.set(id, { total: mejor.total + (paso.duracionMs ?? estimada), previo: mejor.previo });
+  }
+
+  let final: string | undefined;
+  for (const [id, { total }] of acumulado) {
+    if (final === undefined || total > acumulado.get(final)!.total) final = id;
+  }
+  const ruta: string[] = [];
+  for (let id = final; id !== undefined; id = acumulado.get(id)!.previo) ruta.unshift(id);
+  return { ruta, total: final === undefined ? 0 : Math.round(acumulado.get(final)!.total) };
+}
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db';
+import { firmarSesion, hashearPassword, verificarPassword } from '../lib/auth';
+import { HttpError, conErrores, validar } from '../lib/http';
+
+const router = Router();
+
+const esquemaRegistro = z.object({
+  email: z.string().email().transform(email => email.toLowerCase()),
+  name: z.string().trim().min(1).max(100),
+  password: z.string().min(8, 'mínimo 8 caracteres').max(200),
+});
+
+const esquemaLogin = z.object({
+  email: z.string().email().transform(email => email.toLowerCase()),
+  password: z.string().min(1),
+});
+
+// Lo que se puede devolver de un usuario (nunca el passwordHash)
+const publico = (user: { id: string; email: string; name: string; createdAt: Date }) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  createdAt: user.createdAt,
+});
+
+// POST /api/auth/register { email, name, password } → 201 { token, user }
+router.post('/register', conErrores(async (req, res) => {
+  const { email, name, password } = validar(esquemaRegistro, req.body);
+  if (await prisma.user.findUnique({ where: { email } })) {
+    throw new HttpError(409, 'Ya hay una cuenta con ese email');
+  }
+  const user = await prisma.user.create({ data: { email, name, passwordHash: await hashearPassword(password) } });
+  await prisma.activity.create({ data: { userId: user.id, action: 'Creó su cuenta', target: email } });
+  res.status(201).json({ token: firmarSesion(user.id), user: publico(user) });
+}));
+
+// POST /api/auth/login { email, password } → { token, user }
+router.post('/login', conErrores(async (req, res) => {
+  const { email, password } = validar(esquemaLogin, req.body);
+  const user = await prisma.user.findUnique({ where: { email } });
+  // Mismo mensaje pa' email desconocido y contraseña mala: no se revela qué cuentas existen
+  if (!user || !(await verificarPassword(password, user.passwordHash))) {
+    throw new HttpError(401, 'Email o contraseña incorrectos');
+  }
+  res.json({ token: firmarSesion(user.id), user: publico(user) });
+}));
+
+export default router;
@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db';
+import { RequestAutenticada, requerirFirmaPagos, requerirSesion } from '../lib/auth';
+import { consumirCreditos, saldoDe } from '../lib/credits';
+import { HttpError, conErrores, paginacion, validar } from '../lib/http';
+import { publicar } from '../lib/stream';
+
+const router = Router();
+
+// Tamaños de paquete a la venta; el cobro lo hace la pasarela y luego llama a POST /packs firmado
+const PAQUETES = [100, 500, 1000, 5000];
+const DIMENSIONES = { proyecto: 'projectId', modelo: 'model', proveedor: 'provider', agente: 'agent', paso: 'stepId' } as const;
+
+const esquemaCompra = z.object({
+  userId: z.string().min(1),
+  paymentId: z.string().min(1), // El del cobro en la pasarela: un reintento del webhook no abona dos veces
+  amount: z.number().int().refine(monto => PAQUETES.includes(monto), `debe ser uno de: ${PAQUETES.join(', ')}`),
+  validDays: z.number().int().positive().optional(), // Sin caducidad si no se indica
+});
+
+const esquemaConsumo = z.object({
+  projectId: z.string().min(1),
+  provider: z.string().min(1),
+  model: z.string().min(1),
+  tokensUsed: z.number().int().nonnegative(),
+});
+
+const esquemaUso = z.object({
+  projectId: z.string().optional(),
+  since: z.coerce.date().optional(),
+});
+
+/**
+ * POST /api/credits/packs { userId, paymentId, amount, validDays? } → 201 paquete (200 si ese cobro ya se abonó)
+ * Solo la pasarela de pago, con X-CJ-Signature (requerirFirmaPagos); una sesión de usuario no basta pa' darse créditos
+ */
+router.post('/packs', requerirFirmaPagos, conErrores(async (req, res) => {
+  const { userId, paymentId, amount, validDays } = validar(esquemaCompra, req.body);
+  const abonado = await prisma.creditPack.findUnique({ where: { paymentId } });
+  if (abonado) {
+    res.json(abonado);
+    return;
+  }
+  if (!(await prisma.user.findUnique({ where: { id: userId }, select: { id: true } }))) {
+    throw new HttpError(404, `No existe el usuario ${userId}`);
+  }
+  const pack = await prisma.creditPack.create({
+    data: {
+      userId,
+      paymentId,
+      amount,
+      remaining: amount,
+      expiryDate: validDays ? new Date(Date.now() + validDays * 24 * 3600 * 1000) : null,
+    },
+  });
+  await prisma.activity.create({ data: { userId, action: 'Compró créditos', target: `${amount} créditos`, details: JSON.stringify({ creditPackId: pack.id, paymentId }) } });
+  publicar(userId, 'creditos', await saldoDe(userId));
+  res.status(201).json(pack);
+}));
+
+// El resto, con la sesión del usuario
+router.use(requerirSesion);
+
+// GET /api/credits/balance → { disponible, total, paquetes }
+router.get('/balance', conErrores<RequestAutenticada>(async (req, res) => {
+  res.json(await saldoDe(req.userId));
+}));
+
+// GET /api/credits/packs?page= → paquetes comprados, los más nuevos primero
+router.get('/packs', conErrores<RequestAutenticada>(async (req, res) => {
+  const { page, pageSize, skip, take } = paginacion(req.query);
+  const where = { userId: req.userId };
+  const [items, total] = await Promise.all([
+    prisma.creditPack.findMany({ where, orderBy: { purchaseDate: 'desc' }, skip, take }),
+    prisma.creditPack.count({ where }),
+  ]);
+  res.json({ items, page, pageSize, total });
+}));
+
+// POST /api/credits/consume { projectId, provider, model, tokensUsed } → { coste, usos, saldo }; coste = tokensUsed / tokensPorCredito; 402 sin saldo
+router.post('/consume', conErrores<RequestAutenticada>(async (req, res) => {
+  const consumo = validar(esquemaConsumo, req.body);
+  const { coste, usos } = await consumirCreditos({ ...consumo, userId: req.userId });
+  const saldo = await saldoDe(req.userId);
+  publicar(req.userId, 'creditos', { ...saldo, consumo: { modelo: consumo.model, creditos: coste } });
+  res.status(201).json({ coste, usos, saldo });
+}));
+
+// GET /api/credits/usage?by=proyecto|modelo|proveedor|agente|paso&projectId=&since= → [{ clave, creditos, tokens, asientos }]
+router.get('/usage', conErrores<RequestAutenticada>(async (req, res) => {
+  const by = String(req.query.by || 'proyecto');
+  if (!(by in DIMENSIONES)) {
+    throw new HttpError(400, `Dimensión inválida "${by}". Debe ser una de: ${Object.keys(DIMENSIONES).join(', ')}`);
+  }
+  const campo = DIMENSIONES[by as keyof typeof DIMENSIONES];
+  const { projectId, since } = validar(esquemaUso, req.query);
+
+  const grupos = await prisma.apiUsage.groupBy({
+    by: [campo],
+    where: { project: { userId: req.userId }, projectId, timestamp: since ? { gte: since } : undefined },
+    _sum: { cost: true, tokensUsed: true },
+    _count: { _all: true },
+  });
+  const nombres = campo === 'projectId'
+    ? new Map((await prisma.project.findMany({ where: { userId: req.userId }, select: { id: true, name: true } })).map(p => [p.id, p.name]))
+    : new Map<string, string>();
+
+  res.json(grupos
+    .map(grupo => {
+      const clave = grupo[campo] as string | null; // agente y paso solo vienen en el consumo de la CLI
+      return {
+        clave: clave === null ? '-' : nombres.get(clave) || clave,
+        creditos: Math.round((grupo._sum.cost || 0) * 1000) / 1000,
+        tokens: grupo._sum.tokensUsed || 0,
+        asientos: grupo._count._all,
+      };
+    })
+    .sort((a, b) => b.creditos - a.creditos));
+}));
+
+// GET /api/credits/usage/history?page=&pageSize=&projectId=&since= → cada consumo, los más nuevos primero
+router.get('/usage/history', conErrores<RequestAutenticada>(async (req, res) => {
+  const { page, pageSize, skip, take } = paginacion(req.query);
+  const { projectId, since } = validar(esquemaUso, req.query);
+  const where = { project: { userId: req.userId }, projectId, timestamp: since ? { gte: since } : undefined };
+  const [items, total] = await Promise.all([
+    prisma.apiUsage.findMany({ where, orderBy: { timestamp: 'desc' }, skip, take, include: { project: { select: { name: true } } } }),
+    prisma.apiUsage.count({ where }),
+  ]);
+  res.json({ items, page, pageSize, total });
+}));
+
+export default router;
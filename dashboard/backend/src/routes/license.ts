@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db';
+import { RequestAutenticada, requerirSesion } from '../lib/auth';
+import { HttpError, conErrores, validar } from '../lib/http';
+import { verificarLicencia } from '../shared/license';
+
+const router = Router();
+router.use(requerirSesion);
+
+const esquemaActivacion = z.object({
+  token: z.string().trim().min(1),
+});
+
+// Licencias en las que el usuario ocupa asiento, con los asientos ocupados de cada una
+async function licenciasDe(userId: string) {
+  const asientos = await prisma.licenseSeat.findMany({
+    where: { userId },
+    include: { license: { include: { _count: { select: { activeSeats: true } } } } },
+    orderBy: { createdAt: 'desc' },
+  });
+  return asientos.map(({ license: { token, _count, features, ...licencia } }) => ({
+    ...licencia,
+    features: JSON.parse(features) as string[],
+    seatsUsed: _count.activeSeats,
+  }));
+}
+
+// GET /api/licenses → licencias activadas por el usuario
+router.get('/', conErrores<RequestAutenticada>(async (req, res) => {
+  res.json(await licenciasDe(req.userId));
+}));
+
+/**
+ * POST /api/licenses/activate { token } → 201 licencia
+ * Se verifica la firma como en la CLI (shared/license.ts); aquí además se controlan los asientos,
+ * que offline no se pueden contar: cada usuario que la activa ocupa uno hasta License.seats
+ */
+router.post('/activate', conErrores<RequestAutenticada>(async (req, res) => {
+  const { token } = validar(esquemaActivacion, req.body);
+  const verificada = verificarLicencia(token);
+  if (!verificada.datos || verificada.estado === 'invalida' || verificada.estado === 'expirada') {
+    throw new HttpError(422, `Licencia inválida: ${verificada.motivo || verificada.estado}`);
+  }
+  const { datos } = verificada;
+
+  const licencia = await prisma.$transaction(async (tx) => {
+    const existente = await tx.license.findUnique({ where: { key: datos.id }, include: { activeSeats: true } });
+    const registro = existente || await tx.license.create({
+      data: {
+        key: datos.id,
+        token,
+        type: datos.tier.toLowerCase(),
+        seats: datos.asientos,
+        features: JSON.stringify(datos.features),
+        validUntil: new Date(datos.expira),
+        userId: req.userId,
+      },
+      include: { activeSeats: true },
+    });
+    if (!registro.isActive) {
+      throw new HttpError(403, 'Esta licencia fue desactivada');
+    }
+    if (!registro.activeSeats.some(asiento => asiento.userId === req.userId)) {
+      if (registro.activeSeats.length >= registro.seats) {
+        throw new HttpError(409, `La licencia ya tiene sus ${registro.seats} asiento(s) ocupados; libera uno o amplíala`);
+      }
+      await tx.licenseSeat.create({ data: { licenseId: registro.id, userId: req.userId } });
+    }
+    return registro;
+  });
+
+  await prisma.activity.create({ data: { userId: req.userId, action: 'Activó licencia', target: `${datos.tier} (${datos.titular})` } });
+  const activada = (await licenciasDe(req.userId)).find(l => l.id === licencia.id);
+  res.status(201).json({ ...activada, estado: verificada.estado, motivo: verificada.motivo });
+}));
+
+// DELETE /api/licenses/:id/seat → 204; libera el asiento del usuario pa' que otro pueda activarla
+router.delete('/:id/seat', conErrores<RequestAutenticada>(async (req, res) => {
+  const { count } = await prisma.licenseSeat.deleteMany({ where: { licenseId: req.params.id, userId: req.userId } });
+  if (count === 0) throw new HttpError(404, 'No ocupas asiento en esa licencia');
+  res.status(204).end();
+}));
+
+export default router;
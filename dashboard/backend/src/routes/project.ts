@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db';
+import { RequestAutenticada, requerirSesion } from '../lib/auth';
+import { HttpError, conErrores, paginacion, validar } from '../lib/http';
+
+const router = Router();
+router.use(requerirSesion);
+
+const ESTADOS = ['planning', 'active', 'completed', 'failed', 'archived'] as const;
+
+const esquemaProyecto = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(5000).optional(),
+  status: z.enum(ESTADOS).default('planning'),
+  progress: z.number().int().min(0).max(100).default(0),
+});
+
+const esquemaCambios = esquemaProyecto.partial().refine(cambios => Object.keys(cambios).length > 0, 'no hay nada que cambiar');
+
+// Solo los proyectos del usuario de la sesión; el de otro da 404, no 403, pa' no revelar que existe
+async function proyectoDe(userId: string, id: string) {
+  const proyecto = await prisma.project.findFirst({ where: { id, userId } });
+  if (!proyecto) throw new HttpError(404, `Proyecto ${id} no encontrado`);
+  return proyecto;
+}
+
+// GET /api/projects?page=&pageSize=&status= → { items, page, pageSize, total }
+router.get('/', conErrores<RequestAutenticada>(async (req, res) => {
+  const { page, pageSize, skip, take } = paginacion(req.query);
+  const status = req.query.status ? validar(z.enum(ESTADOS), req.query.status) : undefined;
+  const where = { userId: req.userId, status };
+  const [items, total] = await Promise.all([
+    prisma.project.findMany({ where, orderBy: { updatedAt: 'desc' }, skip, take }),
+    prisma.project.count({ where }),
+  ]);
+  res.json({ items, page, pageSize, total });
+}));
+
+// POST /api/projects { name, description?, status?, progress? } → 201 proyecto
+router.post('/', conErrores<RequestAutenticada>(async (req, res) => {
+  const datos = validar(esquemaProyecto, req.body);
+  const proyecto = await prisma.project.create({ data: { ...datos, userId: req.userId } });
+  await prisma.activity.create({ data: { userId: req.userId, projectId: proyecto.id, action: 'Creó proyecto', target: proyecto.name } });
+  res.status(201).json(proyecto);
+}));
+
+// GET /api/projects/:id → proyecto con su consumo total
+router.get('/:id', conErrores<RequestAutenticada>(async (req, res) => {
+  const proyecto = await proyectoDe(req.userId, req.params.id);
+  const consumo = await prisma.apiUsage.aggregate({ where: { projectId: proyecto.id }, _sum: { cost: true, tokensUsed: true } });
+  res.json({ ...proyecto, creditosUsados: consumo._sum.cost || 0, tokensUsados: consumo._sum.tokensUsed || 0 });
+}));
+
+// PATCH /api/projects/:id { name?, description?, status?, progress? } → proyecto
+router.patch('/:id', conErrores<RequestAutenticada>(async (req, res) => {
+  const cambios = validar(esquemaCambios, req.body);
+  const anterior = await proyectoDe(req.userId, req.params.id);
+  const proyecto = await prisma.project.update({ where: { id: anterior.id }, data: cambios });
+  await prisma.activity.create({
+    data: { userId: req.userId, projectId: proyecto.id, action: 'Actualizó proyecto', target: proyecto.name, details: JSON.stringify(cambios) },
+  });
+  res.json(proyecto);
+}));
+
+// DELETE /api/projects/:id → 204; con consumo registrado no se borra (se perdería el historial de cobros): 409, archívalo
+router.delete('/:id', conErrores<RequestAutenticada>(async (req, res) => {
+  const proyecto = await proyectoDe(req.userId, req.params.id);
+  if (await prisma.apiUsage.count({ where: { projectId: proyecto.id } })) {
+    throw new HttpError(409, 'El proyecto tiene consumo de créditos registrado; cámbialo a status "archived" en vez de borrarlo');
+  }
+  await prisma.project.delete({ where: { id: proyecto.id } });
+  await prisma.activity.create({ data: { userId: req.userId, action: 'Borró proyecto', target: proyecto.name } });
+  res.status(204).end();
+}));
+
+// GET /api/projects/:id/activity?page= → actividad del proyecto, la más reciente primero
+router.get('/:id/activity', conErrores<RequestAutenticada>(async (req, res) => {
+  const proyecto = await proyectoDe(req.userId, req.params.id);
+  const { page, pageSize, skip, take } = paginacion(req.query);
+  const where = { projectId: proyecto.id };
+  const [items, total] = await Promise.all([
+    prisma.activity.findMany({ where, orderBy: { timestamp: 'desc' }, skip, take }),
+    prisma.activity.count({ where }),
+  ]);
+  res.json({ items, page, pageSize, total });
+}));
+
+export default router;
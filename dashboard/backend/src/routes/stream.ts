@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db';
+import { RequestAutenticada, requerirSesion } from '../lib/auth';
+import { HttpError, conErrores, validar } from '../lib/http';
+import { recientesDesde, suscribir } from '../lib/stream';
+import { CANALES_VIVO, CanalVivo, MensajeVivo } from '../shared/realtime-types';
+
+const router = Router();
+
+const LATIDO_MS = 25000; // Comentario vacío pa' que los proxies no corten la conexión por inactividad
+const REINTENTO_MS = 3000; // Lo que espera EventSource antes de reconectar
+
+// EventSource no deja poner cabeceras: el token puede ir en ?token= y se pasa a Authorization
+router.use((req, _res, next) => {
+  if (!req.headers.authorization && typeof req.query.token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+});
+router.use(requerirSesion);
+
+const esquemaSuscripcion = z.object({
+  projectId: z.string().min(1),
+  canales: z.string().optional()
+    .transform(lista => (lista ? lista.split(',').map(canal => canal.trim()) : CANALES_VIVO))
+    .pipe(z.array(z.enum(CANALES_VIVO as [CanalVivo, ...CanalVivo[]])).min(1)),
+  desde: z.string().optional(), // Como Last-Event-ID, pa' clientes que no son EventSource
+});
+
+/**
+ * GET /api/stream?projectId=&canales=agente,flujo,log,creditos,revision,cache&token= → text/event-stream
+ * Cada mensaje va como `event: <canal>`, `id: <id>`, `data: MensajeVivo`. Al conectar se mandan los recientes
+ * (o, al reconectar con Last-Event-ID, lo que faltó); si hay un hueco, antes va `event: reinicio`
+ */
+router.get('/', conErrores<RequestAutenticada>(async (req, res) => {
+  const { projectId, canales, desde } = validar(esquemaSuscripcion, req.query);
+  if (!(await prisma.project.findFirst({ where: { id: projectId, userId: req.userId }, select: { id: true } }))) {
+    throw new HttpError(404, `Proyecto ${projectId} no encontrado`);
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // nginx: sin buffer, o los mensajes llegan a trozos
+  });
+  res.write(`retry: ${REINTENTO_MS}\n\n`);
+
+  const enviar = (mensaje: MensajeVivo) => {
+    res.write(`id: ${mensaje.id}\nevent: ${mensaje.canal}\ndata: ${JSON.stringify(mensaje)}\n\n`);
+  };
+  const filtro = { proyectoId: projectId, canales };
+  // Backfill y suscripción sin await entre medias: no se cuela ni se pierde ningún mensaje
+  const { mensajes, reinicio } = recientesDesde(req.userId, filtro, req.header('Last-Event-ID') || desde);
+  if (reinicio) res.write('event: reinicio\ndata: {}\n\n');
+  mensajes.forEach(enviar);
+  const darseDeBaja = suscribir(req.userId, filtro, enviar);
+
+  const latido = setInterval(() => res.write(': latido\n\n'), LATIDO_MS);
+  req.on('close', () => {
+    clearInterval(latido);
+    darseDeBaja();
+  });
+}));
+
+export default router;
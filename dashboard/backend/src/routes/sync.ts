@@ -0,0 +1,384 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../db';
+import { RequestAutenticada, requerirSesion } from '../lib/auth';
+import { consumirCreditos, saldoDe } from '../lib/credits';
+import { HttpError, conErrores, validar } from '../lib/http';
+import { publicar } from '../lib/stream';
+
+/**
+ * Lo que manda la CLI (services/dashboard-sync.ts): actividad de los agentes, consumo de los prompts,
+ * el plan, los cambios de estado de sus pasos, cada prompt con su respuesta y el progreso de la orquestación.
+ * Cada evento trae su id, así que reenviar un lote que ya llegó no duplica nada; un evento inválido se rechaza
+ * sin tumbar el resto del lote. Lo que se guarda se publica además en los canales en vivo (GET /api/stream);
+ * los eventos `vivo` solo se publican. La CLI recoge aquí también los reintentos y omisiones pedidos en el dashboard.
+ */
+
+const router = Router();
+router.use(requerirSesion);
+
+const base = {
+  id: z.string().min(1).max(100),
+  fecha: z.coerce.date(),
+  proyecto: z.object({ id: z.string().min(1).max(100), nombre: z.string().trim().min(1).max(200).optional() }),
+};
+
+const esquemaEvento = z.discriminatedUnion('tipo', [
+  z.object({
+    ...base,
+    tipo: z.literal('actividad'),
+    agente: z.string().min(1).max(100),
+    accion: z.string().min(1).max(200),
+    datos: z.string().max(10000).optional(),
+    correlationId: z.string().max(100).optional(),
+    stepId: z.string().max(100).optional(),
+  }),
+  z.object({
+    ...base,
+    tipo: z.literal('uso'),
+    agente: z.string().min(1).max(100),
+    proveedor: z.string().min(1).max(50),
+    modelo: z.string().min(1).max(100),
+    tokens: z.number().int().nonnegative(), // El coste se calcula aquí con ellos; los creditos que manda la CLI no se leen
+    stepId: z.string().max(100).optional(),
+  }),
+  z.object({
+    ...base,
+    tipo: z.literal('paso'),
+    taskId: z.string().min(1).max(100),
+    agente: z.string().min(1).max(100),
+    de: z.string().nullable(),
+    a: z.string().min(1),
+    motivo: z.string().max(2000).optional(),
+    stepId: z.string().max(100).optional(),
+    intentos: z.number().int().nonnegative().optional(),
+    error: z.string().max(5000).optional(),
+    archivos: z.array(z.string().max(1000)).max(1000).optional(),
+    omitida: z.boolean().optional(),
+  }),
+  z.object({
+    ...base,
+    tipo: z.literal('plan'),
+    pasos: z.array(z.object({
+      id: z.string().min(1).max(100),
+      agente: z.string().min(1).max(100),
+      descripcion: z.string().max(2000),
+      input: z.string().max(10000),
+      dependeDe: z.array(z.string().max(100)),
+      prioridad: z.number().int(),
+    })).max(500),
+  }),
+  z.object({
+    ...base,
+    tipo: z.literal('prompt'),
+    agente: z.string().min(1).max(100),
+    stepId: z.string().max(100).optional(),
+    modelo: z.string().min(1).max(100),
+    prompt: z.string().max(50000),
+    respuesta: z.string().max(50000),
+    tokens: z.number().int().nonnegative(),
+    duracionMs: z.number().int().nonnegative(),
+    cache: z.boolean(),
+  }),
+  z.object({
+    ...base,
+    tipo: z.literal('proyecto'),
+    estado: z.enum(['planning', 'active', 'completed', 'failed']),
+    progreso: z.number().min(0).max(100),
+  }),
+  z.object({
+    ...base,
+    tipo: z.literal('vivo'),
+    canal: z.enum(['agente', 'flujo', 'log', 'revision', 'cache']),
+    datos: z.unknown(), // Se valida con esquemaVivo según el canal
+  }),
+]);
+
+type Evento = z.infer<typeof esquemaEvento>;
+
+// Datos de cada canal que la CLI publica tal cual (DatosCanalVivo)
+const esquemaVivo = z.discriminatedUnion('canal', [
+  z.object({
+    canal: z.literal('agente'),
+    datos: z.object({
+      agente: z.string().min(1).max(100),
+      estado: z.enum(['activo', 'inactivo', 'error']),
+      tarea: z.string().max(500).optional(),
+      error: z.string().max(2000).optional(),
+      stepId: z.string().max(100).optional(),
+    }),
+  }),
+  z.object({
+    canal: z.literal('flujo'),
+    datos: z.object({
+      agente: z.string().max(100).optional(),
+      taskId: z.string().max(100).optional(),
+      stepId: z.string().max(100).optional(),
+      de: z.string().nullable().optional(),
+      a: z.string().optional(),
+      motivo: z.string().max(2000).optional(),
+      estado: z.string().max(200).optional(),
+      progreso: z.number().min(0).max(100).optional(),
+    }),
+  }),
+  z.object({
+    canal: z.literal('log'),
+    datos: z.object({ agente: z.string().min(1).max(100), nivel: z.enum(['info', 'warning', 'error']), mensaje: z.string().max(5000) }),
+  }),
+  z.object({
+    canal: z.literal('revision'),
+    datos: z.object({
+      agente: z.string().min(1).max(100),
+      puntuacion: z.number().min(0).max(100),
+      umbral: z.number().min(0).max(100),
+      aprobada: z.boolean(),
+      archivos: z.number().int().nonnegative(),
+    }),
+  }),
+  z.object({
+    canal: z.literal('cache'),
+    datos: z.object({
+      activa: z.boolean(),
+      entradas: z.number().int().nonnegative(),
+      bytes: z.number().nonnegative(),
+      maxBytes: z.number().nonnegative(),
+      aciertos: z.number().int().nonnegative(),
+      fallos: z.number().int().nonnegative(),
+      tasaAcierto: z.number().min(0).max(1),
+      tokensAhorrados: z.number().nonnegative(),
+    }),
+  }),
+]);
+
+const esquemaLote = z.object({ eventos: z.array(z.unknown()).min(1).max(500) });
+
+const esquemaResultadoAccion = z.object({ estado: z.enum(['done', 'failed']), detalle: z.string().max(5000).optional() });
+
+// Estados de una tarea en los que su paso ya no corre
+const TERMINADOS = ['COMPLETED', 'ERROR', 'CANCELLED', 'BLOCKED'];
+
+// Los `vivo` no se guardan: sus ids recientes evitan publicarlos dos veces si la CLI reintenta un lote
+const MAX_VIVOS_VISTOS = 5000;
+const vivosVistos = new Set<string>();
+
+// Reintento de un evento que ya se guardó: choca con la clave primaria
+const esDuplicado = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// El proyecto de la CLI se crea con su mismo id la primera vez que aparece; si es de otro usuario, 403
+async function asegurarProyecto(userId: string, { id, nombre }: Evento['proyecto'], vistos: Set<string>): Promise<void> {
+  if (vistos.has(id) && !nombre) return;
+  const existente = await prisma.project.findUnique({ where: { id } });
+  if (existente && existente.userId !== userId) {
+    throw new HttpError(403, `El proyecto ${id} pertenece a otra cuenta`);
+  }
+  if (!existente) {
+    const creado = await prisma.project.create({ data: { id, userId, name: nombre || `Proyecto ${id.substring(0, 8)}`, status: 'planning' } });
+    await prisma.activity.create({ data: { userId, projectId: id, action: 'Creó proyecto', target: creado.name, details: JSON.stringify({ origen: 'cli' }) } });
+  } else if (nombre && existente.name !== nombre) {
+    await prisma.project.update({ where: { id }, data: { name: nombre } });
+  }
+  vistos.add(id);
+}
+
+// Estado del paso según su última tarea; si el plan aún no llegó no hay paso que actualizar
+async function actualizarPaso(projectId: string, stepId: string, evento: Extract<Evento, { tipo: 'paso' }>): Promise<void> {
+  const nueva = evento.de === null; // Tarea nueva pa'l paso (ej. al reanudar): empieza de cero
+  const error = evento.a === 'ERROR' ? evento.error ?? evento.motivo : evento.a === 'BLOCKED' ? evento.motivo : undefined;
+  await prisma.workflowStep.updateMany({
+    where: { projectId, stepId },
+    data: {
+      status: evento.a,
+      taskId: evento.taskId,
+      attempts: evento.intentos,
+      error: error ?? (nueva || evento.a === 'IN_PROGRESS' ? null : undefined),
+      files: evento.archivos ? JSON.stringify(evento.archivos) : nueva ? '[]' : undefined,
+      skipped: evento.omitida ?? false,
+      startedAt: evento.a === 'IN_PROGRESS' ? evento.fecha : nueva ? null : undefined,
+      finishedAt: TERMINADOS.includes(evento.a) ? evento.fecha : evento.a === 'IN_PROGRESS' || nueva ? null : undefined,
+    },
+  });
+}
+
+// true si se guardó; false si ya estaba
+async function guardar(userId: string, evento: Evento): Promise<boolean> {
+  const comun = { id: evento.id, userId, projectId: evento.proyecto.id, timestamp: evento.fecha };
+  switch (evento.tipo) {
+    case 'actividad':
+      if (await prisma.activity.findUnique({ where: { id: evento.id } })) return false;
+      await prisma.activity.create({
+        data: { ...comun, stepId: evento.stepId, action: evento.accion, target: evento.agente, details: evento.datos },
+      });
+      publicar(userId, 'log', { agente: evento.agente, nivel: 'info', mensaje: evento.accion }, evento.proyecto.id);
+      return true;
+
+    case 'paso':
+      if (await prisma.activity.findUnique({ where: { id: evento.id } })) return false;
+      await prisma.activity.create({
+        data: {
+          ...comun,
+          stepId: evento.stepId,
+          action: `Paso ${evento.a.toLowerCase()}`,
+          target: `${evento.agente} · ${evento.taskId}`,
+          details: JSON.stringify({ taskId: evento.taskId, de: evento.de, a: evento.a, motivo: evento.motivo }),
+        },
+      });
+      if (evento.stepId) await actualizarPaso(evento.proyecto.id, evento.stepId, evento);
+      publicar(userId, 'flujo', {
+        agente: evento.agente,
+        taskId: evento.taskId,
+        stepId: evento.stepId,
+        de: evento.de,
+        a: evento.a,
+        motivo: evento.motivo,
+      }, evento.proyecto.id);
+      return true;
+
+    case 'plan': {
+      // Sin id propio que guardar: el plan es el mismo al reenviarlo. Los pasos que ya estaban conservan su estado
+      const ids = evento.pasos.map(paso => paso.id);
+      await prisma.$transaction([
+        prisma.workflowStep.deleteMany({ where: { projectId: evento.proyecto.id, stepId: { notIn: ids } } }),
+        ...evento.pasos.map(paso => {
+          const definicion = {
+            agent: paso.agente,
+            description: paso.descripcion,
+            input: paso.input,
+            dependsOn: JSON.stringify(paso.dependeDe),
+            priority: paso.prioridad,
+          };
+          return prisma.workflowStep.upsert({
+            where: { projectId_stepId: { projectId: evento.proyecto.id, stepId: paso.id } },
+            create: { ...definicion, projectId: evento.proyecto.id, stepId: paso.id },
+            update: definicion,
+          });
+        }),
+      ]);
+      publicar(userId, 'flujo', { motivo: `plan de ${evento.pasos.length} pasos` }, evento.proyecto.id);
+      return true;
+    }
+
+    case 'prompt':
+      if (await prisma.promptLog.findUnique({ where: { id: evento.id } })) return false;
+      await prisma.promptLog.create({
+        data: {
+          id: evento.id,
+          projectId: evento.proyecto.id,
+          agent: evento.agente,
+          stepId: evento.stepId,
+          model: evento.modelo,
+          prompt: evento.prompt,
+          response: evento.respuesta,
+          tokensUsed: evento.tokens,
+          durationMs: evento.duracionMs,
+          cached: evento.cache,
+          timestamp: evento.fecha,
+        },
+      });
+      return true;
+
+    case 'uso': {
+      // La CLI ya gastó los tokens: sin saldo se apunta igual, sin paquete
+      if (await prisma.apiUsage.findUnique({ where: { id: `${evento.id}-0` } })) return false;
+      const { coste } = await consumirCreditos({
+        id: evento.id,
+        userId,
+        projectId: evento.proyecto.id,
+        provider: evento.proveedor,
+        model: evento.modelo,
+        tokensUsed: evento.tokens,
+        agent: evento.agente,
+        stepId: evento.stepId,
+        timestamp: evento.fecha,
+        permitirSinSaldo: true,
+      });
+      publicar(userId, 'creditos', { ...await saldoDe(userId), consumo: { agente: evento.agente, modelo: evento.modelo, creditos: coste } });
+      return true;
+    }
+
+    case 'proyecto':
+      // Sin id propio que guardar: aplicar el mismo estado dos veces no cambia nada
+      await prisma.project.update({
+        where: { id: evento.proyecto.id },
+        data: { status: evento.estado, progress: Math.round(evento.progreso) },
+      });
+      publicar(userId, 'flujo', { estado: evento.estado, progreso: evento.progreso }, evento.proyecto.id);
+      return true;
+
+    case 'vivo': {
+      const { canal, datos } = validar(esquemaVivo, { canal: evento.canal, datos: evento.datos });
+      if (vivosVistos.has(evento.id)) return false;
+      vivosVistos.add(evento.id);
+      if (vivosVistos.size > MAX_VIVOS_VISTOS) vivosVistos.delete(vivosVistos.values().next().value as string);
+      publicar(userId, canal, datos, evento.proyecto.id);
+      return true;
+    }
+  }
+}
+
+// POST /api/sync { eventos: [...] } (máximo 500) → { aceptados, duplicados, rechazados: [{ id, error }] }
+router.post('/', conErrores<RequestAutenticada>(async (req, res) => {
+  const { eventos } = validar(esquemaLote, req.body);
+  const resultado = { aceptados: 0, duplicados: 0, rechazados: [] as { id: string; error: string }[] };
+  const vistos = new Set<string>();
+
+  // En orden: el progreso de un proyecto no puede pisar uno posterior del mismo lote
+  for (const crudo of eventos) {
+    const id = String((crudo as { id?: unknown })?.id ?? '?');
+    try {
+      const evento = validar(esquemaEvento, crudo);
+      await asegurarProyecto(req.userId, evento.proyecto, vistos);
+      if (await guardar(req.userId, evento)) resultado.aceptados++;
+      else resultado.duplicados++;
+    } catch (error) {
+      if (esDuplicado(error)) {
+        resultado.duplicados++;
+      } else if (error instanceof HttpError) {
+        resultado.rechazados.push({ id, error: error.message });
+      } else {
+        throw error; // Fallo de la base de datos: la CLI reintenta el lote entero
+      }
+    }
+  }
+  res.json(resultado);
+}));
+
+// GET /api/sync/acciones?projectId= → AccionDashboard[] pendientes (types/dashboard-sync-types.ts), las más viejas primero
+router.get('/acciones', conErrores<RequestAutenticada>(async (req, res) => {
+  const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+  const pendientes = await prisma.stepAction.findMany({
+    where: { userId: req.userId, projectId, status: 'pending' },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (pendientes.length === 0) {
+    res.json([]);
+    return;
+  }
+  const pasos = await prisma.workflowStep.findMany({
+    where: { OR: pendientes.map(accion => ({ projectId: accion.projectId, stepId: accion.stepId })) },
+    select: { projectId: true, stepId: true, taskId: true },
+  });
+  res.json(pendientes.map(accion => ({
+    id: accion.id,
+    proyectoId: accion.projectId,
+    stepId: accion.stepId,
+    taskId: pasos.find(paso => paso.projectId === accion.projectId && paso.stepId === accion.stepId)?.taskId || undefined,
+    accion: accion.action,
+    fecha: accion.createdAt.toISOString(),
+  })));
+}));
+
+// POST /api/sync/acciones/:id { estado: done|failed, detalle? } → la acción con su resultado
+router.post('/acciones/:id', conErrores<RequestAutenticada>(async (req, res) => {
+  const { estado, detalle } = validar(esquemaResultadoAccion, req.body);
+  const accion = await prisma.stepAction.findFirst({ where: { id: req.params.id, userId: req.userId } });
+  if (!accion) throw new HttpError(404, `Acción ${req.params.id} no encontrada`);
+  if (accion.status !== 'pending') throw new HttpError(409, `La acción ${accion.id} ya se aplicó (${accion.status})`);
+
+  const aplicada = await prisma.stepAction.update({ where: { id: accion.id }, data: { status: estado, result: detalle } });
+  publicar(req.userId, 'flujo', { stepId: accion.stepId, motivo: `${accion.action} ${estado}${detalle ? `: ${detalle}` : ''}` }, accion.projectId);
+  res.json(aplicada);
+}));
+
+export default router;
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db';
+import { RequestAutenticada, hashearPassword, requerirSesion, verificarPassword } from '../lib/auth';
+import { saldoDe } from '../lib/credits';
+import { HttpError, conErrores, paginacion, validar } from '../lib/http';
+
+const router = Router();
+router.use(requerirSesion);
+
+const TIERS = ['community', 'professional', 'enterprise'];
+
+const esquemaCambios = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  password: z.string().min(8, 'mínimo 8 caracteres').max(200).optional(),
+  currentPassword: z.string().optional(), // Obligatoria pa' cambiar la contraseña
+});
+
+// El mejor tier entre las licencias vigentes en las que el usuario ocupa asiento
+async function planDe(userId: string): Promise<{ plan: string; licenseValidUntil: Date | null }> {
+  const asientos = await prisma.licenseSeat.findMany({
+    where: { userId, license: { isActive: true, validUntil: { gt: new Date() } } },
+    include: { license: true },
+  });
+  const mejor = asientos
+    .map(asiento => asiento.license)
+    .sort((a, b) => TIERS.indexOf(b.type) - TIERS.indexOf(a.type))[0];
+  if (!mejor) return { plan: 'Community', licenseValidUntil: null };
+  return { plan: mejor.type.charAt(0).toUpperCase() + mejor.type.slice(1), licenseValidUntil: mejor.validUntil };
+}
+
+// GET /api/user → perfil con plan, créditos, proyectos y actividad reciente (lo que pinta el dashboard)
+router.get('/', conErrores<RequestAutenticada>(async (req, res) => {
+  const user = await prisma.user.findUnique({ where: { id: req.userId } });
+  if (!user) throw new HttpError(404, 'La cuenta de la sesión ya no existe');
+  const [{ plan, licenseValidUntil }, saldo, projects, recentActivity] = await Promise.all([
+    planDe(user.id),
+    saldoDe(user.id),
+    prisma.project.findMany({ where: { userId: user.id }, orderBy: { updatedAt: 'desc' }, select: { id: true, name: true, status: true, progress: true } }),
+    prisma.activity.findMany({ where: { userId: user.id }, orderBy: { timestamp: 'desc' }, take: 10 }),
+  ]);
+  res.json({
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    plan,
+    licenseValidUntil,
+    credits: saldo.disponible,
+    totalCredits: saldo.total,
+    projects,
+    recentActivity,
+  });
+}));
+
+// PATCH /api/user { name?, password?, currentPassword? }
+router.patch('/', conErrores<RequestAutenticada>(async (req, res) => {
+  const { name, password, currentPassword } = validar(esquemaCambios, req.body);
+  const user = await prisma.user.findUnique({ where: { id: req.userId } });
+  if (!user) throw new HttpError(404, 'La cuenta de la sesión ya no existe');
+  if (password && !(currentPassword && await verificarPassword(currentPassword, user.passwordHash))) {
+    throw new HttpError(403, 'Pa\' cambiar la contraseña hace falta la actual (currentPassword)');
+  }
+  const actualizado = await prisma.user.update({
+    where: { id: user.id },
+    data: { name, passwordHash: password ? await hashearPassword(password) : undefined },
+  });
+  res.json({ id: actualizado.id, name: actualizado.name, email: actualizado.email });
+}));
+
+// GET /api/user/activity?page=&pageSize=&projectId= → { items, page, pageSize, total }
+router.get('/activity', conErrores<RequestAutenticada>(async (req, res) => {
+  const { page, pageSize, skip, take } = paginacion(req.query);
+  const where = { userId: req.userId, projectId: req.query.projectId ? String(req.query.projectId) : undefined };
+  const [items, total] = await Promise.all([
+    prisma.activity.findMany({ where, orderBy: { timestamp: 'desc' }, skip, take, include: { project: { select: { name: true } } } }),
+    prisma.activity.count({ where }),
+  ]);
+  res.json({ items, page, pageSize, total });
+}));
+
+export default router;
@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db';
+import { RequestAutenticada, requerirSesion } from '../lib/auth';
+import { HttpError, conErrores, validar } from '../lib/http';
+import { publicar } from '../lib/stream';
+import { archivosDe, construirGrafo, dependenciasDe, duracionDe } from '../lib/workflow';
+
+/**
+ * El WorkflowPlan de un proyecto tal como lo va mandando la CLI (POST /api/sync): el grafo con el estado
+ * de cada paso, el detalle de un paso y los reintentos/omisiones que luego aplica la CLI
+ * (GET /api/sync/acciones, entre grupos de la orquestación, al reanudar o con `cj system sync apply`)
+ */
+
+const router = Router({ mergeParams: true }); // Montado en /api/projects/:projectId/workflow
+router.use(requerirSesion);
+
+const MAX_TRANSCRIPCION = 50; // Prompts más recientes en el detalle de un paso
+
+const esquemaAccion = z.object({ accion: z.enum(['retry', 'skip']) });
+
+// Desde qué estados tiene sentido cada acción (la CLI vuelve a comprobarlo sobre su TaskManager)
+const ESTADOS_ACCION: Record<'retry' | 'skip', string[]> = {
+  retry: ['ERROR', 'BLOCKED'],
+  skip: ['PENDING', 'BLOCKED', 'ERROR'],
+};
+
+async function proyectoDe(userId: string, id: string) {
+  const proyecto = await prisma.project.findFirst({ where: { id, userId }, select: { id: true, name: true, status: true, progress: true } });
+  if (!proyecto) throw new HttpError(404, `Proyecto ${id} no encontrado`);
+  return proyecto;
+}
+
+async function pasoDe(projectId: string, stepId: string) {
+  const paso = await prisma.workflowStep.findUnique({ where: { projectId_stepId: { projectId, stepId } } });
+  if (!paso) throw new HttpError(404, `El plan no tiene el paso ${stepId}`);
+  return paso;
+}
+
+// Tokens y créditos de cada paso (ApiUsage.stepId)
+async function consumoPorPaso(projectId: string, stepId?: string): Promise<Map<string, { tokens: number; creditos: number }>> {
+  const grupos = await prisma.apiUsage.groupBy({
+    by: ['stepId'],
+    where: { projectId, stepId: stepId ?? { not: null } },
+    _sum: { tokensUsed: true, cost: true },
+  });
+  return new Map(grupos.map(grupo => [grupo.stepId as string, { tokens: grupo._sum.tokensUsed || 0, creditos: grupo._sum.cost || 0 }]));
+}
+
+/**
+ * GET /api/projects/:projectId/workflow → { proyecto, pasos, niveles, rutaCritica, duracionCriticaMs }
+ * Cada paso lleva su estado, nivel, duración, tokens, créditos, si está en la ruta crítica y la acción pendiente
+ */
+router.get('/', conErrores<RequestAutenticada>(async (req, res) => {
+  const proyecto = await proyectoDe(req.userId, req.params.projectId);
+  const [registros, consumo, pendientes] = await Promise.all([
+    prisma.workflowStep.findMany({ where: { projectId: proyecto.id }, orderBy: { priority: 'asc' } }),
+    consumoPorPaso(proyecto.id),
+    prisma.stepAction.findMany({ where: { projectId: proyecto.id, status: 'pending' } }),
+  ]);
+  const grafo = construirGrafo(registros);
+  const criticos = new Set(grafo.rutaCritica);
+  res.json({
+    proyecto,
+    ...grafo,
+    pasos: grafo.pasos.map(paso => ({
+      ...paso,
+      tokens: consumo.get(paso.id)?.tokens || 0,
+      creditos: consumo.get(paso.id)?.creditos || 0,
+      critico: criticos.has(paso.id),
+      accionPendiente: pendientes.find(accion => accion.stepId === paso.id)?.action || null,
+    })),
+  });
+}));
+
+/**
+ * GET /api/projects/:projectId/workflow/steps/:stepId → el paso con su entrada, archivos, consumo, los últimos
+ * prompts con su respuesta, la actividad que registró y las acciones pedidas desde el dashboard
+ */
+router.get('/steps/:stepId', conErrores<RequestAutenticada>(async (req, res) => {
+  const proyecto = await proyectoDe(req.userId, req.params.projectId);
+  const paso = await pasoDe(proyecto.id, req.params.stepId);
+  const donde = { projectId: proyecto.id, stepId: paso.stepId };
+  const [consumo, prompts, totalPrompts, actividad, acciones] = await Promise.all([
+    consumoPorPaso(proyecto.id, paso.stepId),
+    prisma.promptLog.findMany({ where: donde, orderBy: { timestamp: 'desc' }, take: MAX_TRANSCRIPCION }),
+    prisma.promptLog.count({ where: donde }),
+    prisma.activity.findMany({ where: donde, orderBy: { timestamp: 'desc' }, take: 100 }),
+    prisma.stepAction.findMany({ where: donde, orderBy: { createdAt: 'desc' }, take: 10 }),
+  ]);
+  res.json({
+    id: paso.stepId,
+    agente: paso.agent,
+    descripcion: paso.description,
+    input: paso.input,
+    dependeDe: dependenciasDe(paso),
+    estado: paso.status,
+    taskId: paso.taskId,
+    intentos: paso.attempts,
+    omitido: paso.skipped,
+    error: paso.error,
+    archivos: archivosDe(paso),
+    inicio: paso.startedAt,
+    fin: paso.finishedAt,
+    duracionMs: duracionDe(paso),
+    tokens: consumo.get(paso.stepId)?.tokens || 0,
+    creditos: consumo.get(paso.stepId)?.creditos || 0,
+    transcripcion: { items: prompts.reverse(), total: totalPrompts }, // En orden de envío
+    actividad,
+    acciones,
+  });
+}));
+
+// POST /api/projects/:projectId/workflow/steps/:stepId/actions { accion: retry|skip } → 201 acción pendiente
+router.post('/steps/:stepId/actions', conErrores<RequestAutenticada>(async (req, res) => {
+  const { accion } = validar(esquemaAccion, req.body);
+  const proyecto = await proyectoDe(req.userId, req.params.projectId);
+  const paso = await pasoDe(proyecto.id, req.params.stepId);
+  if (!ESTADOS_ACCION[accion].includes(paso.status)) {
+    throw new HttpError(409, `No se puede ${accion === 'retry' ? 'reintentar' : 'omitir'} un paso en ${paso.status}`);
+  }
+  if (await prisma.stepAction.findFirst({ where: { projectId: proyecto.id, stepId: paso.stepId, status: 'pending' } })) {
+    throw new HttpError(409, `El paso ${paso.stepId} ya tiene una acción pendiente de que la aplique la CLI`);
+  }
+
+  const creada = await prisma.stepAction.create({
+    data: { projectId: proyecto.id, stepId: paso.stepId, userId: req.userId, action: accion },
+  });
+  await prisma.activity.create({
+    data: {
+      userId: req.userId,
+      projectId: proyecto.id,
+      stepId: paso.stepId,
+      action: accion === 'retry' ? 'Pidió reintentar paso' : 'Pidió omitir paso',
+      target: `${paso.agent} · ${paso.stepId}`,
+    },
+  });
+  publicar(req.userId, 'flujo', { agente: paso.agent, stepId: paso.stepId, motivo: `${accion} pendiente` }, proyecto.id);
+  res.status(201).json(creada);
+}));
+
+export default router;
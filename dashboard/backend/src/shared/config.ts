@@ -0,0 +1,12 @@
+/**
+ * Valores de devmind.config.ts que la API necesita igual que la CLI. Copiados aquí pa' que el backend no
+ * importe fuera de su paquete; tests/dashboard-shared.test.ts falla si se separan de los de la CLI
+ */
+export const configCompartida = {
+  creditos: {
+    tokensPorCredito: 100, // Un consumo cuesta tokens / tokensPorCredito, igual que en el CreditLedger
+  },
+  licencias: {
+    graciaDias: 14, // Tras expirar, la licencia sigue valiendo estos días
+  },
+};
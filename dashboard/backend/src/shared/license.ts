@@ -0,0 +1,88 @@
+import * as crypto from 'crypto';
+import { configCompartida } from './config';
+
+/**
+ * Verificación de licencias firmadas, la misma que LicenseManager.verificar en la CLI pero sin emitir ni
+ * guardar nada: la API solo comprueba el token que el usuario activa. Lleva su propia copia de la clave
+ * pública del emisor; al rotarla se cambia aquí y en services/license-manager.ts a la vez
+ * (tests/dashboard-shared.test.ts falla si no coinciden)
+ */
+
+const PREFIJO = 'cjl1';
+
+export const CLAVE_PUBLICA_EMISOR = `-----BEGIN PUBLIC KEY-----
+MCowBQYDK2VwAyEAsYJdRpif9Va/SjytMX7vk4y9lzg+UOkO2Pys/w02YZY=
+-----END PUBLIC KEY-----
+`;
+
+export type TierLicencia = 'Community' | 'Professional' | 'Enterprise';
+
+export const TIERS_LICENCIA: TierLicencia[] = ['Community', 'Professional', 'Enterprise'];
+
+// Lo que va firmado dentro del token (cjl1.<datos>.<firma>), como en types/license-types.ts
+export interface DatosLicencia {
+  v: 1;
+  id: string; // El `key` del modelo License
+  titular: string;
+  tier: TierLicencia;
+  asientos: number;
+  features: string[];
+  emitida: string; // ISO
+  expira: string; // ISO
+}
+
+export type EstadoLicencia = 'activa' | 'gracia' | 'expirada' | 'invalida';
+
+export interface LicenciaVerificada {
+  estado: EstadoLicencia;
+  tier: TierLicencia;
+  datos?: DatosLicencia; // Solo si la firma es válida
+  diasRestantes?: number;
+  motivo?: string;
+}
+
+const DIA_MS = 24 * 3600 * 1000;
+
+// Comprueba firma y fechas; nunca lanza
+export function verificarLicencia(
+  token: string,
+  ahora: Date = new Date(),
+  clavePublica: string | crypto.KeyObject = CLAVE_PUBLICA_EMISOR
+): LicenciaVerificada {
+  const invalida = (motivo: string): LicenciaVerificada => ({ estado: 'invalida', tier: 'Community', motivo });
+
+  const partes = token.trim().split('.');
+  if (partes.length !== 3 || partes[0] !== PREFIJO) {
+    return invalida(`formato desconocido (se esperaba ${PREFIJO}.<datos>.<firma>)`);
+  }
+  const clave = typeof clavePublica === 'string' ? crypto.createPublicKey(clavePublica) : clavePublica;
+  if (!crypto.verify(null, Buffer.from(`${partes[0]}.${partes[1]}`), clave, Buffer.from(partes[2], 'base64url'))) {
+    return invalida('la firma no corresponde (licencia alterada o de otra clave)');
+  }
+
+  let datos: DatosLicencia;
+  try {
+    datos = JSON.parse(Buffer.from(partes[1], 'base64url').toString('utf-8')) as DatosLicencia;
+  } catch {
+    return invalida('datos ilegibles');
+  }
+  if (datos.v !== 1 || !TIERS_LICENCIA.includes(datos.tier) || Number.isNaN(Date.parse(datos.expira))) {
+    return invalida('datos incompletos o de una versión que esta API no entiende');
+  }
+
+  const diasRestantes = Math.ceil((Date.parse(datos.expira) - ahora.getTime()) / DIA_MS);
+  if (Date.parse(datos.expira) > ahora.getTime()) {
+    return { estado: 'activa', tier: datos.tier, datos, diasRestantes };
+  }
+  const gracia = configCompartida.licencias.graciaDias;
+  if (-diasRestantes <= gracia) {
+    return {
+      estado: 'gracia',
+      tier: datos.tier,
+      datos,
+      diasRestantes,
+      motivo: `Expiró el ${datos.expira.substring(0, 10)}; sigue valiendo ${gracia + diasRestantes} días más. Renuévala en el dashboard`,
+    };
+  }
+  return { estado: 'expirada', tier: 'Community', datos, diasRestantes, motivo: `Expiró el ${datos.expira.substring(0, 10)} y pasó el periodo de gracia` };
+}
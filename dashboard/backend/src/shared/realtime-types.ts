@@ -0,0 +1,88 @@
+/**
+ * Canales en vivo del dashboard (GET /api/stream): lo que la CLI manda por POST /api/sync y la API
+ * reparte a los navegadores suscritos al proyecto
+ *
+ * Copia de types/realtime-types.ts de la CLI: la API se instala y compila sola, sin importar fuera de
+ * dashboard/backend. tests/dashboard-shared.test.ts comprueba que los canales no se separen
+ */
+
+export type CanalVivo = 'agente' | 'flujo' | 'log' | 'creditos' | 'revision' | 'cache';
+
+export const CANALES_VIVO: CanalVivo[] = ['agente', 'flujo', 'log', 'creditos', 'revision', 'cache'];
+
+// Canales que la CLI publica tal cual; la API además publica en flujo los pasos y el progreso que guarda,
+// en log la actividad y en creditos el saldo tras cada consumo
+export type CanalCli = 'agente' | 'flujo' | 'log' | 'revision' | 'cache';
+
+// Un agente empieza o termina una ejecución (BaseAgent.ejecutar)
+export interface EstadoAgenteVivo {
+  agente: string;
+  estado: 'activo' | 'inactivo' | 'error';
+  tarea?: string; // La spec, recortada
+  error?: string;
+  stepId?: string;
+}
+
+// Cambio de estado de un paso del plan, un plan nuevo, una acción sobre un paso, o avance de la orquestación (estado y progreso 0-100)
+export interface ProgresoFlujoVivo {
+  agente?: string;
+  taskId?: string;
+  stepId?: string;
+  de?: string | null;
+  a?: string;
+  motivo?: string;
+  estado?: string;
+  progreso?: number;
+}
+
+export interface LineaLogVivo {
+  agente: string;
+  nivel: 'info' | 'warning' | 'error';
+  mensaje: string;
+}
+
+// Saldo de los CreditPack del usuario tras un consumo o una compra (no es de un proyecto: llega a todos)
+export interface SaldoVivo {
+  disponible: number;
+  total: number;
+  consumo?: { agente?: string; modelo: string; creditos: number };
+}
+
+// Revisión de código de lo que escribió un paso (OrchestratorAgent.runCodeReview)
+export interface RevisionVivo {
+  agente: string; // El agente revisado
+  puntuacion: number;
+  umbral: number;
+  aprobada: boolean; // Por debajo del umbral el paso se revierte
+  archivos: number;
+}
+
+// Estadísticas de la caché de respuestas del LLM (LLMCache.estadisticas) tras cada prompt
+export interface CacheVivo {
+  activa: boolean;
+  entradas: number;
+  bytes: number;
+  maxBytes: number;
+  aciertos: number;
+  fallos: number;
+  tasaAcierto: number; // 0..1
+  tokensAhorrados: number;
+}
+
+export interface DatosCanalVivo {
+  agente: EstadoAgenteVivo;
+  flujo: ProgresoFlujoVivo;
+  log: LineaLogVivo;
+  creditos: SaldoVivo;
+  revision: RevisionVivo;
+  cache: CacheVivo;
+}
+
+// Lo que recibe el navegador: `event: <canal>`, `id: <id>` y esto en `data:`
+export interface MensajeVivo<C extends CanalVivo = CanalVivo> {
+  id: string; // <arranque>.<secuencia>; con Last-Event-ID se reenvía lo posterior
+  canal: C;
+  proyectoId: string | null; // null = del usuario, pa' todos sus proyectos
+  fecha: string; // ISO
+  datos: DatosCanalVivo[C];
+}
@@ -0,0 +1,34 @@
+/**
+ * calcularNiveles de services/workflow-plan.ts, copiado pa' que la API agrupe los pasos igual que
+ * OrchestratorAgent sin importar la CLI; tests/dashboard-shared.test.ts compara las dos
+ */
+
+export interface PasoConDependencias {
+  id: string;
+  dependsOn?: string | string[];
+}
+
+/**
+ * Agrupa los pasos por nivel (Kahn): cada nivel solo depende de niveles anteriores
+ * y sus pasos pueden correr en paralelo. Los pasos que quedan fuera forman un ciclo.
+ * Las dependencias a ids inexistentes se ignoran.
+ */
+export function calcularNiveles(plan: { steps: PasoConDependencias[] }): { niveles: string[][]; enCiclo: string[] } {
+  const ids = new Set(plan.steps.map(p => p.id));
+  const pendientes = new Map<string, Set<string>>();
+  for (const paso of plan.steps) {
+    // Una autodependencia nunca se libera, así que el paso queda en enCiclo
+    const deps = ([] as string[]).concat(paso.dependsOn || []).filter(d => ids.has(d));
+    pendientes.set(paso.id, new Set(deps));
+  }
+
+  const niveles: string[][] = [];
+  while (pendientes.size > 0) {
+    const listos = [...pendientes.entries()].filter(([, deps]) => deps.size === 0).map(([id]) => id);
+    if (listos.length === 0) break;
+    niveles.push(listos);
+    for (const id of listos) pendientes.delete(id);
+    for (const deps of pendientes.values()) listos.forEach(id => deps.delete(id));
+  }
+  return { niveles, enCiclo: [...pendientes.keys()] };
+}
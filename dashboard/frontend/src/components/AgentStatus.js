@@ -0,0 +1,101 @@
+const ESTADOS = {
+  activo: { etiqueta: 'Activo', clase: 'bg-green-200 text-green-800' },
+  inactivo: { etiqueta: 'Inactivo', clase: 'bg-gray-300 text-gray-800' },
+  error: { etiqueta: 'Error', clase: 'bg-red-200 text-red-800' }
+};
+
+const formatHora = (fecha) => new Date(fecha).toLocaleTimeString('es-ES');
+const formatMB = (bytes) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Agentes, progreso de la orquestación, revisiones de código y caché del LLM de un proyecto, en vivo (useProyectoEnVivo)
+export default function AgentStatus({ agentes, flujo, revisiones, cache, conectado }) {
+  const lista = Object.values(agentes).sort((a, b) => b.fecha.localeCompare(a.fecha));
+  const pasos = Object.values(flujo.pasos).sort((a, b) => b.fecha.localeCompare(a.fecha)).slice(0, 8);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 shadow-lg">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-white">Estado de Agentes</h2>
+        <span className="flex items-center text-sm text-gray-400">
+          <span className={`inline-block w-3 h-3 rounded-full mr-2 ${conectado ? 'bg-green-500' : 'bg-red-500'}`}></span>
+          {conectado ? 'En vivo' : 'Reconectando…'}
+        </span>
+      </div>
+
+      <div className="mb-6">
+        <div className="flex justify-between text-sm text-gray-400 mb-1">
+          <span>Orquestación{flujo.estado ? ` · ${flujo.estado}` : ''}</span>
+          <span>{Math.round(flujo.progreso)}%</span>
+        </div>
+        <div className="w-full bg-gray-600 rounded-full h-2.5">
+          <div className="bg-blue-500 h-2.5 rounded-full" style={{ width: `${flujo.progreso}%` }}></div>
+        </div>
+      </div>
+
+      {lista.length === 0 && <p className="text-gray-500">Ningún agente ha trabajado en este proyecto todavía</p>}
+      <div className="space-y-3 mb-6">
+        {lista.map((agente) => (
+          <div key={agente.agente} className="bg-gray-700 rounded-lg p-3">
+            <div className="flex justify-between items-center">
+              <span className="font-bold text-white">{agente.agente}</span>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${ESTADOS[agente.estado].clase}`}>
+                {ESTADOS[agente.estado].etiqueta}
+              </span>
+            </div>
+            {agente.tarea && <p className="text-gray-300 text-sm mt-1 truncate">{agente.tarea}</p>}
+            {agente.error && <p className="text-red-400 text-sm mt-1">{agente.error}</p>}
+            <p className="text-gray-500 text-xs mt-1">{formatHora(agente.fecha)}</p>
+          </div>
+        ))}
+      </div>
+
+      {pasos.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-white font-medium mb-2">Pasos</h3>
+          {pasos.map((paso) => (
+            <div key={paso.taskId} className="flex justify-between text-sm text-gray-300">
+              <span className="truncate">{paso.agente} · {paso.taskId}</span>
+              <span className="ml-4 text-gray-400">{paso.a}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {cache && (
+        <div className="mb-6">
+          <h3 className="text-white font-medium mb-2">Caché del LLM{cache.activa ? '' : ' · desactivada'}</h3>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <div className="bg-gray-700 rounded p-2">
+              <p className="text-gray-400">Aciertos</p>
+              <p className="text-white font-bold">{Math.round(cache.tasaAcierto * 100)}%</p>
+              <p className="text-gray-500 text-xs">{cache.aciertos} de {cache.aciertos + cache.fallos}</p>
+            </div>
+            <div className="bg-gray-700 rounded p-2">
+              <p className="text-gray-400">Tokens ahorrados</p>
+              <p className="text-white font-bold">{cache.tokensAhorrados.toLocaleString('es-ES')}</p>
+            </div>
+            <div className="bg-gray-700 rounded p-2">
+              <p className="text-gray-400">Entradas</p>
+              <p className="text-white font-bold">{cache.entradas}</p>
+              <p className="text-gray-500 text-xs">{formatMB(cache.bytes)} de {formatMB(cache.maxBytes)}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {revisiones.length > 0 && (
+        <div>
+          <h3 className="text-white font-medium mb-2">Revisiones de código</h3>
+          {revisiones.slice(0, 5).map((revision) => (
+            <div key={`${revision.agente}-${revision.fecha}`} className="flex justify-between text-sm">
+              <span className="text-gray-300">{revision.agente} ({revision.archivos} archivos)</span>
+              <span className={revision.aprobada ? 'text-green-400' : 'text-red-400'}>
+                {revision.puntuacion}/100 {revision.aprobada ? '' : `· revertido (mínimo ${revision.umbral})`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
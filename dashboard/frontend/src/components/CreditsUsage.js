@@ -1,55 +1,81 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useState } from 'react';
 
+const COLORES = [
+  '#3B82F6', // blue-500
+  '#10B981', // emerald-500
+  '#F59E0B', // amber-500
+  '#EF4444', // red-500
+  '#8B5CF6'  // violet-500
+];
+
+const DIMENSIONES = [
+  { valor: 'proyecto', etiqueta: 'Proyecto' },
+  { valor: 'modelo', etiqueta: 'Modelo' },
+  { valor: 'proveedor', etiqueta: 'Proveedor' },
+  { valor: 'agente', etiqueta: 'Agente' },
+  { valor: 'paso', etiqueta: 'Paso' }
+];
+
+// Consumo de los paquetes de créditos (ApiUsage), agrupado por proyecto, modelo, proveedor, agente o paso
 export default function CreditsUsage() {
-  const chartRef = useRef(null);
-
-  // Datos de ejemplo para el gráfico
-  const mockData = {
-    labels: ['GPT-4', 'GPT-3.5', 'Claude', 'Pinecone', 'Otros'],
-    datasets: [
-      {
-        data: [45, 25, 15, 10, 5],
-        backgroundColor: [
-          '#3B82F6', // blue-500
-          '#10B981', // emerald-500
-          '#F59E0B', // amber-500
-          '#EF4444', // red-500
-          '#8B5CF6'  // violet-500
-        ],
-        borderWidth: 0,
-      }
-    ]
-  };
+  const [dimension, setDimension] = useState('proyecto');
+  const [consumo, setConsumo] = useState([]);
+  const [error, setError] = useState(null);
 
   useEffect(() => {
-    // Aquí normalmente cargaríamos Chart.js y crearíamos el gráfico
-    // Para este ejemplo, solo mostraremos un placeholder
-    console.log('Chart would be initialized here with data:', mockData);
-  }, []);
+    const fetchConsumo = async () => {
+      try {
+        const token = localStorage.getItem('auth_token');
+        const response = await fetch(`/api/credits/usage?by=${dimension}`, { headers: { Authorization: `Bearer ${token}` } });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        setConsumo(await response.json());
+        setError(null);
+      } catch (error) {
+        console.error('Error fetching credit usage:', error);
+        setError('No se pudo cargar el consumo de créditos');
+      }
+    };
+
+    fetchConsumo();
+  }, [dimension]);
+
+  const total = consumo.reduce((suma, grupo) => suma + grupo.creditos, 0);
+  // Los cuatro que más gastaron y el resto junto en "Otros"
+  const grupos = consumo.length > 5
+    ? [...consumo.slice(0, 4), { clave: 'Otros', creditos: consumo.slice(4).reduce((suma, grupo) => suma + grupo.creditos, 0) }]
+    : consumo;
 
   return (
     <div className="bg-gray-800 rounded-lg p-6 shadow-lg">
-      <h2 className="text-xl font-bold text-white mb-6">Uso de Créditos</h2>
-      
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-white">Uso de Créditos</h2>
+        <select
+          value={dimension}
+          onChange={(e) => setDimension(e.target.value)}
+          className="bg-gray-700 text-white text-sm rounded px-2 py-1"
+        >
+          {DIMENSIONES.map(({ valor, etiqueta }) => (
+            <option key={valor} value={valor}>Por {etiqueta.toLowerCase()}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-red-400 mb-4">{error}</p>}
+      {!error && grupos.length === 0 && <p className="text-gray-500">Todavía no hay consumo registrado</p>}
+
       <div className="flex flex-col space-y-4">
-        {mockData.labels.map((label, index) => (
-          <div key={label} className="flex items-center">
-            <div 
-              className="w-4 h-4 rounded-full mr-2" 
-              style={{ backgroundColor: mockData.datasets[0].backgroundColor[index] }}
+        {grupos.map((grupo, index) => (
+          <div key={grupo.clave} className="flex items-center">
+            <div
+              className="w-4 h-4 rounded-full mr-2"
+              style={{ backgroundColor: COLORES[index % COLORES.length] }}
             ></div>
-            <span className="text-white">{label}</span>
-            <span className="ml-auto text-white">{mockData.datasets[0].data[index]}%</span>
+            <span className="text-white">{grupo.clave === '-' ? 'Sin asignar' : grupo.clave}</span>
+            <span className="ml-auto text-gray-400 mr-4">{grupo.creditos.toFixed(1)} créditos</span>
+            <span className="text-white w-12 text-right">{total > 0 ? Math.round((grupo.creditos / total) * 100) : 0}%</span>
           </div>
         ))}
       </div>
-      
-      <div className="mt-6 h-64 flex items-center justify-center border border-gray-700 rounded-lg">
-        <div className="text-gray-500 text-center">
-          <p>Gráfico de uso de créditos</p>
-          <p className="text-sm">(Aquí se mostraría un gráfico circular con Chart.js)</p>
-        </div>
-      </div>
     </div>
   );
-}
\ No newline at end of file
+}
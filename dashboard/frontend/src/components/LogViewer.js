@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+
+const COLORES = { info: 'text-blue-400', warning: 'text-yellow-400', error: 'text-red-400' };
+
+// Actividad y avisos de los agentes de un proyecto según llegan (canal `log` de useProyectoEnVivo)
+export default function LogViewer({ logs, conectado }) {
+  const [filtro, setFiltro] = useState('');
+  const [nivel, setNivel] = useState('all');
+  const [autoScroll, setAutoScroll] = useState(true);
+  const contenedor = useRef(null);
+
+  useEffect(() => {
+    if (autoScroll && contenedor.current) {
+      contenedor.current.scrollTop = contenedor.current.scrollHeight;
+    }
+  }, [logs, autoScroll]);
+
+  const texto = filtro.toLowerCase();
+  const visibles = logs.filter((log) =>
+    (nivel === 'all' || log.nivel === nivel) &&
+    (log.mensaje.toLowerCase().includes(texto) || log.agente.toLowerCase().includes(texto))
+  );
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-white">Logs en Tiempo Real</h2>
+        <span className="flex items-center text-sm text-gray-400">
+          <span className={`inline-block w-3 h-3 rounded-full mr-2 ${conectado ? 'bg-green-500' : 'bg-red-500'}`}></span>
+          {conectado ? 'Conectado' : 'Desconectado'}
+        </span>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          placeholder="Filtrar logs..."
+          className="flex-1 bg-gray-700 text-white text-sm rounded px-2 py-1"
+          value={filtro}
+          onChange={(e) => setFiltro(e.target.value)}
+        />
+        <select value={nivel} onChange={(e) => setNivel(e.target.value)} className="bg-gray-700 text-white text-sm rounded px-2 py-1">
+          <option value="all">Todos los niveles</option>
+          <option value="info">Info</option>
+          <option value="warning">Warning</option>
+          <option value="error">Error</option>
+        </select>
+        <label className="flex items-center text-sm text-gray-400">
+          <input type="checkbox" checked={autoScroll} onChange={(e) => setAutoScroll(e.target.checked)} className="mr-2" />
+          Auto-scroll
+        </label>
+      </div>
+
+      <div ref={contenedor} className="font-mono text-sm bg-gray-900 text-gray-100 p-4 rounded h-96 overflow-auto">
+        {visibles.length === 0 ? (
+          <div className="text-gray-500 italic">No hay logs que coincidan con los filtros</div>
+        ) : (
+          visibles.map((log) => (
+            <div key={log.id} className="mb-1">
+              <span className="text-gray-500">[{new Date(log.fecha).toLocaleTimeString('es-ES')}]</span>{' '}
+              <span className={`font-semibold ${COLORES[log.nivel]}`}>[{log.agente}]</span>{' '}
+              <span className={log.nivel === 'info' ? 'text-gray-100' : COLORES[log.nivel]}>{log.mensaje}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
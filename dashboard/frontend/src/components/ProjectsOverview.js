@@ -20,10 +20,12 @@ export default function ProjectsOverview({ projects }) {
               <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                 project.status === 'active' ? 'bg-green-200 text-green-800' :
                 project.status === 'completed' ? 'bg-blue-200 text-blue-800' :
+                project.status === 'failed' ? 'bg-red-200 text-red-800' :
                 'bg-yellow-200 text-yellow-800'
               }`}>
                 {project.status === 'active' ? 'Activo' :
                  project.status === 'completed' ? 'Completado' :
+                 project.status === 'failed' ? 'Fallido' :
                  'Planificación'}
               </span>
             </div>
@@ -1,4 +1,13 @@
+import { useState } from 'react';
+
+// Las 10 últimas vienen con el perfil; "Ver todo el historial" pide el resto a /api/user/activity página a página
 export default function RecentActivity({ activities }) {
+  const [historial, setHistorial] = useState(null);
+  const [pagina, setPagina] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [cargando, setCargando] = useState(false);
+  const [error, setError] = useState(null);
+
   // Función para formatear fechas
   const formatDate = (dateString) => {
     const date = new Date(dateString);
@@ -11,12 +20,34 @@ export default function RecentActivity({ activities }) {
     }).format(date);
   };
 
+  const cargarMas = async () => {
+    setCargando(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/user/activity?page=${pagina + 1}&pageSize=20`, { headers: { Authorization: `Bearer ${token}` } });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const { items, page, total } = await response.json();
+      setHistorial((historial || []).concat(items));
+      setPagina(page);
+      setTotal(total);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+      setError('No se pudo cargar el historial');
+    } finally {
+      setCargando(false);
+    }
+  };
+
+  const visibles = historial || activities;
+  const hayMas = historial === null || historial.length < total;
+
   return (
     <div>
       <h2 className="text-xl font-bold text-white mb-6">Actividad Reciente</h2>
       
       <div className="space-y-4">
-        {activities.map((activity) => (
+        {visibles.map((activity) => (
           <div key={activity.id} className="flex items-start">
             <div className="bg-blue-500 rounded-full p-2 mr-4">
               <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
@@ -27,17 +58,24 @@ export default function RecentActivity({ activities }) {
               <p className="text-white">
                 <span className="font-medium">{activity.action}</span> - {activity.target}
               </p>
-              <p className="text-gray-400 text-sm">{formatDate(activity.timestamp)}</p>
+              <p className="text-gray-400 text-sm">
+                {formatDate(activity.timestamp)}
+                {activity.project && <span> · {activity.project.name}</span>}
+              </p>
             </div>
           </div>
         ))}
       </div>
-      
-      <div className="mt-6 text-center">
-        <button className="text-blue-400 hover:text-blue-300 text-sm">
-          Ver todo el historial
-        </button>
-      </div>
+
+      {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
+
+      {hayMas && (
+        <div className="mt-6 text-center">
+          <button onClick={cargarMas} disabled={cargando} className="text-blue-400 hover:text-blue-300 text-sm disabled:opacity-50">
+            {cargando ? 'Cargando…' : historial === null ? 'Ver todo el historial' : 'Cargar más'}
+          </button>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -45,6 +45,16 @@ export default function Sidebar({ activePage }) {
               </div>
             </Link>
           </li>
+          <li className="mb-2">
+            <Link href="/workflow">
+              <div className={`flex items-center p-3 ${activePage === 'workflow' ? 'bg-gray-700' : 'hover:bg-gray-700'} rounded-md cursor-pointer`}>
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h4v4H4V6zm12 0h4v4h-4V6zM10 16h4v4h-4v-4zM8 8h8M6 10v3a3 3 0 003 3h1m8-6v3a3 3 0 01-3 3h-1" />
+                </svg>
+                {!collapsed && <span className="ml-3">Flujo</span>}
+              </div>
+            </Link>
+          </li>
           <li className="mb-2">
             <Link href="/credits">
               <div className={`flex items-center p-3 ${activePage === 'credits' ? 'bg-gray-700' : 'hover:bg-gray-700'} rounded-md cursor-pointer`}>
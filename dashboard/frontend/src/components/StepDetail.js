@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { colorDe, formatDuracion } from './WorkflowGraph';
+
+// Desde qué estados se ofrece cada acción (la API y la CLI lo vuelven a comprobar)
+const ACCIONES = {
+  retry: { etiqueta: 'Reintentar', estados: ['ERROR', 'BLOCKED'], clase: 'bg-blue-600 hover:bg-blue-700' },
+  skip: { etiqueta: 'Omitir', estados: ['PENDING', 'BLOCKED', 'ERROR'], clase: 'bg-gray-600 hover:bg-gray-500' },
+};
+
+const formatFecha = (fecha) => (fecha ? new Date(fecha).toLocaleString('es-ES') : '—');
+
+/**
+ * Detalle de un paso del plan (GET /api/projects/:id/workflow/steps/:stepId): entrada, archivos, consumo,
+ * errores, los prompts con su respuesta y la actividad. Reintentar u omitir deja la acción pendiente
+ * hasta que la CLI la aplica (entre grupos, al reanudar o con `cj system sync apply`)
+ */
+export default function StepDetail({ projectId, stepId, version, onAccion }) {
+  const [paso, setPaso] = useState(null);
+  const [error, setError] = useState(null);
+  const [enviando, setEnviando] = useState(false);
+  const [abierto, setAbierto] = useState(null); // Prompt desplegado
+
+  useEffect(() => {
+    let activo = true;
+    const cargar = async () => {
+      try {
+        const token = localStorage.getItem('auth_token');
+        const response = await fetch(`/api/projects/${projectId}/workflow/steps/${encodeURIComponent(stepId)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const datos = await response.json();
+        if (activo) {
+          setPaso(datos);
+          setError(null);
+        }
+      } catch (error) {
+        console.error('Error fetching step:', error);
+        if (activo) setError('No se pudo cargar el paso');
+      }
+    };
+    cargar();
+    return () => {
+      activo = false;
+    };
+  }, [projectId, stepId, version]);
+
+  const pedir = async (accion) => {
+    setEnviando(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/projects/${projectId}/workflow/steps/${encodeURIComponent(stepId)}/actions`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accion }),
+      });
+      const datos = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(datos.error || `HTTP ${response.status}`);
+      setError(null);
+      onAccion();
+    } catch (error) {
+      setError(error.message);
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  if (!paso) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-6 shadow-lg text-gray-400">
+        {error || 'Cargando paso...'}
+      </div>
+    );
+  }
+
+  const color = colorDe(paso);
+  const pendiente = paso.acciones.find(accion => accion.status === 'pending');
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 shadow-lg">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">{paso.agente} <span className="text-gray-400 text-base">· {paso.id}</span></h2>
+          <p className="text-gray-400 text-sm">{paso.descripcion}</p>
+        </div>
+        <span className="px-2 py-1 rounded-full text-xs font-medium text-white" style={{ backgroundColor: color.borde }}>
+          {color.etiqueta}
+        </span>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {Object.entries(ACCIONES).map(([accion, { etiqueta, estados, clase }]) => (
+          <button
+            key={accion}
+            onClick={() => pedir(accion)}
+            disabled={enviando || Boolean(pendiente) || paso.omitido || !estados.includes(paso.estado)}
+            className={`${clase} text-white text-sm font-bold py-1 px-3 rounded disabled:opacity-40 disabled:cursor-not-allowed`}
+          >
+            {etiqueta}
+          </button>
+        ))}
+        {pendiente && (
+          <span className="text-yellow-400 text-sm self-center">
+            {pendiente.action === 'retry' ? 'Reintento' : 'Omisión'} pendiente de que la aplique la CLI
+          </span>
+        )}
+      </div>
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+      {paso.error && <p className="bg-red-900 text-red-200 text-sm rounded p-3 mb-4 whitespace-pre-wrap">{paso.error}</p>}
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm mb-4">
+        <dt className="text-gray-400">Duración</dt><dd className="text-white">{formatDuracion(paso.duracionMs)}</dd>
+        <dt className="text-gray-400">Tokens</dt><dd className="text-white">{paso.tokens.toLocaleString('es-ES')}</dd>
+        <dt className="text-gray-400">Créditos</dt><dd className="text-white">{paso.creditos.toFixed(2)}</dd>
+        <dt className="text-gray-400">Intentos</dt><dd className="text-white">{paso.intentos}</dd>
+        <dt className="text-gray-400">Inicio</dt><dd className="text-white">{formatFecha(paso.inicio)}</dd>
+        <dt className="text-gray-400">Fin</dt><dd className="text-white">{formatFecha(paso.fin)}</dd>
+        <dt className="text-gray-400">Depende de</dt><dd className="text-white">{paso.dependeDe.join(', ') || '—'}</dd>
+        <dt className="text-gray-400">Tarea</dt><dd className="text-white truncate">{paso.taskId || '—'}</dd>
+      </dl>
+
+      <h3 className="text-white font-medium mb-2">Entrada</h3>
+      <pre className="bg-gray-900 text-gray-300 text-xs rounded p-3 mb-4 whitespace-pre-wrap max-h-40 overflow-auto">{paso.input}</pre>
+
+      <h3 className="text-white font-medium mb-2">Archivos ({paso.archivos.length})</h3>
+      {paso.archivos.length === 0 && <p className="text-gray-500 text-sm mb-4">Sin archivos escritos</p>}
+      <ul className="text-gray-300 text-xs font-mono mb-4 max-h-32 overflow-auto">
+        {paso.archivos.map(archivo => <li key={archivo}>{archivo}</li>)}
+      </ul>
+
+      <h3 className="text-white font-medium mb-2">
+        Prompts ({paso.transcripcion.total}{paso.transcripcion.total > paso.transcripcion.items.length ? `, últimos ${paso.transcripcion.items.length}` : ''})
+      </h3>
+      {paso.transcripcion.items.length === 0 && <p className="text-gray-500 text-sm mb-4">Ningún prompt registrado en este paso</p>}
+      <div className="space-y-2 mb-4">
+        {paso.transcripcion.items.map((intercambio) => (
+          <div key={intercambio.id} className="bg-gray-700 rounded">
+            <button
+              onClick={() => setAbierto(abierto === intercambio.id ? null : intercambio.id)}
+              className="w-full flex justify-between text-left text-sm text-gray-300 p-2"
+            >
+              <span>{intercambio.agent} · {intercambio.model}{intercambio.cached ? ' · caché' : ''}</span>
+              <span className="text-gray-400">{intercambio.tokensUsed} tokens · {formatDuracion(intercambio.durationMs)}</span>
+            </button>
+            {abierto === intercambio.id && (
+              <div className="p-2 pt-0 space-y-2">
+                <pre className="bg-gray-900 text-gray-300 text-xs rounded p-2 whitespace-pre-wrap max-h-64 overflow-auto">{intercambio.prompt}</pre>
+                <pre className="bg-gray-900 text-green-300 text-xs rounded p-2 whitespace-pre-wrap max-h-64 overflow-auto">{intercambio.response}</pre>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <h3 className="text-white font-medium mb-2">Actividad</h3>
+      <div className="space-y-1 max-h-48 overflow-auto text-sm">
+        {paso.actividad.map((entrada) => (
+          <div key={entrada.id} className="flex justify-between text-gray-300">
+            <span className="truncate">{entrada.action} · {entrada.target}</span>
+            <span className="ml-4 text-gray-500 whitespace-nowrap">{formatFecha(entrada.timestamp)}</span>
+          </div>
+        ))}
+        {paso.acciones.filter(accion => accion.status !== 'pending').map((accion) => (
+          <div key={accion.id} className={accion.status === 'done' ? 'text-green-400' : 'text-red-400'}>
+            {accion.action === 'retry' ? 'Reintento' : 'Omisión'} {accion.status === 'done' ? 'aplicado' : 'fallido'}{accion.result ? `: ${accion.result}` : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+const ANCHO = 180;
+const ALTO = 64;
+const SEPARACION_X = 80;
+const SEPARACION_Y = 28;
+const MARGEN = 20;
+
+// Colores por TaskState de la CLI; una tarea omitida está CANCELLED pero no corta el flujo
+export const COLORES_ESTADO = {
+  PENDING: { relleno: '#374151', borde: '#6B7280', etiqueta: 'Pendiente' },
+  IN_PROGRESS: { relleno: '#1E3A8A', borde: '#3B82F6', etiqueta: 'En curso' },
+  BLOCKED: { relleno: '#78350F', borde: '#F59E0B', etiqueta: 'Bloqueado' },
+  REVIEW: { relleno: '#713F12', borde: '#EAB308', etiqueta: 'En revisión' },
+  COMPLETED: { relleno: '#14532D', borde: '#22C55E', etiqueta: 'Completado' },
+  ERROR: { relleno: '#7F1D1D', borde: '#EF4444', etiqueta: 'Error' },
+  CANCELLED: { relleno: '#1F2937', borde: '#4B5563', etiqueta: 'Cancelado' },
+  OMITIDO: { relleno: '#1F2937', borde: '#9CA3AF', etiqueta: 'Omitido' },
+};
+
+export const colorDe = (paso) => COLORES_ESTADO[paso.omitido ? 'OMITIDO' : paso.estado] || COLORES_ESTADO.PENDING;
+
+export const formatDuracion = (ms) => {
+  if (ms === null || ms === undefined) return '—';
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60000)} min ${Math.round((ms % 60000) / 1000)} s`;
+};
+
+// Columnas por nivel de ejecución (los grupos que corren en paralelo), de izquierda a derecha
+function colocar(pasos) {
+  const columnas = [];
+  pasos.forEach((paso) => {
+    (columnas[paso.nivel] = columnas[paso.nivel] || []).push(paso);
+  });
+  const posiciones = {};
+  columnas.forEach((columna, nivel) => {
+    (columna || []).forEach((paso, fila) => {
+      posiciones[paso.id] = { x: MARGEN + nivel * (ANCHO + SEPARACION_X), y: MARGEN + fila * (ALTO + SEPARACION_Y) };
+    });
+  });
+  const filas = Math.max(1, ...columnas.map(columna => (columna ? columna.length : 0)));
+  return {
+    posiciones,
+    ancho: MARGEN * 2 + columnas.length * ANCHO + Math.max(0, columnas.length - 1) * SEPARACION_X,
+    alto: MARGEN * 2 + filas * ALTO + (filas - 1) * SEPARACION_Y,
+  };
+}
+
+// El WorkflowPlan como DAG (GET /api/projects/:id/workflow): color por estado y la ruta crítica resaltada
+export default function WorkflowGraph({ pasos, rutaCritica, seleccionado, onSeleccionar }) {
+  const { posiciones, ancho, alto } = colocar(pasos);
+  const critica = new Set(rutaCritica);
+  // Una arista es crítica si une dos pasos consecutivos de la ruta crítica
+  const aristaCritica = (desde, hasta) => {
+    const indice = rutaCritica.indexOf(desde);
+    return indice !== -1 && rutaCritica[indice + 1] === hasta;
+  };
+
+  return (
+    <div className="overflow-auto">
+      <svg width={ancho} height={alto} className="block">
+        <defs>
+          <marker id="flecha" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#6B7280" />
+          </marker>
+          <marker id="flecha-critica" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#F472B6" />
+          </marker>
+        </defs>
+
+        {pasos.flatMap(paso => paso.dependeDe
+          .filter(dep => posiciones[dep])
+          .map((dep) => {
+            const desde = posiciones[dep];
+            const hasta = posiciones[paso.id];
+            const x1 = desde.x + ANCHO;
+            const y1 = desde.y + ALTO / 2;
+            const x2 = hasta.x;
+            const y2 = hasta.y + ALTO / 2;
+            const medio = (x1 + x2) / 2;
+            const esCritica = aristaCritica(dep, paso.id);
+            return (
+              <path
+                key={`${dep}->${paso.id}`}
+                d={`M ${x1} ${y1} C ${medio} ${y1}, ${medio} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                stroke={esCritica ? '#F472B6' : '#6B7280'}
+                strokeWidth={esCritica ? 3 : 1.5}
+                markerEnd={`url(#${esCritica ? 'flecha-critica' : 'flecha'})`}
+              />
+            );
+          }))}
+
+        {pasos.map((paso) => {
+          const { x, y } = posiciones[paso.id];
+          const color = colorDe(paso);
+          const esSeleccionado = seleccionado === paso.id;
+          return (
+            <g key={paso.id} transform={`translate(${x}, ${y})`} onClick={() => onSeleccionar(paso.id)} className="cursor-pointer">
+              <title>{`${paso.descripcion}\n${color.etiqueta}${paso.error ? ` · ${paso.error}` : ''}`}</title>
+              <rect
+                width={ANCHO}
+                height={ALTO}
+                rx={8}
+                fill={color.relleno}
+                stroke={esSeleccionado ? '#FFFFFF' : critica.has(paso.id) ? '#F472B6' : color.borde}
+                strokeWidth={esSeleccionado || critica.has(paso.id) ? 3 : 1.5}
+                strokeDasharray={paso.omitido ? '6 4' : undefined}
+              />
+              <text x={12} y={22} fill="#FFFFFF" fontSize="13" fontWeight="bold">{paso.agente}</text>
+              <text x={ANCHO - 12} y={22} fill="#9CA3AF" fontSize="11" textAnchor="end">{paso.id}</text>
+              <text x={12} y={44} fill={color.borde} fontSize="11">
+                {color.etiqueta}{paso.intentos > 1 ? ` · ${paso.intentos} intentos` : ''}
+              </text>
+              <text x={ANCHO - 12} y={44} fill="#9CA3AF" fontSize="11" textAnchor="end">{formatDuracion(paso.duracionMs)}</text>
+              {paso.accionPendiente && (
+                <text x={12} y={58} fill="#FBBF24" fontSize="10">{paso.accionPendiente === 'retry' ? 'reintento pedido' : 'omisión pedida'}</text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
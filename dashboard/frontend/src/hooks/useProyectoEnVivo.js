@@ -0,0 +1,80 @@
+import { useEffect, useReducer, useState } from 'react';
+
+const MAX_LOGS = 500;
+const REINTENTO_MS = 5000;
+
+const inicial = { agentes: {}, flujo: { pasos: {}, estado: null, progreso: 0 }, revisiones: [], logs: [], saldo: null, cache: null };
+
+// Acumula los mensajes de GET /api/stream (MensajeVivo: { id, canal, proyectoId, fecha, datos })
+function reducir(estado, mensaje) {
+  const { canal, datos, fecha } = mensaje;
+  switch (canal) {
+    case 'reinicio':
+      return inicial; // Hubo un hueco: la API reenvía sus recientes desde cero
+    case 'agente':
+      return { ...estado, agentes: { ...estado.agentes, [datos.agente]: { ...datos, fecha } } };
+    case 'flujo':
+      if (datos.taskId) {
+        return { ...estado, flujo: { ...estado.flujo, pasos: { ...estado.flujo.pasos, [datos.taskId]: { ...datos, fecha } } } };
+      }
+      return { ...estado, flujo: { ...estado.flujo, estado: datos.estado ?? estado.flujo.estado, progreso: datos.progreso ?? estado.flujo.progreso } };
+    case 'revision':
+      return { ...estado, revisiones: [{ ...datos, fecha }, ...estado.revisiones].slice(0, 20) };
+    case 'log':
+      return { ...estado, logs: [...estado.logs, { ...datos, id: mensaje.id, fecha }].slice(-MAX_LOGS) };
+    case 'creditos':
+      return { ...estado, saldo: datos };
+    case 'cache':
+      return { ...estado, cache: datos };
+    default:
+      return estado;
+  }
+}
+
+/**
+ * Estado en vivo de un proyecto por Server-Sent Events. EventSource reconecta solo y manda Last-Event-ID,
+ * así que la API reenvía lo que se perdió; si la conexión se cierra del todo (ej. la API reinició con
+ * error), se abre otra pasando el último id en ?desde=
+ */
+export default function useProyectoEnVivo(projectId) {
+  const [estado, despachar] = useReducer(reducir, inicial);
+  const [conectado, setConectado] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) return undefined;
+    despachar({ canal: 'reinicio' });
+    let fuente = null;
+    let temporizador = null;
+    let ultimoId = '';
+    let activo = true;
+
+    const conectar = () => {
+      const token = localStorage.getItem('auth_token');
+      const params = new URLSearchParams({ projectId, token: token || '' });
+      if (ultimoId) params.set('desde', ultimoId);
+      fuente = new EventSource(`/api/stream?${params}`);
+      fuente.onopen = () => setConectado(true);
+      fuente.onerror = () => {
+        setConectado(false);
+        if (fuente.readyState === EventSource.CLOSED && activo) {
+          temporizador = setTimeout(conectar, REINTENTO_MS);
+        }
+      };
+      const recibir = (evento) => {
+        ultimoId = evento.lastEventId || ultimoId;
+        despachar(JSON.parse(evento.data));
+      };
+      ['agente', 'flujo', 'log', 'creditos', 'revision', 'cache'].forEach(canal => fuente.addEventListener(canal, recibir));
+      fuente.addEventListener('reinicio', () => despachar({ canal: 'reinicio' }));
+    };
+
+    conectar();
+    return () => {
+      activo = false;
+      clearTimeout(temporizador);
+      if (fuente) fuente.close();
+    };
+  }, [projectId]);
+
+  return { ...estado, conectado };
+}
@@ -5,11 +5,16 @@ import Sidebar from '../components/Sidebar';
 import ProjectsOverview from '../components/ProjectsOverview';
 import CreditsUsage from '../components/CreditsUsage';
 import RecentActivity from '../components/RecentActivity';
+import AgentStatus from '../components/AgentStatus';
+import LogViewer from '../components/LogViewer';
+import useProyectoEnVivo from '../hooks/useProyectoEnVivo';
 
 export default function Dashboard() {
   const router = useRouter();
   const [user, setUser] = useState(null);
   const [loading, setLoading] = useState(true);
+  const [proyectoVivo, setProyectoVivo] = useState(null);
+  const vivo = useProyectoEnVivo(proyectoVivo);
 
   useEffect(() => {
     // Verificar autenticación
@@ -19,34 +24,21 @@ export default function Dashboard() {
       return;
     }
 
-    // Obtener datos del usuario
+    // Obtener datos del usuario (perfil, plan, créditos, proyectos y actividad reciente)
     const fetchUserData = async () => {
       try {
-        // Aquí iría la llamada a la API
-        // const response = await fetch('/api/user', { headers: { Authorization: `Bearer ${token}` } });
-        // const data = await response.json();
-        
-        // Simulamos datos para el ejemplo
-        const mockUserData = {
-          id: '1',
-          name: 'Usuario Demo',
-          email: 'demo@example.com',
-          plan: 'Professional',
-          credits: 750,
-          totalCredits: 1000,
-          projects: [
-            { id: '1', name: 'E-commerce App', status: 'active', progress: 75 },
-            { id: '2', name: 'Blog Personal', status: 'completed', progress: 100 },
-            { id: '3', name: 'Dashboard Admin', status: 'planning', progress: 20 }
-          ],
-          recentActivity: [
-            { id: '1', action: 'Generó componente', target: 'Tabla de productos', timestamp: '2023-05-15T14:30:00Z' },
-            { id: '2', action: 'Ejecutó Vision Agent', target: 'E-commerce App', timestamp: '2023-05-14T10:15:00Z' },
-            { id: '3', action: 'Creó proyecto', target: 'Dashboard Admin', timestamp: '2023-05-10T09:00:00Z' }
-          ]
-        };
-        
-        setUser(mockUserData);
+        const response = await fetch('/api/user', { headers: { Authorization: `Bearer ${token}` } });
+        if (response.status === 401) {
+          localStorage.removeItem('auth_token');
+          router.push('/login');
+          return;
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const datos = await response.json();
+        setUser(datos);
+        // En vivo, por defecto el proyecto activo más reciente
+        const activo = datos.projects.find(p => p.status === 'active') || datos.projects[0];
+        if (activo) setProyectoVivo(activo.id);
         setLoading(false);
       } catch (error) {
         console.error('Error fetching user data:', error);
@@ -57,6 +49,10 @@ export default function Dashboard() {
     fetchUserData();
   }, [router]);
 
+  // El saldo en vivo (tras cada consumo o compra) manda sobre el del perfil
+  const credits = vivo.saldo ? vivo.saldo.disponible : user?.credits;
+  const totalCredits = vivo.saldo ? vivo.saldo.total : user?.totalCredits;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gray-900">
@@ -84,7 +80,11 @@ export default function Dashboard() {
           <div className="bg-gray-800 rounded-lg p-6 shadow-lg">
             <h2 className="text-xl font-bold text-white mb-4">Plan Actual</h2>
             <div className="text-3xl font-bold text-blue-500 mb-2">{user.plan}</div>
-            <p className="text-gray-400">Licencia válida hasta: 15/11/2023</p>
+            <p className="text-gray-400">
+              {user.licenseValidUntil
+                ? `Licencia válida hasta: ${new Date(user.licenseValidUntil).toLocaleDateString()}`
+                : 'Sin licencia activada'}
+            </p>
           </div>
 
           <div className="bg-gray-800 rounded-lg p-6 shadow-lg">
@@ -98,12 +98,12 @@ export default function Dashboard() {
                 </div>
                 <div className="text-right">
                   <span className="text-xs font-semibold inline-block text-blue-600">
-                    {user.credits}/{user.totalCredits}
+                    {credits}/{totalCredits}
                   </span>
                 </div>
               </div>
               <div className="overflow-hidden h-2 mb-4 text-xs flex rounded bg-blue-200">
-                <div style={{ width: `${(user.credits / user.totalCredits) * 100}%` }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-blue-500"></div>
+                <div style={{ width: `${totalCredits > 0 ? (credits / totalCredits) * 100 : 0}%` }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-blue-500"></div>
               </div>
             </div>
             <button className="mt-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-1 px-3 rounded">
@@ -126,6 +126,27 @@ export default function Dashboard() {
           <CreditsUsage />
         </div>
 
+        {proyectoVivo && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold text-white">En vivo</h2>
+              <select
+                value={proyectoVivo}
+                onChange={(e) => setProyectoVivo(e.target.value)}
+                className="bg-gray-700 text-white text-sm rounded px-2 py-1"
+              >
+                {user.projects.map((project) => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <AgentStatus agentes={vivo.agentes} flujo={vivo.flujo} revisiones={vivo.revisiones} cache={vivo.cache} conectado={vivo.conectado} />
+              <LogViewer logs={vivo.logs} conectado={vivo.conectado} />
+            </div>
+          </div>
+        )}
+
         <div className="bg-gray-800 rounded-lg p-6 shadow-lg">
           <RecentActivity activities={user.recentActivity} />
         </div>
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import Sidebar from '../components/Sidebar';
+import WorkflowGraph, { COLORES_ESTADO, formatDuracion } from '../components/WorkflowGraph';
+import StepDetail from '../components/StepDetail';
+import useProyectoEnVivo from '../hooks/useProyectoEnVivo';
+
+const ESPERA_RECARGA_MS = 500; // Los cambios de un grupo llegan juntos: una sola recarga por ráfaga
+
+// El plan de la orquestación de un proyecto (?project=<id>) como DAG, con el detalle del paso seleccionado
+export default function Workflow() {
+  const router = useRouter();
+  const [proyectos, setProyectos] = useState([]);
+  const [grafo, setGrafo] = useState(null);
+  const [seleccionado, setSeleccionado] = useState(null);
+  const [version, setVersion] = useState(0);
+  const [error, setError] = useState(null);
+  const projectId = typeof router.query.project === 'string' ? router.query.project : null;
+  const vivo = useProyectoEnVivo(projectId);
+
+  useEffect(() => {
+    const token = localStorage.getItem('auth_token');
+    if (!token) {
+      router.push('/login');
+      return;
+    }
+    if (!router.isReady) return;
+
+    const cargarProyectos = async () => {
+      try {
+        const response = await fetch('/api/projects?pageSize=100', { headers: { Authorization: `Bearer ${token}` } });
+        if (response.status === 401) {
+          localStorage.removeItem('auth_token');
+          router.push('/login');
+          return;
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const { items } = await response.json();
+        setProyectos(items);
+        // Sin ?project=, el activo más reciente
+        const activo = items.find(p => p.status === 'active') || items[0];
+        if (!projectId && activo) router.replace({ query: { project: activo.id } });
+      } catch (error) {
+        console.error('Error fetching projects:', error);
+        setError('No se pudieron cargar los proyectos');
+      }
+    };
+    cargarProyectos();
+  }, [router.isReady]);
+
+  useEffect(() => {
+    setSeleccionado(null);
+    setGrafo(null);
+  }, [projectId]);
+
+  // Cada cambio en vivo del flujo (pasos, plan nuevo, acciones aplicadas) recarga el grafo
+  useEffect(() => {
+    const temporizador = setTimeout(() => setVersion(v => v + 1), ESPERA_RECARGA_MS);
+    return () => clearTimeout(temporizador);
+  }, [vivo.flujo]);
+
+  useEffect(() => {
+    if (!projectId) return undefined;
+    let activo = true;
+    const cargarGrafo = async () => {
+      try {
+        const token = localStorage.getItem('auth_token');
+        const response = await fetch(`/api/projects/${projectId}/workflow`, { headers: { Authorization: `Bearer ${token}` } });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const datos = await response.json();
+        if (activo) {
+          setGrafo(datos);
+          setError(null);
+        }
+      } catch (error) {
+        console.error('Error fetching workflow:', error);
+        if (activo) setError('No se pudo cargar el flujo del proyecto');
+      }
+    };
+    cargarGrafo();
+    return () => {
+      activo = false;
+    };
+  }, [projectId, version]);
+
+  const cuenta = (estado) => (grafo ? grafo.pasos.filter(paso => paso.estado === estado && !paso.omitido).length : 0);
+
+  return (
+    <div className="flex min-h-screen bg-gray-900">
+      <Head>
+        <title>Flujo | CJ.DevMind</title>
+        <meta name="description" content="Plan de trabajo de la orquestación" />
+      </Head>
+
+      <Sidebar activePage="workflow" />
+
+      <main className="flex-1 p-8 min-w-0">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Flujo de trabajo</h1>
+            <p className="text-gray-400">
+              {grafo
+                ? `${grafo.pasos.length} pasos · ${cuenta('COMPLETED')} completados · ${cuenta('ERROR')} con error · ruta crítica ${formatDuracion(grafo.duracionCriticaMs)}`
+                : 'El plan que genera el orquestador, paso a paso'}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <span className="flex items-center text-sm text-gray-400">
+              <span className={`inline-block w-3 h-3 rounded-full mr-2 ${vivo.conectado ? 'bg-green-500' : 'bg-red-500'}`}></span>
+              {vivo.conectado ? 'En vivo' : 'Reconectando…'}
+            </span>
+            <select
+              value={projectId || ''}
+              onChange={(e) => router.push({ query: { project: e.target.value } })}
+              className="bg-gray-700 text-white text-sm rounded px-2 py-1"
+            >
+              {proyectos.map((project) => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && <p className="text-red-400 mb-4">{error}</p>}
+
+        {grafo && grafo.pasos.length === 0 && (
+          <div className="bg-gray-800 rounded-lg p-6 shadow-lg text-gray-400">
+            Este proyecto aún no tiene plan. Se muestra al lanzar <code>cj system orchestrate</code> con el dashboard configurado.
+          </div>
+        )}
+
+        {grafo && grafo.pasos.length > 0 && (
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+            <div className="xl:col-span-2 bg-gray-800 rounded-lg p-6 shadow-lg min-w-0">
+              <div className="flex flex-wrap gap-3 mb-4 text-xs text-gray-300">
+                {Object.entries(COLORES_ESTADO).map(([estado, { borde, etiqueta }]) => (
+                  <span key={estado} className="flex items-center">
+                    <span className="inline-block w-3 h-3 rounded mr-1" style={{ backgroundColor: borde }}></span>
+                    {etiqueta}
+                  </span>
+                ))}
+                <span className="flex items-center">
+                  <span className="inline-block w-4 h-1 mr-1" style={{ backgroundColor: '#F472B6' }}></span>
+                  Ruta crítica
+                </span>
+              </div>
+              <WorkflowGraph
+                pasos={grafo.pasos}
+                rutaCritica={grafo.rutaCritica}
+                seleccionado={seleccionado}
+                onSeleccionar={setSeleccionado}
+              />
+            </div>
+            <div>
+              {seleccionado ? (
+                <StepDetail
+                  projectId={projectId}
+                  stepId={seleccionado}
+                  version={version}
+                  onAccion={() => setVersion(v => v + 1)}
+                />
+              ) : (
+                <div className="bg-gray-800 rounded-lg p-6 shadow-lg text-gray-400">
+                  Selecciona un paso pa' ver su entrada, archivos, prompts, consumo y errores
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
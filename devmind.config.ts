@@ -1,9 +1,124 @@
+// Lo que es del usuario de la máquina y no del workspace: la licencia y los cupos gastados
+const DIRECTORIO_USUARIO = `${process.env.HOME || process.env.USERPROFILE || "."}/.cj-devmind`;
+const ARCHIVO_CUPOS = process.env.CJ_QUOTA_FILE || `${DIRECTORIO_USUARIO}/cupos.json`;
+
 export const devmindConfig = {
     projectName: "CJ.DevMind",
     version: "0.1.0",
     domains: ["frontend", "backend", "db", "infra"],
     contextPath: "./context",
     llmProvider: "openai", // También: "claude", "mistral"
+    llm: {
+      // Fuerza un proveedor pa' todos los agentes (ej. "fixture" en tests/CI); vacío = según licencia
+      forceProvider: process.env.CJ_LLM_PROVIDER || "",
+      fixturesDir: "./context/fixtures/llm",
+      fixtureMode: (process.env.CJ_LLM_FIXTURE_MODE || "replay") as "replay" | "record",
+      localUrl: process.env.LOCAL_LLM_URL || "http://localhost:11434",
+      // Ventana de contexto (prompt + respuesta) por modelo; los prompts se recortan pa' caber (services/token-budget.ts)
+      contextWindows: {
+        "GPT-4": 8192,
+        "GPT-3.5": 16385,
+        "Claude": 200000,
+        "Mistral": 8192, // También es el num_ctx que se pide a Ollama
+        "gpt-3.5-turbo": 16385,
+        "gpt-4o": 128000,
+        "gpt-4-turbo": 128000,
+      } as Record<string, number>,
+      // Caché de respuestas en context/cache/llm (services/llm-cache.ts); `cj --no-cache` la salta
+      cache: {
+        enabled: process.env.CJ_LLM_CACHE !== "off",
+        ttlHoras: 168,
+        maxMB: 100,
+      },
+      // Cada prompt y su respuesta, con los secretos redactados, en context/transcripts (services/transcript-store.ts)
+      transcripts: {
+        enabled: process.env.CJ_TRANSCRIPTS !== "off",
+        retencionDias: 30,
+        redactar: [] as string[], // Regex (fuente) de secretos propios del proyecto, además de los formatos conocidos
+      },
+      // Veces que se devuelve al LLM una respuesta JSON inválida con sus errores (services/structured-output.ts)
+      maxReparaciones: 2,
+    },
+    memory: {
+      // Dónde viven los vectores del MemoryAgent: "local" (memory/vectors, sin red) o "pinecone"
+      store: (process.env.CJ_MEMORY_STORE || "local") as "local" | "pinecone",
+      // "local" = hashing offline; "openai" = embeddings de OpenAI (manda el código a la API)
+      embedder: (process.env.CJ_MEMORY_EMBEDDER || "local") as "local" | "openai",
+      localDimension: 512,
+      dir: "./memory",
+      namespace: "default",
+      // Espera tras el último cambio antes de reindexar en `cj docs memory watch`
+      watchDebounceMs: 500,
+      search: {
+        // Peso de la similitud de vectores frente a BM25 en `search:` (0 = solo palabras clave, 1 = solo semántica)
+        pesoVector: 0.5,
+      },
+      // Contexto que se inyecta en los prompts de los agentes (services/context-assembler.ts)
+      contexto: {
+        presupuestoTokens: 3000,
+        k: 5, // Candidatos por tipo de fuente (código, documentos, decisiones, historial)
+        documentos: ["core.md", "rules.md"], // Archivos de context/ en los que se busca por defecto
+      },
+      pinecone: {
+        indexName: "cj-devmind-memory",
+      },
+    },
+    // Libro de créditos en context/ledger (services/credit-ledger.ts)
+    creditos: {
+      tokensPorCredito: 100,
+      // Se abona la primera vez que un usuario aparece en el libro
+      saldoInicial: Number(process.env.CJ_CREDITOS_INICIALES || 1000),
+      minimo: 10, // Con menos disponible no se lanza un prompt fuera de un paso
+      margenReserva: 1.25, // Sobre el consumo medio del agente al estimar cuánto reservar
+      reservaMaxHoras: 6, // Reservas abiertas más viejas son de un proceso que murió: se liberan
+    },
+    // Límites de gasto en créditos (0 = sin límite); `cj system budget set` los cambia por proyecto (services/budget-manager.ts)
+    presupuestos: {
+      proyecto: Number(process.env.CJ_PRESUPUESTO_PROYECTO || 0),
+      ejecucion: Number(process.env.CJ_PRESUPUESTO_EJECUCION || 0), // Por orquestación
+      agentes: {} as Record<string, number>, // Por agente dentro de un proyecto, ej. { "APIAgent": 200 }
+      aviso: 0.8, // Fracción del límite desde la que se avisa
+      corte: 1, // Fracción desde la que no se lanza ni un paso ni un prompt más
+      // Cerca de un límite se baja de modelo; la regla se aplica si el límite más apretado pasó su umbral
+      degradacion: [
+        { desde: "GPT-4", a: "GPT-3.5", umbral: 0.7 },
+        { desde: "GPT-3.5", a: "Mistral", proveedor: "local", umbral: 0.9 },
+      ] as { desde: string; a: string; proveedor?: string; umbral: number }[],
+    },
+    // Licencias firmadas con Ed25519 y verificadas offline (services/license-manager.ts)
+    licencias: {
+      // Dónde guarda `cj system license activate` la licencia; CJ_LICENSE_KEY la pasa directo (CI)
+      archivo: process.env.CJ_LICENSE_FILE || `${DIRECTORIO_USUARIO}/license.key`,
+      // Proyectos y ejecuciones por día gastados de cada cupo; junto a la licencia pa' que borrar o cambiar de workspace no los reinicie
+      cupos: ARCHIVO_CUPOS,
+      graciaDias: 14, // Tras expirar se conserva el tier, con aviso, durante estos días
+    },
+    // Copia de la actividad, el consumo y los pasos en la API del dashboard (services/dashboard-sync.ts); sin url o token no se manda nada
+    dashboard: {
+      url: process.env.CJ_DASHBOARD_URL || "",
+      token: process.env.CJ_DASHBOARD_TOKEN || "", // El de POST /api/auth/login
+      outbox: "./context/dashboard-outbox.jsonl", // Lo que aún no llegó; se reintenta solo
+      lote: 200, // Eventos por petición
+      esperaMs: 2000, // Se agrupan los eventos de este intervalo en una petición
+      maxDetalle: 2000, // Caracteres del JSON de datos de una actividad
+      maxTranscripcion: 20000, // Caracteres de cada prompt y respuesta que se manda pa'l detalle de los pasos
+    },
+    // Ciclo de vida de las tareas del plan (services/task-manager.ts, context/rules.md)
+    tareas: {
+      reintentoBaseMs: 2000, // Espera antes de reintentar un paso fallido; se duplica en cada intento hasta MAX_INTENTOS
+    },
+    // Modo simulación (--dry-run, services/virtual-fs.ts)
+    simulacion: {
+      // Comandos externos que sí se lanzan (prefijos, sin operadores de shell); el resto se lista al final sin ejecutarse
+      comandosPermitidos: ["git status", "git diff", "git log", "git rev-parse", "git ls-files"],
+      // Se escriben de verdad (relativas al directorio de trabajo o absolutas): los prompts de una simulación llegan
+      // al LLM, así que se cobran en el libro de créditos, gastan cupo y quedan en la caché y en las transcripciones
+      rutasReales: ["./context/ledger", ARCHIVO_CUPOS, "./context/cache/llm", "./context/transcripts"],
+    },
+    transactions: {
+      // Puntuación mínima del CodeReviewAgent pa' conservar los cambios de un paso; por debajo se revierte
+      reviewThreshold: Number(process.env.CJ_REVIEW_THRESHOLD || 60),
+    },
     agents: [
       {
         name: "refactor-agent",
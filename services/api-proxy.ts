@@ -0,0 +1,263 @@
+import * as path from 'path';
+import { devmindConfig } from '../devmind.config';
+import {
+  AnthropicProvider,
+  FixtureProvider,
+  LLMProvider,
+  LLMResponse,
+  LocalProvider,
+  OpenAIProvider,
+  ProveedorLLM,
+} from './llm-providers';
+import { LLMCache } from './llm-cache';
+import { EventBus } from './event-bus';
+import { TranscriptStore } from './transcript-store';
+import { OrigenTranscripcion } from '../types/transcript-types';
+import { RecorteSeccion, SeccionPrompt, ajustarPrompt, recortarATokens, renderizarSecciones, ventanaDeModelo } from './token-budget';
+
+/**
+ * APIProxy - Punto único de salida hacia los LLMs
+ *
+ * BaseAgent.ejecutarPrompt, BaseAgent.queryLLM y LLMService pasan por aquí.
+ * El proveedor se elige por licencia (APIConfig) salvo que devmindConfig.llm.forceProvider
+ * (o CJ_LLM_PROVIDER) lo fuerce, ej. "fixture" pa' correr sin red en tests.
+ * Antes de mandar, el prompt se ajusta a la ventana del modelo (services/token-budget.ts).
+ * Las respuestas se guardan en LLMCache (services/llm-cache.ts): un prompt repetido no se vuelve a pagar.
+ * Cada intercambio (prompt enviado, salida cruda, latencia, tokens) queda en TranscriptStore con su origen.
+ */
+
+export interface SolicitudAPI {
+  proveedor: ProveedorLLM;
+  modelo: string;
+  prompt: string | SeccionPrompt[]; // Con secciones se decide qué recortar primero si no cabe
+  maxTokens: number;
+  temperatura?: number;
+  cache?: false | { ttlMs: number }; // false = siempre al proveedor; ttlMs reemplaza llm.cache.ttlHoras
+  origen?: OrigenTranscripcion; // Agente y paso pa' la transcripción; sin él queda como "desconocido"
+}
+
+export interface RespuestaAPI {
+  resultado: string;
+  tokens: number; // Total (prompt + respuesta)
+  tokensPrompt: number;
+  tokensRespuesta: number;
+  proveedor: ProveedorLLM;
+  modelo: string;
+  latenciaMs: number;
+  maxTokens: number; // Respuesta pedida de verdad (menor que la solicitada si el prompt no cabía)
+  recortes: RecorteSeccion[]; // Secciones recortadas o resumidas pa' caber en la ventana
+  cache: boolean; // true = salió de LLMCache, sin llamar al proveedor (tokens = 0)
+  claveCache?: string; // Pa' LLMCache.descartar si la respuesta no sirve
+  transcripcionId?: string; // En TranscriptStore (sin él, las transcripciones están desactivadas)
+}
+
+export class APIProxy {
+  // Compartido entre instancias: cada agente hace `new APIProxy()` pero los clientes se crean una vez
+  private static proveedores = new Map<ProveedorLLM, LLMProvider>();
+
+  // Permite inyectar un proveedor (ej. uno de prueba) o reemplazar el de fábrica
+  static registrarProveedor(proveedor: LLMProvider): void {
+    APIProxy.proveedores.set(proveedor.nombre, proveedor);
+  }
+
+  static limpiarProveedores(): void {
+    APIProxy.proveedores.clear();
+  }
+
+  async ejecutar(solicitud: SolicitudAPI): Promise<RespuestaAPI> {
+    const proveedor = this.resolverProveedor(solicitud.proveedor);
+    const inicio = Date.now();
+    let tokensResumen = 0;
+    let maxTokensRespuesta = solicitud.maxTokens;
+    let recortes: RecorteSeccion[] = [];
+    const promptCompleto = typeof solicitud.prompt === 'string' ? solicitud.prompt : renderizarSecciones(solicitud.prompt);
+
+    // Las fixtures ya son una caché en disco: no se duplican
+    const cache = LLMCache.getInstance();
+    const usarCache = solicitud.cache !== false && cache.activa && proveedor.nombre !== 'fixture';
+    // Clave sobre el prompt completo: el recorte depende de la ventana, no de lo que pidió el agente
+    const clave = usarCache
+      ? cache.clave({
+          proveedor: proveedor.nombre,
+          modelo: solicitud.modelo,
+          prompt: promptCompleto,
+          temperatura: solicitud.temperatura,
+        })
+      : '';
+    const guardada = usarCache ? cache.obtener(clave) : null;
+    if (guardada) {
+      const desdeCache: RespuestaAPI = {
+        resultado: guardada.resultado,
+        tokens: 0,
+        tokensPrompt: 0,
+        tokensRespuesta: 0,
+        proveedor: proveedor.nombre,
+        modelo: guardada.modelo,
+        latenciaMs: Date.now() - inicio,
+        maxTokens: solicitud.maxTokens,
+        recortes: [],
+        cache: true,
+        claveCache: clave,
+      };
+      return { ...desdeCache, transcripcionId: this.transcribir(solicitud, promptCompleto, desdeCache)?.id };
+    }
+
+    let enviado = promptCompleto; // El ajustado a la ventana en cuanto se conoce
+    let respuesta: LLMResponse;
+    try {
+      const ajustado = await ajustarPrompt(solicitud.prompt, {
+        modelo: solicitud.modelo,
+        maxTokensRespuesta: solicitud.maxTokens,
+        resumir: async (texto, tokens) => {
+          const resumen = await this.resumir(proveedor, solicitud, texto, tokens);
+          tokensResumen += resumen.tokensPrompt + resumen.tokensRespuesta;
+          return resumen.texto;
+        },
+      });
+      enviado = ajustado.prompt;
+      maxTokensRespuesta = ajustado.maxTokensRespuesta;
+      recortes = ajustado.recortes;
+
+      respuesta = await proveedor.completar({
+        modelo: solicitud.modelo,
+        prompt: ajustado.prompt,
+        maxTokens: ajustado.maxTokensRespuesta,
+        temperatura: solicitud.temperatura,
+      });
+    } catch (error) {
+      this.transcribir(solicitud, enviado, { proveedor: proveedor.nombre, modelo: solicitud.modelo, latenciaMs: Date.now() - inicio, maxTokens: maxTokensRespuesta }, error as Error);
+      throw error;
+    }
+
+    if (usarCache && respuesta.texto.trim()) {
+      cache.guardar(
+        {
+          clave,
+          proveedor: proveedor.nombre,
+          modelo: respuesta.modelo,
+          temperatura: solicitud.temperatura,
+          resultado: respuesta.texto,
+          tokensPrompt: respuesta.tokensPrompt + tokensResumen,
+          tokensRespuesta: respuesta.tokensRespuesta,
+          creada: new Date().toISOString(),
+        },
+        solicitud.cache ? solicitud.cache.ttlMs : undefined
+      );
+    }
+
+    const resultado: RespuestaAPI = {
+      resultado: respuesta.texto,
+      // Los resúmenes hechos pa' caber también se pagan: cuentan como prompt
+      tokens: respuesta.tokensPrompt + respuesta.tokensRespuesta + tokensResumen,
+      tokensPrompt: respuesta.tokensPrompt + tokensResumen,
+      tokensRespuesta: respuesta.tokensRespuesta,
+      proveedor: proveedor.nombre,
+      modelo: respuesta.modelo,
+      latenciaMs: Date.now() - inicio,
+      maxTokens: maxTokensRespuesta,
+      recortes,
+      cache: false,
+      claveCache: usarCache ? clave : undefined,
+    };
+    // En la transcripción, los tokens de esta llamada: los resúmenes tienen la suya
+    const transcripcion = this.transcribir(solicitud, enviado, {
+      ...resultado,
+      tokensPrompt: respuesta.tokensPrompt,
+      tokensRespuesta: respuesta.tokensRespuesta,
+    });
+    return { ...resultado, transcripcionId: transcripcion?.id };
+  }
+
+  // Resumen de una sección que no cabe; lo que se manda a resumir también se recorta a la ventana
+  private async resumir(proveedor: LLMProvider, solicitud: SolicitudAPI, texto: string, tokens: number): Promise<LLMResponse> {
+    const entrada = recortarATokens(texto, Math.floor(ventanaDeModelo(solicitud.modelo) * 0.8) - tokens);
+    const prompt = `Resume el siguiente texto en menos de ${tokens} tokens. Conserva nombres de archivos, símbolos, decisiones y reglas; no agregues nada que no esté en el texto.\n\n${entrada}`;
+    const inicio = Date.now();
+    const datos = { proveedor: proveedor.nombre, modelo: solicitud.modelo, maxTokens: tokens, temperatura: 0 };
+    try {
+      const resumen = await proveedor.completar({ modelo: solicitud.modelo, prompt, maxTokens: tokens, temperatura: 0 });
+      this.transcribir({ ...solicitud, temperatura: 0 }, prompt, {
+        ...datos,
+        resultado: resumen.texto,
+        modelo: resumen.modelo,
+        tokensPrompt: resumen.tokensPrompt,
+        tokensRespuesta: resumen.tokensRespuesta,
+        latenciaMs: Date.now() - inicio,
+      }, undefined, 'resumen');
+      return resumen;
+    } catch (error) {
+      this.transcribir({ ...solicitud, temperatura: 0 }, prompt, { ...datos, latenciaMs: Date.now() - inicio }, error as Error, 'resumen');
+      throw error;
+    }
+  }
+
+  // Un intercambio a TranscriptStore con el correlationId del evento en curso; los que fallan, con su error
+  private transcribir(
+    solicitud: SolicitudAPI,
+    prompt: string,
+    respuesta: Partial<RespuestaAPI> & Pick<RespuestaAPI, 'proveedor' | 'modelo' | 'latenciaMs' | 'maxTokens'>,
+    error?: Error,
+    tipo: 'prompt' | 'resumen' = 'prompt'
+  ) {
+    const store = TranscriptStore.getInstance();
+    if (!store.activo) return undefined;
+    const { origen } = solicitud;
+    return store.registrar({
+      agente: origen?.agente || 'desconocido',
+      proyectoId: origen?.proyectoId,
+      stepId: origen?.stepId,
+      correlationId: EventBus.getInstance().currentCorrelationId(),
+      replayDe: origen?.replayDe,
+      tipo,
+      proveedor: respuesta.proveedor,
+      modeloPedido: solicitud.modelo,
+      modelo: respuesta.modelo,
+      temperatura: solicitud.temperatura,
+      maxTokens: respuesta.maxTokens,
+      prompt,
+      respuesta: respuesta.resultado || '',
+      tokensPrompt: respuesta.tokensPrompt || 0,
+      tokensRespuesta: respuesta.tokensRespuesta || 0,
+      latenciaMs: respuesta.latenciaMs,
+      cache: Boolean(respuesta.cache),
+      error: error?.message,
+    });
+  }
+
+  // Proveedor efectivo: el forzado por config/entorno gana sobre el pedido por el agente
+  proveedorEfectivo(pedido: ProveedorLLM): ProveedorLLM {
+    const forzado = devmindConfig.llm.forceProvider as ProveedorLLM | '';
+    return forzado || pedido;
+  }
+
+  private resolverProveedor(pedido: ProveedorLLM): LLMProvider {
+    const nombre = this.proveedorEfectivo(pedido);
+    if (!APIProxy.proveedores.has(nombre)) {
+      APIProxy.proveedores.set(nombre, this.crearProveedor(nombre));
+    }
+    return APIProxy.proveedores.get(nombre)!;
+  }
+
+  // Factory de proveedores
+  private crearProveedor(nombre: ProveedorLLM): LLMProvider {
+    switch (nombre) {
+      case 'openai':
+        return new OpenAIProvider();
+      case 'anthropic':
+        return new AnthropicProvider();
+      case 'local':
+        return new LocalProvider(devmindConfig.llm.localUrl);
+      case 'fixture': {
+        // En modo record se graba lo que responde el proveedor configurado en devmindConfig.llmProvider
+        const real = devmindConfig.llmProvider === 'claude' ? 'anthropic' : devmindConfig.llmProvider === 'mistral' ? 'local' : 'openai';
+        return new FixtureProvider({
+          dir: path.resolve(process.cwd(), devmindConfig.llm.fixturesDir),
+          modo: devmindConfig.llm.fixtureMode,
+          delegado: devmindConfig.llm.fixtureMode === 'record' ? this.crearProveedor(real) : undefined,
+        });
+      }
+      default:
+        throw new Error(`Proveedor de LLM no soportado: ${nombre}`);
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { devmindConfig } from '../devmind.config';
+import {
+  AlcanceGasto,
+  AmbitoPresupuesto,
+  DecisionPresupuesto,
+  EstadoPresupuesto,
+  EstimacionPaso,
+  EstimacionPlan,
+  LimitesPresupuesto,
+  ReglaDegradacion,
+} from '../types/budget-types';
+import { FiltroConsumo } from '../types/ledger-types';
+import { CreditLedger } from './credit-ledger';
+
+/**
+ * BudgetManager - Límites de gasto por proyecto, por orquestación y por agente
+ *
+ * Lo gastado sale del CreditLedger (consumido + reservado por pasos en curso). Antes de cada
+ * paso y de cada prompt, BaseAgent pregunta con lo que va a gastar:
+ * - Pasado `presupuestos.aviso` se sigue, pero el resultado lleva el aviso y sale un MONITORING_ALERT
+ * - Pasado `presupuestos.corte` se corta con PresupuestoExcedidoError
+ * - Con las reglas de `presupuestos.degradacion`, cerca del límite se baja de modelo (GPT-4 → GPT-3.5 → Mistral)
+ * El orquestador además estima el coste del plan entero antes de ejecutar nada.
+ *
+ * Los límites por defecto vienen de devmind.config.ts; los de cada proyecto, de context/budgets.json.
+ */
+
+export class PresupuestoExcedidoError extends Error {
+  constructor(public readonly estado: EstadoPresupuesto) {
+    super(`Presupuesto ${describirAmbito(estado)} agotado: ${estado.previsto} de ${estado.limite} créditos`);
+    this.name = 'PresupuestoExcedidoError';
+  }
+}
+
+interface ArchivoPresupuestos {
+  version: 1;
+  proyectos: Record<string, LimitesPresupuesto>;
+}
+
+export function describirAmbito(estado: Pick<EstadoPresupuesto, 'ambito' | 'clave'>): string {
+  const nombres: Record<AmbitoPresupuesto, string> = {
+    proyecto: `del proyecto ${estado.clave}`,
+    ejecucion: `de la orquestación ${estado.clave.substring(0, 8)}`,
+    agente: `de ${estado.clave} en el proyecto`,
+  };
+  return nombres[estado.ambito];
+}
+
+const porcentaje = (fraccion: number): string => `${Math.round(fraccion * 100)}%`;
+
+export class BudgetManager {
+  private static instance: BudgetManager;
+  private archivo: string;
+
+  constructor(archivo: string = path.resolve(process.cwd(), devmindConfig.contextPath, 'budgets.json')) {
+    this.archivo = archivo;
+  }
+
+  static getInstance(): BudgetManager {
+    if (!BudgetManager.instance) {
+      BudgetManager.instance = new BudgetManager();
+    }
+    return BudgetManager.instance;
+  }
+
+  // Límites que rigen pa' un proyecto: los suyos y, donde no los tenga, los de la configuración
+  limites(proyectoId?: string): Required<LimitesPresupuesto> {
+    const base = devmindConfig.presupuestos;
+    const propios = (proyectoId && this.leer().proyectos[proyectoId]) || {};
+    return {
+      proyecto: propios.proyecto ?? base.proyecto,
+      ejecucion: propios.ejecucion ?? base.ejecucion,
+      agentes: { ...base.agentes, ...propios.agentes },
+    };
+  }
+
+  // Cambia los límites propios de un proyecto (0 = sin límite, aunque la configuración tenga uno)
+  fijar(proyectoId: string, cambios: LimitesPresupuesto): LimitesPresupuesto {
+    const datos = this.leer();
+    const actuales = datos.proyectos[proyectoId] || {};
+    const nuevos: LimitesPresupuesto = {
+      ...actuales,
+      ...cambios,
+      agentes: { ...actuales.agentes, ...cambios.agentes },
+    };
+    for (const [nombre, limite] of [['proyecto', cambios.proyecto], ['ejecucion', cambios.ejecucion]] as const) {
+      if (limite !== undefined && !(limite >= 0)) throw new Error(`Límite ${nombre} inválido: ${limite}`);
+    }
+    for (const [agente, limite] of Object.entries(cambios.agentes || {})) {
+      if (!(limite >= 0)) throw new Error(`Límite inválido pa' ${agente}: ${limite}`);
+    }
+    datos.proyectos[proyectoId] = nuevos;
+    this.escribir(datos);
+    return nuevos;
+  }
+
+  // Vuelve a los límites de la configuración
+  quitar(proyectoId: string): boolean {
+    const datos = this.leer();
+    if (!datos.proyectos[proyectoId]) return false;
+    delete datos.proyectos[proyectoId];
+    this.escribir(datos);
+    return true;
+  }
+
+  /**
+   * ¿Se puede gastar `adicional` más en este alcance? Revisa proyecto, agente dentro del proyecto
+   * y orquestación (los que tengan límite). Con `modelo`, dice además si toca bajar de modelo.
+   */
+  evaluar(alcance: AlcanceGasto, opciones: { adicional?: number; modelo?: string } = {}): DecisionPresupuesto {
+    const adicional = opciones.adicional || 0;
+    const limites = this.limites(alcance.proyectoId);
+    const { userId, proyectoId, ejecucionId, agente } = alcance;
+    const estados: EstadoPresupuesto[] = [];
+
+    if (proyectoId) {
+      estados.push(...this.estado('proyecto', proyectoId, limites.proyecto, { userId, proyectoId }, adicional));
+      if (agente) {
+        estados.push(...this.estado('agente', agente, limites.agentes[agente] || 0, { userId, proyectoId, agente }, adicional));
+      }
+    }
+    if (ejecucionId) {
+      estados.push(...this.estado('ejecucion', ejecucionId, limites.ejecucion, { userId, ejecucionId }, adicional));
+    }
+    return this.decidir(estados, opciones.modelo);
+  }
+
+  /**
+   * Coste previsto de un plan antes de ejecutarlo: cada paso con la estimación de su agente.
+   * El total se evalúa contra el proyecto y la orquestación; lo de cada agente, contra su límite.
+   */
+  estimarPlan(pasos: EstimacionPaso[], alcance: AlcanceGasto): EstimacionPlan {
+    const total = Math.round(pasos.reduce((suma, paso) => suma + paso.creditos, 0) * 1000) / 1000;
+    const { estados } = this.evaluar({ ...alcance, agente: undefined }, { adicional: total });
+
+    const porAgente = new Map<string, number>();
+    pasos.forEach(paso => porAgente.set(paso.agente, (porAgente.get(paso.agente) || 0) + paso.creditos));
+    for (const [agente, creditos] of porAgente) {
+      const deAgente = this.evaluar({ ...alcance, agente }, { adicional: creditos }).estados;
+      estados.push(...deAgente.filter(estado => estado.ambito === 'agente'));
+    }
+
+    const decision = this.decidir(estados);
+    const disponible = CreditLedger.getInstance().saldo(alcance.userId).disponible;
+    if (total > disponible) {
+      decision.avisos.push(`El plan puede costar ${total} créditos y quedan ${disponible}: algún paso podría no tener saldo pa' su reserva`);
+    }
+    return { pasos, total, disponible, decision };
+  }
+
+  private estado(
+    ambito: AmbitoPresupuesto,
+    clave: string,
+    limite: number,
+    filtro: FiltroConsumo,
+    adicional: number
+  ): EstadoPresupuesto[] {
+    if (!(limite > 0)) return [];
+    const { aviso, corte } = devmindConfig.presupuestos;
+    const gastado = CreditLedger.getInstance().gastado(filtro);
+    const previsto = Math.round((gastado + adicional) * 1000) / 1000;
+    const fraccion = previsto / limite;
+    const nivel = fraccion >= corte ? 'corte' : fraccion >= aviso ? 'aviso' : 'ok';
+    return [{ ambito, clave, limite, gastado, previsto, fraccion, nivel }];
+  }
+
+  private decidir(estados: EstadoPresupuesto[], modelo?: string): DecisionPresupuesto {
+    const avisos = estados
+      .filter(estado => estado.nivel !== 'ok')
+      .map(estado => `Presupuesto ${describirAmbito(estado)} al ${porcentaje(estado.fraccion)} (${estado.previsto}/${estado.limite} créditos)`);
+    const decision: DecisionPresupuesto = { permitido: estados.every(estado => estado.nivel !== 'corte'), estados, avisos };
+
+    const masApretado = [...estados].sort((a, b) => b.fraccion - a.fraccion)[0];
+    if (modelo && masApretado) {
+      const degradado = this.degradar(modelo, masApretado.fraccion);
+      if (degradado) {
+        decision.degradacion = {
+          ...degradado,
+          motivo: `${modelo} → ${degradado.modelo}: presupuesto ${describirAmbito(masApretado)} al ${porcentaje(masApretado.fraccion)}`,
+        };
+      }
+    }
+    return decision;
+  }
+
+  // Sigue la cadena de reglas (GPT-4 → GPT-3.5 → Mistral) mientras la fracción pase su umbral
+  private degradar(modelo: string, fraccion: number): { proveedor?: string; modelo: string } | undefined {
+    const reglas: ReglaDegradacion[] = devmindConfig.presupuestos.degradacion;
+    const vistos = new Set([modelo]);
+    let actual: { proveedor?: string; modelo: string } | undefined;
+    for (;;) {
+      const regla = reglas.find(r => r.desde === (actual?.modelo ?? modelo) && fraccion >= r.umbral);
+      if (!regla || vistos.has(regla.a)) return actual;
+      vistos.add(regla.a);
+      actual = { proveedor: regla.proveedor ?? actual?.proveedor, modelo: regla.a };
+    }
+  }
+
+  private leer(): ArchivoPresupuestos {
+    if (!fs.existsSync(this.archivo)) {
+      return { version: 1, proyectos: {} };
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.archivo, 'utf-8')) as ArchivoPresupuestos;
+    } catch (error) {
+      throw new Error(`No se pudo leer ${this.archivo}: ${(error as Error).message}`);
+    }
+  }
+
+  // Escritura atómica (tmp + rename), como el TaskManager
+  private escribir(datos: ArchivoPresupuestos): void {
+    fs.mkdirSync(path.dirname(this.archivo), { recursive: true });
+    const tmp = `${this.archivo}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(datos, null, 2));
+    fs.renameSync(tmp, this.archivo);
+  }
+}
+
+// Vista previa del coste de un plan (cj system orchestrate --preview)
+export function formatearEstimacion(estimacion: EstimacionPlan): string {
+  const lineas = [`Coste estimado: ${estimacion.total} créditos (disponible: ${estimacion.disponible})`];
+  for (const paso of estimacion.pasos) {
+    lineas.push(`  [${paso.stepId}] ${paso.agente.padEnd(22)} ${String(paso.creditos).padStart(8)}`);
+  }
+  for (const estado of estimacion.decision.estados) {
+    lineas.push(`Presupuesto ${describirAmbito(estado)}: ${estado.gastado} gastados + ${Math.round((estado.previsto - estado.gastado) * 1000) / 1000} previstos de ${estado.limite}`);
+  }
+  estimacion.decision.avisos.forEach(aviso => lineas.push(`⚠️ ${aviso}`));
+  if (!estimacion.decision.permitido) {
+    lineas.push('❌ El plan no cabe en el presupuesto: no se ejecutará. Sube el límite con `cj system budget set` o acota la descripción');
+  }
+  return lineas.join('\n');
+}
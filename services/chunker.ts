@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+
+/**
+ * División de archivos en fragmentos pa' indexarlos (MemoryAgent)
+ *
+ * Corta por líneas, nunca a mitad de línea, con solape entre fragmentos consecutivos
+ * pa' no perder el contexto de una función partida en dos.
+ */
+
+export interface Chunk {
+  id: string; // `${source}#${hash}` del texto y la línea de inicio: un fragmento que no cambió conserva su id
+  texto: string;
+  source: string; // Ruta relativa al proyecto
+  lineaInicio: number; // 1-based
+  lineaFin: number;
+}
+
+export function dividirEnChunks(
+  texto: string,
+  source: string,
+  opciones: { tamano?: number; solape?: number } = {}
+): Chunk[] {
+  const tamano = opciones.tamano ?? 1000;
+  const solape = opciones.solape ?? 200;
+  const lineas = texto.replace(/\r\n/g, '\n').split('\n');
+  const chunks: Chunk[] = [];
+
+  let inicio = 0;
+  while (inicio < lineas.length) {
+    let fin = inicio;
+    let longitud = 0;
+    // Al menos una línea por fragmento, aunque supere el tamaño
+    while (fin < lineas.length && (fin === inicio || longitud + lineas[fin].length + 1 <= tamano)) {
+      longitud += lineas[fin].length + 1;
+      fin++;
+    }
+
+    const contenido = lineas.slice(inicio, fin).join('\n');
+    if (contenido.trim()) {
+      const hash = createHash('sha1').update(`${inicio + 1}\n${contenido}`).digest('hex').substring(0, 16);
+      chunks.push({ id: `${source}#${hash}`, texto: contenido, source, lineaInicio: inicio + 1, lineaFin: fin });
+    }
+    if (fin >= lineas.length) break;
+
+    // Retroceder hasta cubrir `solape` caracteres, sin volver al inicio (avanzar siempre)
+    let siguiente = fin;
+    let solapado = 0;
+    while (siguiente - 1 > inicio && solapado + lineas[siguiente - 1].length + 1 <= solape) {
+      siguiente--;
+      solapado += lineas[siguiente].length + 1;
+    }
+    inicio = siguiente;
+  }
+  return chunks;
+}
@@ -0,0 +1,433 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import { glob } from 'glob';
+import {
+  GrafoCodigo,
+  NodoGrafo,
+  PreguntaGrafo,
+  RelacionGrafo,
+  ResultadoConsultaGrafo,
+  TipoNodoGrafo,
+  TipoRelacion,
+} from '../types/code-graph-types';
+
+/**
+ * Grafo de símbolos del código (MemoryAgent)
+ *
+ * Se construye con el compilador de TypeScript, no con regex: los nodos son archivos, clases,
+ * interfaces, funciones, métodos y símbolos exportados; las relaciones (imports, llamadas,
+ * extends/implements, referencias de tipo) se resuelven con el type checker, así que un
+ * `this.bus.emit()` apunta a `EventBus.emit` aunque nadie lo importe con ese nombre.
+ *
+ * Solo se cargan los archivos del proyecto (noResolve + noLib): lo de node_modules queda sin resolver,
+ * que pa' preguntas de impacto sobre nuestro código es justo lo que queremos.
+ */
+
+const PATRON_CODIGO = '**/*.{ts,tsx,js,jsx}';
+const IGNORADOS_CODIGO = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/*.d.ts'];
+
+// Nombres de las preguntas en la CLI (`graph:callers:X`) → pregunta del grafo
+export const PREGUNTAS_GRAFO: Record<string, PreguntaGrafo> = {
+  callers: 'llamadores',
+  callees: 'llamados',
+  implements: 'implementaciones',
+  extends: 'subclases',
+  refs: 'referencias',
+  impact: 'impacto',
+};
+
+// Grupo (color) de cada tipo de nodo en KnowledgeGraph.tsx
+const GRUPOS: Record<TipoNodoGrafo, number> = {
+  clase: 0,
+  funcion: 1,
+  interfaz: 2,
+  metodo: 3,
+  tipo: 4,
+  enum: 4,
+  variable: 5,
+  archivo: 6,
+};
+
+/**
+ * Complejidad ciclomática: 1 + puntos de decisión (if, ?:, bucles, case, catch, &&, ||, ??)
+ */
+function contarDecisiones(nodo: ts.Node): number {
+  let total = 0;
+  const visitar = (hijo: ts.Node): void => {
+    switch (hijo.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        total++;
+        break;
+      case ts.SyntaxKind.BinaryExpression: {
+        const operador = (hijo as ts.BinaryExpression).operatorToken.kind;
+        if (
+          operador === ts.SyntaxKind.AmpersandAmpersandToken ||
+          operador === ts.SyntaxKind.BarBarToken ||
+          operador === ts.SyntaxKind.QuestionQuestionToken
+        ) {
+          total++;
+        }
+        break;
+      }
+    }
+    ts.forEachChild(hijo, visitar);
+  };
+  ts.forEachChild(nodo, visitar);
+  return total;
+}
+
+export function complejidadCiclomatica(contenido: string, archivo: string): number {
+  const fuente = ts.createSourceFile(archivo, contenido, ts.ScriptTarget.Latest, false, tipoScript(archivo));
+  return 1 + contarDecisiones(fuente);
+}
+
+function tipoScript(archivo: string): ts.ScriptKind {
+  switch (path.extname(archivo)) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.js': return ts.ScriptKind.JS;
+    case '.jsx': return ts.ScriptKind.JSX;
+    default: return ts.ScriptKind.TS;
+  }
+}
+
+const esExportado = (declaracion: ts.Declaration): boolean =>
+  (ts.getCombinedModifierFlags(declaracion) & (ts.ModifierFlags.Export | ts.ModifierFlags.Default)) !== 0;
+
+interface DeclaracionArchivo {
+  declaracion: ts.Declaration;
+  nombre: string;
+  tipo: TipoNodoGrafo;
+  exportado: boolean;
+  padre?: ts.Declaration; // Clase/interfaz de un método (va antes que sus métodos en la lista)
+  cuerpo?: ts.Node; // Pa' la complejidad de funciones y métodos
+}
+
+// Declaraciones de nivel superior (y métodos) de un archivo: los nodos del grafo
+function declaracionesDeArchivo(fuente: ts.SourceFile): DeclaracionArchivo[] {
+  const declaraciones: DeclaracionArchivo[] = [];
+  for (const sentencia of fuente.statements) {
+    if (ts.isClassDeclaration(sentencia) && sentencia.name) {
+      const exportado = esExportado(sentencia);
+      declaraciones.push({ declaracion: sentencia, nombre: sentencia.name.text, tipo: 'clase', exportado });
+      for (const miembro of sentencia.members) {
+        if (ts.isMethodDeclaration(miembro) && miembro.name && ts.isIdentifier(miembro.name)) {
+          declaraciones.push({ declaracion: miembro, nombre: miembro.name.text, tipo: 'metodo', exportado, padre: sentencia, cuerpo: miembro.body });
+        }
+      }
+    } else if (ts.isInterfaceDeclaration(sentencia)) {
+      const exportado = esExportado(sentencia);
+      declaraciones.push({ declaracion: sentencia, nombre: sentencia.name.text, tipo: 'interfaz', exportado });
+      for (const miembro of sentencia.members) {
+        if (ts.isMethodSignature(miembro) && ts.isIdentifier(miembro.name)) {
+          declaraciones.push({ declaracion: miembro, nombre: miembro.name.text, tipo: 'metodo', exportado, padre: sentencia });
+        }
+      }
+    } else if (ts.isFunctionDeclaration(sentencia) && sentencia.name) {
+      declaraciones.push({ declaracion: sentencia, nombre: sentencia.name.text, tipo: 'funcion', exportado: esExportado(sentencia), cuerpo: sentencia.body });
+    } else if (ts.isTypeAliasDeclaration(sentencia)) {
+      declaraciones.push({ declaracion: sentencia, nombre: sentencia.name.text, tipo: 'tipo', exportado: esExportado(sentencia) });
+    } else if (ts.isEnumDeclaration(sentencia)) {
+      declaraciones.push({ declaracion: sentencia, nombre: sentencia.name.text, tipo: 'enum', exportado: esExportado(sentencia) });
+    } else if (ts.isVariableStatement(sentencia)) {
+      for (const declaracion of sentencia.declarationList.declarations) {
+        if (!ts.isIdentifier(declaracion.name)) continue;
+        const inicial = declaracion.initializer;
+        const esFuncion = !!inicial && (ts.isArrowFunction(inicial) || ts.isFunctionExpression(inicial));
+        // Variables sueltas solo si se exportan: son parte de la API del módulo
+        if (esFuncion) {
+          declaraciones.push({ declaracion, nombre: declaracion.name.text, tipo: 'funcion', exportado: esExportado(declaracion), cuerpo: inicial });
+        } else if (esExportado(declaracion)) {
+          declaraciones.push({ declaracion, nombre: declaracion.name.text, tipo: 'variable', exportado: true });
+        }
+      }
+    }
+  }
+  return declaraciones;
+}
+
+export interface SimboloArchivo {
+  nombre: string; // `Clase.metodo` pa' métodos
+  tipo: TipoNodoGrafo;
+  lineaInicio: number; // 1-based
+  lineaFin: number;
+}
+
+/**
+ * El símbolo más interno que contiene `linea` o, si cae entre declaraciones, el primero que
+ * empieza entre `linea` y `hasta` (pa' etiquetar un fragmento de código con su declaración)
+ */
+export function simboloEnLinea(simbolos: SimboloArchivo[], linea: number, hasta: number = linea): SimboloArchivo | undefined {
+  const contenedores = simbolos
+    .filter(simbolo => simbolo.lineaInicio <= linea && simbolo.lineaFin >= linea)
+    .sort((a, b) => (a.lineaFin - a.lineaInicio) - (b.lineaFin - b.lineaInicio));
+  return contenedores[0] || simbolos.find(simbolo => simbolo.lineaInicio >= linea && simbolo.lineaInicio <= hasta);
+}
+
+/**
+ * Símbolos de un archivo con sus rangos de líneas, sin type checker (pa' etiquetar fragmentos al indexar)
+ */
+export function simbolosDeArchivo(contenido: string, archivo: string): SimboloArchivo[] {
+  const fuente = ts.createSourceFile(archivo, contenido, ts.ScriptTarget.Latest, false, tipoScript(archivo));
+  const linea = (posicion: number) => fuente.getLineAndCharacterOfPosition(posicion).line + 1;
+  return declaracionesDeArchivo(fuente).map(({ declaracion, nombre, tipo, padre }) => {
+    const nombrePadre = padre && (padre as ts.ClassDeclaration | ts.InterfaceDeclaration).name?.text;
+    return {
+      nombre: nombrePadre ? `${nombrePadre}.${nombre}` : nombre,
+      tipo,
+      lineaInicio: linea(declaracion.getStart(fuente)),
+      lineaFin: linea(declaracion.getEnd()),
+    };
+  });
+}
+
+class ConstructorGrafo {
+  private nodos = new Map<string, NodoGrafo>();
+  private relaciones = new Map<string, RelacionGrafo>();
+  private porDeclaracion = new Map<ts.Node, string>(); // Declaración → id del nodo
+
+  constructor(private raiz: string, private checker: ts.TypeChecker) {}
+
+  /**
+   * Primera pasada: un nodo por archivo y por declaración de nivel superior (y métodos)
+   */
+  declarar(fuente: ts.SourceFile): void {
+    const archivo = this.relativo(fuente.fileName);
+    this.nodos.set(archivo, { id: archivo, nombre: path.basename(archivo), tipo: 'archivo', archivo, linea: 1, exportado: false });
+    this.porDeclaracion.set(fuente, archivo);
+
+    for (const { declaracion, nombre, tipo, exportado, padre, cuerpo } of declaracionesDeArchivo(fuente)) {
+      const contenedor = padre ? this.porDeclaracion.get(padre) : undefined;
+      this.registrar(fuente, declaracion, nombre, tipo, exportado, contenedor, cuerpo);
+    }
+  }
+
+  /**
+   * Segunda pasada: relaciones, con el dueño (función, método, clase o archivo) del código que las contiene
+   */
+  relacionar(fuente: ts.SourceFile): void {
+    const archivo = this.relativo(fuente.fileName);
+
+    const visitar = (nodo: ts.Node, dueno: string): void => {
+      dueno = this.porDeclaracion.get(nodo) ?? dueno;
+
+      if ((ts.isImportDeclaration(nodo) || ts.isExportDeclaration(nodo)) && nodo.moduleSpecifier) {
+        this.enlazar(archivo, this.resolverModulo(nodo.moduleSpecifier), 'importa', fuente, nodo);
+      } else if (ts.isHeritageClause(nodo)) {
+        const tipo: TipoRelacion = nodo.token === ts.SyntaxKind.ExtendsKeyword ? 'extiende' : 'implementa';
+        for (const heredado of nodo.types) {
+          this.enlazar(dueno, this.resolver(heredado.expression), tipo, fuente, heredado);
+        }
+      } else if (ts.isCallExpression(nodo) || ts.isNewExpression(nodo)) {
+        const llamado = nodo.expression;
+        const argumento = ts.isCallExpression(nodo) ? nodo.arguments[0] : undefined;
+        const esCarga = llamado.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(llamado) && llamado.text === 'require');
+        if (esCarga && argumento && ts.isStringLiteralLike(argumento)) {
+          // import('./x') y require('./x') cuentan como imports del archivo
+          this.enlazar(archivo, this.resolverModulo(argumento), 'importa', fuente, nodo);
+        } else {
+          const objetivo = ts.isPropertyAccessExpression(llamado) ? llamado.name : llamado;
+          this.enlazar(dueno, this.resolver(objetivo), 'llama', fuente, nodo);
+        }
+      } else if (ts.isTypeReferenceNode(nodo)) {
+        const nombre = ts.isQualifiedName(nodo.typeName) ? nodo.typeName.right : nodo.typeName;
+        this.enlazar(dueno, this.resolver(nombre), 'referencia', fuente, nodo);
+      }
+
+      ts.forEachChild(nodo, hijo => visitar(hijo, dueno));
+    };
+
+    ts.forEachChild(fuente, hijo => visitar(hijo, archivo));
+  }
+
+  grafo(archivos: number): GrafoCodigo {
+    return {
+      version: 1,
+      generado: new Date().toISOString(),
+      archivos,
+      nodos: [...this.nodos.values()],
+      relaciones: [...this.relaciones.values()],
+    };
+  }
+
+  private registrar(
+    fuente: ts.SourceFile,
+    declaracion: ts.Declaration,
+    nombre: string,
+    tipo: TipoNodoGrafo,
+    exportado: boolean,
+    contenedor?: string,
+    cuerpo?: ts.Node
+  ): string {
+    const archivo = this.relativo(fuente.fileName);
+    const padre = contenedor ? this.nodos.get(contenedor)?.nombre : undefined;
+    const id = `${archivo}#${padre ? `${padre}.` : ''}${nombre}`;
+    this.porDeclaracion.set(declaracion, id);
+
+    // Sobrecargas y declaraciones fusionadas comparten nodo
+    if (!this.nodos.has(id)) {
+      this.nodos.set(id, {
+        id,
+        nombre,
+        tipo,
+        archivo,
+        linea: fuente.getLineAndCharacterOfPosition(declaracion.getStart(fuente)).line + 1,
+        exportado,
+        contenedor,
+        complejidad: cuerpo ? 1 + contarDecisiones(cuerpo) : undefined,
+      });
+    }
+    return id;
+  }
+
+  private enlazar(origen: string, destino: string | undefined, tipo: TipoRelacion, fuente: ts.SourceFile, nodo: ts.Node): void {
+    if (!destino || destino === origen) return;
+    const clave = `${origen}|${destino}|${tipo}`;
+    if (this.relaciones.has(clave)) return;
+    this.relaciones.set(clave, {
+      origen,
+      destino,
+      tipo,
+      archivo: this.relativo(fuente.fileName),
+      linea: fuente.getLineAndCharacterOfPosition(nodo.getStart(fuente)).line + 1,
+    });
+  }
+
+  // Símbolo del proyecto al que apunta un identificador, atravesando imports y re-exports
+  private resolver(nodo: ts.Node): string | undefined {
+    let simbolo = this.checker.getSymbolAtLocation(nodo);
+    if (simbolo && simbolo.flags & ts.SymbolFlags.Alias) {
+      simbolo = this.checker.getAliasedSymbol(simbolo);
+    }
+    for (const declaracion of simbolo?.declarations || []) {
+      const id = this.porDeclaracion.get(declaracion);
+      if (id) return id;
+    }
+    return undefined;
+  }
+
+  private resolverModulo(especificador: ts.Expression): string | undefined {
+    const modulo = this.checker.getSymbolAtLocation(especificador);
+    const declaracion = modulo?.valueDeclaration;
+    return declaracion && ts.isSourceFile(declaracion) ? this.porDeclaracion.get(declaracion) : undefined;
+  }
+
+  private relativo(archivo: string): string {
+    return path.relative(this.raiz, archivo).split(path.sep).join('/');
+  }
+}
+
+/**
+ * Construye el grafo de símbolos de los archivos dados (por defecto, todo el código del proyecto)
+ */
+export async function construirGrafoCodigo(raiz: string = process.cwd(), archivos?: string[]): Promise<GrafoCodigo> {
+  const relativos = archivos ?? await glob(PATRON_CODIGO, { ignore: IGNORADOS_CODIGO, cwd: raiz });
+  const absolutos = new Set(relativos.map(archivo => path.resolve(raiz, archivo)));
+
+  const programa = ts.createProgram([...absolutos], {
+    allowJs: true,
+    jsx: ts.JsxEmit.Preserve,
+    noEmit: true,
+    noResolve: true, // Los imports se resuelven igual entre archivos del programa; node_modules no se carga
+    noLib: true,
+    types: [],
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    esModuleInterop: true,
+  });
+  const checker = programa.getTypeChecker();
+  const fuentes = programa.getSourceFiles().filter(fuente => !fuente.isDeclarationFile && absolutos.has(path.resolve(fuente.fileName)));
+
+  const constructor = new ConstructorGrafo(raiz, checker);
+  fuentes.forEach(fuente => constructor.declarar(fuente));
+  fuentes.forEach(fuente => constructor.relacionar(fuente));
+  return constructor.grafo(fuentes.length);
+}
+
+/**
+ * Nodos que casan con un nombre: id exacto, `Clase.metodo`, nombre a secas o ruta de archivo
+ */
+export function buscarNodos(grafo: GrafoCodigo, simbolo: string): NodoGrafo[] {
+  const exacto = grafo.nodos.find(nodo => nodo.id === simbolo);
+  if (exacto) return [exacto];
+  return grafo.nodos.filter(nodo =>
+    nodo.tipo === 'archivo' ? nodo.archivo.endsWith(simbolo) : nodo.id.endsWith(`#${simbolo}`) || nodo.nombre === simbolo
+  );
+}
+
+/**
+ * Responde preguntas de impacto sobre el grafo: quién llama a X, qué implementa Y, qué se rompe si cambio Z...
+ */
+export function consultarGrafo(grafo: GrafoCodigo, pregunta: PreguntaGrafo, simbolo: string): ResultadoConsultaGrafo {
+  const objetivos = buscarNodos(grafo, simbolo);
+  const nodos = new Map(grafo.nodos.map(nodo => [nodo.id, nodo]));
+
+  // Qué relaciones seguir, en qué sentido y si se sigue más allá del primer salto
+  const recorridos: Record<PreguntaGrafo, { tipos?: TipoRelacion[]; entrantes: boolean; transitivo: boolean }> = {
+    llamadores: { tipos: ['llama'], entrantes: true, transitivo: false },
+    llamados: { tipos: ['llama'], entrantes: false, transitivo: false },
+    implementaciones: { tipos: ['implementa', 'extiende'], entrantes: true, transitivo: true },
+    subclases: { tipos: ['extiende'], entrantes: true, transitivo: true },
+    referencias: { entrantes: true, transitivo: false },
+    impacto: { entrantes: true, transitivo: true },
+  };
+  const { tipos, entrantes, transitivo } = recorridos[pregunta];
+
+  const adyacentes = new Map<string, RelacionGrafo[]>();
+  for (const relacion of grafo.relaciones) {
+    if (tipos && !tipos.includes(relacion.tipo)) continue;
+    const clave = entrantes ? relacion.destino : relacion.origen;
+    adyacentes.set(clave, [...(adyacentes.get(clave) || []), relacion]);
+  }
+
+  const resultados: ResultadoConsultaGrafo['resultados'] = [];
+  const visitados = new Set(objetivos.map(nodo => nodo.id));
+  let frontera = objetivos.map(nodo => nodo.id);
+  for (let profundidad = 1; frontera.length > 0; profundidad++) {
+    const siguiente: string[] = [];
+    for (const id of frontera) {
+      for (const relacion of adyacentes.get(id) || []) {
+        const vecino = entrantes ? relacion.origen : relacion.destino;
+        const nodo = nodos.get(vecino);
+        if (!nodo || visitados.has(vecino)) continue;
+        visitados.add(vecino);
+        siguiente.push(vecino);
+        resultados.push({ nodo, relacion: relacion.tipo, profundidad, archivo: relacion.archivo, linea: relacion.linea });
+      }
+    }
+    if (!transitivo) break;
+    frontera = siguiente;
+  }
+
+  return { pregunta, simbolo, objetivos, resultados };
+}
+
+/**
+ * Formato de react-force-graph que lee KnowledgeGraph.tsx (dashboard/public/knowledge-graph.json)
+ */
+export function aVisualizacion(grafo: GrafoCodigo) {
+  const nombres = new Map(grafo.nodos.map(nodo => [nodo.id, nodo.nombre]));
+  return {
+    nodes: grafo.nodos.map(nodo => ({
+      id: nodo.id,
+      group: GRUPOS[nodo.tipo],
+      label: nodo.contenedor ? `${nombres.get(nodo.contenedor)}.${nodo.nombre}` : nodo.nombre,
+      kind: nodo.tipo,
+      file: nodo.archivo,
+    })),
+    links: grafo.relaciones.map(relacion => ({
+      source: relacion.origen,
+      target: relacion.destino,
+      value: 1,
+      kind: relacion.tipo,
+    })),
+  };
+}
@@ -0,0 +1,215 @@
+import * as path from 'path';
+import { devmindConfig } from '../devmind.config';
+import { Embedder, tokenizar } from './embedders';
+import { SimboloArchivo, simboloEnLinea } from './code-graph';
+import { DocumentoClave, KeywordIndex, terminosDeConsulta } from './keyword-index';
+import { VectorStore } from './vector-store';
+
+/**
+ * Búsqueda híbrida en el código (MemoryAgent)
+ *
+ * Mezcla BM25 (términos exactos, identificadores) con similitud de vectores (significado) y
+ * devuelve fragmentos ordenados con archivo, rango de líneas, símbolo y snippet resaltado.
+ * Puntuación = pesoVector · coseno + (1 - pesoVector) · BM25 normalizado al mejor resultado.
+ */
+
+export interface FiltrosBusquedaCodigo {
+  ruta?: string; // Glob sobre la ruta relativa (services/**/*.ts); sin comodines = prefijo
+  lenguaje?: string; // typescript, javascript, markdown (o la extensión: ts, md...)
+  tipoSimbolo?: string; // clase, interfaz, funcion, metodo, tipo, enum, variable
+}
+
+export interface OpcionesBusquedaCodigo {
+  store: VectorStore;
+  embedder: Embedder;
+  indice: KeywordIndex;
+  namespace?: string;
+  limite?: number;
+  filtros?: FiltrosBusquedaCodigo;
+  pesoVector?: number;
+}
+
+export interface ResultadoBusquedaCodigo {
+  id: string;
+  archivo: string;
+  lineaInicio: number;
+  lineaFin: number;
+  simbolo?: string;
+  tipoSimbolo?: string;
+  lenguaje: string;
+  puntuacion: number; // 0..1
+  puntuacionClave: number; // BM25 normalizado (0 si no hubo coincidencia de términos)
+  puntuacionVector: number; // Coseno (0 si no salió entre los vecinos)
+  terminos: string[]; // Términos de la consulta presentes en el fragmento
+  fragmento: string; // Líneas más relevantes, con **coincidencias** resaltadas
+  lineaFragmento: number; // Línea del archivo donde empieza el snippet
+}
+
+const LENGUAJES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  md: 'markdown',
+};
+
+const LINEAS_SNIPPET = 5;
+
+export const lenguajeDeArchivo = (archivo: string): string => {
+  const extension = path.extname(archivo).substring(1);
+  return LENGUAJES[extension] || extension;
+};
+
+// Glob → RegExp (**, *, ?, {a,b}); sin comodines se trata como prefijo de ruta
+function globARegex(patron: string): RegExp {
+  if (!/[*?{]/.test(patron)) {
+    return new RegExp(`^${patron.replace(/[.+^$()|[\]\\]/g, '\\$&')}`);
+  }
+  let regex = '';
+  let llaves = 0;
+  for (let i = 0; i < patron.length; i++) {
+    const c = patron[i];
+    if (c === '*' && patron[i + 1] === '*') {
+      // `**/` también casa con cero directorios
+      regex += patron[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += patron[i + 2] === '/' ? 2 : 1;
+    } else if (c === '*') regex += '[^/]*';
+    else if (c === '?') regex += '[^/]';
+    else if (c === '{') { regex += '(?:'; llaves++; }
+    else if (c === '}' && llaves > 0) { regex += ')'; llaves--; }
+    else if (c === ',' && llaves > 0) regex += '|';
+    else regex += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+// tipos: los de los símbolos que tocan el fragmento
+function crearFiltro(filtros: FiltrosBusquedaCodigo = {}): (doc: { source: string; tipos: string[] }) => boolean {
+  const ruta = filtros.ruta ? globARegex(filtros.ruta) : undefined;
+  const lenguaje = filtros.lenguaje ? (LENGUAJES[filtros.lenguaje] || filtros.lenguaje) : undefined;
+  return doc =>
+    (!ruta || ruta.test(doc.source)) &&
+    (!lenguaje || lenguajeDeArchivo(doc.source) === lenguaje) &&
+    (!filtros.tipoSimbolo || doc.tipos.includes(filtros.tipoSimbolo));
+}
+
+const IDENTIFICADOR = /[A-Za-z_][A-Za-z0-9_]*/g;
+
+/**
+ * Ventana de LINEAS_SNIPPET líneas con más términos de la consulta, con las coincidencias entre **.
+ * Si el fragmento tiene el identificador exacto de la consulta se resalta solo ese; si no, cualquier
+ * identificador que contenga un término (getUserById casa con "user").
+ */
+function construirSnippet(
+  texto: string,
+  lineaInicio: number,
+  consulta: string
+): { fragmento: string; lineaFragmento: number; lineaMejor: number } {
+  const terminos = new Set(terminosDeConsulta(consulta));
+  const exactos = new Set((consulta.match(IDENTIFICADOR) || []).map(palabra => palabra.toLowerCase()).filter(palabra => terminos.has(palabra)));
+  const identificadores = texto.match(IDENTIFICADOR) || [];
+  const hayExacto = identificadores.some(palabra => exactos.has(palabra.toLowerCase()));
+  const coincide = (palabra: string) => hayExacto
+    ? exactos.has(palabra.toLowerCase())
+    : tokenizar(palabra).some(token => terminos.has(token));
+
+  const lineas = texto.split('\n');
+  const aciertos = lineas.map(linea => (linea.match(IDENTIFICADOR) || []).filter(coincide).length);
+
+  let mejor = 0;
+  let mejorSuma = -1;
+  for (let i = 0; i < Math.max(1, lineas.length - LINEAS_SNIPPET + 1); i++) {
+    const suma = aciertos.slice(i, i + LINEAS_SNIPPET).reduce((a, b) => a + b, 0);
+    if (suma > mejorSuma) {
+      mejor = i;
+      mejorSuma = suma;
+    }
+  }
+
+  const ventana = aciertos.slice(mejor, mejor + LINEAS_SNIPPET);
+  const fragmento = lineas
+    .slice(mejor, mejor + LINEAS_SNIPPET)
+    .map(linea => linea.replace(IDENTIFICADOR, palabra => coincide(palabra) ? `**${palabra}**` : palabra))
+    .join('\n');
+  return {
+    fragmento,
+    lineaFragmento: lineaInicio + mejor,
+    lineaMejor: lineaInicio + mejor + ventana.indexOf(Math.max(...ventana)),
+  };
+}
+
+export async function buscarCodigo(consulta: string, opciones: OpcionesBusquedaCodigo): Promise<ResultadoBusquedaCodigo[]> {
+  const limite = opciones.limite ?? 10;
+  const pesoVector = opciones.pesoVector ?? devmindConfig.memory.search.pesoVector;
+  const filtro = crearFiltro(opciones.filtros);
+  const hayFiltros = Object.values(opciones.filtros || {}).some(Boolean);
+  // Candidatos de sobra: los filtros se aplican después de la búsqueda de vectores
+  const candidatos = Math.max(limite * 5, 50);
+
+  const clave = opciones.indice.buscar(consulta, candidatos, documento =>
+    filtro({ source: documento.source, tipos: (documento.simbolos || []).map(simbolo => simbolo.tipo) })
+  );
+  const [vectorConsulta] = await opciones.embedder.embed([consulta]);
+  const vecinos = (await opciones.store.buscar(vectorConsulta, hayFiltros ? candidatos * 4 : candidatos, opciones.namespace))
+    .filter(vecino => {
+      const documento = opciones.indice.obtener(vecino.id);
+      const tipos = documento?.simbolos?.map(simbolo => simbolo.tipo) ?? [vecino.metadata.symbolKind as string].filter(Boolean);
+      return filtro({ source: vecino.metadata.source, tipos });
+    });
+
+  const maximoClave = clave[0]?.puntuacion || 1;
+  const combinados = new Map<string, { documento: DocumentoClave; clave: number; vector: number; terminos: string[] }>();
+  for (const resultado of clave) {
+    combinados.set(resultado.documento.id, { documento: resultado.documento, clave: resultado.puntuacion / maximoClave, vector: 0, terminos: resultado.terminos });
+  }
+  for (const vecino of vecinos) {
+    const existente = combinados.get(vecino.id);
+    if (existente) {
+      existente.vector = Math.max(0, vecino.puntuacion);
+      continue;
+    }
+    // Fragmento sin entrada en el índice de palabras (p. ej. indexado antes de que existiera)
+    const documento: DocumentoClave = opciones.indice.obtener(vecino.id) || {
+      id: vecino.id,
+      source: vecino.metadata.source,
+      lineaInicio: Number(vecino.metadata.lineStart) || 1,
+      lineaFin: Number(vecino.metadata.lineEnd) || 1,
+      texto: vecino.texto,
+      simbolos: vecino.metadata.symbol
+        ? [{ nombre: String(vecino.metadata.symbol), tipo: vecino.metadata.symbolKind as SimboloArchivo['tipo'], lineaInicio: Number(vecino.metadata.lineStart), lineaFin: Number(vecino.metadata.lineEnd) }]
+        : [],
+    };
+    combinados.set(vecino.id, { documento, clave: 0, vector: Math.max(0, vecino.puntuacion), terminos: [] });
+  }
+
+  return [...combinados.values()]
+    .map(({ documento, clave: puntuacionClave, vector: puntuacionVector, terminos: encontrados }) => ({
+      documento,
+      puntuacionClave,
+      puntuacionVector,
+      encontrados,
+      puntuacion: pesoVector * puntuacionVector + (1 - pesoVector) * puntuacionClave,
+    }))
+    .sort((a, b) => b.puntuacion - a.puntuacion)
+    .slice(0, limite)
+    .map(({ documento, puntuacion, puntuacionClave, puntuacionVector, encontrados }) => {
+      const { fragmento, lineaFragmento, lineaMejor } = construirSnippet(documento.texto, documento.lineaInicio, consulta);
+      // El símbolo del resultado es el de la línea que más casa, no el del inicio del fragmento
+      const simbolo = simboloEnLinea(documento.simbolos || [], lineaMejor);
+      return {
+        id: documento.id,
+        archivo: documento.source,
+        lineaInicio: documento.lineaInicio,
+        lineaFin: documento.lineaFin,
+        simbolo: simbolo?.nombre,
+        tipoSimbolo: simbolo?.tipo,
+        lenguaje: lenguajeDeArchivo(documento.source),
+        puntuacion,
+        puntuacionClave,
+        puntuacionVector,
+        terminos: encontrados,
+        fragmento,
+        lineaFragmento,
+      };
+    });
+}
@@ -0,0 +1,327 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { devmindConfig } from '../devmind.config';
+import { crearEmbedder, Embedder } from './embedders';
+import { crearVectorStore, VectorStore } from './vector-store';
+import { dividirEnChunks } from './chunker';
+import { DocumentoClave, KeywordIndex } from './keyword-index';
+import { buscarCodigo } from './code-search';
+import { contarTokens } from './token-budget';
+
+/**
+ * ContextAssembler - Contexto relevante pa' los prompts de los agentes (RAG)
+ *
+ * En vez de pegar core.md/rules.md enteros o el ContextoProyecto en JSON, recupera pa' cada prompt:
+ * - código: búsqueda híbrida en la memoria del MemoryAgent (memory/vectors + memory/keywords)
+ * - documentos y decisiones: secciones de context/*.md y de las ADR de context/decisions (BM25)
+ * - historial: cambios registrados (`memory record:`) y actividad del proyecto
+ * y lo recorta a un presupuesto de tokens, alternando tipos pa' que ninguno se coma todo el presupuesto.
+ * Cada ensamblado se apunta en context/context-sources.jsonl con las fuentes usadas (fuera de memory/
+ * pa' que el rollback de un paso fallido no borre el rastro).
+ *
+ * Si la memoria no está indexada (o el índice es de otro embedder) sigue sin código: un prompt
+ * no debe fallar por eso.
+ */
+
+export type TipoFuenteContexto = 'codigo' | 'documento' | 'decision' | 'historial';
+
+export interface EntradaHistorialContexto {
+  fecha: string;
+  descripcion: string;
+  archivo?: string;
+  agente?: string;
+}
+
+export interface OpcionesContexto {
+  presupuestoTokens?: number;
+  k?: number; // Candidatos por tipo de fuente
+  tipos?: TipoFuenteContexto[]; // Todos por defecto
+  documentos?: string[]; // Archivos de context/ a considerar (core.md, rules.md...)
+  historial?: EntradaHistorialContexto[]; // Entradas extra (p. ej. el historial del ContextoProyecto)
+  agente?: string; // Pa'l registro de fuentes
+}
+
+export interface FuenteContexto {
+  tipo: TipoFuenteContexto;
+  origen: string; // archivo:líneas, o la fecha pa' entradas del historial
+  titulo: string;
+  puntuacion: number;
+  tokens: number;
+}
+
+export interface ContextoEnsamblado {
+  consulta: string;
+  texto: string; // Markdown listo pa' pegar en el prompt ('' si no hubo nada relevante)
+  tokens: number;
+  presupuestoTokens: number;
+  fuentes: FuenteContexto[];
+  descartadas: number; // Candidatas que no cupieron en el presupuesto
+}
+
+interface MemoriaContexto {
+  store: VectorStore;
+  embedder: Embedder;
+  indice: KeywordIndex;
+  namespace: string;
+}
+
+interface Candidata extends FuenteContexto {
+  contenido: string;
+}
+
+const TIPOS: TipoFuenteContexto[] = ['codigo', 'documento', 'decision', 'historial'];
+
+const TITULOS: Record<TipoFuenteContexto, string> = {
+  codigo: 'Código relevante',
+  documento: 'Documentación del proyecto',
+  decision: 'Decisiones arquitectónicas',
+  historial: 'Historial reciente',
+};
+
+// Secciones más largas que esto se parten con el chunker
+const TAMANO_SECCION = 1500;
+
+// Historial sin coincidencias: se usan las entradas más recientes
+const HISTORIAL_RECIENTE = 3;
+
+// Secciones de un markdown por encabezado; cada una con la ruta de títulos que la contiene.
+// Un archivo corto (una ADR) va entero
+function seccionesMarkdown(texto: string, source: string): DocumentoClave[] {
+  const lineas = texto.replace(/\r\n/g, '\n').split('\n');
+  if (texto.length <= TAMANO_SECCION) {
+    const titulo = (lineas.find(linea => /^#\s+/.test(linea)) || '').replace(/^#\s+/, '').trim();
+    return texto.trim() ? [{ id: `${source}#1`, source, lineaInicio: 1, lineaFin: lineas.length, texto: `${titulo}\n${texto}` }] : [];
+  }
+  const secciones: { titulo: string; inicio: number; fin: number }[] = [];
+  const ruta: string[] = [];
+  let actual = { titulo: '', inicio: 0, fin: 0 };
+
+  lineas.forEach((linea, i) => {
+    const encabezado = linea.match(/^(#{1,4})\s+(.*)$/);
+    if (!encabezado) return;
+    actual.fin = i;
+    secciones.push(actual);
+    ruta.length = encabezado[1].length - 1;
+    ruta.push(encabezado[2].replace(/[*`]/g, '').trim());
+    actual = { titulo: ruta.filter(Boolean).join(' > '), inicio: i, fin: lineas.length };
+  });
+  actual.fin = lineas.length;
+  secciones.push(actual);
+
+  const documentos: DocumentoClave[] = [];
+  for (const seccion of secciones) {
+    const contenido = lineas.slice(seccion.inicio, seccion.fin).join('\n');
+    if (!contenido.trim()) continue;
+    const partes = contenido.length > TAMANO_SECCION
+      ? dividirEnChunks(contenido, source, { tamano: TAMANO_SECCION, solape: 0 })
+      : [{ texto: contenido, lineaInicio: 1, lineaFin: seccion.fin - seccion.inicio }];
+    partes.forEach(parte => documentos.push({
+      id: `${source}#${seccion.inicio + parte.lineaInicio}`,
+      source,
+      lineaInicio: seccion.inicio + parte.lineaInicio,
+      lineaFin: seccion.inicio + parte.lineaFin,
+      // Primera línea = título (vacío antes del primer encabezado), pa' que BM25 también case con él
+      texto: `${seccion.titulo}\n${parte.texto}`,
+    }));
+  }
+  return documentos;
+}
+
+export class ContextAssembler {
+  private static instance: ContextAssembler;
+  private contextDir: string;
+  private registro: string;
+  private memoria?: MemoriaContexto;
+  private abierta?: Promise<MemoriaContexto | null>;
+  private secciones = new Map<string, { mtime: number; documentos: DocumentoClave[] }>();
+
+  // Con `memoria` usa la ya cargada (MemoryAgent); sin ella abre la de devmind.config.ts al primer uso
+  constructor(memoria?: MemoriaContexto, contextDir: string = path.resolve(process.cwd(), devmindConfig.contextPath)) {
+    this.memoria = memoria;
+    this.contextDir = contextDir;
+    this.registro = path.join(contextDir, 'context-sources.jsonl');
+  }
+
+  static getInstance(): ContextAssembler {
+    if (!ContextAssembler.instance) {
+      ContextAssembler.instance = new ContextAssembler();
+    }
+    return ContextAssembler.instance;
+  }
+
+  async ensamblar(consulta: string, opciones: OpcionesContexto = {}): Promise<ContextoEnsamblado> {
+    const config = devmindConfig.memory.contexto;
+    const presupuestoTokens = opciones.presupuestoTokens ?? config.presupuestoTokens;
+    const k = opciones.k ?? config.k;
+    const tipos = opciones.tipos ?? TIPOS;
+
+    const candidatas: Record<TipoFuenteContexto, Candidata[]> = { codigo: [], documento: [], decision: [], historial: [] };
+    if (tipos.includes('codigo')) candidatas.codigo = await this.buscarCodigo(consulta, k);
+    if (tipos.includes('documento')) candidatas.documento = this.buscarDocumentos(consulta, opciones.documentos ?? config.documentos, k, 'documento');
+    if (tipos.includes('decision')) candidatas.decision = this.buscarDocumentos(consulta, this.decisiones(), k, 'decision');
+    if (tipos.includes('historial')) candidatas.historial = this.buscarHistorial(consulta, opciones.historial || [], k);
+
+    // Por rondas: la mejor de cada tipo, luego la segunda... saltando las que ya no caben
+    const elegidas: Candidata[] = [];
+    let tokens = 0;
+    let descartadas = 0;
+    for (let ronda = 0; ronda < k; ronda++) {
+      for (const tipo of tipos) {
+        const candidata = candidatas[tipo][ronda];
+        if (!candidata) continue;
+        if (tokens + candidata.tokens > presupuestoTokens) {
+          descartadas++;
+          continue;
+        }
+        elegidas.push(candidata);
+        tokens += candidata.tokens;
+      }
+    }
+
+    const texto = tipos
+      .filter(tipo => elegidas.some(c => c.tipo === tipo))
+      .map(tipo => `## ${TITULOS[tipo]}\n\n${elegidas.filter(c => c.tipo === tipo).map(c => c.contenido).join('\n\n')}`)
+      .join('\n\n');
+    const fuentes = elegidas.map(({ contenido, ...fuente }) => fuente);
+    const resultado: ContextoEnsamblado = { consulta, texto, tokens: contarTokens(texto), presupuestoTokens, fuentes, descartadas };
+    this.registrar(resultado, opciones.agente);
+    return resultado;
+  }
+
+  private async abrirMemoria(): Promise<MemoriaContexto | null> {
+    if (this.memoria) return this.memoria;
+    if (!this.abierta) {
+      this.abierta = (async () => {
+        const memoria: MemoriaContexto = {
+          store: crearVectorStore(),
+          embedder: crearEmbedder(),
+          indice: new KeywordIndex(),
+          namespace: devmindConfig.memory.namespace,
+        };
+        try {
+          await memoria.store.inicializar(memoria.embedder);
+          memoria.indice.cargar();
+          return memoria;
+        } catch (error) {
+          console.warn(`⚠️ Contexto sin código: no se pudo abrir la memoria (${(error as Error).message})`);
+          return null;
+        }
+      })();
+    }
+    return this.abierta;
+  }
+
+  private async buscarCodigo(consulta: string, k: number): Promise<Candidata[]> {
+    const memoria = await this.abrirMemoria();
+    if (!memoria || memoria.indice.total === 0) return [];
+
+    const contextRelativo = path.relative(process.cwd(), this.contextDir).split(path.sep).join('/');
+    try {
+      // Pide de más: los markdown de context/ se sacan de disco (siempre al día), no del índice
+      const resultados = (await buscarCodigo(consulta, { ...memoria, limite: k * 2 }))
+        .filter(resultado => !resultado.archivo.startsWith(`${contextRelativo}/`))
+        .slice(0, k);
+      return resultados.map(resultado => {
+        const texto = memoria.indice.obtener(resultado.id)?.texto ?? resultado.fragmento;
+        const origen = `${resultado.archivo}:${resultado.lineaInicio}-${resultado.lineaFin}`;
+        const titulo = resultado.simbolo ? `${resultado.tipoSimbolo} ${resultado.simbolo}` : resultado.archivo;
+        const contenido = `### ${origen}${resultado.simbolo ? ` (${titulo})` : ''}\n\`\`\`${resultado.lenguaje}\n${texto}\n\`\`\``;
+        return { tipo: 'codigo' as const, origen, titulo, puntuacion: resultado.puntuacion, tokens: contarTokens(contenido), contenido };
+      });
+    } catch (error) {
+      console.warn(`⚠️ Contexto sin código: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  private decisiones(): string[] {
+    const dir = path.join(this.contextDir, 'decisions');
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir).filter(nombre => nombre.endsWith('.md')).map(nombre => `decisions/${nombre}`);
+  }
+
+  private buscarDocumentos(consulta: string, archivos: string[], k: number, tipo: 'documento' | 'decision'): Candidata[] {
+    // Índice efímero (namespace propio, nunca se guarda): las secciones se leen de disco
+    const indice = new KeywordIndex('contexto');
+    indice.agregar(archivos.flatMap(archivo => this.seccionesDe(archivo)));
+
+    return indice.buscar(consulta, k).map(({ documento, puntuacion }) => {
+      const [titulo, ...cuerpo] = documento.texto.split('\n');
+      const origen = `${documento.source}:${documento.lineaInicio}-${documento.lineaFin}`;
+      const contenido = `### ${origen}${titulo ? ` — ${titulo}` : ''}\n${cuerpo.join('\n').trim()}`;
+      return { tipo, origen, titulo: titulo || documento.source, puntuacion, tokens: contarTokens(contenido), contenido };
+    });
+  }
+
+  // Secciones de un archivo de context/, cacheadas mientras no cambie
+  private seccionesDe(archivo: string): DocumentoClave[] {
+    const ruta = path.join(this.contextDir, archivo);
+    if (!fs.existsSync(ruta)) return [];
+    const mtime = fs.statSync(ruta).mtimeMs;
+    const cacheadas = this.secciones.get(ruta);
+    if (cacheadas && cacheadas.mtime === mtime) return cacheadas.documentos;
+
+    const source = path.relative(process.cwd(), ruta).split(path.sep).join('/');
+    const documentos = seccionesMarkdown(fs.readFileSync(ruta, 'utf-8'), source);
+    this.secciones.set(ruta, { mtime, documentos });
+    return documentos;
+  }
+
+  private buscarHistorial(consulta: string, extra: EntradaHistorialContexto[], k: number): Candidata[] {
+    const entradas = [...this.historialRegistrado(), ...extra];
+    if (entradas.length === 0) return [];
+
+    const documentos: DocumentoClave[] = entradas.map((entrada, i) => ({
+      id: String(i),
+      source: entrada.archivo || '',
+      lineaInicio: 0,
+      lineaFin: 0,
+      texto: [entrada.archivo, entrada.agente, entrada.descripcion].filter(Boolean).join(' '),
+    }));
+    const indice = new KeywordIndex('historial');
+    indice.agregar(documentos);
+
+    let encontrados = indice.buscar(consulta, k).map(({ documento, puntuacion }) => ({ entrada: entradas[Number(documento.id)], puntuacion }));
+    if (encontrados.length === 0) {
+      encontrados = [...entradas]
+        .sort((a, b) => b.fecha.localeCompare(a.fecha))
+        .slice(0, Math.min(k, HISTORIAL_RECIENTE))
+        .map(entrada => ({ entrada, puntuacion: 0 }));
+    }
+
+    return encontrados.map(({ entrada, puntuacion }) => {
+      const contenido = `- ${entrada.fecha}${entrada.agente ? ` [${entrada.agente}]` : ''}${entrada.archivo ? ` ${entrada.archivo}:` : ''} ${entrada.descripcion}`;
+      return { tipo: 'historial' as const, origen: entrada.fecha, titulo: entrada.descripcion.substring(0, 80), puntuacion, tokens: contarTokens(contenido), contenido };
+    });
+  }
+
+  // Cambios registrados con `cj docs memory record:archivo:descripción`
+  private historialRegistrado(): EntradaHistorialContexto[] {
+    const ruta = path.join(this.contextDir, 'change-history.json');
+    if (!fs.existsSync(ruta)) return [];
+    try {
+      const entradas = JSON.parse(fs.readFileSync(ruta, 'utf-8')) as { timestamp: string; file: string; description: string; agent?: string }[];
+      return entradas.map(e => ({ fecha: e.timestamp, archivo: e.file, descripcion: e.description, agente: e.agent }));
+    } catch {
+      return [];
+    }
+  }
+
+  // Una línea JSON por ensamblado: qué fuentes entraron en qué prompt
+  private registrar(resultado: ContextoEnsamblado, agente?: string): void {
+    try {
+      fs.mkdirSync(path.dirname(this.registro), { recursive: true });
+      fs.appendFileSync(this.registro, JSON.stringify({
+        fecha: new Date().toISOString(),
+        agente,
+        consulta: resultado.consulta.substring(0, 200),
+        tokens: resultado.tokens,
+        presupuestoTokens: resultado.presupuestoTokens,
+        descartadas: resultado.descartadas,
+        fuentes: resultado.fuentes,
+      }) + '\n');
+    } catch (error) {
+      console.warn(`⚠️ No se pudo registrar el contexto usado: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,371 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { devmindConfig } from '../devmind.config';
+import {
+  AsientoLedger,
+  Atribucion,
+  ConsumoAgrupado,
+  DimensionConsumo,
+  FiltroConsumo,
+  LineaAsiento,
+  SaldoCreditos,
+  TipoAsiento,
+} from '../types/ledger-types';
+
+/**
+ * CreditLedger - Libro de créditos de partida doble
+ *
+ * Antes los créditos eran un número en ContextoProyecto.creditosRestantes que cada prompt
+ * restaba a ojo; no había forma de saber qué agente se los gastó. Ahora cada movimiento es un
+ * asiento cuyas líneas suman 0 entre cuentas (disponible, reservado, consumo, compras):
+ * - BaseAgent.ejecutar reserva lo estimado antes del paso, liquida con los tokens reales al
+ *   terminar (por modelo, liberando lo que sobró); si el paso falla cobra los tokens que sí
+ *   se gastaron y reembolsa el resto
+ * - Cada asiento lleva su atribución: usuario, proyecto, agente, paso del plan y modelo
+ * - Vive en context/ledger/asientos.jsonl, solo se añaden líneas (y queda fuera del rollback)
+ *
+ * `cj system credits` muestra el saldo y el consumo por agente, proyecto, modelo o paso.
+ */
+
+export class CreditosInsuficientesError extends Error {
+  constructor(
+    public readonly userId: string,
+    public readonly requeridos: number,
+    public readonly disponibles: number
+  ) {
+    super(`Créditos insuficientes: se necesitan ${requeridos} y quedan ${disponibles}. Recarga en el dashboard.`);
+    this.name = 'CreditosInsuficientesError';
+  }
+}
+
+interface ReservaAbierta {
+  restante: number;
+  atribucion: Atribucion;
+  creada: string;
+}
+
+export interface ConsumoModelo {
+  modelo: string;
+  tokens: number;
+}
+
+const cuenta = {
+  disponible: (userId: string) => `disponible:${userId}`,
+  reservado: (userId: string) => `reservado:${userId}`,
+  consumo: (userId: string) => `consumo:${userId}`,
+  compras: 'compras',
+};
+
+// Milésimas de crédito: suficiente pa' prompts cortos sin arrastrar errores de coma flotante
+const redondear = (valor: number): number => Math.round(valor * 1000) / 1000;
+
+export class CreditLedger {
+  private static instance: CreditLedger;
+  private ruta: string;
+  private asientos: AsientoLedger[] = [];
+  private saldos = new Map<string, number>(); // cuenta → saldo
+  private reservas = new Map<string, ReservaAbierta>();
+  private bytesLeidos = 0;
+  private cargado = false;
+
+  constructor(ruta: string = path.resolve(process.cwd(), devmindConfig.contextPath, 'ledger', 'asientos.jsonl')) {
+    this.ruta = ruta;
+  }
+
+  static getInstance(): CreditLedger {
+    if (!CreditLedger.instance) {
+      CreditLedger.instance = new CreditLedger();
+    }
+    return CreditLedger.instance;
+  }
+
+  creditosDe(tokens: number): number {
+    return redondear(tokens / devmindConfig.creditos.tokensPorCredito);
+  }
+
+  saldo(userId: string): SaldoCreditos {
+    this.abrirCuenta(userId);
+    return {
+      userId,
+      disponible: redondear(this.saldos.get(cuenta.disponible(userId)) || 0),
+      reservado: redondear(this.saldos.get(cuenta.reservado(userId)) || 0),
+      consumido: redondear(this.saldos.get(cuenta.consumo(userId)) || 0),
+    };
+  }
+
+  // Recarga (ej. un CreditPack comprado en el dashboard)
+  acreditar(userId: string, monto: number, opciones: { motivo?: string; referencia?: string } = {}): AsientoLedger {
+    if (!(monto > 0)) {
+      throw new Error(`Monto inválido: ${monto}`);
+    }
+    this.abrirCuenta(userId);
+    return this.registrar('compra', [
+      { cuenta: cuenta.disponible(userId), monto },
+      { cuenta: cuenta.compras, monto: -monto },
+    ], { userId }, opciones);
+  }
+
+  // Aparta `monto` del disponible antes de un paso; el id del asiento es el de la reserva
+  reservar(atribucion: Atribucion, monto: number): AsientoLedger {
+    const { disponible } = this.saldo(atribucion.userId);
+    monto = redondear(monto);
+    if (monto > disponible) {
+      throw new CreditosInsuficientesError(atribucion.userId, monto, disponible);
+    }
+    return this.registrar('reserva', [
+      { cuenta: cuenta.reservado(atribucion.userId), monto },
+      { cuenta: cuenta.disponible(atribucion.userId), monto: -monto },
+    ], atribucion);
+  }
+
+  /**
+   * Cobra el consumo real de un paso: un asiento por modelo y uno de liberación con lo que sobró.
+   * Si el paso gastó más de lo reservado, el exceso sale directo del disponible.
+   */
+  liquidar(reservaId: string, consumos: ConsumoModelo[]): AsientoLedger[] {
+    const reserva = this.reservaAbierta(reservaId);
+    const asientos = this.cobrarConsumos(reservaId, reserva, consumos);
+
+    // aplicar() ya fue descontando lo cobrado de reserva.restante
+    if (reserva.restante > 0) {
+      asientos.push(this.devolver('liberacion', reservaId, reserva, {}));
+    }
+    return asientos;
+  }
+
+  /**
+   * El paso falló: los tokens que ya se gastaron de verdad (los prompts llegaron al proveedor) se
+   * cobran igual que en liquidar() y solo vuelve lo que queda de la reserva. El asiento de reembolso
+   * se registra siempre, aunque no quede nada, pa' contar el paso fallido en los reportes.
+   */
+  reembolsar(reservaId: string, motivo: string, consumos: ConsumoModelo[] = []): AsientoLedger[] {
+    const reserva = this.reservaAbierta(reservaId);
+    const asientos = this.cobrarConsumos(reservaId, reserva, consumos);
+    asientos.push(this.devolver('reembolso', reservaId, reserva, { motivo }));
+    return asientos;
+  }
+
+  // Consumo fuera de un paso (ejecutarPrompt sin ejecutar()): se cobra directo del disponible
+  cobrar(atribucion: Atribucion & { modelo: string; tokens: number }): AsientoLedger | null {
+    const costo = this.creditosDe(atribucion.tokens);
+    if (costo <= 0) return null;
+    this.abrirCuenta(atribucion.userId);
+    return this.registrar('cargo', [
+      { cuenta: cuenta.consumo(atribucion.userId), monto: costo },
+      { cuenta: cuenta.disponible(atribucion.userId), monto: -costo },
+    ], atribucion);
+  }
+
+  /**
+   * Cuánto reservar pa' un paso del agente: su consumo medio en los últimos pasos con margen,
+   * y como mínimo una respuesta completa (maxTokens). Sin historial, dos respuestas completas.
+   */
+  estimar(agente: string, maxTokens: number): number {
+    const porReserva = new Map<string, number>();
+    for (const asiento of this.sincronizar()) {
+      if (asiento.tipo !== 'liquidacion' || asiento.atribucion.agente !== agente || !asiento.reservaId) continue;
+      porReserva.set(asiento.reservaId, (porReserva.get(asiento.reservaId) || 0) + this.costoDe(asiento));
+    }
+    const recientes = [...porReserva.values()].slice(-10);
+    if (recientes.length === 0) {
+      return this.creditosDe(maxTokens * 2);
+    }
+    const promedio = recientes.reduce((total, costo) => total + costo, 0) / recientes.length;
+    return redondear(Math.max(promedio * devmindConfig.creditos.margenReserva, this.creditosDe(maxTokens)));
+  }
+
+  // Quién se gastó los créditos: liquidaciones y cargos agrupados por agente, proyecto, modelo o paso
+  consumoPor(dimension: DimensionConsumo, filtro: FiltroConsumo = {}): ConsumoAgrupado[] {
+    const grupos = new Map<string, ConsumoAgrupado>();
+    for (const asiento of this.movimientos(filtro)) {
+      if (!['liquidacion', 'cargo', 'reembolso'].includes(asiento.tipo)) continue;
+      const clave = this.claveDe(asiento.atribucion, dimension);
+      const grupo = grupos.get(clave) || { clave, creditos: 0, tokens: 0, asientos: 0, reembolsados: 0 };
+      if (asiento.tipo === 'reembolso') {
+        grupo.reembolsados++;
+      } else {
+        grupo.creditos = redondear(grupo.creditos + this.costoDe(asiento));
+        grupo.tokens += asiento.atribucion.tokens || 0;
+        grupo.asientos++;
+      }
+      grupos.set(clave, grupo);
+    }
+    return [...grupos.values()].sort((a, b) => b.creditos - a.creditos);
+  }
+
+  // Consumido más lo reservado por pasos en curso: lo que ya no se puede dar por libre (presupuestos)
+  gastado(filtro: FiltroConsumo): number {
+    const consumido = this.movimientos(filtro).reduce((total, asiento) => total + this.costoDe(asiento), 0);
+    const reservado = [...this.reservas.values()]
+      .filter(({ atribucion }) =>
+        (!filtro.userId || atribucion.userId === filtro.userId) &&
+        (!filtro.proyectoId || atribucion.proyectoId === filtro.proyectoId) &&
+        (!filtro.ejecucionId || atribucion.ejecucionId === filtro.ejecucionId) &&
+        (!filtro.agente || atribucion.agente === filtro.agente)
+      )
+      .reduce((total, reserva) => total + reserva.restante, 0);
+    return redondear(consumido + reservado);
+  }
+
+  movimientos(filtro: FiltroConsumo = {}): AsientoLedger[] {
+    return this.sincronizar().filter(asiento =>
+      (!filtro.userId || asiento.atribucion.userId === filtro.userId) &&
+      (!filtro.proyectoId || asiento.atribucion.proyectoId === filtro.proyectoId) &&
+      (!filtro.ejecucionId || asiento.atribucion.ejecucionId === filtro.ejecucionId) &&
+      (!filtro.agente || asiento.atribucion.agente === filtro.agente) &&
+      (!filtro.desde || asiento.fecha >= filtro.desde) &&
+      (!filtro.hasta || asiento.fecha <= filtro.hasta)
+    );
+  }
+
+  private claveDe(atribucion: Atribucion, dimension: DimensionConsumo): string {
+    const valor = {
+      agente: atribucion.agente,
+      proyecto: atribucion.proyectoId,
+      modelo: atribucion.modelo,
+      paso: atribucion.stepId,
+      ejecucion: atribucion.ejecucionId,
+    }[dimension];
+    return valor || '-';
+  }
+
+  // Lo que el asiento cargó a la cuenta de consumo
+  private costoDe(asiento: AsientoLedger): number {
+    return asiento.lineas
+      .filter(linea => linea.cuenta === cuenta.consumo(asiento.atribucion.userId))
+      .reduce((total, linea) => total + linea.monto, 0);
+  }
+
+  private reservaAbierta(reservaId: string): ReservaAbierta {
+    this.sincronizar();
+    const reserva = this.reservas.get(reservaId);
+    if (!reserva) {
+      throw new Error(`La reserva ${reservaId} no existe o ya se cerró`);
+    }
+    return reserva;
+  }
+
+  // Un asiento de liquidación por modelo; lo que no cubre la reserva sale directo del disponible
+  private cobrarConsumos(reservaId: string, reserva: ReservaAbierta, consumos: ConsumoModelo[]): AsientoLedger[] {
+    const { userId } = reserva.atribucion;
+    const asientos: AsientoLedger[] = [];
+    for (const { modelo, tokens } of consumos) {
+      const costo = this.creditosDe(tokens);
+      if (costo <= 0) continue; // Respuestas de la caché: no se pagan
+      const deReserva = Math.min(costo, reserva.restante);
+      const lineas: LineaAsiento[] = [{ cuenta: cuenta.consumo(userId), monto: costo }];
+      if (deReserva > 0) lineas.push({ cuenta: cuenta.reservado(userId), monto: -deReserva });
+      if (costo > deReserva) lineas.push({ cuenta: cuenta.disponible(userId), monto: -redondear(costo - deReserva) });
+      asientos.push(this.registrar('liquidacion', lineas, { ...reserva.atribucion, modelo, tokens }, { reservaId }));
+    }
+    return asientos;
+  }
+
+  private devolver(tipo: TipoAsiento, reservaId: string, reserva: ReservaAbierta, extra: { motivo?: string; tokens?: number }): AsientoLedger {
+    const { userId } = reserva.atribucion;
+    const monto = reserva.restante;
+    return this.registrar(tipo, [
+      { cuenta: cuenta.disponible(userId), monto },
+      { cuenta: cuenta.reservado(userId), monto: -monto },
+    ], { ...reserva.atribucion, tokens: extra.tokens }, { reservaId, motivo: extra.motivo });
+  }
+
+  // La primera vez que un usuario aparece se le abona creditos.saldoInicial
+  private abrirCuenta(userId: string): void {
+    const asientos = this.sincronizar();
+    if (asientos.some(asiento => asiento.atribucion.userId === userId)) return;
+    const saldoInicial = devmindConfig.creditos.saldoInicial;
+    if (saldoInicial > 0) {
+      this.registrar('compra', [
+        { cuenta: cuenta.disponible(userId), monto: saldoInicial },
+        { cuenta: cuenta.compras, monto: -saldoInicial },
+      ], { userId }, { motivo: 'saldo inicial' });
+    }
+  }
+
+  private registrar(
+    tipo: TipoAsiento,
+    lineas: LineaAsiento[],
+    atribucion: Atribucion,
+    extra: { reservaId?: string; referencia?: string; motivo?: string } = {}
+  ): AsientoLedger {
+    lineas = lineas.map(linea => ({ cuenta: linea.cuenta, monto: redondear(linea.monto) }));
+    const descuadre = redondear(lineas.reduce((total, linea) => total + linea.monto, 0));
+    if (descuadre !== 0) {
+      throw new Error(`Asiento ${tipo} descuadrado en ${descuadre}`);
+    }
+
+    this.sincronizar();
+    const asiento: AsientoLedger = {
+      id: uuidv4(),
+      fecha: new Date().toISOString(),
+      tipo,
+      ...extra,
+      lineas,
+      atribucion,
+    };
+    const linea = JSON.stringify(asiento) + '\n';
+    fs.mkdirSync(path.dirname(this.ruta), { recursive: true });
+    fs.appendFileSync(this.ruta, linea);
+    this.bytesLeidos += Buffer.byteLength(linea);
+    this.aplicar(asiento);
+    return asiento;
+  }
+
+  private aplicar(asiento: AsientoLedger): void {
+    this.asientos.push(asiento);
+    for (const linea of asiento.lineas) {
+      this.saldos.set(linea.cuenta, (this.saldos.get(linea.cuenta) || 0) + linea.monto);
+    }
+
+    // Las reservas abiertas se derivan del propio libro, también las de asientos de otros procesos
+    const reservado = cuenta.reservado(asiento.atribucion.userId);
+    if (asiento.tipo === 'reserva') {
+      const monto = asiento.lineas.find(linea => linea.cuenta === reservado)?.monto || 0;
+      this.reservas.set(asiento.id, { restante: monto, atribucion: asiento.atribucion, creada: asiento.fecha });
+      return;
+    }
+    const reserva = asiento.reservaId ? this.reservas.get(asiento.reservaId) : undefined;
+    if (!reserva) return;
+    if (asiento.tipo === 'liquidacion') {
+      reserva.restante = redondear(reserva.restante + (asiento.lineas.find(linea => linea.cuenta === reservado)?.monto || 0));
+      if (reserva.restante > 0) return;
+    }
+    this.reservas.delete(asiento.reservaId!);
+  }
+
+  /**
+   * Lee lo que falte del archivo: otro proceso (otra terminal, el dashboard) puede haber añadido
+   * asientos. La primera lectura además libera reservas de procesos que murieron a medio paso.
+   */
+  private sincronizar(): AsientoLedger[] {
+    const tamano = fs.existsSync(this.ruta) ? fs.statSync(this.ruta).size : 0;
+    if (tamano > this.bytesLeidos) {
+      const descriptor = fs.openSync(this.ruta, 'r');
+      const nuevo = Buffer.alloc(tamano - this.bytesLeidos);
+      fs.readSync(descriptor, nuevo, 0, nuevo.length, this.bytesLeidos);
+      fs.closeSync(descriptor);
+      const texto = nuevo.toString('utf-8');
+      // Una línea a medio escribir se deja pa' la siguiente lectura
+      const completo = texto.substring(0, texto.lastIndexOf('\n') + 1);
+      this.bytesLeidos += Buffer.byteLength(completo);
+      for (const linea of completo.split('\n').filter(Boolean)) {
+        try {
+          this.aplicar(JSON.parse(linea) as AsientoLedger);
+        } catch {
+          // Línea corrupta: se ignora, el resto del libro sigue valiendo
+        }
+      }
+    }
+
+    if (!this.cargado) {
+      this.cargado = true;
+      const limite = new Date(Date.now() - devmindConfig.creditos.reservaMaxHoras * 3600 * 1000).toISOString();
+      for (const [reservaId, reserva] of [...this.reservas]) {
+        if (reserva.creada < limite) this.devolver('liberacion', reservaId, reserva, { motivo: 'reserva abandonada' });
+      }
+    }
+    return this.asientos;
+  }
+}
@@ -0,0 +1,278 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { devmindConfig } from '../devmind.config';
+import { AgentEventType } from '../types/agent-types';
+import { AccionDashboard, EventoPrompt, EventoProyecto, EventoSync, EventoVivo, PasoPlanSync, ResultadoAccion, ResultadoSync } from '../types/dashboard-sync-types';
+import { CanalCli, DatosCanalVivo } from '../types/realtime-types';
+import { EventBus } from './event-bus';
+import { redactarSecretos } from './redaction';
+
+/**
+ * DashboardSync - Copia en la base de datos del dashboard lo que pasa en la CLI
+ *
+ * - BaseAgent.registrarActividad → Activity
+ * - Cada prompt que gasta tokens → ApiUsage (la API lo descuenta de los CreditPack del usuario)
+ * - TASK_STATE_CHANGED de las tareas del plan → Activity y el estado de cada paso (WorkflowStep)
+ * - El plan de la orquestación y cada prompt con su respuesta → el grafo del flujo y el detalle de sus pasos
+ * - Estado y progreso de la orquestación → Project
+ * - Estado de los agentes, avisos y revisiones → solo los canales en vivo (GET /api/stream)
+ *
+ * Los eventos se escriben primero en el outbox (dashboard.outbox, un JSON por línea) y se mandan en
+ * lotes a POST /api/sync. Si la API no responde se quedan ahí y se reintenta con espera creciente,
+ * también en la siguiente ejecución de la CLI; `cj system sync` muestra lo pendiente y lo fuerza.
+ * En sentido contrario, acciones() trae los reintentos y omisiones de pasos pedidos desde el dashboard.
+ */
+
+// Un evento sin el id ni la fecha, que pone encolar; el condicional reparte el Omit por cada tipo de la unión
+type SinIdentidad<E> = E extends EventoSync ? Omit<E, 'id' | 'fecha'> & { fecha?: string } : never;
+
+const ESPERA_MAX_MS = 5 * 60 * 1000;
+const HUERFANO_MS = 2 * ESPERA_MAX_MS; // Un lote en envío sin tocar desde hace más es de un proceso que murió
+
+export class DashboardSync {
+  private static instance: DashboardSync;
+  private outbox: string;
+  private temporizador?: NodeJS.Timeout;
+  private enviando?: Promise<ResultadoSync>;
+  private fallos = 0;
+  private siguienteIntento = 0;
+  private ultimoError?: string;
+  private pendientesPropios: string[] = []; // Lotes reclamados cuyo envío falló
+  private contadorEnvios = 0;
+  private ultimoProyecto = new Map<string, string>(); // Pa' no mandar el mismo estado/progreso en cada guardado
+
+  constructor(outbox: string = path.resolve(process.cwd(), devmindConfig.dashboard.outbox)) {
+    this.outbox = outbox;
+    EventBus.getInstance().on(AgentEventType.TASK_STATE_CHANGED, (evento) => {
+      const { taskId, proyectoId, agente, de, a, motivo, stepId, intentos, error, archivos, omitida } = evento.payload;
+      this.encolar({ tipo: 'paso', proyecto: { id: proyectoId }, taskId, agente, de, a, motivo, stepId, intentos, error, archivos, omitida });
+    });
+  }
+
+  static getInstance(): DashboardSync {
+    if (!DashboardSync.instance) {
+      DashboardSync.instance = new DashboardSync();
+    }
+    return DashboardSync.instance;
+  }
+
+  // Sin URL o token del dashboard no se guarda nada: el outbox no crece pa' nadie
+  activo(): boolean {
+    return Boolean(devmindConfig.dashboard.url && devmindConfig.dashboard.token);
+  }
+
+  actividad(
+    proyecto: { id: string; nombre?: string },
+    entrada: { agente: string; accion: string; fecha: string; datos?: unknown; correlationId?: string },
+    stepId?: string
+  ): void {
+    const datos = entrada.datos === undefined ? undefined : JSON.stringify(entrada.datos);
+    const maximo = devmindConfig.dashboard.maxDetalle;
+    this.encolar({
+      tipo: 'actividad',
+      fecha: entrada.fecha,
+      proyecto,
+      agente: entrada.agente,
+      accion: entrada.accion,
+      datos: datos && datos.length > maximo ? `${datos.substring(0, maximo)}…` : datos,
+      correlationId: entrada.correlationId,
+      stepId,
+    });
+  }
+
+  uso(proyecto: { id: string; nombre?: string }, consumo: { agente: string; proveedor: string; modelo: string; tokens: number; creditos: number; stepId?: string }): void {
+    if (consumo.tokens <= 0) return; // Respuestas de la caché: no gastaron nada
+    this.encolar({ tipo: 'uso', proyecto, ...consumo });
+  }
+
+  plan(proyecto: { id: string; nombre?: string }, pasos: PasoPlanSync[]): void {
+    this.encolar({ tipo: 'plan', proyecto, pasos });
+  }
+
+  // Con los secretos redactados, igual que en TranscriptStore
+  prompt(proyecto: { id: string; nombre?: string }, intercambio: Omit<EventoPrompt, 'id' | 'fecha' | 'tipo' | 'proyecto'>): void {
+    const maximo = devmindConfig.dashboard.maxTranscripcion;
+    const recortar = (texto: string) => {
+      const { texto: redactado } = redactarSecretos(texto);
+      return redactado.length > maximo ? `${redactado.substring(0, maximo)}…` : redactado;
+    };
+    this.encolar({ tipo: 'prompt', proyecto, ...intercambio, prompt: recortar(intercambio.prompt), respuesta: recortar(intercambio.respuesta) });
+  }
+
+  proyecto(proyecto: { id: string; nombre?: string }, estado: EventoProyecto['estado'], progreso: number): void {
+    const clave = `${estado}:${progreso}`;
+    if (this.ultimoProyecto.get(proyecto.id) === clave) return;
+    this.ultimoProyecto.set(proyecto.id, clave);
+    this.encolar({ tipo: 'proyecto', proyecto, estado, progreso });
+  }
+
+  // No se guarda en la base de datos: la API lo reparte a quien mire el proyecto en vivo
+  vivo<C extends CanalCli>(proyecto: { id: string; nombre?: string }, canal: C, datos: DatosCanalVivo[C]): void {
+    this.encolar({ tipo: 'vivo', proyecto, canal, datos } as SinIdentidad<EventoVivo>);
+  }
+
+  // Eventos en el outbox, incluidos los de un envío en curso
+  pendientes(): { eventos: number; ultimoError?: string; siguienteIntento?: string } {
+    const eventos = [this.outbox, ...this.enEnvio()].reduce((total, archivo) => total + this.leer(archivo).length, 0);
+    return {
+      eventos,
+      ultimoError: this.ultimoError,
+      siguienteIntento: this.siguienteIntento > Date.now() ? new Date(this.siguienteIntento).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Manda el outbox en lotes. El archivo se renombra antes de enviarlo pa' que lo que llegue mientras
+   * tanto vaya a uno nuevo y dos procesos no manden lo mismo; si falla, lo no enviado se reintenta antes
+   * que lo nuevo. Reenviar un evento que sí llegó no duplica nada: la API lo cuenta como duplicado.
+   */
+  async enviar(): Promise<ResultadoSync> {
+    if (this.enviando) return this.enviando;
+    this.enviando = this.enviarOutbox().finally(() => {
+      this.enviando = undefined;
+    });
+    return this.enviando;
+  }
+
+  // Reintentos y omisiones pendientes pedidos desde el dashboard (de un proyecto o de todos)
+  async acciones(proyectoId?: string): Promise<AccionDashboard[]> {
+    const consulta = proyectoId ? `?projectId=${encodeURIComponent(proyectoId)}` : '';
+    return this.pedir<AccionDashboard[]>('GET', `/api/sync/acciones${consulta}`);
+  }
+
+  // El dashboard deja de ofrecerla como pendiente y muestra el resultado en el paso
+  async confirmarAccion(id: string, resultado: ResultadoAccion): Promise<void> {
+    await this.pedir('POST', `/api/sync/acciones/${encodeURIComponent(id)}`, resultado);
+  }
+
+  private encolar(evento: SinIdentidad<EventoSync>): void {
+    if (!this.activo()) return;
+    const completo = { id: uuidv4(), fecha: new Date().toISOString(), ...evento } as EventoSync;
+    fs.mkdirSync(path.dirname(this.outbox), { recursive: true });
+    fs.appendFileSync(this.outbox, JSON.stringify(completo) + '\n');
+    this.programar();
+  }
+
+  private programar(): void {
+    if (this.temporizador) return;
+    const espera = Math.max(devmindConfig.dashboard.esperaMs, this.siguienteIntento - Date.now());
+    this.temporizador = setTimeout(() => {
+      this.temporizador = undefined;
+      this.enviar().catch(() => undefined); // El error queda en ultimoError y el outbox, pa'l siguiente intento
+    }, espera);
+    this.temporizador.unref(); // Lo pendiente no retiene el proceso: se manda en la siguiente ejecución
+  }
+
+  private async enviarOutbox(): Promise<ResultadoSync> {
+    const total: ResultadoSync = { aceptados: 0, duplicados: 0, rechazados: [] };
+    const archivos = this.reclamar();
+    const eventos = archivos.flatMap(archivo => this.leer(archivo));
+
+    const { lote } = devmindConfig.dashboard;
+    for (let inicio = 0; inicio < eventos.length; inicio += lote) {
+      try {
+        const resultado = await this.post(eventos.slice(inicio, inicio + lote));
+        total.aceptados += resultado.aceptados;
+        total.duplicados += resultado.duplicados;
+        total.rechazados.push(...resultado.rechazados);
+      } catch (error) {
+        this.conservar(archivos, eventos.slice(inicio));
+        this.fallos++;
+        this.siguienteIntento = Date.now() + Math.min(ESPERA_MAX_MS, 1000 * 2 ** this.fallos);
+        this.ultimoError = (error as Error).message;
+        this.programar();
+        throw error;
+      }
+    }
+    archivos.forEach(archivo => fs.rmSync(archivo, { force: true }));
+    this.pendientesPropios = [];
+    this.fallos = 0;
+    this.siguienteIntento = 0;
+    this.ultimoError = undefined;
+    return total;
+  }
+
+  private async post(eventos: EventoSync[]): Promise<ResultadoSync> {
+    return this.pedir<ResultadoSync>('POST', '/api/sync', { eventos });
+  }
+
+  private async pedir<T>(metodo: 'GET' | 'POST', ruta: string, cuerpo?: unknown): Promise<T> {
+    const { url, token } = devmindConfig.dashboard;
+    const respuesta = await fetch(`${url.replace(/\/$/, '')}${ruta}`, {
+      method: metodo,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: cuerpo === undefined ? undefined : JSON.stringify(cuerpo),
+      signal: AbortSignal.timeout(10000),
+    }).catch((error: Error) => {
+      throw new Error(`No se pudo conectar con el dashboard en ${url}: ${error.message}`);
+    });
+    if (!respuesta.ok) {
+      const error = await respuesta.json().catch(() => ({})) as { error?: string };
+      throw new Error(`El dashboard respondió ${respuesta.status}${error.error ? `: ${error.error}` : ''}`);
+    }
+    return await respuesta.json() as T;
+  }
+
+  /**
+   * Lotes a enviar, del más viejo al más nuevo: lo que quedó de un intento fallido, los de procesos que
+   * murieron a medio envío y el outbox actual, que pasa a <outbox>.<pid>-<n>.enviando
+   */
+  private reclamar(): string[] {
+    const reclamados = this.pendientesPropios.filter(archivo => fs.existsSync(archivo));
+    for (const archivo of this.enEnvio()) {
+      if (reclamados.includes(archivo) || Date.now() - fs.statSync(archivo).mtimeMs < HUERFANO_MS) continue;
+      const adoptado = this.nombreEnvio();
+      try {
+        fs.renameSync(archivo, adoptado);
+        reclamados.push(adoptado);
+      } catch {
+        // Otro proceso lo adoptó antes
+      }
+    }
+    if (fs.existsSync(this.outbox)) {
+      const propio = this.nombreEnvio();
+      fs.renameSync(this.outbox, propio);
+      reclamados.push(propio);
+    }
+    return reclamados;
+  }
+
+  // Lo no enviado se queda en el primer lote reclamado, en el mismo orden, pa'l siguiente intento
+  private conservar(archivos: string[], restantes: EventoSync[]): void {
+    const [primero, ...resto] = archivos;
+    const tmp = `${primero}.tmp`;
+    fs.writeFileSync(tmp, restantes.map(evento => JSON.stringify(evento) + '\n').join(''));
+    fs.renameSync(tmp, primero);
+    resto.forEach(archivo => fs.rmSync(archivo, { force: true }));
+    this.pendientesPropios = [primero];
+  }
+
+  private nombreEnvio(): string {
+    return `${this.outbox}.${process.pid}-${++this.contadorEnvios}.enviando`;
+  }
+
+  private enEnvio(): string[] {
+    const carpeta = path.dirname(this.outbox);
+    if (!fs.existsSync(carpeta)) return [];
+    const prefijo = `${path.basename(this.outbox)}.`;
+    return fs.readdirSync(carpeta)
+      .filter(nombre => nombre.startsWith(prefijo) && nombre.endsWith('.enviando'))
+      .map(nombre => path.join(carpeta, nombre));
+  }
+
+  // Una línea a medio escribir (proceso que murió) se descarta
+  private leer(archivo: string): EventoSync[] {
+    if (!fs.existsSync(archivo)) return [];
+    return fs.readFileSync(archivo, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .flatMap(linea => {
+        try {
+          return [JSON.parse(linea) as EventoSync];
+        } catch {
+          return [];
+        }
+      });
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Diff unificado y árbol de archivos pa' mostrar cambios (modo simulación, rollback)
+ */
+
+type Operacion = { tipo: ' ' | '-' | '+'; linea: string };
+
+// Marca interna de "última línea sin salto": así 'a' y 'a\n' no se consideran iguales
+const SIN_SALTO = '\u0000';
+
+function dividirLineas(texto: string): string[] {
+  if (texto === '') return [];
+  const lineas = texto.replace(/\r\n/g, '\n').split('\n');
+  if (lineas[lineas.length - 1] === '') lineas.pop();
+  else lineas[lineas.length - 1] += SIN_SALTO;
+  return lineas;
+}
+
+const formatearOperacion = (op: Operacion): string[] =>
+  op.linea.endsWith(SIN_SALTO)
+    ? [`${op.tipo}${op.linea.slice(0, -1)}`, '\\ No newline at end of file']
+    : [`${op.tipo}${op.linea}`];
+
+// Myers O((N+M)·D): guarda el frente de cada paso pa' reconstruir el camino
+function diffLineas(antes: string[], despues: string[]): Operacion[] {
+  const n = antes.length;
+  const m = despues.length;
+  const max = n + m;
+  const offset = max;
+  let v = new Array<number>(2 * max + 2).fill(0);
+  const trazas: number[][] = [];
+
+  let encontrado = false;
+  for (let d = 0; d <= max && !encontrado; d++) {
+    trazas.push(v.slice());
+    const siguiente = v.slice();
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && antes[x] === despues[y]) {
+        x++;
+        y++;
+      }
+      siguiente[offset + k] = x;
+      if (x >= n && y >= m) {
+        encontrado = true;
+        break;
+      }
+    }
+    v = siguiente;
+  }
+  trazas.push(v);
+
+  // Retroceso desde (n, m)
+  const ops: Operacion[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trazas.length - 2; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trazas[d];
+    const k = x - y;
+    const previoK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const previoX = vd[offset + previoK];
+    const previoY = previoX - previoK;
+    while (x > previoX && y > previoY) {
+      ops.push({ tipo: ' ', linea: antes[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previoX) ops.push({ tipo: '+', linea: despues[--y] });
+      else ops.push({ tipo: '-', linea: antes[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ tipo: ' ', linea: antes[--x] });
+    y--;
+  }
+  return ops.reverse();
+}
+
+/**
+ * Diff unificado estilo `git diff` de un archivo
+ * antes/despues = null indica archivo inexistente (creación o eliminación)
+ */
+export function diffUnificado(ruta: string, antes: string | null, despues: string | null, contexto: number = 3): string {
+  const lineasAntes = dividirLineas(antes ?? '');
+  const lineasDespues = dividirLineas(despues ?? '');
+  const ops = diffLineas(lineasAntes, lineasDespues);
+  if (!ops.some(op => op.tipo !== ' ')) return '';
+
+  const salida = [
+    antes === null ? '--- /dev/null' : `--- a/${ruta}`,
+    despues === null ? '+++ /dev/null' : `+++ b/${ruta}`,
+  ];
+
+  // Número de línea (antes/después) al inicio de cada operación
+  const numA: number[] = [];
+  const numB: number[] = [];
+  let a = 1;
+  let b = 1;
+  for (const op of ops) {
+    numA.push(a);
+    numB.push(b);
+    if (op.tipo !== '+') a++;
+    if (op.tipo !== '-') b++;
+  }
+
+  // Rangos de `contexto` líneas alrededor de cada cambio, fusionando los que se tocan
+  const rangos: [number, number][] = [];
+  ops.forEach((op, i) => {
+    if (op.tipo === ' ') return;
+    const desde = Math.max(0, i - contexto);
+    const hasta = Math.min(ops.length, i + contexto + 1);
+    const ultimo = rangos[rangos.length - 1];
+    if (ultimo && desde <= ultimo[1]) ultimo[1] = Math.max(ultimo[1], hasta);
+    else rangos.push([desde, hasta]);
+  });
+
+  for (const [desde, hasta] of rangos) {
+    const hunk = ops.slice(desde, hasta);
+    const cuentaA = hunk.filter(op => op.tipo !== '+').length;
+    const cuentaB = hunk.filter(op => op.tipo !== '-').length;
+    // Convención de diff: un lado vacío se numera con la línea anterior
+    const inicioA = cuentaA === 0 ? numA[desde] - 1 : numA[desde];
+    const inicioB = cuentaB === 0 ? numB[desde] - 1 : numB[desde];
+    salida.push(`@@ -${inicioA},${cuentaA} +${inicioB},${cuentaB} @@`);
+    hunk.forEach(op => salida.push(...formatearOperacion(op)));
+  }
+
+  return salida.join('\n');
+}
+
+export type MarcaArchivo = '+' | '~' | '-';
+
+interface NodoArbol {
+  hijos: Map<string, NodoArbol>;
+  marca?: MarcaArchivo;
+}
+
+/**
+ * Árbol de archivos con marca por archivo: + nuevo, ~ modificado, - eliminado
+ */
+export function arbolArchivos(archivos: { ruta: string; marca: MarcaArchivo }[]): string {
+  const raiz: NodoArbol = { hijos: new Map() };
+  for (const { ruta, marca } of archivos) {
+    let nodo = raiz;
+    for (const parte of ruta.split(/[\\/]/).filter(Boolean)) {
+      if (!nodo.hijos.has(parte)) nodo.hijos.set(parte, { hijos: new Map() });
+      nodo = nodo.hijos.get(parte)!;
+    }
+    nodo.marca = marca;
+  }
+
+  const lineas: string[] = [];
+  const recorrer = (nodo: NodoArbol, prefijo: string) => {
+    const entradas = [...nodo.hijos.entries()].sort(([a, na], [b, nb]) =>
+      // Directorios primero, luego orden alfabético
+      (nb.hijos.size > 0 ? 1 : 0) - (na.hijos.size > 0 ? 1 : 0) || a.localeCompare(b)
+    );
+    entradas.forEach(([nombre, hijo], index) => {
+      const ultimo = index === entradas.length - 1;
+      const marca = hijo.marca ? `${hijo.marca} ` : '';
+      lineas.push(`${prefijo}${ultimo ? '└── ' : '├── '}${marca}${nombre}${hijo.hijos.size > 0 ? '/' : ''}`);
+      recorrer(hijo, `${prefijo}${ultimo ? '    ' : '│   '}`);
+    });
+  };
+  recorrer(raiz, '');
+  return lineas.join('\n');
+}
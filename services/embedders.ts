@@ -0,0 +1,101 @@
+import { devmindConfig } from '../devmind.config';
+
+/**
+ * Embedders de la memoria (MemoryAgent)
+ *
+ * - local: bolsa de palabras con hashing, sin red ni modelos descargados. Pa' modo offline,
+ *   CI y código que no puede salir de la máquina. Entiende identificadores (getUserById → get, user, by, id).
+ * - openai: text-embedding-ada-002 vía langchain (1536 dimensiones)
+ */
+
+export type TipoEmbedder = 'local' | 'openai';
+
+export interface Embedder {
+  readonly nombre: string; // Se guarda con el índice: mezclar vectores de dos embedders no tiene sentido
+  readonly dimension: number;
+  embed(textos: string[]): Promise<number[][]>;
+}
+
+// FNV-1a de 32 bits: estable entre ejecuciones y plataformas
+function fnv1a(texto: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < texto.length; i++) {
+    hash ^= texto.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Palabras + partes de camelCase/snake_case, en minúsculas
+export function tokenizar(texto: string): string[] {
+  const tokens: string[] = [];
+  for (const palabra of texto.match(/[A-Za-z_][A-Za-z0-9_]*|\d+/g) || []) {
+    const partes = palabra
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .filter(p => p.length > 1)
+      .map(p => p.toLowerCase());
+    if (partes.length > 1) tokens.push(palabra.toLowerCase());
+    tokens.push(...partes);
+  }
+  return tokens;
+}
+
+export class LocalEmbedder implements Embedder {
+  readonly nombre: string;
+
+  constructor(readonly dimension: number = 512) {
+    this.nombre = `local-hash-${dimension}`;
+  }
+
+  async embed(textos: string[]): Promise<number[][]> {
+    return textos.map(texto => this.vectorizar(texto));
+  }
+
+  // TF sublineal (1 + log tf) con signo por hash pa' que las colisiones se compensen; normalizado L2
+  private vectorizar(texto: string): number[] {
+    const frecuencias = new Map<string, number>();
+    for (const token of tokenizar(texto)) {
+      frecuencias.set(token, (frecuencias.get(token) || 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [token, tf] of frecuencias) {
+      const hash = fnv1a(token);
+      const signo = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimension] += signo * (1 + Math.log(tf));
+    }
+
+    const norma = Math.sqrt(vector.reduce((suma, v) => suma + v * v, 0));
+    return norma > 0 ? vector.map(v => v / norma) : vector;
+  }
+}
+
+export class OpenAIEmbedder implements Embedder {
+  readonly nombre = 'openai-ada-002';
+  readonly dimension = 1536;
+  private cliente?: { embedDocuments(textos: string[]): Promise<number[][]> };
+
+  constructor(private apiKey: string = process.env.OPENAI_API_KEY || '') {}
+
+  async embed(textos: string[]): Promise<number[][]> {
+    if (!this.cliente) {
+      // Import diferido: en modo local no hace falta tener langchain instalado
+      const { OpenAIEmbeddings } = await import('langchain/embeddings/openai');
+      this.cliente = new OpenAIEmbeddings({ openAIApiKey: this.apiKey });
+    }
+    return this.cliente.embedDocuments(textos);
+  }
+}
+
+export function crearEmbedder(tipo: TipoEmbedder = devmindConfig.memory.embedder): Embedder {
+  switch (tipo) {
+    case 'openai':
+      return new OpenAIEmbedder();
+    case 'local':
+      return new LocalEmbedder(devmindConfig.memory.localDimension);
+    default:
+      throw new Error(`Embedder desconocido: ${tipo}. Usa "local" u "openai"`);
+  }
+}
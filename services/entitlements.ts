@@ -0,0 +1,264 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { devmindConfig } from '../devmind.config';
+import { Cupo, CupoContado, DerechosTier, Funcion, MatrizDerechos, UsoCupo } from '../types/entitlement-types';
+import { TIERS_LICENCIA, TierLicencia } from '../types/license-types';
+import { LicenseManager } from './license-manager';
+
+/**
+ * Entitlements - Qué incluye cada tier, en un solo sitio
+ *
+ * Antes cada agente decidía con su propio `if (licencia === 'Community' && spec.includes('complex'))`;
+ * ahora hay una matriz declarativa tier → funciones, cupos y modelo por defecto (MATRIZ_DERECHOS):
+ * - `can(funcion)` dice si la licencia la incluye (la del tier o una suelta en `features` de la licencia)
+ * - `exigir(funcion)` y `comprobarLimite(cupo, valor)` cortan con un mensaje que dice desde qué tier está
+ * - `consumir(cupo, userId)` lleva la cuenta de proyectos y ejecuciones por día en licencias.cupos
+ *   (~/.cj-devmind/cupos.json, junto a la licencia): no se reinicia borrando el workspace
+ * El tier sale del LicenseManager; pa' probarlo aislado, se construye con otro tier, matriz o archivo.
+ */
+
+const FUNCIONES_DE_PAGO: Funcion[] = ['llm-nube', 'revision-codigo', 'automejora', 'extensiones', 'vision-interactiva', 'diseno-avanzado', 'prototipos', 'agentes-relacionados'];
+
+export const MATRIZ_DERECHOS: MatrizDerechos = {
+  Community: {
+    funciones: [],
+    cupos: {
+      proyectos: 3,
+      ejecucionesPorDia: 50,
+      paralelismo: 1,
+      pasosPorPlan: 8,
+      modulosPorProyecto: 5,
+      nivelContextual: 2,
+      caracteresNombre: 50,
+      caracteresPromptOffline: 500,
+    },
+    llm: { proveedor: 'local', modelo: 'Mistral', maxTokens: 500 },
+  },
+  Professional: {
+    funciones: FUNCIONES_DE_PAGO,
+    cupos: {
+      proyectos: 25,
+      ejecucionesPorDia: 1000,
+      paralelismo: 3,
+      pasosPorPlan: 40,
+      modulosPorProyecto: 0,
+      nivelContextual: 5,
+      caracteresNombre: 0,
+      caracteresPromptOffline: 0,
+    },
+    llm: { proveedor: 'openai', modelo: 'GPT-3.5', maxTokens: 2000 },
+  },
+  Enterprise: {
+    funciones: FUNCIONES_DE_PAGO,
+    cupos: {
+      proyectos: 0,
+      ejecucionesPorDia: 0,
+      paralelismo: 8,
+      pasosPorPlan: 0,
+      modulosPorProyecto: 0,
+      nivelContextual: 5,
+      caracteresNombre: 0,
+      caracteresPromptOffline: 0,
+    },
+    llm: { proveedor: 'openai', modelo: 'GPT-4', maxTokens: 4000 },
+  },
+};
+
+const FUNCIONES: Record<Funcion, string> = {
+  'llm-nube': 'los modelos en la nube',
+  'revision-codigo': 'la revisión de código automática',
+  'automejora': 'la mejora automática entre proyectos',
+  'extensiones': 'la instalación de extensiones',
+  'vision-interactiva': 'el modo interactivo del VisionAgent',
+  'diseno-avanzado': 'los modos de diseño y la exportación del sistema de diseño',
+  'prototipos': 'los prototipos navegables',
+  'agentes-relacionados': 'los estilos, tests y revisión automáticos de componentes',
+};
+
+const CUPOS: Record<Cupo, string> = {
+  proyectos: 'proyectos',
+  ejecucionesPorDia: 'ejecuciones de agentes por día',
+  paralelismo: 'pasos en paralelo',
+  pasosPorPlan: 'pasos por plan',
+  modulosPorProyecto: 'módulos por proyecto',
+  nivelContextual: 'niveles contextuales',
+  caracteresNombre: 'caracteres en el nombre del proyecto',
+  caracteresPromptOffline: 'caracteres por prompt sin conexión',
+};
+
+const COMO_MEJORAR = 'Mejora tu licencia en el dashboard y actívala con `cj system license activate <licencia>`';
+
+export class FuncionNoIncluidaError extends Error {
+  constructor(public readonly funcion: Funcion, public readonly tier: TierLicencia, public readonly desde?: TierLicencia) {
+    super(`Tu licencia ${tier} no incluye ${FUNCIONES[funcion]}${desde ? ` (está desde ${desde})` : ''}. ${COMO_MEJORAR}`);
+    this.name = 'FuncionNoIncluidaError';
+  }
+}
+
+export class CupoAgotadoError extends Error {
+  constructor(
+    public readonly cupo: Cupo,
+    public readonly limite: number,
+    public readonly tier: TierLicencia,
+    public readonly mejora?: { tier: TierLicencia; limite: number }
+  ) {
+    super(`${tier} permite hasta ${limite} ${CUPOS[cupo]}${mejora ? `; en ${mejora.tier}: ${mejora.limite > 0 ? mejora.limite : 'sin límite'}` : ''}. ${COMO_MEJORAR}`);
+    this.name = 'CupoAgotadoError';
+  }
+}
+
+interface ArchivoCupos {
+  version: 1;
+  usuarios: Record<string, { proyectos: string[]; ejecuciones: { fecha: string; total: number } }>;
+}
+
+export interface OpcionesEntitlements {
+  tier?: () => TierLicencia;
+  features?: () => string[]; // Funciones sueltas de la licencia, además de las del tier
+  matriz?: MatrizDerechos;
+  archivo?: string;
+}
+
+export class Entitlements {
+  private static instance: Entitlements;
+  private obtenerTier: () => TierLicencia;
+  private obtenerFeatures: () => string[];
+  private matriz: MatrizDerechos;
+  private archivo: string;
+
+  constructor(opciones: OpcionesEntitlements = {}) {
+    this.obtenerTier = opciones.tier || (() => LicenseManager.getInstance().tier());
+    this.obtenerFeatures = opciones.features || (() => {
+      const licencia = LicenseManager.getInstance().actual();
+      return licencia.estado === 'activa' || licencia.estado === 'gracia' ? licencia.datos?.features || [] : [];
+    });
+    this.matriz = opciones.matriz || MATRIZ_DERECHOS;
+    this.archivo = opciones.archivo || path.resolve(devmindConfig.licencias.cupos);
+  }
+
+  static getInstance(): Entitlements {
+    if (!Entitlements.instance) {
+      Entitlements.instance = new Entitlements();
+    }
+    return Entitlements.instance;
+  }
+
+  tier(): TierLicencia {
+    return this.obtenerTier();
+  }
+
+  derechos(): DerechosTier {
+    return this.matriz[this.tier()];
+  }
+
+  can(funcion: Funcion): boolean {
+    return this.derechos().funciones.includes(funcion) || this.obtenerFeatures().includes(funcion);
+  }
+
+  exigir(funcion: Funcion): void {
+    if (!this.can(funcion)) {
+      throw new FuncionNoIncluidaError(funcion, this.tier(), TIERS_LICENCIA.find(tier => this.matriz[tier].funciones.includes(funcion)));
+    }
+  }
+
+  // Límite del cupo en el tier actual (0 = sin límite)
+  cupo(cupo: Cupo): number {
+    return this.derechos().cupos[cupo];
+  }
+
+  // Pa' los límites fijos: corta si `valor` se pasa del cupo
+  comprobarLimite(cupo: Cupo, valor: number): void {
+    const limite = this.cupo(cupo);
+    if (limite > 0 && valor > limite) {
+      throw new CupoAgotadoError(cupo, limite, this.tier(), this.siguienteConMas(cupo, limite));
+    }
+  }
+
+  /**
+   * Gasta una unidad de un cupo contado, o corta con CupoAgotadoError si ya no queda.
+   * Los proyectos se cuentan por id (`clave`): volver a abrir uno que ya se contó no gasta.
+   */
+  consumir(cupo: CupoContado, userId: string, clave?: string): UsoCupo {
+    const datos = this.leer();
+    const uso = this.usoDe(datos, userId);
+    const limite = this.cupo(cupo);
+
+    if (cupo === 'proyectos') {
+      if (clave && uso.proyectos.includes(clave)) return this.estado(cupo, limite, uso.proyectos.length);
+      if (limite > 0 && uso.proyectos.length >= limite) {
+        throw new CupoAgotadoError(cupo, limite, this.tier(), this.siguienteConMas(cupo, limite));
+      }
+      uso.proyectos.push(clave || `proyecto-${uso.proyectos.length + 1}`);
+      this.escribir(datos);
+      return this.estado(cupo, limite, uso.proyectos.length);
+    }
+
+    if (limite > 0 && uso.ejecuciones.total >= limite) {
+      throw new CupoAgotadoError(cupo, limite, this.tier(), this.siguienteConMas(cupo, limite));
+    }
+    uso.ejecuciones.total++;
+    this.escribir(datos);
+    return this.estado(cupo, limite, uso.ejecuciones.total);
+  }
+
+  // Todas las funciones, incluidas o no (cj system license)
+  funciones(): { funcion: Funcion; incluida: boolean; descripcion: string }[] {
+    return (Object.keys(FUNCIONES) as Funcion[]).map(funcion => ({ funcion, incluida: this.can(funcion), descripcion: FUNCIONES[funcion] }));
+  }
+
+  // Todos los cupos del tier actual, con lo gastado en los contados (cj system license)
+  uso(userId: string): UsoCupo[] {
+    const uso = this.usoDe(this.leer(), userId);
+    return (Object.keys(CUPOS) as Cupo[]).map(cupo => {
+      const limite = this.cupo(cupo);
+      if (cupo === 'proyectos') return this.estado(cupo, limite, uso.proyectos.length);
+      if (cupo === 'ejecucionesPorDia') return this.estado(cupo, limite, uso.ejecuciones.total);
+      return { cupo, limite };
+    });
+  }
+
+  static describirCupo(cupo: Cupo): string {
+    return CUPOS[cupo];
+  }
+
+
+  private estado(cupo: Cupo, limite: number, usado: number): UsoCupo {
+    return { cupo, limite, usado, restante: limite > 0 ? Math.max(0, limite - usado) : undefined };
+  }
+
+  // Primer tier por encima del actual que da más de ese cupo, pa' el mensaje de mejora
+  private siguienteConMas(cupo: Cupo, limite: number): { tier: TierLicencia; limite: number } | undefined {
+    const tiers = TIERS_LICENCIA.slice(TIERS_LICENCIA.indexOf(this.tier()) + 1);
+    const tier = tiers.find(otro => this.matriz[otro].cupos[cupo] === 0 || this.matriz[otro].cupos[cupo] > limite);
+    return tier && { tier, limite: this.matriz[tier].cupos[cupo] };
+  }
+
+  // Las ejecuciones se cuentan solo pa' hoy: al cambiar de día se empieza de cero
+  private usoDe(datos: ArchivoCupos, userId: string): ArchivoCupos['usuarios'][string] {
+    const hoy = new Date().toISOString().substring(0, 10);
+    const uso = (datos.usuarios[userId] ||= { proyectos: [], ejecuciones: { fecha: hoy, total: 0 } });
+    if (uso.ejecuciones.fecha !== hoy) {
+      uso.ejecuciones = { fecha: hoy, total: 0 };
+    }
+    return uso;
+  }
+
+  private leer(): ArchivoCupos {
+    if (!fs.existsSync(this.archivo)) {
+      return { version: 1, usuarios: {} };
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.archivo, 'utf-8')) as ArchivoCupos;
+    } catch (error) {
+      throw new Error(`No se pudo leer ${this.archivo}: ${(error as Error).message}`);
+    }
+  }
+
+  // Escritura atómica (tmp + rename), como el BudgetManager
+  private escribir(datos: ArchivoCupos): void {
+    fs.mkdirSync(path.dirname(this.archivo), { recursive: true });
+    const tmp = `${this.archivo}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(datos, null, 2));
+    fs.renameSync(tmp, this.archivo);
+  }
+}
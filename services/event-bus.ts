@@ -0,0 +1,179 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { AgentEvent, AgentEventPattern, AgentEventPayloads, AgentEventType } from '../types/agent-types';
+
+/**
+ * EventBus - Bus de eventos en proceso compartido por todos los agentes
+ *
+ * - Una sola instancia (EventBus.getInstance()) pa' que los agentes se escuchen entre sí
+ * - Suscripciones exactas, comodín ('*') y por patrón ('*_ERROR', 'TEST_*')
+ * - Propaga el correlationId: lo que se emite dentro de un handler hereda el del evento original
+ * - Buffer de replay acotado pa' suscriptores tardíos (ej. DashboardAgent)
+ */
+
+export type AgentEventHandler<T extends AgentEventType = AgentEventType> =
+  (event: AgentEvent<T>) => void | Promise<void>;
+
+export interface EmitOptions {
+  agentName?: string;
+  correlationId?: string;
+}
+
+export interface SubscribeOptions {
+  // true = todo el buffer, número = últimos N eventos que coincidan
+  replay?: boolean | number;
+  once?: boolean;
+}
+
+interface Subscription {
+  id: number;
+  pattern: AgentEventPattern;
+  matcher: (type: string) => boolean;
+  handler: AgentEventHandler<any>;
+  once: boolean;
+}
+
+const DEFAULT_REPLAY_SIZE = 500;
+
+export class EventBus {
+  private static instance: EventBus;
+  private subscriptions: Subscription[] = [];
+  private replayBuffer: AgentEvent[] = [];
+  private replaySize: number;
+  private nextSubscriptionId = 1;
+  private sequence = 0;
+  private correlationScope = new AsyncLocalStorage<string>();
+
+  constructor(replaySize: number = DEFAULT_REPLAY_SIZE) {
+    this.replaySize = replaySize;
+  }
+
+  static getInstance(): EventBus {
+    if (!EventBus.instance) {
+      EventBus.instance = new EventBus();
+    }
+    return EventBus.instance;
+  }
+
+  // Solo pa' aislar ejecuciones (ej. un proceso que orquesta varios proyectos seguidos)
+  static resetInstance(): void {
+    EventBus.instance = new EventBus();
+  }
+
+  // correlationId del evento que se está procesando, si estamos dentro de un handler
+  currentCorrelationId(): string | undefined {
+    return this.correlationScope.getStore();
+  }
+
+  // Emite un evento y espera a que todos los handlers terminen
+  async emit<T extends AgentEventType>(
+    type: T,
+    payload: AgentEventPayloads[T],
+    options: EmitOptions = {}
+  ): Promise<AgentEvent<T>> {
+    const causationId = this.currentCorrelationId();
+    const event: AgentEvent<T> = {
+      type,
+      payload,
+      timestamp: new Date().toISOString(),
+      agentName: options.agentName || 'unknown',
+      correlationId: options.correlationId || causationId || uuidv4(),
+      causationId,
+      sequence: ++this.sequence,
+    };
+
+    this.replayBuffer.push(event);
+    if (this.replayBuffer.length > this.replaySize) {
+      this.replayBuffer.splice(0, this.replayBuffer.length - this.replaySize);
+    }
+
+    const targets = this.subscriptions.filter(sub => sub.matcher(type));
+    this.subscriptions = this.subscriptions.filter(sub => !(sub.once && targets.includes(sub)));
+
+    await Promise.all(targets.map(sub => this.deliver(sub, event)));
+    return event;
+  }
+
+  // Se suscribe a un tipo exacto, a '*' o a un patrón con asterisco; devuelve la función pa' desuscribirse
+  on<T extends AgentEventType>(
+    pattern: T | AgentEventPattern,
+    handler: AgentEventHandler<T>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const subscription: Subscription = {
+      id: this.nextSubscriptionId++,
+      pattern,
+      matcher: EventBus.compilePattern(pattern),
+      handler,
+      once: options.once || false,
+    };
+
+    if (options.replay) {
+      const backlog = this.replay(pattern, typeof options.replay === 'number' ? options.replay : undefined);
+      if (subscription.once && backlog.length > 0) {
+        void this.deliver(subscription, backlog[backlog.length - 1]);
+        return () => undefined;
+      }
+      backlog.forEach(event => void this.deliver(subscription, event));
+    }
+
+    this.subscriptions.push(subscription);
+    return () => this.off(subscription.id);
+  }
+
+  once<T extends AgentEventType>(pattern: T | AgentEventPattern, handler: AgentEventHandler<T>): () => void {
+    return this.on(pattern, handler, { once: true });
+  }
+
+  // Espera el próximo evento que coincida (útil pa' encadenar agentes)
+  waitFor<T extends AgentEventType>(pattern: T | AgentEventPattern, timeoutMs: number = 30000): Promise<AgentEvent<T>> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        reject(new Error(`Timeout esperando evento ${pattern}`));
+      }, timeoutMs);
+      const unsubscribe = this.once<T>(pattern, event => {
+        clearTimeout(timer);
+        resolve(event);
+      });
+    });
+  }
+
+  off(subscriptionId: number): void {
+    this.subscriptions = this.subscriptions.filter(sub => sub.id !== subscriptionId);
+  }
+
+  // Eventos del buffer que coinciden con el patrón, del más viejo al más nuevo
+  replay(pattern: AgentEventPattern = '*', limit?: number): AgentEvent[] {
+    const matcher = EventBus.compilePattern(pattern);
+    const matching = this.replayBuffer.filter(event => matcher(event.type));
+    return limit !== undefined ? matching.slice(-limit) : matching;
+  }
+
+  // Todos los eventos de una misma cadena (mismo correlationId)
+  trace(correlationId: string): AgentEvent[] {
+    return this.replayBuffer.filter(event => event.correlationId === correlationId);
+  }
+
+  listenerCount(pattern?: AgentEventPattern): number {
+    return pattern ? this.subscriptions.filter(sub => sub.pattern === pattern).length : this.subscriptions.length;
+  }
+
+  private async deliver(subscription: Subscription, event: AgentEvent): Promise<void> {
+    try {
+      // Lo que el handler emita hereda el correlationId de este evento
+      await this.correlationScope.run(event.correlationId, () => subscription.handler(event));
+    } catch (error) {
+      // Un handler roto no debe tumbar al emisor ni al resto de suscriptores
+      console.error(`❌ Error en handler de ${event.type} (${subscription.pattern}):`, (error as Error).message);
+    }
+  }
+
+  private static compilePattern(pattern: AgentEventPattern): (type: string) => boolean {
+    if (pattern === '*') return () => true;
+    if (!pattern.includes('*')) return (type: string) => type === pattern;
+
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return (type: string) => regex.test(type);
+  }
+}
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { devmindConfig } from '../devmind.config';
+
+/**
+ * Manifiesto de la indexación incremental (MemoryAgent)
+ *
+ * Guarda, por archivo indexado, el hash de su contenido y los ids de sus fragmentos.
+ * Con eso `index` solo embebe archivos nuevos o cambiados y, dentro de ellos, solo los
+ * fragmentos que no existían; los que desaparecen se borran del almacén.
+ */
+
+export interface EntradaManifest {
+  hash: string; // sha256 del contenido del archivo
+  chunks: string[]; // Ids de sus fragmentos en el almacén
+  indexado: string;
+}
+
+export interface ResumenIndexacion {
+  nuevos: string[];
+  modificados: string[];
+  eliminados: string[];
+  sinCambios: number;
+  fragmentosEmbebidos: number;
+  fragmentosReutilizados: number;
+  fragmentosEliminados: number;
+}
+
+interface ArchivoManifest {
+  version: 1;
+  embedder: string;
+  store: string;
+  namespace: string;
+  archivos: Record<string, EntradaManifest>;
+}
+
+export const hashContenido = (contenido: string | Buffer): string =>
+  createHash('sha256').update(contenido).digest('hex');
+
+export class IndexManifest {
+  private ruta: string;
+  private datos: ArchivoManifest;
+
+  constructor(ruta: string = path.resolve(process.cwd(), devmindConfig.memory.dir, 'manifest.json')) {
+    this.ruta = ruta;
+    this.datos = { version: 1, embedder: '', store: '', namespace: '', archivos: {} };
+  }
+
+  /**
+   * Carga el manifiesto del disco. Si se hizo con otro embedder, almacén o namespace
+   * no sirve (los ids no apuntan a nada comparable) y se empieza de cero.
+   */
+  cargar(embedder: string, store: string, namespace: string): void {
+    let datos: ArchivoManifest | undefined;
+    if (fs.existsSync(this.ruta)) {
+      try {
+        datos = JSON.parse(fs.readFileSync(this.ruta, 'utf-8')) as ArchivoManifest;
+      } catch {
+        datos = undefined; // Corrupto: se reconstruye con la próxima indexación
+      }
+    }
+    const compatible = datos && datos.embedder === embedder && datos.store === store && datos.namespace === namespace;
+    this.datos = compatible ? datos! : { version: 1, embedder, store, namespace, archivos: {} };
+  }
+
+  vaciar(): void {
+    this.datos.archivos = {};
+  }
+
+  obtener(source: string): EntradaManifest | undefined {
+    return this.datos.archivos[source];
+  }
+
+  actualizar(source: string, entrada: EntradaManifest): void {
+    this.datos.archivos[source] = entrada;
+  }
+
+  eliminar(source: string): void {
+    delete this.datos.archivos[source];
+  }
+
+  fuentes(): string[] {
+    return Object.keys(this.datos.archivos);
+  }
+
+  // Escritura atómica (tmp + rename)
+  guardar(): void {
+    fs.mkdirSync(path.dirname(this.ruta), { recursive: true });
+    const tmp = `${this.ruta}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.datos, null, 2));
+    fs.renameSync(tmp, this.ruta);
+  }
+}
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { devmindConfig } from '../devmind.config';
+import { tokenizar } from './embedders';
+import type { SimboloArchivo } from './code-graph';
+
+/**
+ * Índice de palabras clave (BM25) de la memoria (MemoryAgent)
+ *
+ * Complementa al almacén de vectores: la búsqueda semántica encuentra "dónde se valida la licencia",
+ * pero pa' un identificador exacto (`crearVectorStore`) lo que manda es el término. Guarda el texto de
+ * cada fragmento, así que también sirve pa' los snippets aunque los vectores vivan en Pinecone.
+ */
+
+export interface DocumentoClave {
+  id: string; // Mismo id que el fragmento en el almacén de vectores
+  source: string;
+  lineaInicio: number;
+  lineaFin: number;
+  texto: string;
+  simbolos?: SimboloArchivo[]; // Declaraciones que tocan el fragmento (services/code-graph.ts)
+}
+
+export interface ResultadoClave {
+  documento: DocumentoClave;
+  puntuacion: number; // BM25, sin normalizar
+  terminos: string[]; // Términos de la consulta que aparecen en el fragmento
+}
+
+interface ArchivoIndiceClave {
+  version: 1;
+  documentos: DocumentoClave[];
+}
+
+// Palabras vacías (inglés y español) que no aportan en una consulta en lenguaje natural
+const PALABRAS_VACIAS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on',
+  'or', 'the', 'to', 'what', 'when', 'where', 'which', 'who', 'with',
+  'al', 'como', 'con', 'cual', 'de', 'del', 'donde', 'el', 'en', 'es', 'la', 'las', 'lo', 'los', 'para', 'pa',
+  'por', 'que', 'se', 'su', 'un', 'una', 'y',
+]);
+
+// Términos de búsqueda de una consulta: los mismos tokens que el índice, sin palabras vacías
+export const terminosDeConsulta = (consulta: string): string[] =>
+  [...new Set(tokenizar(consulta))].filter(termino => !PALABRAS_VACIAS.has(termino));
+
+// Parámetros clásicos de BM25: saturación del tf y normalización por longitud
+const K1 = 1.2;
+const B = 0.75;
+
+export class KeywordIndex {
+  private ruta: string;
+  private documentos = new Map<string, DocumentoClave>();
+  private frecuencias = new Map<string, Map<string, number>>(); // id → término → tf
+  private longitudes = new Map<string, number>();
+  private documentosPorTermino = new Map<string, number>(); // df
+  private longitudTotal = 0;
+  private sucio = false;
+
+  constructor(namespace: string = devmindConfig.memory.namespace) {
+    this.ruta = path.resolve(process.cwd(), devmindConfig.memory.dir, 'keywords', `${namespace}.json`);
+  }
+
+  cargar(): void {
+    this.documentos.clear();
+    this.frecuencias.clear();
+    this.longitudes.clear();
+    this.documentosPorTermino.clear();
+    this.longitudTotal = 0;
+    this.sucio = false;
+    if (!fs.existsSync(this.ruta)) return;
+
+    const datos = JSON.parse(fs.readFileSync(this.ruta, 'utf-8')) as ArchivoIndiceClave;
+    datos.documentos.forEach(documento => this.indexar(documento));
+  }
+
+  get total(): number {
+    return this.documentos.size;
+  }
+
+  obtener(id: string): DocumentoClave | undefined {
+    return this.documentos.get(id);
+  }
+
+  agregar(documentos: DocumentoClave[]): void {
+    for (const documento of documentos) {
+      this.quitar(documento.id);
+      this.indexar(documento);
+    }
+    this.sucio = documentos.length > 0 || this.sucio;
+  }
+
+  eliminar(ids: string[]): void {
+    for (const id of ids) {
+      if (this.quitar(id)) this.sucio = true;
+    }
+  }
+
+  eliminarFuente(source: string): void {
+    this.eliminar([...this.documentos.values()].filter(documento => documento.source === source).map(documento => documento.id));
+  }
+
+  /**
+   * Los `k` fragmentos con mayor BM25 pa' la consulta, entre los que pasan el filtro
+   */
+  buscar(consulta: string, k: number, filtro: (documento: DocumentoClave) => boolean = () => true): ResultadoClave[] {
+    const terminos = terminosDeConsulta(consulta);
+    const n = this.documentos.size;
+    if (terminos.length === 0 || n === 0) return [];
+    const longitudMedia = this.longitudTotal / n;
+
+    const resultados: ResultadoClave[] = [];
+    for (const [id, documento] of this.documentos) {
+      if (!filtro(documento)) continue;
+      const frecuencias = this.frecuencias.get(id)!;
+      const longitud = this.longitudes.get(id)!;
+      let puntuacion = 0;
+      const encontrados: string[] = [];
+      for (const termino of terminos) {
+        const tf = frecuencias.get(termino);
+        if (!tf) continue;
+        const df = this.documentosPorTermino.get(termino) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        puntuacion += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (longitud / longitudMedia)));
+        encontrados.push(termino);
+      }
+      if (puntuacion > 0) resultados.push({ documento, puntuacion, terminos: encontrados });
+    }
+    return resultados.sort((a, b) => b.puntuacion - a.puntuacion).slice(0, k);
+  }
+
+  // Escritura atómica (tmp + rename), solo si hubo cambios
+  guardar(): void {
+    if (!this.sucio) return;
+    const datos: ArchivoIndiceClave = { version: 1, documentos: [...this.documentos.values()] };
+    fs.mkdirSync(path.dirname(this.ruta), { recursive: true });
+    const tmp = `${this.ruta}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(datos));
+    fs.renameSync(tmp, this.ruta);
+    this.sucio = false;
+  }
+
+  private indexar(documento: DocumentoClave): void {
+    const tokens = tokenizar(documento.texto);
+    const frecuencias = new Map<string, number>();
+    tokens.forEach(token => frecuencias.set(token, (frecuencias.get(token) || 0) + 1));
+    frecuencias.forEach((_, termino) => this.documentosPorTermino.set(termino, (this.documentosPorTermino.get(termino) || 0) + 1));
+
+    this.documentos.set(documento.id, documento);
+    this.frecuencias.set(documento.id, frecuencias);
+    this.longitudes.set(documento.id, tokens.length);
+    this.longitudTotal += tokens.length;
+  }
+
+  private quitar(id: string): boolean {
+    const frecuencias = this.frecuencias.get(id);
+    if (!frecuencias) return false;
+    frecuencias.forEach((_, termino) => {
+      const df = (this.documentosPorTermino.get(termino) || 1) - 1;
+      if (df > 0) this.documentosPorTermino.set(termino, df);
+      else this.documentosPorTermino.delete(termino);
+    });
+    this.longitudTotal -= this.longitudes.get(id) || 0;
+    this.documentos.delete(id);
+    this.frecuencias.delete(id);
+    this.longitudes.delete(id);
+    return true;
+  }
+}
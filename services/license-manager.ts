@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { devmindConfig } from '../devmind.config';
+import {
+  DatosLicencia,
+  LicenciaVerificada,
+  NuevaLicencia,
+  TIERS_LICENCIA,
+  TierLicencia,
+} from '../types/license-types';
+
+/**
+ * LicenseManager - Licencias firmadas que la CLI verifica sin conexión
+ *
+ * El tier ya no sale de un string que cualquiera puede editar en el contexto: la licencia es un
+ * token `cjl1.<datos>.<firma>` con tier, asientos, expiración y features, firmado con Ed25519.
+ * - Los admins generan el par de claves (`cj system license keygen`) y emiten con la privada
+ *   (`cj system license issue`); la CLI solo lleva la pública, compilada en CLAVE_PUBLICA_EMISOR
+ * - No se lee de un archivo ni del entorno: quien pudiera cambiarla firmaría sus propias licencias.
+ *   Los tests construyen el LicenseManager con su propia clave
+ * - Custodia: la privada la guardan solo los admins que emiten, fuera del repo y de cualquier
+ *   instalación de la CLI (keygen e issue se niegan a usar una ruta dentro), con permisos 600 y una
+ *   copia cifrada offline. issue comprueba que la licencia verifica con la pública compilada
+ * - Rotación (clave perdida o filtrada): keygen de un par nuevo, su public.pem a CLAVE_PUBLICA_EMISOR
+ *   aquí y en la copia de la API (dashboard/backend/src/shared/license.ts), versión nueva de la CLI y
+ *   reemisión de las licencias vigentes; las anteriores dejan de valer
+ * - `cj system license activate <token>` la verifica y la guarda en licencias.archivo
+ * - Expirada, sigue valiendo licencias.graciaDias días con aviso; después se baja a Community
+ * - Sin licencia o con firma inválida: Community
+ */
+
+const PREFIJO = 'cjl1';
+
+// Pública del emisor de CJ.DevMind; rotarla invalida todas las licencias emitidas con la anterior
+export const CLAVE_PUBLICA_EMISOR = `-----BEGIN PUBLIC KEY-----
+MCowBQYDK2VwAyEAsYJdRpif9Va/SjytMX7vk4y9lzg+UOkO2Pys/w02YZY=
+-----END PUBLIC KEY-----
+`;
+
+export class LicenciaInvalidaError extends Error {
+  constructor(public readonly motivo: string) {
+    super(`Licencia inválida: ${motivo}`);
+    this.name = 'LicenciaInvalidaError';
+  }
+}
+
+const DIA_MS = 24 * 3600 * 1000;
+
+export class LicenseManager {
+  private static instance: LicenseManager;
+  private verificada?: LicenciaVerificada;
+  private clavePublica: crypto.KeyObject;
+
+  constructor(clavePublica: string | crypto.KeyObject = CLAVE_PUBLICA_EMISOR) {
+    this.clavePublica = typeof clavePublica === 'string' ? crypto.createPublicKey(clavePublica) : clavePublica;
+  }
+
+  static getInstance(): LicenseManager {
+    if (!LicenseManager.instance) {
+      LicenseManager.instance = new LicenseManager();
+    }
+    return LicenseManager.instance;
+  }
+
+  // Tier efectivo del usuario de esta máquina
+  tier(): TierLicencia {
+    return this.actual().tier;
+  }
+
+  // Licencia instalada (CJ_LICENSE_KEY o licencias.archivo), verificada una vez por proceso
+  actual(): LicenciaVerificada {
+    if (!this.verificada) {
+      const token = this.leerToken();
+      this.verificada = token
+        ? this.verificar(token)
+        : { estado: 'ausente', tier: 'Community', motivo: 'No hay licencia activada (cj system license activate <licencia>)' };
+    }
+    return this.verificada;
+  }
+
+  // Comprueba firma y fechas; nunca lanza: una licencia que no vale deja el tier en Community
+  verificar(token: string, ahora: Date = new Date()): LicenciaVerificada {
+    const invalida = (motivo: string): LicenciaVerificada => ({ estado: 'invalida', tier: 'Community', motivo });
+
+    const partes = token.trim().split('.');
+    if (partes.length !== 3 || partes[0] !== PREFIJO) {
+      return invalida(`formato desconocido (se esperaba ${PREFIJO}.<datos>.<firma>)`);
+    }
+    const firmaValida = crypto.verify(null, Buffer.from(`${partes[0]}.${partes[1]}`), this.clavePublica, Buffer.from(partes[2], 'base64url'));
+    if (!firmaValida) {
+      return invalida('la firma no corresponde (licencia alterada o de otra clave)');
+    }
+
+    let datos: DatosLicencia;
+    try {
+      datos = JSON.parse(Buffer.from(partes[1], 'base64url').toString('utf-8')) as DatosLicencia;
+    } catch {
+      return invalida('datos ilegibles');
+    }
+    if (datos.v !== 1 || !TIERS_LICENCIA.includes(datos.tier) || Number.isNaN(Date.parse(datos.expira))) {
+      return invalida('datos incompletos o de una versión que esta CLI no entiende');
+    }
+
+    const diasRestantes = Math.ceil((Date.parse(datos.expira) - ahora.getTime()) / DIA_MS);
+    if (Date.parse(datos.expira) > ahora.getTime()) {
+      return { estado: 'activa', tier: datos.tier, datos, diasRestantes };
+    }
+    const gracia = devmindConfig.licencias.graciaDias;
+    if (-diasRestantes <= gracia) {
+      return {
+        estado: 'gracia',
+        tier: datos.tier,
+        datos,
+        diasRestantes,
+        motivo: `Expiró el ${datos.expira.substring(0, 10)}; sigue valiendo ${gracia + diasRestantes} días más. Renuévala en el dashboard`,
+      };
+    }
+    return { estado: 'expirada', tier: 'Community', datos, diasRestantes, motivo: `Expiró el ${datos.expira.substring(0, 10)} y pasó el periodo de gracia` };
+  }
+
+  // Verifica y guarda la licencia del usuario; una que no vale no se guarda
+  activar(token: string): LicenciaVerificada {
+    const verificada = this.verificar(token);
+    if (verificada.estado === 'invalida' || verificada.estado === 'expirada') {
+      throw new LicenciaInvalidaError(verificada.motivo || verificada.estado);
+    }
+    const archivo = devmindConfig.licencias.archivo;
+    fs.mkdirSync(path.dirname(archivo), { recursive: true });
+    fs.writeFileSync(archivo, token.trim() + '\n', { mode: 0o600 });
+    this.verificada = verificada;
+    return verificada;
+  }
+
+  // Emisión (admins): firma los datos con la clave privada Ed25519
+  emitir(nueva: NuevaLicencia, clavePrivada: string | crypto.KeyObject): string {
+    if (!TIERS_LICENCIA.includes(nueva.tier)) {
+      throw new Error(`Tier inválido "${nueva.tier}". Debe ser uno de: ${TIERS_LICENCIA.join(', ')}`);
+    }
+    if (!(nueva.dias > 0)) {
+      throw new Error(`Vigencia inválida: ${nueva.dias} días`);
+    }
+    const emitida = new Date();
+    const datos: DatosLicencia = {
+      v: 1,
+      id: uuidv4(),
+      titular: nueva.titular,
+      tier: nueva.tier,
+      asientos: nueva.asientos ?? 1,
+      features: nueva.features || [],
+      emitida: emitida.toISOString(),
+      expira: new Date(emitida.getTime() + nueva.dias * DIA_MS).toISOString(),
+    };
+    const cuerpo = `${PREFIJO}.${Buffer.from(JSON.stringify(datos)).toString('base64url')}`;
+    const firma = crypto.sign(null, Buffer.from(cuerpo), clavePrivada);
+    return `${cuerpo}.${firma.toString('base64url')}`;
+  }
+
+  // Par de claves pa' un emisor nuevo: la pública se compila en CLAVE_PUBLICA_EMISOR, la privada no sale de los admins
+  generarClaves(): { publica: string; privada: string } {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    return {
+      publica: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      privada: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    };
+  }
+
+  private leerToken(): string | undefined {
+    if (process.env.CJ_LICENSE_KEY) return process.env.CJ_LICENSE_KEY;
+    const archivo = devmindConfig.licencias.archivo;
+    return fs.existsSync(archivo) ? fs.readFileSync(archivo, 'utf-8').trim() || undefined : undefined;
+  }
+}
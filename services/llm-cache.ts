@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { devmindConfig } from '../devmind.config';
+
+/**
+ * LLMCache - Caché persistente de respuestas del LLM (APIProxy)
+ *
+ * Una orquestación que se repite con la misma idea vuelve a mandar los mismos prompts (blueprint,
+ * sistema de diseño...). Con la caché, un paso sin cambios arriba no se vuelve a pagar.
+ * - Clave: proveedor, modelo, temperatura y el prompt normalizado (CRLF y espacios al final de línea no cuentan)
+ * - Cada entrada caduca a las `llm.cache.ttlHoras` (o el TTL de la solicitud)
+ * - Si pasa de `llm.cache.maxMB` se desalojan las menos usadas recientemente
+ * - Vive en context/cache/llm: fuera del rollback de las transacciones
+ *
+ * `cj --no-cache ...` o CJ_LLM_CACHE=off la desactivan; `cj system cache` muestra estadísticas y la limpia.
+ */
+
+export interface ClaveCache {
+  proveedor: string;
+  modelo: string;
+  prompt: string;
+  temperatura?: number;
+}
+
+export interface EntradaCache {
+  clave: string;
+  proveedor: string;
+  modelo: string;
+  temperatura?: number;
+  resultado: string;
+  tokensPrompt: number;
+  tokensRespuesta: number;
+  creada: string;
+}
+
+export interface EstadisticasCache {
+  activa: boolean;
+  entradas: number;
+  bytes: number;
+  maxBytes: number;
+  aciertos: number;
+  fallos: number;
+  tasaAcierto: number; // 0..1
+  tokensAhorrados: number; // Prompt + respuesta que no se volvieron a pagar
+  expiradas: number;
+  desalojadas: number;
+}
+
+interface MetaEntrada {
+  bytes: number;
+  expira: number; // epoch ms
+  usada: number; // epoch ms, pa'l LRU
+  aciertos: number;
+}
+
+interface IndiceCache {
+  version: 1;
+  entradas: Record<string, MetaEntrada>;
+  contadores: { aciertos: number; fallos: number; tokensAhorrados: number; expiradas: number; desalojadas: number };
+}
+
+const indiceVacio = (): IndiceCache => ({
+  version: 1,
+  entradas: {},
+  contadores: { aciertos: 0, fallos: 0, tokensAhorrados: 0, expiradas: 0, desalojadas: 0 },
+});
+
+// Mismo prompt aunque cambien los finales de línea (CRLF) o sobren espacios al final de las líneas o saltos
+// al principio y al final. La sangría se conserva: en YAML, Python o un diff cambia el significado
+export const normalizarPrompt = (prompt: string): string =>
+  prompt
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(linea => linea.trimEnd())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+
+export class LLMCache {
+  private static instance: LLMCache;
+  private directorio: string;
+  private rutaIndice: string;
+  private indice?: IndiceCache;
+  private desactivada = false;
+
+  constructor(directorio: string = path.resolve(process.cwd(), devmindConfig.contextPath, 'cache', 'llm')) {
+    this.directorio = directorio;
+    this.rutaIndice = path.join(directorio, 'index.json');
+  }
+
+  static getInstance(): LLMCache {
+    if (!LLMCache.instance) {
+      LLMCache.instance = new LLMCache();
+    }
+    return LLMCache.instance;
+  }
+
+  get activa(): boolean {
+    return devmindConfig.llm.cache.enabled && !this.desactivada;
+  }
+
+  // --no-cache: ni se lee ni se escribe durante este proceso
+  desactivar(): void {
+    this.desactivada = true;
+  }
+
+  clave(datos: ClaveCache): string {
+    return createHash('sha256')
+      .update(JSON.stringify([datos.proveedor, datos.modelo, datos.temperatura ?? null, normalizarPrompt(datos.prompt)]))
+      .digest('hex');
+  }
+
+  obtener(clave: string): EntradaCache | null {
+    const indice = this.cargar();
+    const meta = indice.entradas[clave];
+    const ruta = this.rutaEntrada(clave);
+
+    if (meta && meta.expira <= Date.now()) {
+      this.borrar(indice, clave);
+      indice.contadores.expiradas++;
+    }
+    if (!indice.entradas[clave] || !fs.existsSync(ruta)) {
+      if (indice.entradas[clave]) this.borrar(indice, clave);
+      indice.contadores.fallos++;
+      this.guardarIndice();
+      return null;
+    }
+
+    const entrada = JSON.parse(fs.readFileSync(ruta, 'utf-8')) as EntradaCache;
+    meta.usada = Date.now();
+    meta.aciertos++;
+    indice.contadores.aciertos++;
+    indice.contadores.tokensAhorrados += entrada.tokensPrompt + entrada.tokensRespuesta;
+    this.guardarIndice();
+    return entrada;
+  }
+
+  guardar(entrada: EntradaCache, ttlMs: number = devmindConfig.llm.cache.ttlHoras * 3600_000): void {
+    const indice = this.cargar();
+    const contenido = JSON.stringify(entrada);
+    fs.mkdirSync(this.directorio, { recursive: true });
+    this.escribirAtomico(this.rutaEntrada(entrada.clave), contenido);
+    indice.entradas[entrada.clave] = {
+      bytes: Buffer.byteLength(contenido),
+      expira: Date.now() + ttlMs,
+      usada: Date.now(),
+      aciertos: 0,
+    };
+    this.podar();
+  }
+
+  // Respuesta que resultó inválida (ej. JSON roto): se pide de nuevo la próxima vez
+  descartar(clave: string): void {
+    const indice = this.cargar();
+    if (!indice.entradas[clave]) return;
+    this.borrar(indice, clave);
+    this.guardarIndice();
+  }
+
+  /**
+   * Quita las expiradas y, si la caché pasa de maxMB, las menos usadas recientemente.
+   * Devuelve cuántas entradas se borraron.
+   */
+  podar(): number {
+    const indice = this.cargar();
+    const ahora = Date.now();
+    let borradas = 0;
+
+    for (const [clave, meta] of Object.entries(indice.entradas)) {
+      if (meta.expira > ahora) continue;
+      this.borrar(indice, clave);
+      indice.contadores.expiradas++;
+      borradas++;
+    }
+
+    const maxBytes = this.maxBytes();
+    let bytes = this.bytes(indice);
+    const porUso = Object.entries(indice.entradas).sort(([, a], [, b]) => a.usada - b.usada);
+    for (const [clave, meta] of porUso) {
+      if (bytes <= maxBytes) break;
+      this.borrar(indice, clave);
+      bytes -= meta.bytes;
+      indice.contadores.desalojadas++;
+      borradas++;
+    }
+
+    this.guardarIndice();
+    return borradas;
+  }
+
+  // Borra todas las entradas; las estadísticas se conservan
+  limpiar(): number {
+    const indice = this.cargar();
+    const claves = Object.keys(indice.entradas);
+    claves.forEach(clave => this.borrar(indice, clave));
+    this.guardarIndice();
+    return claves.length;
+  }
+
+  estadisticas(): EstadisticasCache {
+    const indice = this.cargar();
+    const { aciertos, fallos, tokensAhorrados, expiradas, desalojadas } = indice.contadores;
+    return {
+      activa: this.activa,
+      entradas: Object.keys(indice.entradas).length,
+      bytes: this.bytes(indice),
+      maxBytes: this.maxBytes(),
+      aciertos,
+      fallos,
+      tasaAcierto: aciertos + fallos > 0 ? aciertos / (aciertos + fallos) : 0,
+      tokensAhorrados,
+      expiradas,
+      desalojadas,
+    };
+  }
+
+  private cargar(): IndiceCache {
+    if (this.indice) return this.indice;
+    try {
+      this.indice = fs.existsSync(this.rutaIndice)
+        ? (JSON.parse(fs.readFileSync(this.rutaIndice, 'utf-8')) as IndiceCache)
+        : indiceVacio();
+    } catch {
+      // Índice corrupto: se empieza de cero (las entradas huérfanas se sobrescriben con el uso)
+      this.indice = indiceVacio();
+    }
+    return this.indice;
+  }
+
+  private borrar(indice: IndiceCache, clave: string): void {
+    delete indice.entradas[clave];
+    fs.rmSync(this.rutaEntrada(clave), { force: true });
+  }
+
+  private bytes(indice: IndiceCache): number {
+    return Object.values(indice.entradas).reduce((total, meta) => total + meta.bytes, 0);
+  }
+
+  private maxBytes(): number {
+    return devmindConfig.llm.cache.maxMB * 1024 * 1024;
+  }
+
+  private rutaEntrada(clave: string): string {
+    return path.join(this.directorio, `${clave}.json`);
+  }
+
+  private guardarIndice(): void {
+    if (!this.indice) return;
+    fs.mkdirSync(this.directorio, { recursive: true });
+    this.escribirAtomico(this.rutaIndice, JSON.stringify(this.indice));
+  }
+
+  private escribirAtomico(ruta: string, contenido: string): void {
+    const tmp = `${ruta}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, contenido);
+    fs.renameSync(tmp, ruta);
+  }
+}
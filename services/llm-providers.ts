@@ -0,0 +1,232 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Configuration, OpenAIApi } from 'openai';
+import { contarTokens, ventanaDeModelo } from './token-budget';
+import { redactarSecretos } from './redaction';
+
+/**
+ * Proveedores de LLM detrás del APIProxy
+ *
+ * Todos implementan la misma interfaz (LLMProvider) pa' que los agentes no sepan
+ * si hablan con OpenAI, Anthropic, un modelo local o con fixtures grabadas en disco.
+ */
+
+export type ProveedorLLM = 'openai' | 'anthropic' | 'local' | 'fixture';
+
+export interface LLMRequest {
+  modelo: string;
+  prompt: string;
+  maxTokens: number;
+  temperatura?: number;
+}
+
+export interface LLMResponse {
+  texto: string;
+  modelo: string;
+  tokensPrompt: number;
+  tokensRespuesta: number;
+}
+
+export interface LLMProvider {
+  readonly nombre: ProveedorLLM;
+  completar(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// Hash estable de la petición (modelo, temperatura y prompt): clave de las fixtures.
+// Con otro modelo u otra temperatura la respuesta grabada ya no vale
+export function hashSolicitud(request: LLMRequest): string {
+  const prompt = request.prompt.replace(/\r\n/g, '\n').trim();
+  return createHash('sha256')
+    .update(JSON.stringify([resolverModelo(request.modelo), request.temperatura ?? null, prompt]))
+    .digest('hex');
+}
+
+// Nombres "de negocio" usados en APIConfig → ids reales de cada API
+const ALIAS_MODELOS: Record<string, string> = {
+  'GPT-4': 'gpt-4',
+  'GPT-3.5': 'gpt-3.5-turbo',
+  'Claude': 'claude-3-5-sonnet-latest',
+  'Mistral': 'mistral',
+};
+
+function resolverModelo(modelo: string): string {
+  return ALIAS_MODELOS[modelo] || modelo;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly nombre = 'openai' as const;
+  private client: OpenAIApi;
+
+  constructor(apiKey: string = process.env.OPENAI_API_KEY || '') {
+    this.client = new OpenAIApi(new Configuration({ apiKey }));
+  }
+
+  async completar(request: LLMRequest): Promise<LLMResponse> {
+    const modelo = resolverModelo(request.modelo);
+    const { data } = await this.client.createChatCompletion({
+      model: modelo,
+      messages: [{ role: 'user', content: request.prompt }],
+      max_tokens: request.maxTokens,
+      temperature: request.temperatura,
+    });
+
+    const texto = data.choices[0]?.message?.content || '';
+    return {
+      texto,
+      modelo,
+      tokensPrompt: data.usage?.prompt_tokens ?? contarTokens(request.prompt),
+      tokensRespuesta: data.usage?.completion_tokens ?? contarTokens(texto),
+    };
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly nombre = 'anthropic' as const;
+
+  constructor(
+    private apiKey: string = process.env.ANTHROPIC_API_KEY || '',
+    private baseUrl: string = 'https://api.anthropic.com'
+  ) {}
+
+  async completar(request: LLMRequest): Promise<LLMResponse> {
+    const modelo = resolverModelo(request.modelo);
+    const res = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: modelo,
+        max_tokens: request.maxTokens,
+        temperature: request.temperatura,
+        messages: [{ role: 'user', content: request.prompt }],
+      }),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Anthropic respondió ${res.status}: ${await res.text()}`);
+    }
+
+    const data: any = await res.json();
+    const texto = (data.content || []).map((c: any) => c.text || '').join('');
+    return {
+      texto,
+      modelo,
+      tokensPrompt: data.usage?.input_tokens ?? contarTokens(request.prompt),
+      tokensRespuesta: data.usage?.output_tokens ?? contarTokens(texto),
+    };
+  }
+}
+
+// Modelo local servido por HTTP (API compatible con Ollama: POST /api/generate)
+export class LocalProvider implements LLMProvider {
+  readonly nombre = 'local' as const;
+
+  constructor(private baseUrl: string = process.env.LOCAL_LLM_URL || 'http://localhost:11434') {}
+
+  async completar(request: LLMRequest): Promise<LLMResponse> {
+    const modelo = resolverModelo(request.modelo);
+    const res = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        model: modelo,
+        prompt: request.prompt,
+        stream: false,
+        // Sin num_ctx Ollama usa su ventana por defecto (2048) y corta el prompt en silencio
+        options: { num_predict: request.maxTokens, num_ctx: ventanaDeModelo(request.modelo), temperature: request.temperatura },
+      }),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Modelo local respondió ${res.status}: ${await res.text()}`);
+    }
+
+    const data: any = await res.json();
+    const texto = data.response || '';
+    return {
+      texto,
+      modelo,
+      tokensPrompt: data.prompt_eval_count ?? contarTokens(request.prompt),
+      tokensRespuesta: data.eval_count ?? contarTokens(texto),
+    };
+  }
+}
+
+interface Fixture {
+  hash: string;
+  prompt: string;
+  texto: string;
+  modelo: string;
+  tokensPrompt: number;
+  tokensRespuesta: number;
+  grabado: string;
+}
+
+export interface FixtureProviderOptions {
+  dir: string;
+  // replay: solo lee de disco; record: llama al proveedor real y guarda la respuesta
+  modo: 'replay' | 'record';
+  // Proveedor real usado en modo record
+  delegado?: LLMProvider;
+  // En replay, si falta la fixture: true = error, false = respuesta mock determinista
+  estricto?: boolean;
+}
+
+// Record/replay desde disco, indexado por hash de modelo, temperatura y prompt. Pensado pa' correr el pipeline sin red ni API keys
+export class FixtureProvider implements LLMProvider {
+  readonly nombre = 'fixture' as const;
+
+  constructor(private options: FixtureProviderOptions) {}
+
+  async completar(request: LLMRequest): Promise<LLMResponse> {
+    const hash = hashSolicitud(request);
+    const fixturePath = path.join(this.options.dir, `${hash}.json`);
+
+    if (this.options.modo === 'replay' || !this.options.delegado) {
+      if (fs.existsSync(fixturePath)) {
+        const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as Fixture;
+        return {
+          texto: fixture.texto,
+          modelo: fixture.modelo,
+          tokensPrompt: fixture.tokensPrompt,
+          tokensRespuesta: fixture.tokensRespuesta,
+        };
+      }
+      if (this.options.estricto) {
+        throw new Error(`No hay fixture pa' el prompt ${hash.substring(0, 12)} en ${this.options.dir}`);
+      }
+      return this.respuestaMock(request, hash);
+    }
+
+    const respuesta = await this.options.delegado.completar(request);
+    // Las fixtures se suben al repo: prompt y respuesta van redactados como las transcripciones
+    const fixture: Fixture = {
+      hash,
+      ...respuesta,
+      prompt: redactarSecretos(request.prompt).texto,
+      texto: redactarSecretos(respuesta.texto).texto,
+      grabado: new Date().toISOString(),
+    };
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2), 'utf-8');
+    return respuesta;
+  }
+
+  // Respuesta determinista: mismo prompt → misma salida; JSON válido si el prompt lo pide
+  private respuestaMock(request: LLMRequest, hash: string): LLMResponse {
+    const pideJSON = /\bJSON\b/.test(request.prompt);
+    const texto = pideJSON
+      ? JSON.stringify({ mock: true, hash: hash.substring(0, 12) })
+      : `[mock ${hash.substring(0, 12)}] ${request.prompt.trim().split('\n')[0].substring(0, 120)}`;
+    return {
+      texto,
+      modelo: `mock:${resolverModelo(request.modelo)}`,
+      tokensPrompt: contarTokens(request.prompt),
+      tokensRespuesta: contarTokens(texto),
+    };
+  }
+}
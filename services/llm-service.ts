@@ -0,0 +1,36 @@
+import { APIProxy } from './api-proxy';
+import { ProveedorLLM } from './llm-providers';
+
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  agent?: string; // Quién pide, pa' la transcripción del APIProxy
+}
+
+/**
+ * LLMService - Fachada con firma estilo OpenAI sobre el APIProxy
+ * Pa' agentes que piden completions sin ContextoProyecto (ej. SelfImprovementAgent)
+ */
+export class LLMService {
+  private apiProxy = new APIProxy();
+
+  async getCompletion(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const model = options.model || 'gpt-3.5-turbo';
+    const respuesta = await this.apiProxy.ejecutar({
+      proveedor: this.proveedorPorModelo(model),
+      modelo: model,
+      prompt,
+      maxTokens: options.max_tokens || 1000,
+      temperatura: options.temperature,
+      origen: { agente: options.agent || 'LLMService' },
+    });
+    return respuesta.resultado;
+  }
+
+  private proveedorPorModelo(model: string): ProveedorLLM {
+    if (/^(gpt|o\d)/i.test(model)) return 'openai';
+    if (/^claude/i.test(model)) return 'anthropic';
+    return 'local';
+  }
+}
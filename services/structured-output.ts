@@ -0,0 +1,196 @@
+import { z } from 'zod';
+
+/**
+ * Salida estructurada del LLM (BaseAgent.salidaEstructurada)
+ *
+ * Cada tipo de respuesta (Blueprint, ArchitecturalBlueprint, WorkflowPlan...) se declara con un
+ * esquema zod. La respuesta cruda se limpia (bloques ```json, texto alrededor), se valida y, si
+ * falla, los errores concretos vuelven al LLM en un prompt de reparación, hasta maxReparaciones
+ * veces. Si ni así sale, se lanza SalidaInvalidaError con los errores del último intento.
+ *
+ * También reúne la extracción de bloques de código que cada agente hacía con su propia regex.
+ */
+
+export interface DefinicionSalida<T> {
+  nombre: string; // Pa' mensajes y actividad (ej. 'Blueprint')
+  esquema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Cómo debe verse el JSON: se repite en el prompt de reparación
+  formato?: string;
+  // Reglas extra pa'l prompt de reparación (ej. los agentes válidos de un plan)
+  instrucciones?: string;
+}
+
+export interface ErrorSalida {
+  ruta: string; // 'components[2].name' ('' = la respuesta entera)
+  mensaje: string;
+}
+
+export interface ResultadoSalida<T> {
+  valido: boolean;
+  valor?: T; // Solo si es válido (ya transformado por el esquema)
+  errores: ErrorSalida[];
+}
+
+export interface OpcionesSalida {
+  maxReparaciones: number;
+  // Pide al LLM la respuesta corregida; `intento` empieza en 1
+  reparar: (prompt: string, errores: ErrorSalida[], intento: number) => Promise<string>;
+}
+
+export class SalidaInvalidaError extends Error {
+  constructor(
+    public readonly salida: string,
+    public readonly intentos: number,
+    public readonly errores: ErrorSalida[],
+    public readonly respuesta: string
+  ) {
+    super(`La respuesta del LLM no cumple el formato de ${salida} tras ${intentos} intentos:\n${formatearErrores(errores)}`);
+    this.name = 'SalidaInvalidaError';
+  }
+}
+
+export interface BloqueCodigo {
+  lenguaje: string; // '' si el bloque no lo indica
+  ruta?: string; // ```ts:src/app.ts o ```ts src/app.ts
+  codigo: string;
+}
+
+const BLOQUE_CODIGO = /```([\w+#.-]*)(?:[: \t]+([^\n`]+?))?[ \t]*\r?\n([\s\S]*?)```/g;
+
+export function extraerBloquesCodigo(texto: string): BloqueCodigo[] {
+  return [...texto.matchAll(BLOQUE_CODIGO)].map(bloque => ({
+    lenguaje: bloque[1].toLowerCase(),
+    ruta: bloque[2]?.trim() || undefined,
+    codigo: bloque[3].replace(/\s+$/, ''),
+  }));
+}
+
+// Código de una respuesta que debería ser solo código: el primer bloque de alguno de los
+// `lenguajes` (o el primero a secas); sin bloques, la respuesta entera
+export function extraerCodigo(texto: string, lenguajes: string[] = []): string {
+  const bloques = extraerBloquesCodigo(texto);
+  const buscados = lenguajes.map(lenguaje => lenguaje.toLowerCase());
+  const bloque = bloques.find(b => buscados.includes(b.lenguaje)) || bloques[0];
+  if (bloque) return bloque.codigo.trim();
+  return texto.trim();
+}
+
+// Primer valor JSON completo a partir de `inicio`, respetando strings y escapes
+function valorBalanceado(texto: string, inicio: number): string | undefined {
+  const pila: string[] = [];
+  let enString = false;
+  for (let i = inicio; i < texto.length; i++) {
+    const c = texto[i];
+    if (enString) {
+      if (c === '\\') i++;
+      else if (c === '"') enString = false;
+    } else if (c === '"') enString = true;
+    else if (c === '{' || c === '[') pila.push(c === '{' ? '}' : ']');
+    else if (c === '}' || c === ']') {
+      if (pila.pop() !== c) return undefined;
+      if (pila.length === 0) return texto.substring(inicio, i + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * JSON de una respuesta del LLM: suelto, dentro de un bloque ```json o con texto alrededor.
+ * Tolera comas finales antes de } o ], el error más común de los modelos.
+ */
+export function extraerJSON(respuesta: string): unknown {
+  const bloque = extraerBloquesCodigo(respuesta).find(b => b.lenguaje === 'json' || b.lenguaje === '');
+  const texto = (bloque ? bloque.codigo : respuesta).trim();
+  const inicio = texto.search(/[{[]/);
+  if (inicio === -1) {
+    throw new Error('La respuesta no contiene JSON');
+  }
+  const crudo = valorBalanceado(texto, inicio) ?? texto.substring(inicio);
+  try {
+    return JSON.parse(crudo);
+  } catch (error) {
+    try {
+      return JSON.parse(crudo.replace(/,(\s*[}\]])/g, '$1'));
+    } catch {
+      throw new Error(`JSON inválido: ${(error as Error).message}`);
+    }
+  }
+}
+
+const rutaDe = (ruta: (string | number)[]): string =>
+  ruta.reduce<string>((texto, parte) => (typeof parte === 'number' ? `${texto}[${parte}]` : texto ? `${texto}.${parte}` : parte), '');
+
+// Mensajes de zod en español y pensados pa'l LLM
+function mensajeDe(issue: z.ZodIssue): string {
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.received === 'undefined' ? 'falta este campo (obligatorio)' : `se esperaba ${issue.expected}, llegó ${issue.received}`;
+    case 'invalid_enum_value':
+      return `"${issue.received}" no es válido; usa uno de: ${issue.options.join(', ')}`;
+    case 'invalid_literal':
+      return `debe ser ${JSON.stringify(issue.expected)}`;
+    case 'too_small':
+      return issue.type === 'array' ? `necesita al menos ${issue.minimum} elementos` : issue.type === 'string' ? 'no puede estar vacío' : `debe ser ≥ ${issue.minimum}`;
+    case 'too_big':
+      return issue.type === 'array' ? `admite como máximo ${issue.maximum} elementos` : `debe ser ≤ ${issue.maximum}`;
+    case 'unrecognized_keys':
+      return `campos no permitidos: ${issue.keys.join(', ')}`;
+    default:
+      return issue.message;
+  }
+}
+
+export function formatearErrores(errores: ErrorSalida[]): string {
+  return errores.map(error => `- ${error.ruta ? `${error.ruta}: ` : ''}${error.mensaje}`).join('\n');
+}
+
+export function validarSalida<T>(respuesta: string, definicion: DefinicionSalida<T>): ResultadoSalida<T> {
+  let crudo: unknown;
+  try {
+    crudo = extraerJSON(respuesta);
+  } catch (error) {
+    return { valido: false, errores: [{ ruta: '', mensaje: (error as Error).message }] };
+  }
+  const resultado = definicion.esquema.safeParse(crudo);
+  if (resultado.success) {
+    return { valido: true, valor: resultado.data, errores: [] };
+  }
+  return {
+    valido: false,
+    errores: resultado.error.issues.map(issue => ({ ruta: rutaDe(issue.path), mensaje: mensajeDe(issue) })),
+  };
+}
+
+// Prompt de reparación: errores concretos + la respuesta anterior
+export function promptReparacion<T>(definicion: DefinicionSalida<T>, respuestaAnterior: string, errores: ErrorSalida[]): string {
+  return [
+    `La respuesta anterior no cumple el formato de ${definicion.nombre}. Corrige estos errores y devuelve SOLO el JSON completo corregido, sin explicaciones:`,
+    formatearErrores(errores),
+    definicion.formato ? `Estructura esperada:\n${definicion.formato}` : '',
+    definicion.instrucciones || '',
+    `Respuesta anterior:\n${respuestaAnterior}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Valida `respuesta` y, mientras no sea válida, pide reparaciones (hasta maxReparaciones).
+ * Devuelve el valor tipado y cuántas reparaciones hicieron falta.
+ */
+export async function obtenerSalida<T>(
+  definicion: DefinicionSalida<T>,
+  respuesta: string,
+  opciones: OpcionesSalida
+): Promise<{ valor: T; reparaciones: number }> {
+  for (let intento = 0; ; intento++) {
+    const resultado = validarSalida(respuesta, definicion);
+    if (resultado.valido) {
+      return { valor: resultado.valor as T, reparaciones: intento };
+    }
+    if (intento >= opciones.maxReparaciones) {
+      throw new SalidaInvalidaError(definicion.nombre, intento + 1, resultado.errores, respuesta);
+    }
+    respuesta = await opciones.reparar(promptReparacion(definicion, respuesta, resultado.errores), resultado.errores, intento + 1);
+  }
+}
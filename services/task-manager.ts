@@ -0,0 +1,251 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { devmindConfig } from '../devmind.config';
+import { AgentEventType } from '../types/agent-types';
+import { FiltroTareas, NuevaTarea, Task, TaskState, TERMINAL_TASK_STATES } from '../types/task-types';
+import { EventBus } from './event-bus';
+
+/**
+ * TaskManager - Ciclo de vida persistente de las tareas
+ *
+ * - Guarda las tareas en JSON bajo context/ (context/tasks.json por defecto)
+ * - Valida cada transición contra la tabla de context/rules.md
+ * - Registra historial por transición (quién, cuándo, por qué) y el motivo de bloqueo
+ * - Relee el archivo en cada operación: `cj system tasks cancel` desde otra terminal
+ *   se ve en la orquestación que está corriendo
+ */
+
+// Transiciones permitidas (context/rules.md). IN_PROGRESS → CANCELLED es la cancelación
+// pedida por el usuario mientras el agente corre; el resultado del agente se descarta.
+const TRANSICIONES: Record<TaskState, TaskState[]> = {
+  PENDING: ['IN_PROGRESS', 'CANCELLED'],
+  IN_PROGRESS: ['BLOCKED', 'REVIEW', 'ERROR', 'COMPLETED', 'CANCELLED'],
+  BLOCKED: ['IN_PROGRESS', 'CANCELLED'],
+  REVIEW: ['COMPLETED', 'IN_PROGRESS', 'CANCELLED'],
+  ERROR: ['IN_PROGRESS', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+// "Tras 3 intentos fallidos (ERROR → IN_PROGRESS), la tarea pasa a CANCELLED"
+export const MAX_INTENTOS = 3;
+
+interface ArchivoTareas {
+  version: 1;
+  tareas: Task[];
+}
+
+export class TaskTransitionError extends Error {
+  constructor(public readonly taskId: string, public readonly de: TaskState, public readonly a: TaskState) {
+    super(`Transición inválida de ${de} a ${a} (tarea ${taskId})`);
+    this.name = 'TaskTransitionError';
+  }
+}
+
+// Un prefijo de id que coincide con varias tareas: mejor fallar que actuar sobre la que salga primero
+export class IdAmbiguoError extends Error {
+  constructor(public readonly id: string, public readonly coincidencias: string[]) {
+    super(`El id "${id}" coincide con ${coincidencias.length} tareas (${coincidencias.slice(0, 5).join(', ')}${coincidencias.length > 5 ? '…' : ''}); usa más caracteres`);
+    this.name = 'IdAmbiguoError';
+  }
+}
+
+// Id completo o prefijo único; un prefijo vacío no es ninguno
+function buscarTarea(tareas: Task[], id: string): Task | undefined {
+  const exacta = tareas.find(t => t.id === id);
+  if (exacta || !id) return exacta;
+  const coincidencias = tareas.filter(t => t.id.startsWith(id));
+  if (coincidencias.length > 1) throw new IdAmbiguoError(id, coincidencias.map(t => t.id));
+  return coincidencias[0];
+}
+
+export class TaskManager {
+  private archivo: string;
+  private eventBus = EventBus.getInstance();
+
+  constructor(archivo: string = path.resolve(process.cwd(), devmindConfig.contextPath, 'tasks.json')) {
+    this.archivo = archivo;
+  }
+
+  static transicionesPermitidas(estado: TaskState): TaskState[] {
+    return [...TRANSICIONES[estado]];
+  }
+
+  static puedeTransicionar(de: TaskState, a: TaskState): boolean {
+    return TRANSICIONES[de].includes(a);
+  }
+
+  static esTerminal(estado: TaskState): boolean {
+    return TERMINAL_TASK_STATES.includes(estado);
+  }
+
+  async crear(datos: NuevaTarea, actor: string = 'TaskManager'): Promise<Task> {
+    const now = new Date().toISOString();
+    const tarea: Task = {
+      id: uuidv4(),
+      proyectoId: datos.proyectoId,
+      stepId: datos.stepId,
+      agente: datos.agente,
+      input: datos.input,
+      descripcion: datos.descripcion,
+      prioridad: datos.prioridad ?? 1,
+      dependeDe: datos.dependeDe || [],
+      estado: 'PENDING',
+      intentos: 0,
+      creada: now,
+      actualizada: now,
+      historial: [{ de: null, a: 'PENDING', fecha: now, agente: actor }],
+    };
+
+    const datosArchivo = this.leer();
+    datosArchivo.tareas.push(tarea);
+    this.escribir(datosArchivo);
+
+    await this.notificar(tarea, null, actor);
+    return tarea;
+  }
+
+  // Fija las dependencias de una tarea que aún no empezó: el orquestador crea primero todas las del plan
+  enlazarDependencias(id: string, dependeDe: string[]): Task {
+    const datosArchivo = this.leer();
+    const tarea = buscarTarea(datosArchivo.tareas, id);
+    if (!tarea) throw new Error(`Tarea "${id}" no encontrada`);
+    if (tarea.estado !== 'PENDING') {
+      throw new Error(`La tarea ${tarea.id} ya está en ${tarea.estado}; sus dependencias no se cambian`);
+    }
+    tarea.dependeDe = dependeDe;
+    tarea.actualizada = new Date().toISOString();
+    this.escribir(datosArchivo);
+    return tarea;
+  }
+
+  obtener(id: string): Task | undefined {
+    return buscarTarea(this.leer().tareas, id);
+  }
+
+  listar(filtro: FiltroTareas = {}): Task[] {
+    const estados = filtro.estado ? ([] as TaskState[]).concat(filtro.estado) : undefined;
+    return this.leer().tareas
+      .filter(t => !filtro.proyectoId || t.proyectoId === filtro.proyectoId)
+      .filter(t => !filtro.agente || t.agente === filtro.agente)
+      .filter(t => !estados || estados.includes(t.estado))
+      .sort((a, b) => a.creada.localeCompare(b.creada));
+  }
+
+  // Transición validada; los helpers de abajo son atajos con los campos de cada estado
+  async transicionar(
+    id: string,
+    nuevoEstado: TaskState,
+    opciones: { motivo?: string; actor?: string; cambios?: Partial<Task> } = {}
+  ): Promise<Task> {
+    const datosArchivo = this.leer();
+    const tarea = buscarTarea(datosArchivo.tareas, id);
+    if (!tarea) throw new Error(`Tarea "${id}" no encontrada`);
+
+    const estadoAnterior = tarea.estado;
+    if (!TaskManager.puedeTransicionar(estadoAnterior, nuevoEstado)) {
+      throw new TaskTransitionError(tarea.id, estadoAnterior, nuevoEstado);
+    }
+
+    const now = new Date().toISOString();
+    Object.assign(tarea, opciones.cambios || {});
+    tarea.estado = nuevoEstado;
+    tarea.actualizada = now;
+    if (nuevoEstado === 'IN_PROGRESS') tarea.intentos++;
+    if (nuevoEstado !== 'BLOCKED') tarea.motivoBloqueo = undefined;
+    tarea.historial.push({ de: estadoAnterior, a: nuevoEstado, fecha: now, motivo: opciones.motivo, agente: opciones.actor });
+    this.escribir(datosArchivo);
+
+    await this.notificar(tarea, estadoAnterior, opciones.actor, opciones.motivo);
+    return tarea;
+  }
+
+  async iniciar(id: string, actor?: string): Promise<Task> {
+    return this.transicionar(id, 'IN_PROGRESS', { actor, cambios: { error: undefined } });
+  }
+
+  async bloquear(id: string, motivo: string, actor?: string): Promise<Task> {
+    return this.transicionar(id, 'BLOCKED', { motivo, actor, cambios: { motivoBloqueo: motivo } });
+  }
+
+  async enviarARevision(id: string, actor?: string): Promise<Task> {
+    return this.transicionar(id, 'REVIEW', { actor });
+  }
+
+  async completar(id: string, resultado?: string, actor?: string, archivos?: string[]): Promise<Task> {
+    return this.transicionar(id, 'COMPLETED', { actor, cambios: { resultado, archivos } });
+  }
+
+  // Pasa a ERROR; si ya agotó los intentos, la cancela según la regla de context/rules.md
+  async fallar(id: string, error: string, actor?: string): Promise<Task> {
+    const tarea = await this.transicionar(id, 'ERROR', { motivo: error, actor, cambios: { error } });
+    if (tarea.intentos >= MAX_INTENTOS) {
+      return this.transicionar(id, 'CANCELLED', { motivo: `${MAX_INTENTOS} intentos fallidos`, actor });
+    }
+    return tarea;
+  }
+
+  async cancelar(id: string, motivo: string = 'Cancelada por el usuario', actor?: string): Promise<Task> {
+    return this.transicionar(id, 'CANCELLED', { motivo, actor });
+  }
+
+  // Omitir es cancelar sin cortar el plan: el orquestador trata la tarea como hecha pa' sus dependientes
+  async omitir(id: string, motivo: string = 'Omitida por el usuario', actor?: string): Promise<Task> {
+    return this.transicionar(id, 'CANCELLED', { motivo, actor, cambios: { omitida: true } });
+  }
+
+  // Cancela todas las tareas abiertas de un proyecto; devuelve las que se cancelaron
+  async cancelarProyecto(proyectoId: string, motivo: string = 'Proyecto cancelado por el usuario', actor?: string): Promise<Task[]> {
+    const abiertas = this.listar({ proyectoId }).filter(t => !TaskManager.esTerminal(t.estado));
+    const canceladas: Task[] = [];
+    for (const tarea of abiertas) {
+      canceladas.push(await this.cancelar(tarea.id, motivo, actor));
+    }
+    return canceladas;
+  }
+
+  // Una tarea cancelada desde otra terminal no debe arrancar ni completarse
+  estaCancelada(id: string): boolean {
+    return this.obtener(id)?.estado === 'CANCELLED';
+  }
+
+  private leer(): ArchivoTareas {
+    if (!fs.existsSync(this.archivo)) {
+      return { version: 1, tareas: [] };
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.archivo, 'utf-8')) as ArchivoTareas;
+    } catch (error) {
+      throw new Error(`No se pudo leer ${this.archivo}: ${(error as Error).message}`);
+    }
+  }
+
+  // Escritura atómica (tmp + rename) pa' no dejar el archivo a medias si el proceso muere
+  private escribir(datos: ArchivoTareas): void {
+    fs.mkdirSync(path.dirname(this.archivo), { recursive: true });
+    const tmp = `${this.archivo}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(datos, null, 2));
+    fs.renameSync(tmp, this.archivo);
+  }
+
+  private async notificar(tarea: Task, de: TaskState | null, actor?: string, motivo?: string): Promise<void> {
+    await this.eventBus.emit(
+      AgentEventType.TASK_STATE_CHANGED,
+      {
+        taskId: tarea.id,
+        proyectoId: tarea.proyectoId,
+        agente: tarea.agente,
+        de,
+        a: tarea.estado,
+        motivo,
+        stepId: tarea.stepId,
+        intentos: tarea.intentos,
+        error: tarea.estado === 'ERROR' ? tarea.error : undefined,
+        archivos: tarea.estado === 'COMPLETED' ? tarea.archivos : undefined,
+        omitida: tarea.omitida,
+      },
+      { agentName: actor || 'TaskManager' }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { devmindConfig } from '../devmind.config';
+
+/**
+ * Conteo de tokens y presupuesto de la ventana de contexto (APIProxy)
+ *
+ * Antes de mandar un prompt se cuenta con el tokenizer real (tiktoken, cl100k_base) y, si no cabe
+ * en la ventana del modelo junto con los tokens reservados pa' la respuesta, se recortan (o resumen)
+ * secciones empezando por las de menor prioridad. Las secciones fijas (la tarea, el formato de salida)
+ * nunca se tocan; si ni así cabe, se reduce la respuesta hasta MIN_TOKENS_RESPUESTA o se lanza
+ * PromptDemasiadoLargoError.
+ *
+ * Claude y Mistral no publican tokenizer: cl100k da una aproximación cercana y MARGEN_VENTANA cubre
+ * la diferencia. Si tiktoken no carga (falta el .wasm) se usa ~4 caracteres por token.
+ */
+
+export interface SeccionPrompt {
+  nombre: string; // Se renderiza como `# nombre` (vacío = sin encabezado)
+  contenido: string;
+  prioridad: number; // Menor = se recorta antes
+  fija?: boolean; // Nunca se recorta
+  estrategia?: 'recortar' | 'resumir'; // resumir pide un resumen al LLM (cuesta tokens); recortar por defecto
+}
+
+export interface RecorteSeccion {
+  nombre: string;
+  tokensAntes: number;
+  tokensDespues: number; // 0 = sección eliminada
+  resumida: boolean;
+}
+
+export interface OpcionesAjuste {
+  modelo: string;
+  maxTokensRespuesta: number;
+  // Resume `texto` en ~`tokens` tokens (secciones con estrategia 'resumir'); sin él se recortan
+  resumir?: (texto: string, tokens: number) => Promise<string>;
+}
+
+export interface PromptAjustado {
+  prompt: string;
+  tokensPrompt: number;
+  ventana: number;
+  maxTokensRespuesta: number; // Puede ser menor que el pedido si el prompt no cabía
+  recortes: RecorteSeccion[];
+}
+
+export class PromptDemasiadoLargoError extends Error {
+  constructor(public readonly tokensPrompt: number, public readonly ventana: number) {
+    super(`El prompt no cabe: ${tokensPrompt} tokens después de recortar todo lo recortable, con una ventana de ${ventana}`);
+    this.name = 'PromptDemasiadoLargoError';
+  }
+}
+
+// Fracción de la ventana que no se usa: diferencias de tokenizer y tokens de formato del chat
+const MARGEN_VENTANA = 0.05;
+const MIN_TOKENS_RESPUESTA = 256;
+// Una sección recortada a menos de esto no aporta: se elimina
+const MIN_TOKENS_SECCION = 50;
+const VENTANA_POR_DEFECTO = 8192;
+
+interface Codificador {
+  encode(texto: string, permitidos?: string[], prohibidos?: string[]): Uint32Array;
+}
+
+let codificador: Codificador | null | undefined;
+
+function obtenerCodificador(): Codificador | null {
+  if (codificador !== undefined) return codificador;
+  try {
+    // require perezoso: el módulo carga el .wasm al importarse y la extensión debe funcionar sin él
+    const { get_encoding } = require('@dqbd/tiktoken') as typeof import('@dqbd/tiktoken');
+    codificador = get_encoding('cl100k_base');
+  } catch (error) {
+    console.warn(`⚠️ tiktoken no disponible (${(error as Error).message}); los tokens se estiman por caracteres`);
+    codificador = null;
+  }
+  return codificador;
+}
+
+export function contarTokens(texto: string): number {
+  if (!texto) return 0;
+  const tiktoken = obtenerCodificador();
+  // Sin tokens especiales: un `<|endoftext|>` dentro del código se cuenta como texto normal en vez de lanzar
+  return tiktoken ? tiktoken.encode(texto, [], []).length : Math.ceil(texto.length / 4);
+}
+
+// Ventana del modelo: devmindConfig.llm.contextWindows por nombre de negocio (GPT-4) o id de la API (gpt-4)
+export function ventanaDeModelo(modelo: string): number {
+  const ventanas: Record<string, number> = devmindConfig.llm.contextWindows;
+  const clave = Object.keys(ventanas).find(nombre => nombre.toLowerCase() === modelo.toLowerCase());
+  return clave ? ventanas[clave] : VENTANA_POR_DEFECTO;
+}
+
+// Prefijo de `texto` que cabe en `tokens`, cortado en un salto de línea si lo hay cerca
+export function recortarATokens(texto: string, tokens: number): string {
+  if (contarTokens(texto) <= tokens) return texto;
+  let bajo = 0;
+  let alto = texto.length;
+  while (bajo < alto) {
+    const medio = Math.ceil((bajo + alto) / 2);
+    if (contarTokens(texto.substring(0, medio)) <= tokens) bajo = medio;
+    else alto = medio - 1;
+  }
+  const salto = texto.lastIndexOf('\n', bajo);
+  return texto.substring(0, salto > bajo * 0.8 ? salto : bajo);
+}
+
+// Apertura de un bloque de código (``` o ~~~, con sangría o lenguaje detrás)
+const VALLA_CODIGO = /^\s*(`{3,}|~{3,})/;
+
+// Lo cierra una línea solo con el mismo carácter, al menos tantas veces como la apertura
+const cierraValla = (valla: string, linea: string): boolean => {
+  const marca = linea.trim();
+  return marca.length >= valla.length && marca === marca[0].repeat(marca.length) && marca[0] === valla[0];
+};
+
+/**
+ * Secciones de un prompt escrito a mano: corta en los encabezados `# ` (se permite sangría, los
+ * prompts de los agentes van dentro de template strings). La última sección es la tarea y queda
+ * fija, igual que el texto antes del primer encabezado; las de en medio se recortan de la primera
+ * (contexto general) a la última. Dentro de un bloque de código `# ` es un comentario (shell,
+ * Python, YAML, Dockerfile) y no corta.
+ */
+export function seccionesDePrompt(prompt: string): SeccionPrompt[] {
+  const secciones: SeccionPrompt[] = [];
+  let actual: SeccionPrompt = { nombre: '', contenido: '', prioridad: 0, fija: true };
+  let valla: string | null = null; // La que abrió el bloque de código en curso
+  for (const linea of prompt.split('\n')) {
+    if (valla) {
+      if (cierraValla(valla, linea)) valla = null;
+    } else {
+      valla = linea.match(VALLA_CODIGO)?.[1] ?? null;
+    }
+    const encabezado = valla ? null : linea.match(/^\s*#\s+(.+)$/);
+    if (encabezado) {
+      secciones.push(actual);
+      actual = { nombre: encabezado[1].trim(), contenido: '', prioridad: secciones.length };
+      continue;
+    }
+    actual.contenido += `${linea}\n`;
+  }
+  secciones.push(actual);
+  actual.fija = true;
+  return secciones.filter(seccion => seccion.nombre || seccion.contenido.trim());
+}
+
+export const renderizarSecciones = (secciones: SeccionPrompt[]): string =>
+  secciones
+    .filter(seccion => seccion.contenido.trim())
+    .map(seccion => (seccion.nombre ? `# ${seccion.nombre}\n${seccion.contenido.trim()}` : seccion.contenido.trim()))
+    .join('\n\n');
+
+/**
+ * Ajusta el prompt a la ventana del modelo. Un prompt que ya cabe se devuelve tal cual
+ * (mismo texto, mismas fixtures); solo se re-renderiza si hubo que recortar.
+ */
+export async function ajustarPrompt(prompt: string | SeccionPrompt[], opciones: OpcionesAjuste): Promise<PromptAjustado> {
+  const ventana = ventanaDeModelo(opciones.modelo);
+  const util = Math.floor(ventana * (1 - MARGEN_VENTANA));
+  const original = typeof prompt === 'string' ? prompt : renderizarSecciones(prompt);
+  const tokensOriginal = contarTokens(original);
+  if (tokensOriginal + opciones.maxTokensRespuesta <= util) {
+    return { prompt: original, tokensPrompt: tokensOriginal, ventana, maxTokensRespuesta: opciones.maxTokensRespuesta, recortes: [] };
+  }
+
+  const secciones = (typeof prompt === 'string' ? seccionesDePrompt(prompt) : prompt).map(seccion => ({ ...seccion }));
+  const tokens = secciones.map(seccion => contarTokens(seccion.contenido));
+  let exceso = tokensOriginal + opciones.maxTokensRespuesta - util;
+  const recortes: RecorteSeccion[] = [];
+
+  // Menor prioridad primero; a igual prioridad, la más grande
+  const orden = secciones
+    .map((_, i) => i)
+    .filter(i => !secciones[i].fija && tokens[i] > 0)
+    .sort((a, b) => secciones[a].prioridad - secciones[b].prioridad || tokens[b] - tokens[a]);
+
+  for (const i of orden) {
+    if (exceso <= 0) break;
+    const seccion = secciones[i];
+    const objetivo = tokens[i] - exceso;
+    let resumida = false;
+    if (objetivo < MIN_TOKENS_SECCION) {
+      seccion.contenido = '';
+    } else if (seccion.estrategia === 'resumir' && opciones.resumir) {
+      seccion.contenido = recortarATokens(await opciones.resumir(seccion.contenido, objetivo), objetivo);
+      resumida = true;
+    } else {
+      const recortado = recortarATokens(seccion.contenido, objetivo - 15);
+      seccion.contenido = `${recortado}\n[… ${tokens[i] - contarTokens(recortado)} tokens recortados]`;
+    }
+    const tokensDespues = contarTokens(seccion.contenido);
+    exceso -= tokens[i] - tokensDespues;
+    recortes.push({ nombre: seccion.nombre || '(inicio)', tokensAntes: tokens[i], tokensDespues, resumida });
+  }
+
+  const ajustado = renderizarSecciones(secciones);
+  const tokensPrompt = contarTokens(ajustado);
+  // Lo fijo no cabe con la respuesta pedida: se acorta la respuesta antes de rendirse
+  const maxTokensRespuesta = Math.min(opciones.maxTokensRespuesta, util - tokensPrompt);
+  if (maxTokensRespuesta < MIN_TOKENS_RESPUESTA) {
+    throw new PromptDemasiadoLargoError(tokensPrompt, ventana);
+  }
+  return { prompt: ajustado, tokensPrompt, ventana, maxTokensRespuesta, recortes };
+}
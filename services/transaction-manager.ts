@@ -0,0 +1,320 @@
+// Import por defecto: hay que parchear el módulo real (igual que VirtualFileSystem)
+import fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { fileURLToPath } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+import { devmindConfig } from '../devmind.config';
+import { AgentEventType } from '../types/agent-types';
+import {
+  EstadoTransaccion,
+  NuevaTransaccion,
+  ResultadoRollback,
+  Transaccion,
+} from '../types/transaction-types';
+import { EventBus } from './event-bus';
+import { VirtualFileSystem } from './virtual-fs';
+
+/**
+ * TransactionManager - Escrituras transaccionales del workspace (el GitAdapter de context/rules.md)
+ *
+ * - Cada ejecución de agente abre una transacción; antes de la primera escritura de cada archivo
+ *   se guarda su contenido original (o que no existía) en context/transactions/<id>.json
+ * - Si el paso falla o la revisión de código no llega al umbral, se restaura el snapshot
+ * - `cj system rollback <stepId|projectId>` revierte pasos ya confirmados
+ *
+ * Snapshot por archivo en vez de git stash/commit: no toca los cambios del usuario que no
+ * son del paso y funciona fuera de un repo. Las escrituras se capturan enganchando el módulo
+ * `fs` (como el modo simulación); AsyncLocalStorage asigna cada escritura a la transacción
+ * del agente que la hizo, aunque varios pasos corran en paralelo.
+ * No cubre streams (createWriteStream) ni lo que escriban comandos externos (npm, git...).
+ */
+
+type ExtraerRutas = (args: any[]) => unknown[];
+
+const primero: ExtraerRutas = args => [args[0]];
+const segundo: ExtraerRutas = args => [args[1]];
+const ambos: ExtraerRutas = args => [args[0], args[1]];
+
+// Funciones que escriben y de qué argumentos sale la ruta afectada
+const ESCRITURAS: Record<string, ExtraerRutas> = {
+  writeFileSync: primero,
+  appendFileSync: primero,
+  copyFileSync: segundo,
+  renameSync: ambos,
+  unlinkSync: primero,
+  rmSync: primero,
+  writeFile: primero,
+  appendFile: primero,
+  copyFile: segundo,
+  rename: ambos,
+  unlink: primero,
+  rm: primero,
+};
+
+const ESCRITURAS_PROMESAS: Record<string, ExtraerRutas> = {
+  writeFile: primero,
+  appendFile: primero,
+  copyFile: segundo,
+  rename: ambos,
+  unlink: primero,
+  rm: primero,
+};
+
+// Los descriptores y FileHandle no tienen ruta: esas escrituras no se capturan
+const aRuta = (valor: unknown): string | null => {
+  if (typeof valor === 'string') return path.resolve(valor);
+  if (Buffer.isBuffer(valor)) return path.resolve(valor.toString());
+  if (valor instanceof URL) return fileURLToPath(valor);
+  return null;
+};
+
+export class TransactionManager {
+  private static instance: TransactionManager;
+  private directorio: string;
+  private excluido: string; // context/: tareas, estado y las propias transacciones no se revierten
+  private almacen = new AsyncLocalStorage<string>();
+  private abiertas = new Map<string, Transaccion>();
+  private enganchado = false;
+  private eventBus = EventBus.getInstance();
+
+  constructor(contextDir: string = path.resolve(process.cwd(), devmindConfig.contextPath)) {
+    this.excluido = contextDir;
+    this.directorio = path.join(contextDir, 'transactions');
+  }
+
+  static getInstance(): TransactionManager {
+    if (!TransactionManager.instance) {
+      TransactionManager.instance = new TransactionManager();
+    }
+    return TransactionManager.instance;
+  }
+
+  // Abre una transacción; las escrituras se le asignan dentro de ejecutarEn()
+  iniciar(datos: NuevaTransaccion): Transaccion {
+    this.enganchar();
+    const now = new Date().toISOString();
+    const transaccion: Transaccion = {
+      id: uuidv4(),
+      agente: datos.agente,
+      proyectoId: datos.proyectoId,
+      stepId: datos.stepId,
+      estado: 'abierta',
+      creada: now,
+      actualizada: now,
+      archivos: [],
+      directorios: [],
+    };
+    this.abiertas.set(transaccion.id, transaccion);
+    return transaccion;
+  }
+
+  ejecutarEn<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    return this.almacen.run(id, fn);
+  }
+
+  // Cierra la transacción guardando el hash final de cada archivo (pa' detectar ediciones posteriores)
+  confirmar(id: string): Transaccion | undefined {
+    const transaccion = this.abiertas.get(id);
+    if (!transaccion) return this.obtener(id);
+    this.abiertas.delete(id);
+    if (!this.tieneCambios(transaccion)) return transaccion;
+
+    for (const archivo of transaccion.archivos) {
+      archivo.hashDespues = this.hash(archivo.ruta);
+    }
+    this.cambiarEstado(transaccion, 'confirmada');
+    return transaccion;
+  }
+
+  /**
+   * Restaura el snapshot. Si algún archivo cambió después de confirmar, no se toca nada
+   * (salvo con forzar): un rollback a medias sería peor que ninguno.
+   */
+  async revertir(id: string, opciones: { motivo?: string; forzar?: boolean } = {}): Promise<ResultadoRollback> {
+    const transaccion = this.abiertas.get(id) || this.obtener(id);
+    if (!transaccion) throw new Error(`Transacción "${id}" no encontrada`);
+    this.abiertas.delete(transaccion.id);
+
+    const resultado: ResultadoRollback = { transaccionId: transaccion.id, restaurados: [], eliminados: [], conflictos: [] };
+    if (transaccion.estado === 'revertida' || !this.tieneCambios(transaccion)) return resultado;
+
+    resultado.conflictos = transaccion.archivos
+      .filter(a => a.hashDespues !== undefined && this.hash(a.ruta) !== a.hashDespues)
+      .map(a => this.relativa(a.ruta));
+    if (resultado.conflictos.length > 0 && !opciones.forzar) return resultado;
+
+    // Fuera de cualquier transacción: si la de un orquestador envuelve a esta, no debe capturar la restauración
+    this.almacen.exit(() => {
+      for (const archivo of [...transaccion.archivos].reverse()) {
+        if (archivo.antes === null) {
+          fs.rmSync(archivo.ruta, { recursive: true, force: true }); // Puede ser el destino de un rename de directorio
+          resultado.eliminados.push(this.relativa(archivo.ruta));
+        } else {
+          fs.mkdirSync(path.dirname(archivo.ruta), { recursive: true });
+          fs.writeFileSync(archivo.ruta, Buffer.from(archivo.antes, 'base64'));
+          resultado.restaurados.push(this.relativa(archivo.ruta));
+        }
+      }
+
+      // Del más profundo al más superficial, y solo si quedaron vacíos
+      for (const directorio of [...transaccion.directorios].sort((a, b) => b.length - a.length)) {
+        try {
+          if (fs.readdirSync(directorio).length === 0) fs.rmdirSync(directorio);
+        } catch {
+          // Ya no existe
+        }
+      }
+    });
+
+    transaccion.motivo = opciones.motivo;
+    this.cambiarEstado(transaccion, 'revertida');
+    await this.eventBus.emit(
+      AgentEventType.WORKSPACE_ROLLED_BACK,
+      {
+        transaccionId: transaccion.id,
+        proyectoId: transaccion.proyectoId,
+        stepId: transaccion.stepId,
+        agente: transaccion.agente,
+        motivo: opciones.motivo,
+        archivos: [...resultado.restaurados, ...resultado.eliminados],
+      },
+      { agentName: 'TransactionManager' }
+    );
+    return resultado;
+  }
+
+  obtener(id: string): Transaccion | undefined {
+    const todas = this.listar();
+    return todas.find(t => t.id === id) || todas.find(t => t.id.startsWith(id));
+  }
+
+  listar(filtro: { proyectoId?: string; stepId?: string; estado?: EstadoTransaccion } = {}): Transaccion[] {
+    const porId = new Map<string, Transaccion>();
+    if (fs.existsSync(this.directorio)) {
+      for (const nombre of fs.readdirSync(this.directorio).filter(n => n.endsWith('.json'))) {
+        try {
+          const transaccion = JSON.parse(fs.readFileSync(path.join(this.directorio, nombre), 'utf-8')) as Transaccion;
+          porId.set(transaccion.id, transaccion);
+        } catch {
+          // Archivo a medio escribir o corrupto: se ignora
+        }
+      }
+    }
+    this.abiertas.forEach(t => porId.set(t.id, t));
+
+    return [...porId.values()]
+      .filter(t => !filtro.proyectoId || t.proyectoId === filtro.proyectoId)
+      .filter(t => !filtro.stepId || t.stepId === filtro.stepId)
+      .filter(t => !filtro.estado || t.estado === filtro.estado)
+      .sort((a, b) => a.creada.localeCompare(b.creada));
+  }
+
+  // Transacciones por id (o prefijo), stepId o proyectoId
+  buscar(referencia: string): Transaccion[] {
+    return this.listar().filter(t =>
+      t.id.startsWith(referencia) || t.stepId === referencia || t.proyectoId === referencia
+    );
+  }
+
+  // Archivos tocados, relativos al directorio de trabajo
+  archivos(id: string): string[] {
+    const transaccion = this.abiertas.get(id) || this.obtener(id);
+    return transaccion ? transaccion.archivos.map(a => this.relativa(a.ruta)) : [];
+  }
+
+  private enganchar(): void {
+    // En modo simulación no se escribe nada en disco: no hay nada que revertir
+    if (this.enganchado || VirtualFileSystem.getInstance().estaActivo()) return;
+    this.enganchado = true;
+
+    const envolver = (modulo: any, funciones: Record<string, ExtraerRutas>, esDirectorio: boolean) => {
+      for (const [nombre, extraer] of Object.entries(funciones)) {
+        const original = modulo[nombre];
+        if (typeof original !== 'function') continue;
+        const manager = this;
+        modulo[nombre] = function (this: unknown, ...args: any[]) {
+          extraer(args).forEach(valor => manager.capturar(valor, esDirectorio));
+          return original.apply(this, args);
+        };
+      }
+    };
+    envolver(fs, ESCRITURAS, false);
+    envolver(fs.promises, ESCRITURAS_PROMESAS, false);
+    envolver(fs, { mkdirSync: primero, mkdir: primero }, true);
+    envolver(fs.promises, { mkdir: primero }, true);
+  }
+
+  // Guarda el contenido original antes de la primera escritura del archivo en la transacción
+  private capturar(valor: unknown, esDirectorio: boolean): void {
+    const transaccion = this.abiertas.get(this.almacen.getStore() || '');
+    const ruta = aRuta(valor);
+    if (!transaccion || !ruta || this.estaExcluida(ruta)) return;
+    if (VirtualFileSystem.getInstance().estaActivo()) return;
+
+    const antes = transaccion.archivos.length + transaccion.directorios.length;
+    if (esDirectorio) {
+      // mkdir (recursivo o no): se anotan los directorios que todavía no existen
+      for (let dir = ruta; dir !== path.dirname(dir) && !fs.existsSync(dir); dir = path.dirname(dir)) {
+        if (!transaccion.directorios.includes(dir)) transaccion.directorios.push(dir);
+      }
+    } else {
+      this.capturarArchivo(transaccion, ruta);
+    }
+    if (transaccion.archivos.length + transaccion.directorios.length > antes) {
+      this.guardar(transaccion);
+    }
+  }
+
+  private capturarArchivo(transaccion: Transaccion, ruta: string): void {
+    let stat: fs.Stats | null = null;
+    try {
+      stat = fs.statSync(ruta);
+    } catch {
+      // No existe todavía
+    }
+
+    if (stat?.isDirectory()) {
+      // rm -r o rename de un directorio: se captura cada archivo
+      for (const entrada of fs.readdirSync(ruta)) {
+        this.capturarArchivo(transaccion, path.join(ruta, entrada));
+      }
+      return;
+    }
+    if (transaccion.archivos.some(a => a.ruta === ruta)) return;
+    transaccion.archivos.push({ ruta, antes: stat ? fs.readFileSync(ruta).toString('base64') : null });
+  }
+
+  private estaExcluida(ruta: string): boolean {
+    return ruta === this.excluido || ruta.startsWith(this.excluido + path.sep);
+  }
+
+  private tieneCambios(transaccion: Transaccion): boolean {
+    return transaccion.archivos.length > 0 || transaccion.directorios.length > 0;
+  }
+
+  private cambiarEstado(transaccion: Transaccion, estado: EstadoTransaccion): void {
+    transaccion.estado = estado;
+    transaccion.actualizada = new Date().toISOString();
+    this.guardar(transaccion);
+  }
+
+  private hash(ruta: string): string | null {
+    if (!fs.existsSync(ruta)) return null;
+    return crypto.createHash('sha256').update(fs.readFileSync(ruta)).digest('hex');
+  }
+
+  private relativa(ruta: string): string {
+    return path.relative(process.cwd(), ruta) || ruta;
+  }
+
+  // Escritura atómica (tmp + rename); context/ está excluido así que no se captura a sí misma
+  private guardar(transaccion: Transaccion): void {
+    fs.mkdirSync(this.directorio, { recursive: true });
+    const archivo = path.join(this.directorio, `${transaccion.id}.json`);
+    const tmp = `${archivo}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(transaccion, null, 2));
+    fs.renameSync(tmp, archivo);
+  }
+}
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { devmindConfig } from '../devmind.config';
+import { FiltroTranscripciones, NuevaTranscripcion, Transcripcion } from '../types/transcript-types';
+import { redactarSecretos, sumarRedacciones } from './redaction';
+
+/**
+ * TranscriptStore - Registro de cada intercambio con el LLM (APIProxy)
+ *
+ * Pa' depurar una mala generación hace falta el prompt exacto que se mandó y la salida cruda,
+ * no el resumen que queda en la actividad. Cada llamada (también los aciertos de caché, los
+ * resúmenes pa' caber en la ventana y los errores) queda con agente, paso, correlationId,
+ * modelo, latencia y tokens.
+ * - Un JSON por línea en context/transcripts/AAAA-MM-DD.jsonl: fuera del rollback de las transacciones
+ * - Prompt y respuesta pasan por redactarSecretos (services/redaction.ts) antes de tocar el disco
+ * - Los días más viejos que `llm.transcripts.retencionDias` se borran al primer registro de cada proceso
+ *
+ * CJ_TRANSCRIPTS=off lo desactiva; `cj system transcript` las lista, las muestra y repite un prompt con otro modelo.
+ */
+
+const LIMITE_LISTA = 50;
+const DIA_MS = 24 * 60 * 60 * 1000;
+const ARCHIVO_DIA = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+// Un prefijo que coincide con varias transcripciones: mejor fallar que mostrar o repetir la que salga primero
+export class TranscripcionAmbiguaError extends Error {
+  constructor(public readonly id: string, public readonly coincidencias: string[]) {
+    super(`El id "${id}" coincide con ${coincidencias.length} transcripciones (${coincidencias.slice(0, 5).join(', ')}${coincidencias.length > 5 ? '…' : ''}); usa más caracteres`);
+    this.name = 'TranscripcionAmbiguaError';
+  }
+}
+
+export class TranscriptStore {
+  private static instance: TranscriptStore;
+  private directorio: string;
+  private podado = false;
+
+  constructor(directorio: string = path.resolve(process.cwd(), devmindConfig.contextPath, 'transcripts')) {
+    this.directorio = directorio;
+  }
+
+  static getInstance(): TranscriptStore {
+    if (!TranscriptStore.instance) {
+      TranscriptStore.instance = new TranscriptStore();
+    }
+    return TranscriptStore.instance;
+  }
+
+  get activo(): boolean {
+    return devmindConfig.llm.transcripts.enabled;
+  }
+
+  // Redacta y guarda; un fallo de disco no puede tumbar la llamada al LLM, así que solo avisa
+  registrar(datos: NuevaTranscripcion): Transcripcion | undefined {
+    if (!this.activo) return undefined;
+    const prompt = redactarSecretos(datos.prompt);
+    const respuesta = redactarSecretos(datos.respuesta);
+    const transcripcion: Transcripcion = {
+      ...datos,
+      id: uuidv4(),
+      fecha: datos.fecha || new Date().toISOString(),
+      prompt: prompt.texto,
+      respuesta: respuesta.texto,
+      error: datos.error === undefined ? undefined : redactarSecretos(datos.error).texto,
+      redacciones: sumarRedacciones(prompt.redacciones, respuesta.redacciones),
+    };
+
+    try {
+      fs.mkdirSync(this.directorio, { recursive: true });
+      if (!this.podado) this.podar();
+      fs.appendFileSync(path.join(this.directorio, `${transcripcion.fecha.substring(0, 10)}.jsonl`), `${JSON.stringify(transcripcion)}\n`);
+      return transcripcion;
+    } catch (error) {
+      console.warn(`⚠️ No se pudo guardar la transcripción: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  // Por id completo o por un prefijo único (los 8 primeros caracteres que muestra `cj system transcript list`)
+  obtener(id: string): Transcripcion | undefined {
+    const todas = this.archivos().flatMap(archivo => this.leer(archivo));
+    const exacta = todas.find(t => t.id === id);
+    if (exacta || !id) return exacta;
+    const coincidencias = todas.filter(t => t.id.startsWith(id));
+    if (coincidencias.length > 1) throw new TranscripcionAmbiguaError(id, coincidencias.map(t => t.id));
+    return coincidencias[0];
+  }
+
+  // Las más recientes primero; se deja de leer días en cuanto se llena el límite
+  listar(filtro: FiltroTranscripciones = {}): Transcripcion[] {
+    const limite = filtro.limite ?? LIMITE_LISTA;
+    const encontradas: Transcripcion[] = [];
+    for (const archivo of this.archivos()) {
+      if (filtro.desde && path.basename(archivo, '.jsonl') < filtro.desde.substring(0, 10)) break;
+      const delDia = this.leer(archivo)
+        .filter(t => this.cumple(t, filtro))
+        .reverse();
+      encontradas.push(...delDia);
+      if (encontradas.length >= limite) break;
+    }
+    return encontradas.slice(0, limite);
+  }
+
+  // Borra los días fuera de la retención; devuelve cuántos archivos quitó
+  podar(ahora: Date = new Date()): number {
+    this.podado = true;
+    const corte = new Date(ahora.getTime() - devmindConfig.llm.transcripts.retencionDias * DIA_MS).toISOString().substring(0, 10);
+    let borrados = 0;
+    for (const archivo of this.archivos()) {
+      if (path.basename(archivo, '.jsonl') < corte) {
+        fs.unlinkSync(archivo);
+        borrados++;
+      }
+    }
+    return borrados;
+  }
+
+  private cumple(t: Transcripcion, filtro: FiltroTranscripciones): boolean {
+    return (
+      (!filtro.agente || t.agente === filtro.agente) &&
+      (!filtro.proyectoId || t.proyectoId === filtro.proyectoId) &&
+      (!filtro.stepId || t.stepId === filtro.stepId) &&
+      (!filtro.correlationId || t.correlationId === filtro.correlationId) &&
+      (!filtro.modelo || t.modelo === filtro.modelo || t.modeloPedido === filtro.modelo) &&
+      (!filtro.desde || t.fecha >= filtro.desde) &&
+      (!filtro.soloErrores || Boolean(t.error))
+    );
+  }
+
+  // Archivos por día, del más reciente al más viejo
+  private archivos(): string[] {
+    if (!fs.existsSync(this.directorio)) return [];
+    return fs
+      .readdirSync(this.directorio)
+      .filter(nombre => ARCHIVO_DIA.test(nombre))
+      .sort()
+      .reverse()
+      .map(nombre => path.join(this.directorio, nombre));
+  }
+
+  // Una línea cortada (proceso muerto a mitad de escritura) se salta
+  private leer(archivo: string): Transcripcion[] {
+    const transcripciones: Transcripcion[] = [];
+    for (const linea of fs.readFileSync(archivo, 'utf8').split('\n')) {
+      if (!linea.trim()) continue;
+      try {
+        transcripciones.push(JSON.parse(linea));
+      } catch {
+        // Línea incompleta
+      }
+    }
+    return transcripciones;
+  }
+}
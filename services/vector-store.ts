@@ -0,0 +1,297 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { devmindConfig } from '../devmind.config';
+import { Embedder } from './embedders';
+import type { Index, RecordMetadata } from '@pinecone-database/pinecone';
+
+/**
+ * Almacenes de vectores de la memoria (MemoryAgent)
+ *
+ * - local: un archivo por namespace en memory/vectors/, búsqueda exacta por coseno.
+ *   Sin servicios externos: el código del proyecto no sale de la máquina.
+ * - pinecone: el índice remoto de siempre (PINECONE_API_KEY / PINECONE_ENVIRONMENT)
+ */
+
+export type TipoVectorStore = 'local' | 'pinecone';
+
+export type MetadataChunk = Record<string, string | number | boolean> & { source: string };
+
+export interface RegistroVector {
+  id: string;
+  texto: string;
+  metadata: MetadataChunk;
+  vector: number[];
+}
+
+export interface ResultadoBusqueda {
+  id: string;
+  texto: string;
+  metadata: MetadataChunk;
+  puntuacion: number; // Similitud coseno (1 = idéntico)
+}
+
+export interface EstadisticasMemoria {
+  backend: TipoVectorStore;
+  embedder?: string;
+  dimension: number;
+  total: number;
+  namespaces: Record<string, number>; // Namespace → vectores
+}
+
+export interface VectorStore {
+  readonly nombre: TipoVectorStore;
+  inicializar(embedder: Embedder): Promise<void>;
+  upsert(registros: RegistroVector[], namespace?: string): Promise<void>;
+  eliminar(ids: string[], namespace?: string): Promise<void>;
+  eliminarFuente(source: string, namespace?: string): Promise<void>; // Todos los fragmentos de un archivo
+  buscar(vector: number[], k: number, namespace?: string): Promise<ResultadoBusqueda[]>;
+  estadisticas(): Promise<EstadisticasMemoria>;
+  guardar(): Promise<void>; // Persiste lo pendiente (no-op en backends remotos)
+}
+
+const NAMESPACE_POR_DEFECTO = devmindConfig.memory.namespace;
+
+interface NamespaceLocal {
+  embedder: string;
+  dimension: number;
+  registros: Map<string, { texto: string; metadata: MetadataChunk; vector: Float32Array }>;
+  incompatible: boolean; // Creado con otro embedder: hay que reindexar
+  sucio: boolean;
+}
+
+interface ArchivoNamespace {
+  version: 1;
+  embedder: string;
+  dimension: number;
+  registros: { id: string; texto: string; metadata: MetadataChunk; vector: string }[]; // vector: Float32 en base64
+}
+
+function coseno(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let producto = 0;
+  let normaA = 0;
+  let normaB = 0;
+  for (let i = 0; i < a.length; i++) {
+    producto += a[i] * b[i];
+    normaA += a[i] * a[i];
+    normaB += b[i] * b[i];
+  }
+  return normaA && normaB ? producto / Math.sqrt(normaA * normaB) : 0;
+}
+
+const vectorABase64 = (vector: Float32Array): string =>
+  Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+
+const base64AVector = (texto: string): Float32Array => {
+  const buffer = Buffer.from(texto, 'base64');
+  return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+};
+
+export class LocalVectorStore implements VectorStore {
+  readonly nombre = 'local' as const;
+  private directorio: string;
+  private embedder?: Embedder;
+  private namespaces = new Map<string, NamespaceLocal>();
+
+  constructor(directorio: string = path.resolve(process.cwd(), devmindConfig.memory.dir, 'vectors')) {
+    this.directorio = directorio;
+  }
+
+  async inicializar(embedder: Embedder): Promise<void> {
+    this.embedder = embedder;
+    this.namespaces.clear();
+    if (!fs.existsSync(this.directorio)) return;
+
+    for (const nombre of fs.readdirSync(this.directorio).filter(n => n.endsWith('.json'))) {
+      const datos = JSON.parse(fs.readFileSync(path.join(this.directorio, nombre), 'utf-8')) as ArchivoNamespace;
+      const registros = new Map(datos.registros.map(r => [r.id, { texto: r.texto, metadata: r.metadata, vector: base64AVector(r.vector) }]));
+      this.namespaces.set(path.basename(nombre, '.json'), {
+        embedder: datos.embedder,
+        dimension: datos.dimension,
+        registros,
+        incompatible: datos.embedder !== embedder.nombre || datos.dimension !== embedder.dimension,
+        sucio: false,
+      });
+    }
+  }
+
+  async upsert(registros: RegistroVector[], namespace: string = NAMESPACE_POR_DEFECTO): Promise<void> {
+    const ns = this.namespaceParaEscribir(namespace);
+    for (const registro of registros) {
+      if (registro.vector.length !== ns.dimension) {
+        throw new Error(`Vector de dimensión ${registro.vector.length}; el índice espera ${ns.dimension}`);
+      }
+      ns.registros.set(registro.id, { texto: registro.texto, metadata: registro.metadata, vector: Float32Array.from(registro.vector) });
+    }
+    ns.sucio = true;
+  }
+
+  async eliminar(ids: string[], namespace: string = NAMESPACE_POR_DEFECTO): Promise<void> {
+    const ns = this.namespaces.get(namespace);
+    if (!ns) return;
+    for (const id of ids) {
+      if (ns.registros.delete(id)) ns.sucio = true;
+    }
+  }
+
+  async eliminarFuente(source: string, namespace: string = NAMESPACE_POR_DEFECTO): Promise<void> {
+    const ns = this.namespaces.get(namespace);
+    if (!ns) return;
+    for (const [id, registro] of ns.registros) {
+      if (registro.metadata.source === source) {
+        ns.registros.delete(id);
+        ns.sucio = true;
+      }
+    }
+  }
+
+  async buscar(vector: number[], k: number, namespace: string = NAMESPACE_POR_DEFECTO): Promise<ResultadoBusqueda[]> {
+    const ns = this.namespaces.get(namespace);
+    if (!ns) return [];
+    if (ns.incompatible) {
+      throw new Error(
+        `El índice "${namespace}" se creó con ${ns.embedder} y el embedder actual es ${this.embedder?.nombre}. ` +
+        'Vuelve a indexar con `cj docs memory index`'
+      );
+    }
+
+    return [...ns.registros.entries()]
+      .map(([id, registro]) => ({ id, texto: registro.texto, metadata: registro.metadata, puntuacion: coseno(vector, registro.vector) }))
+      .sort((a, b) => b.puntuacion - a.puntuacion)
+      .slice(0, k);
+  }
+
+  async estadisticas(): Promise<EstadisticasMemoria> {
+    const namespaces: Record<string, number> = {};
+    this.namespaces.forEach((ns, nombre) => { namespaces[nombre] = ns.registros.size; });
+    return {
+      backend: this.nombre,
+      embedder: this.embedder?.nombre,
+      dimension: this.embedder?.dimension ?? 0,
+      total: Object.values(namespaces).reduce((a, b) => a + b, 0),
+      namespaces,
+    };
+  }
+
+  // Escritura atómica por namespace, solo de los que cambiaron
+  async guardar(): Promise<void> {
+    for (const [nombre, ns] of this.namespaces) {
+      if (!ns.sucio) continue;
+      const datos: ArchivoNamespace = {
+        version: 1,
+        embedder: ns.embedder,
+        dimension: ns.dimension,
+        registros: [...ns.registros.entries()].map(([id, r]) => ({ id, texto: r.texto, metadata: r.metadata, vector: vectorABase64(r.vector) })),
+      };
+      fs.mkdirSync(this.directorio, { recursive: true });
+      const archivo = path.join(this.directorio, `${nombre}.json`);
+      const tmp = `${archivo}.${process.pid}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(datos));
+      fs.renameSync(tmp, archivo);
+      ns.sucio = false;
+    }
+  }
+
+  // Un namespace incompatible se vacía al escribir en él: indexar es justo lo que lo arregla
+  private namespaceParaEscribir(nombre: string): NamespaceLocal {
+    if (!this.embedder) throw new Error('LocalVectorStore sin inicializar');
+    let ns = this.namespaces.get(nombre);
+    if (!ns || ns.incompatible) {
+      ns = { embedder: this.embedder.nombre, dimension: this.embedder.dimension, registros: new Map(), incompatible: false, sucio: true };
+      this.namespaces.set(nombre, ns);
+    }
+    return ns;
+  }
+}
+
+export class PineconeVectorStore implements VectorStore {
+  readonly nombre = 'pinecone' as const;
+  private indice?: Index<RecordMetadata>;
+  private embedder?: Embedder;
+  private indexName = devmindConfig.memory.pinecone.indexName;
+
+  async inicializar(embedder: Embedder): Promise<void> {
+    this.embedder = embedder;
+    // Import diferido: en modo local no hace falta el SDK de Pinecone
+    const { Pinecone } = await import('@pinecone-database/pinecone');
+    const cliente = new Pinecone({ apiKey: process.env.PINECONE_API_KEY || '' });
+
+    const { indexes = [] } = await cliente.listIndexes();
+    if (!indexes.some(indice => indice.name === this.indexName)) {
+      await cliente.createIndex({
+        name: this.indexName,
+        dimension: embedder.dimension,
+        metric: 'cosine',
+        spec: { serverless: { cloud: 'aws', region: process.env.PINECONE_ENVIRONMENT || 'us-east-1' } },
+        waitUntilReady: true,
+        suppressConflicts: true,
+      });
+    }
+    this.indice = cliente.index(this.indexName);
+  }
+
+  async upsert(registros: RegistroVector[], namespace: string = NAMESPACE_POR_DEFECTO): Promise<void> {
+    // Pinecone limita el tamaño de cada petición
+    for (let i = 0; i < registros.length; i += 100) {
+      await this.conectado().namespace(namespace).upsert(
+        registros.slice(i, i + 100).map(r => ({
+          id: r.id,
+          values: r.vector,
+          metadata: { ...r.metadata, text: r.texto }, // textKey 'text', como guardaba langchain
+        }))
+      );
+    }
+  }
+
+  async eliminar(ids: string[], namespace: string = NAMESPACE_POR_DEFECTO): Promise<void> {
+    for (let i = 0; i < ids.length; i += 1000) {
+      await this.conectado().namespace(namespace).deleteMany(ids.slice(i, i + 1000));
+    }
+  }
+
+  async eliminarFuente(source: string, namespace: string = NAMESPACE_POR_DEFECTO): Promise<void> {
+    await this.conectado().namespace(namespace).deleteMany({ source: { $eq: source } });
+  }
+
+  async buscar(vector: number[], k: number, namespace: string = NAMESPACE_POR_DEFECTO): Promise<ResultadoBusqueda[]> {
+    const respuesta = await this.conectado().namespace(namespace).query({ vector, topK: k, includeMetadata: true });
+    return respuesta.matches.map(match => {
+      const { text, ...metadata } = (match.metadata || {}) as MetadataChunk & { text?: string };
+      return { id: match.id, texto: text || '', metadata: metadata as MetadataChunk, puntuacion: match.score ?? 0 };
+    });
+  }
+
+  async estadisticas(): Promise<EstadisticasMemoria> {
+    const stats = await this.conectado().describeIndexStats();
+    const namespaces: Record<string, number> = {};
+    for (const [nombre, datos] of Object.entries(stats.namespaces || {})) {
+      namespaces[nombre] = datos.recordCount;
+    }
+    return {
+      backend: this.nombre,
+      embedder: this.embedder?.nombre,
+      dimension: stats.dimension ?? 0,
+      total: stats.totalRecordCount ?? 0,
+      namespaces,
+    };
+  }
+
+  async guardar(): Promise<void> {
+    // Pinecone persiste cada upsert
+  }
+
+  private conectado(): Index<RecordMetadata> {
+    if (!this.indice) throw new Error('PineconeVectorStore sin inicializar');
+    return this.indice;
+  }
+}
+
+export function crearVectorStore(tipo: TipoVectorStore = devmindConfig.memory.store): VectorStore {
+  switch (tipo) {
+    case 'pinecone':
+      return new PineconeVectorStore();
+    case 'local':
+      return new LocalVectorStore();
+    default:
+      throw new Error(`Almacén de vectores desconocido: ${tipo}. Usa "local" o "pinecone"`);
+  }
+}
@@ -0,0 +1,754 @@
+// Import por defecto: hay que parchear el módulo real, no la copia de `import * as`
+import fs from 'fs';
+import childProcess, { ChildProcess } from 'child_process';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Readable, Writable } from 'stream';
+import { fileURLToPath } from 'url';
+import { devmindConfig } from '../devmind.config';
+import { arbolArchivos, diffUnificado, MarcaArchivo } from './diff';
+
+// Sin tipos (@types/fs-extra no está en las dependencias); se parchea el objeto que comparten todos los require
+const fsExtra = require('fs-extra');
+
+/**
+ * VirtualFileSystem - Modo simulación (--dry-run)
+ *
+ * Mientras está activo, las escrituras de cualquier agente (fs.writeFileSync, mkdirSync,
+ * copyFileSync, cpSync, openSync/writeSync, fs.promises.writeFile, createWriteStream, fs-extra...)
+ * quedan en memoria y las lecturas (readFileSync, statSync, readdirSync, createReadStream...) ven
+ * esos cambios encima del disco real. El contenido se guarda tal cual en Buffers, así que un
+ * binario sale igual que entró. Al final `resumen()` da el árbol de archivos y el diff unificado
+ * sin haber tocado el workspace.
+ *
+ * Se engancha al módulo `fs` en vez de pedir a cada agente que use otra API: los agentes
+ * escriben con fs directamente en cientos de sitios (DevOpsAgent, ComponentAgent, ...).
+ * fs-extra se parchea aparte: trae su propia copia de fs (graceful-fs) hecha al importarlo.
+ *
+ * Los descriptores que abre la simulación son números altos que el sistema no reparte; los
+ * reales (stdout, un archivo abierto solo pa' leer) siguen yendo a las funciones originales.
+ *
+ * Los comandos externos (docker, kubectl, npm...) tampoco se lanzan: solo los de
+ * `simulacion.comandosPermitidos`; el resto falla con EDRYRUN y se lista en el resumen.
+ * Lo que está bajo `simulacion.rutasReales` sí se escribe: los prompts al LLM de una
+ * simulación son reales, así que su cobro, su cupo, su caché y su transcripción también.
+ */
+
+export interface CambioArchivo {
+  ruta: string; // Relativa al directorio de trabajo
+  tipo: 'crear' | 'modificar' | 'eliminar';
+  antes: string | null;
+  despues: string | null;
+}
+
+type Contenido = Buffer | null; // null = eliminado en la simulación
+
+type Operacion = (...args: any[]) => any;
+
+// Recibe la función original y devuelve la que la reemplaza
+type Reemplazo = (original: Operacion) => Operacion;
+
+interface Parche {
+  modulo: any;
+  originales: Record<string, Operacion>;
+}
+
+// Un archivo abierto en la simulación
+interface Descriptor {
+  ruta: string;
+  posicion: number;
+  lee: boolean;
+  escribe: boolean;
+  anexa: boolean;
+}
+
+// Lo que se lee del disco real; se guarda al activar, antes de parchear
+type Disco = Pick<typeof fs, 'readFileSync' | 'existsSync' | 'statSync' | 'lstatSync' | 'readdirSync'>;
+
+const disco = (): Disco => ({
+  readFileSync: fs.readFileSync,
+  existsSync: fs.existsSync,
+  statSync: fs.statSync,
+  lstatSync: fs.lstatSync,
+  readdirSync: fs.readdirSync,
+});
+
+const codificacionDe = (opciones: unknown): BufferEncoding | undefined =>
+  (typeof opciones === 'string' ? (opciones as BufferEncoding) : (opciones as { encoding?: BufferEncoding } | undefined)?.encoding) || undefined;
+
+// Copia: el llamador puede reutilizar su buffer después de escribir
+const aBuffer = (datos: unknown, opciones?: unknown): Buffer => {
+  if (ArrayBuffer.isView(datos)) return Buffer.from(Buffer.from(datos.buffer, datos.byteOffset, datos.byteLength));
+  return Buffer.from(String(datos), codificacionDe(opciones) || 'utf-8');
+};
+
+const conCodificacion = (contenido: Buffer, opciones: unknown): string | Buffer => {
+  const codificacion = codificacionDe(opciones);
+  return codificacion ? contenido.toString(codificacion) : Buffer.from(contenido);
+};
+
+// Pa'l diff: un binario no se compara línea a línea
+const paraDiff = (contenido: Buffer | null): string | null => {
+  if (contenido === null) return null;
+  return contenido.includes(0) ? `[binario: ${contenido.length} bytes]\n` : contenido.toString('utf-8');
+};
+
+const errorFs = (codigo: string, descripcion: string, ruta: unknown): NodeJS.ErrnoException => {
+  const error = new Error(`${codigo}: ${descripcion}, '${String(ruta)}'`) as NodeJS.ErrnoException;
+  error.code = codigo;
+  return error;
+};
+
+const { O_WRONLY, O_RDWR, O_CREAT, O_TRUNC, O_APPEND, O_EXCL, S_IFREG, S_IFDIR } = fs.constants;
+
+// Flags de open ('r', 'w+', 'ax', o los O_* numéricos) → qué permite el descriptor
+const modoApertura = (flags: string | number = 'r') => {
+  if (typeof flags === 'number') {
+    const acceso = flags & (O_WRONLY | O_RDWR);
+    return {
+      lee: acceso !== O_WRONLY,
+      escribe: acceso !== 0,
+      crea: (flags & O_CREAT) !== 0,
+      trunca: (flags & O_TRUNC) !== 0,
+      anexa: (flags & O_APPEND) !== 0,
+      exclusivo: (flags & O_EXCL) !== 0,
+    };
+  }
+  const base = flags[0];
+  const mas = flags.includes('+');
+  return {
+    lee: base === 'r' || mas,
+    escribe: base !== 'r' || mas,
+    crea: base !== 'r',
+    trunca: base === 'w',
+    anexa: base === 'a',
+    exclusivo: flags.includes('x'),
+  };
+};
+
+// Con el prototipo de fs.Stats: isFile(), isDirectory()... salen del modo
+const estadisticasSimuladas = (modo: number, tamano: number): fs.Stats => {
+  const ahora = new Date();
+  return Object.assign(Object.create(fs.Stats.prototype), {
+    dev: 0, ino: 0, mode: modo, nlink: 1, uid: process.getuid?.() ?? 0, gid: process.getgid?.() ?? 0, rdev: 0,
+    size: tamano, blksize: 4096, blocks: Math.ceil(tamano / 512),
+    atimeMs: ahora.getTime(), mtimeMs: ahora.getTime(), ctimeMs: ahora.getTime(), birthtimeMs: ahora.getTime(),
+    atime: ahora, mtime: ahora, ctime: ahora, birthtime: ahora,
+  });
+};
+
+// Lo que devuelve readdirSync con withFileTypes; fs.Dirent no se puede construir desde fuera
+const entradaDirectorio = (name: string, parentPath: string, esDirectorio: boolean) => ({
+  name,
+  parentPath,
+  path: parentPath,
+  isFile: () => !esDirectorio,
+  isDirectory: () => esDirectorio,
+  isSymbolicLink: () => false,
+  isBlockDevice: () => false,
+  isCharacterDevice: () => false,
+  isFIFO: () => false,
+  isSocket: () => false,
+});
+
+// Funciones cuya ruta afectada es el destino (segundo argumento)
+const CON_DESTINO = /^(copy|cp|rename|move|symlink|link)/;
+
+// Lejos de los descriptores que reparte el sistema
+const PRIMER_DESCRIPTOR = 1 << 20;
+
+// Un comando con operadores de shell nunca cuenta como permitido: `git status; rm -rf .` no es `git status`
+const OPERADORES_SHELL = /[;&|`$<>\n]/;
+
+// `sh -c "<comando>"` (exec, spawn con shell) o el ejecutable con sus argumentos
+const describirComando = (archivo: string, args: string[]): string => {
+  const shell = args.findIndex(arg => arg === '-c' || arg === '/c');
+  return (shell >= 0 ? args.slice(shell + 1) : [archivo, ...args]).join(' ').trim();
+};
+
+export class VirtualFileSystem {
+  private static instance: VirtualFileSystem;
+  private archivos = new Map<string, Contenido>(); // Ruta absoluta → contenido simulado
+  private directorios = new Set<string>();
+  private descriptores = new Map<number, Descriptor>();
+  private siguienteDescriptor = PRIMER_DESCRIPTOR;
+  private comandos: string[] = []; // Comandos externos que no se lanzaron
+  private parches: Parche[] = [];
+  private disco: Disco = disco();
+
+  static getInstance(): VirtualFileSystem {
+    if (!VirtualFileSystem.instance) {
+      VirtualFileSystem.instance = new VirtualFileSystem();
+    }
+    return VirtualFileSystem.instance;
+  }
+
+  estaActivo(): boolean {
+    return this.parches.length > 0;
+  }
+
+  activar(): void {
+    if (this.estaActivo()) return;
+    this.disco = disco();
+
+    // Versiones síncronas en memoria; el resto (callback, promesas, fs-extra) se monta sobre ellas
+    const escribirJson = (ruta: fs.PathLike, objeto: unknown, opciones?: { spaces?: number; EOL?: string; replacer?: any }) => {
+      const fin = opciones?.EOL || '\n';
+      this.escribir(ruta, Buffer.from(JSON.stringify(objeto, opciones?.replacer, opciones?.spaces).replace(/\n/g, fin) + fin));
+    };
+    const sincronas: Record<string, Operacion> = {
+      writeFileSync: (ruta: fs.PathLike, datos: unknown, opciones?: unknown) => this.escribir(ruta, aBuffer(datos, opciones)),
+      appendFileSync: (ruta: fs.PathLike, datos: unknown, opciones?: unknown) => this.anexar(ruta, aBuffer(datos, opciones)),
+      mkdirSync: (ruta: fs.PathLike) => { this.crearDirectorio(this.resolver(ruta)); return undefined; },
+      mkdtempSync: (prefijo: string) => this.directorioTemporal(prefijo),
+      copyFileSync: (origen: fs.PathLike, destino: fs.PathLike) => this.escribir(destino, this.leerObligatorio(origen)),
+      cpSync: (origen: fs.PathLike, destino: fs.PathLike) => this.copiar(origen, destino),
+      renameSync: (origen: fs.PathLike, destino: fs.PathLike) => this.mover(origen, destino),
+      symlinkSync: (objetivo: fs.PathLike, ruta: fs.PathLike) => this.enlazar(objetivo, ruta),
+      linkSync: (existente: fs.PathLike, ruta: fs.PathLike) => this.copiar(existente, ruta),
+      truncateSync: (ruta: fs.PathLike, longitud?: number) => this.truncar(ruta, longitud),
+      unlinkSync: (ruta: fs.PathLike) => { this.leerObligatorio(ruta); this.archivos.set(this.resolver(ruta), null); },
+      rmSync: (ruta: fs.PathLike) => this.eliminar(ruta),
+      rmdirSync: (ruta: fs.PathLike, opciones?: { recursive?: boolean }) => {
+        if (!opciones?.recursive && this.entradas(this.resolver(ruta)).size > 0) throw errorFs('ENOTEMPTY', 'directory not empty', ruta);
+        this.eliminar(ruta);
+      },
+      readFileSync: (ruta: fs.PathOrFileDescriptor, opciones?: unknown) => conCodificacion(this.leerObligatorio(ruta), opciones),
+      existsSync: (ruta: fs.PathLike) => this.existe(ruta),
+      accessSync: (ruta: fs.PathLike) => { if (!this.existe(ruta)) throw errorFs('ENOENT', 'no such file or directory', ruta); },
+      statSync: (ruta: fs.PathLike, opciones?: fs.StatSyncOptions) => this.estadisticas(ruta, opciones),
+      lstatSync: (ruta: fs.PathLike, opciones?: fs.StatSyncOptions) => this.estadisticas(ruta, opciones),
+      readdirSync: (ruta: fs.PathLike, opciones?: unknown) => this.listar(ruta, opciones),
+      openSync: (ruta: fs.PathLike, flags?: string | number) => this.abrir(ruta, flags),
+      closeSync: (descriptor: number) => { this.descriptor(descriptor); this.descriptores.delete(descriptor); },
+      writeSync: (descriptor: number, datos: unknown, ...resto: any[]) => this.escribirEn(descriptor, datos, ...resto),
+      readSync: (descriptor: number, destino: NodeJS.ArrayBufferView, ...resto: any[]) => this.leerDe(descriptor, destino, ...resto),
+      fstatSync: (descriptor: number) => this.estadisticas(this.descriptor(descriptor).ruta),
+      ftruncateSync: (descriptor: number, longitud?: number) => this.truncar(this.descriptor(descriptor).ruta, longitud),
+      fsyncSync: (descriptor: number) => { this.descriptor(descriptor); },
+      fdatasyncSync: (descriptor: number) => { this.descriptor(descriptor); },
+    };
+    const extra: Record<string, Operacion> = {
+      outputFileSync: sincronas.writeFileSync,
+      outputJsonSync: escribirJson,
+      writeJsonSync: escribirJson,
+      readJsonSync: (ruta: fs.PathLike) => JSON.parse(this.leerObligatorio(ruta).toString('utf-8')),
+      ensureDirSync: sincronas.mkdirSync,
+      mkdirsSync: sincronas.mkdirSync,
+      mkdirpSync: sincronas.mkdirSync,
+      ensureFileSync: (ruta: fs.PathLike) => { if (this.leer(ruta) === null) this.escribir(ruta, Buffer.alloc(0)); },
+      createFileSync: (ruta: fs.PathLike) => { if (this.leer(ruta) === null) this.escribir(ruta, Buffer.alloc(0)); },
+      copySync: (origen: fs.PathLike, destino: fs.PathLike) => this.copiar(origen, destino),
+      moveSync: (origen: fs.PathLike, destino: fs.PathLike) => this.mover(origen, destino),
+      removeSync: (ruta: fs.PathLike) => this.eliminar(ruta),
+      emptyDirSync: (ruta: fs.PathLike) => { this.eliminar(ruta); this.crearDirectorio(this.resolver(ruta)); },
+      pathExistsSync: sincronas.existsSync,
+    };
+
+    // Las consultas solo se simulan si la ruta tiene algo en memoria; abrir, solo pa' escribir o si ya se escribió.
+    // El resto va al original, igual que las rutas de `simulacion.rutasReales` y los descriptores reales
+    const tocada = (args: any[]) => this.tocada(this.resolver(args[0]));
+    const condiciones: Record<string, (args: any[]) => boolean> = {
+      statSync: tocada,
+      lstatSync: tocada,
+      readdirSync: tocada,
+      accessSync: tocada,
+      openSync: args => modoApertura(typeof args[1] === 'function' ? undefined : args[1]).escribe || this.archivos.has(this.resolver(args[0])),
+      createReadStream: args => this.archivos.has(this.resolver(args[0])),
+    };
+    const vfs = this;
+    const virtual = (nombre: string, operacion: Operacion): Reemplazo => {
+      const indice = CON_DESTINO.test(nombre) ? 1 : 0;
+      const condicion = condiciones[nombre.endsWith('Sync') || nombre.endsWith('Stream') ? nombre : `${nombre}Sync`];
+      return original => function (this: unknown, ...args: any[]) {
+        const objetivo = args[indice];
+        const enMemoria = typeof objetivo === 'number'
+          ? vfs.descriptores.has(objetivo)
+          : !vfs.esReal(objetivo) && (!condicion || condicion(args));
+        return enMemoria ? operacion(...args) : original.apply(this, args);
+      };
+    };
+    // Versiones con callback: el último argumento es el callback. fs.read y fs.write devuelven además el buffer
+    const conCallback = (operacion: Operacion, segundo?: (args: any[]) => unknown): Operacion => (...args: any[]) => {
+      const callback = typeof args[args.length - 1] === 'function' ? args.pop() : undefined;
+      try {
+        const resultado = operacion(...args);
+        callback?.(null, resultado, segundo?.(args));
+      } catch (error) {
+        callback?.(error);
+      }
+    };
+    // fs-extra: promesa si no se pasa callback
+    const universal = (operacion: Operacion): Operacion => (...args: any[]) => {
+      if (typeof args[args.length - 1] === 'function') return conCallback(operacion)(...args);
+      return new Promise((resolve, reject) => {
+        try {
+          resolve(operacion(...args));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    };
+    const asincrona = (nombre: string) => nombre.replace(/Sync$/, '');
+    const reemplazos = (operaciones: Record<string, Operacion>, envolver?: (operacion: Operacion) => Operacion) =>
+      Object.fromEntries(
+        Object.entries(operaciones).map(([nombre, operacion]) => [nombre, virtual(nombre, envolver ? envolver(operacion) : operacion)])
+      );
+    const asincronas = (operaciones: Record<string, Operacion>, envolver: (operacion: Operacion) => Operacion) =>
+      reemplazos(
+        Object.fromEntries(
+          Object.entries(operaciones)
+            .filter(([nombre]) => nombre !== 'existsSync') // fs.exists está obsoleto y tiene otra firma
+            .map(([nombre, operacion]) => [asincrona(nombre), operacion])
+        ),
+        envolver
+      );
+    const promesa = (operacion: Operacion): Operacion => async (...args: any[]) => operacion(...args);
+    const flujos = {
+      createWriteStream: virtual('createWriteStream', (ruta: fs.PathLike, opciones?: unknown) => this.flujo(ruta, opciones)),
+      createReadStream: virtual('createReadStream', (ruta: fs.PathLike, opciones?: unknown) => this.lectura(ruta, opciones)),
+    };
+
+    this.parchear(fs, {
+      ...reemplazos(sincronas),
+      ...asincronas(sincronas, conCallback),
+      read: virtual('read', conCallback(sincronas.readSync, args => args[1])),
+      write: virtual('write', conCallback(sincronas.writeSync, args => args[1])),
+      ...flujos,
+    });
+    this.parchear(fs.promises, {
+      ...asincronas(sincronas, promesa),
+      // fs.promises.open devuelve un FileHandle, no el número
+      open: virtual('open', async (ruta: fs.PathLike, flags?: string | number) => this.manejador(this.abrir(ruta, flags))),
+    });
+    this.parchear(fsExtra, {
+      ...reemplazos({ ...sincronas, ...extra }),
+      ...asincronas({ ...sincronas, ...extra }, universal),
+      ...flujos,
+    });
+    this.bloquearProcesos();
+  }
+
+  desactivar(): void {
+    for (const { modulo, originales } of this.parches.reverse()) {
+      Object.assign(modulo, originales);
+    }
+    this.parches = [];
+  }
+
+  limpiar(): void {
+    this.archivos.clear();
+    this.directorios.clear();
+    this.descriptores.clear();
+    this.comandos = [];
+  }
+
+  // Comandos externos que no se lanzaron por la simulación
+  comandosBloqueados(): string[] {
+    return [...this.comandos];
+  }
+
+  // Cambios respecto al disco real; escribir el mismo contenido no cuenta como cambio
+  cambios(): CambioArchivo[] {
+    const cambios: CambioArchivo[] = [];
+
+    for (const [absoluta, despues] of this.archivos) {
+      const enDisco = this.disco.existsSync(absoluta) ? this.disco.statSync(absoluta) : undefined;
+      if (enDisco?.isDirectory()) continue; // Marca de un directorio eliminado: ya cuentan sus archivos
+      const antes = enDisco ? this.disco.readFileSync(absoluta) : null;
+      if (antes === despues || (antes && despues && antes.equals(despues))) continue;
+      const ruta = path.relative(process.cwd(), absoluta) || absoluta;
+      const tipo = antes === null ? 'crear' : despues === null ? 'eliminar' : 'modificar';
+      cambios.push({ ruta, tipo, antes: paraDiff(antes), despues: paraDiff(despues) });
+    }
+    return cambios.sort((a, b) => a.ruta.localeCompare(b.ruta));
+  }
+
+  // Árbol + diff unificado de todo lo que se habría escrito, y los comandos que no se lanzaron
+  resumen(): string {
+    const cambios = this.cambios();
+    const comandos = this.comandos.length === 0 ? [] : [
+      '',
+      `Comandos externos no ejecutados (${this.comandos.length}):`,
+      ...this.comandos.map(comando => `  $ ${comando}`),
+    ];
+    if (cambios.length === 0) {
+      return ['Modo simulación: no se habría modificado ningún archivo', ...comandos].join('\n');
+    }
+
+    const marcas: Record<CambioArchivo['tipo'], MarcaArchivo> = { crear: '+', modificar: '~', eliminar: '-' };
+    const cuenta = (tipo: CambioArchivo['tipo']) => cambios.filter(c => c.tipo === tipo).length;
+    return [
+      `Modo simulación: ${cambios.length} archivos (${cuenta('crear')} nuevos, ${cuenta('modificar')} modificados, ${cuenta('eliminar')} eliminados)`,
+      '',
+      arbolArchivos(cambios.map(c => ({ ruta: c.ruta, marca: marcas[c.tipo] }))),
+      '',
+      ...cambios.map(c => diffUnificado(c.ruta, c.antes, c.despues)).filter(Boolean),
+      ...comandos,
+    ].join('\n');
+  }
+
+  private parchear(modulo: any, reemplazos: Record<string, Reemplazo>): void {
+    const originales: Record<string, Operacion> = {};
+    for (const [nombre, reemplazo] of Object.entries(reemplazos)) {
+      const original = modulo[nombre];
+      if (typeof original !== 'function') continue;
+      originales[nombre] = original;
+      modulo[nombre] = reemplazo(original);
+    }
+    this.parches.push({ modulo, originales });
+  }
+
+  // execSync y compañía se cambian en el módulo; exec, spawn, execFile y fork acaban todos en
+  // ChildProcess.prototype.spawn, también los que se guardaron antes (promisify(exec) de DevOpsAgent)
+  private bloquearProcesos(): void {
+    const vfs = this;
+    const sincrono = (describir: (args: any[]) => string): Reemplazo => original => function (this: unknown, ...args: any[]) {
+      const comando = describir(args);
+      if (vfs.comandoPermitido(comando)) return original.apply(this, args);
+      throw vfs.bloquear(comando);
+    };
+    const conArgumentos = (args: any[]) => describirComando(String(args[0]), Array.isArray(args[1]) ? args[1] : []);
+    this.parchear(childProcess, {
+      execSync: sincrono(args => String(args[0]).trim()),
+      execFileSync: sincrono(conArgumentos),
+      spawnSync: sincrono(args => (args[1]?.shell ? String(args[0]).trim() : conArgumentos(args))),
+    });
+
+    this.parchear(ChildProcess.prototype, {
+      spawn: original => function (this: ChildProcess, opciones: { file: string; args?: string[] }) {
+        const comando = describirComando(opciones.file, (opciones.args || []).slice(1)); // args[0] es argv0
+        if (vfs.comandoPermitido(comando)) return original.call(this, opciones);
+        const error = vfs.bloquear(comando);
+        // Como un ejecutable que no existe: 'error' (si alguien escucha; spawn(..., { detached }) no lo hace) y salida 1
+        process.nextTick(() => {
+          if (this.listenerCount('error') > 0) this.emit('error', error);
+          this.emit('exit', 1, null);
+          this.emit('close', 1, null);
+        });
+        return 0;
+      },
+    });
+  }
+
+  private comandoPermitido(comando: string): boolean {
+    if (OPERADORES_SHELL.test(comando)) return false;
+    return devmindConfig.simulacion.comandosPermitidos.some(permitido => comando === permitido || comando.startsWith(`${permitido} `));
+  }
+
+  private bloquear(comando: string): NodeJS.ErrnoException {
+    this.comandos.push(comando);
+    const error = new Error(`EDRYRUN: modo simulación, no se ejecuta '${comando}'`) as NodeJS.ErrnoException;
+    error.code = 'EDRYRUN';
+    return error;
+  }
+
+  // Las entradas de `simulacion.rutasReales` pueden ser relativas al directorio de trabajo o absolutas
+  private esReal(ruta: unknown): boolean {
+    if (typeof ruta !== 'string' && !Buffer.isBuffer(ruta) && !(ruta instanceof URL)) return false;
+    const absoluta = this.resolver(ruta);
+    return devmindConfig.simulacion.rutasReales.some(real => {
+      const base = path.resolve(process.cwd(), real);
+      return absoluta === base || absoluta.startsWith(base + path.sep);
+    });
+  }
+
+  // createWriteStream: cada chunk se añade al archivo simulado
+  private flujo(ruta: fs.PathLike, opciones?: unknown): Writable {
+    const flags = typeof opciones === 'object' && opciones ? (opciones as { flags?: string }).flags : undefined;
+    if (!flags?.startsWith('a')) this.escribir(ruta, Buffer.alloc(0));
+    return Object.assign(
+      new Writable({
+        write: (chunk: unknown, codificacion, callback) => {
+          this.anexar(ruta, aBuffer(chunk, codificacion));
+          callback();
+        },
+      }),
+      { path: ruta.toString() }
+    );
+  }
+
+  // createReadStream de un archivo que solo existe (o cambió) en la simulación
+  private lectura(ruta: fs.PathLike, opciones?: unknown): Readable {
+    const contenido = this.leer(ruta);
+    const flujo = new Readable({ encoding: codificacionDe(opciones), read() {} });
+    if (contenido === null) {
+      process.nextTick(() => flujo.destroy(errorFs('ENOENT', 'no such file or directory', ruta)));
+    } else {
+      flujo.push(contenido);
+      flujo.push(null);
+    }
+    return Object.assign(flujo, { path: ruta.toString() });
+  }
+
+  private resolver(ruta: fs.PathLike | number): string {
+    if (typeof ruta === 'number') return this.descriptor(ruta).ruta;
+    return path.resolve(process.cwd(), ruta instanceof URL ? fileURLToPath(ruta) : ruta.toString());
+  }
+
+  private escribir(ruta: fs.PathLike | number, contenido: Buffer): void {
+    const absoluta = this.resolver(ruta);
+    this.archivos.set(absoluta, contenido);
+    this.revivir(path.dirname(absoluta));
+  }
+
+  private anexar(ruta: fs.PathLike | number, datos: Buffer): void {
+    this.escribir(ruta, Buffer.concat([this.leer(ruta) ?? Buffer.alloc(0), datos]));
+  }
+
+  // Un directorio eliminado en la simulación vuelve a existir si se crea o se escribe dentro
+  private revivir(directorio: string): void {
+    for (let actual = directorio; this.archivos.get(actual) === null; actual = path.dirname(actual)) {
+      this.archivos.delete(actual);
+    }
+  }
+
+  private crearDirectorio(absoluta: string): void {
+    this.directorios.add(absoluta);
+    this.revivir(absoluta);
+  }
+
+  private directorioTemporal(prefijo: string): string {
+    let ruta: string;
+    do {
+      ruta = `${prefijo}${crypto.randomBytes(4).toString('hex').substring(0, 6)}`;
+    } while (this.existe(ruta));
+    this.crearDirectorio(this.resolver(ruta));
+    return ruta;
+  }
+
+  private leer(ruta: fs.PathLike | number): Buffer | null {
+    const absoluta = this.resolver(ruta);
+    if (this.archivos.has(absoluta)) return this.archivos.get(absoluta)!;
+    return this.disco.existsSync(absoluta) && !this.disco.statSync(absoluta).isDirectory() ? this.disco.readFileSync(absoluta) : null;
+  }
+
+  private leerObligatorio(ruta: fs.PathLike | number): Buffer {
+    const contenido = this.leer(ruta);
+    if (contenido === null) throw errorFs('ENOENT', 'no such file or directory', ruta);
+    return contenido;
+  }
+
+  private existe(ruta: fs.PathLike): boolean {
+    const absoluta = this.resolver(ruta);
+    if (this.archivos.has(absoluta)) return this.archivos.get(absoluta) !== null;
+    return this.esDirectorioVirtual(absoluta) || this.disco.existsSync(absoluta);
+  }
+
+  // Creado con mkdir o con archivos simulados dentro
+  private esDirectorioVirtual(absoluta: string): boolean {
+    if (this.directorios.has(absoluta)) return true;
+    for (const [archivo, contenido] of this.archivos) {
+      if (contenido !== null && archivo.startsWith(absoluta + path.sep)) return true;
+    }
+    return false;
+  }
+
+  // Si la ruta, o algo dentro, cambió en la simulación
+  private tocada(absoluta: string): boolean {
+    const dentro = (otra: string) => otra === absoluta || otra.startsWith(absoluta + path.sep);
+    return [...this.archivos.keys()].some(dentro) || [...this.directorios].some(dentro);
+  }
+
+  private estadisticas(ruta: fs.PathLike, opciones?: fs.StatSyncOptions): fs.Stats | undefined {
+    const absoluta = this.resolver(ruta);
+    const contenido = this.archivos.get(absoluta);
+    if (contenido) return estadisticasSimuladas(S_IFREG | 0o644, contenido.length);
+    if (contenido === null || (!this.esDirectorioVirtual(absoluta) && !this.disco.existsSync(absoluta))) {
+      if (opciones?.throwIfNoEntry === false) return undefined;
+      throw errorFs('ENOENT', 'no such file or directory', ruta);
+    }
+    return this.disco.existsSync(absoluta) ? this.disco.statSync(absoluta) : estadisticasSimuladas(S_IFDIR | 0o755, 4096);
+  }
+
+  // Nombre → si es directorio, mezclando el disco con lo creado y eliminado en la simulación
+  private entradas(absoluta: string): Map<string, boolean> {
+    const contenido = this.archivos.get(absoluta);
+    if (contenido) throw errorFs('ENOTDIR', 'not a directory', absoluta);
+    const enDisco = contenido === undefined && this.disco.existsSync(absoluta);
+    if (!enDisco && !this.esDirectorioVirtual(absoluta)) throw errorFs('ENOENT', 'no such file or directory', absoluta);
+
+    const entradas = new Map<string, boolean>();
+    if (enDisco) {
+      for (const entrada of this.disco.readdirSync(absoluta, { withFileTypes: true })) entradas.set(entrada.name, entrada.isDirectory());
+    }
+    // Lo eliminado primero: un archivo vivo dentro de un directorio borrado lo vuelve a mostrar
+    const eliminados = new Set<string>();
+    const creados = new Map<string, boolean>();
+    for (const [archivo, datos] of this.archivos) {
+      if (!archivo.startsWith(absoluta + path.sep)) continue;
+      const [nombre, ...resto] = path.relative(absoluta, archivo).split(path.sep);
+      if (datos === null) {
+        if (resto.length === 0) eliminados.add(nombre);
+      } else {
+        creados.set(nombre, resto.length > 0 || creados.get(nombre) === true);
+      }
+    }
+    for (const directorio of this.directorios) {
+      if (directorio.startsWith(absoluta + path.sep)) creados.set(path.relative(absoluta, directorio).split(path.sep)[0], true);
+    }
+    eliminados.forEach(nombre => entradas.delete(nombre));
+    creados.forEach((esDirectorio, nombre) => entradas.set(nombre, esDirectorio));
+    return entradas;
+  }
+
+  private listar(ruta: fs.PathLike, opciones?: unknown): Array<string | Buffer | ReturnType<typeof entradaDirectorio>> {
+    const { withFileTypes, recursive } = (typeof opciones === 'object' && opciones ? opciones : {}) as { withFileTypes?: boolean; recursive?: boolean };
+    const codificacion = codificacionDe(opciones);
+    const recorrer = (directorio: string, prefijo: string): Array<[string, string, boolean]> =>
+      [...this.entradas(directorio)]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .flatMap(([nombre, esDirectorio]): Array<[string, string, boolean]> => [
+          [path.join(prefijo, nombre), directorio, esDirectorio],
+          ...(recursive && esDirectorio ? recorrer(path.join(directorio, nombre), path.join(prefijo, nombre)) : []),
+        ]);
+
+    return recorrer(this.resolver(ruta), '').map(([relativa, directorio, esDirectorio]) => {
+      if (withFileTypes) return entradaDirectorio(path.basename(relativa), directorio, esDirectorio);
+      return codificacion === ('buffer' as BufferEncoding) ? Buffer.from(relativa) : relativa;
+    });
+  }
+
+  private descriptor(descriptor: number): Descriptor {
+    const abierto = this.descriptores.get(descriptor);
+    if (!abierto) throw errorFs('EBADF', 'bad file descriptor', descriptor);
+    return abierto;
+  }
+
+  private abrir(ruta: fs.PathLike, flags?: string | number): number {
+    const { lee, escribe, crea, trunca, anexa, exclusivo } = modoApertura(flags);
+    const actual = this.leer(ruta);
+    if (actual === null && !crea) throw errorFs('ENOENT', 'no such file or directory', ruta);
+    if (actual !== null && exclusivo) throw errorFs('EEXIST', 'file already exists', ruta);
+    if (actual === null || trunca) this.escribir(ruta, Buffer.alloc(0));
+
+    const descriptor = this.siguienteDescriptor++;
+    this.descriptores.set(descriptor, { ruta: this.resolver(ruta), posicion: 0, lee, escribe, anexa });
+    return descriptor;
+  }
+
+  // writeSync(fd, buffer, offset?, length?, position?), (fd, buffer, { offset, length, position }) o (fd, texto, position?, encoding?)
+  private escribirEn(descriptor: number, datos: unknown, ...resto: any[]): number {
+    const abierto = this.descriptor(descriptor);
+    if (!abierto.escribe) throw errorFs('EBADF', 'bad file descriptor', descriptor);
+
+    let trozo: Buffer;
+    let posicion: number | null | undefined;
+    if (typeof datos === 'string') {
+      trozo = Buffer.from(datos, resto[1] || 'utf-8');
+      posicion = resto[0];
+    } else {
+      const opciones = typeof resto[0] === 'object' && resto[0] !== null ? resto[0] : { offset: resto[0], length: resto[1], position: resto[2] };
+      const buffer = aBuffer(datos);
+      const desde = opciones.offset ?? 0;
+      trozo = buffer.subarray(desde, desde + (opciones.length ?? buffer.length - desde));
+      posicion = opciones.position;
+    }
+
+    const actual = this.leer(abierto.ruta) ?? Buffer.alloc(0);
+    const posicional = typeof posicion === 'number' && !abierto.anexa;
+    const en = abierto.anexa ? actual.length : posicional ? posicion! : abierto.posicion;
+    const nuevo = Buffer.alloc(Math.max(actual.length, en + trozo.length));
+    actual.copy(nuevo);
+    trozo.copy(nuevo, en);
+    this.escribir(abierto.ruta, nuevo);
+    if (!posicional) abierto.posicion = en + trozo.length; // Con posición explícita el puntero no se mueve
+    return trozo.length;
+  }
+
+  // readSync(fd, buffer, offset?, length?, position?) o (fd, buffer, { offset, length, position })
+  private leerDe(descriptor: number, destino: NodeJS.ArrayBufferView, ...resto: any[]): number {
+    const abierto = this.descriptor(descriptor);
+    if (!abierto.lee) throw errorFs('EBADF', 'bad file descriptor', descriptor);
+
+    const opciones = typeof resto[0] === 'object' && resto[0] !== null ? resto[0] : { offset: resto[0], length: resto[1], position: resto[2] };
+    const vista = Buffer.from(destino.buffer, destino.byteOffset, destino.byteLength);
+    const desde = opciones.offset ?? 0;
+    const longitud = opciones.length ?? vista.length - desde;
+    const posicional = typeof opciones.position === 'number' && opciones.position >= 0;
+    const en = posicional ? opciones.position : abierto.posicion;
+
+    const contenido = this.leer(abierto.ruta) ?? Buffer.alloc(0);
+    const leidos = contenido.copy(vista, desde, en, Math.min(contenido.length, en + longitud));
+    if (!posicional) abierto.posicion += leidos;
+    return leidos;
+  }
+
+  // Lo mínimo de un FileHandle pa' fs.promises.open
+  private manejador(descriptor: number) {
+    const { ruta, anexa } = this.descriptor(descriptor);
+    return {
+      fd: descriptor,
+      write: async (datos: unknown, ...resto: any[]) => ({ bytesWritten: this.escribirEn(descriptor, datos, ...resto), buffer: datos }),
+      read: async (destino: NodeJS.ArrayBufferView, ...resto: any[]) => ({ bytesRead: this.leerDe(descriptor, destino, ...resto), buffer: destino }),
+      readFile: async (opciones?: unknown) => conCodificacion(this.leerObligatorio(ruta), opciones),
+      writeFile: async (datos: unknown, opciones?: unknown) => (anexa ? this.anexar : this.escribir).call(this, ruta, aBuffer(datos, opciones)),
+      appendFile: async (datos: unknown, opciones?: unknown) => this.anexar(ruta, aBuffer(datos, opciones)),
+      truncate: async (longitud?: number) => this.truncar(ruta, longitud),
+      stat: async () => this.estadisticas(ruta),
+      sync: async () => undefined,
+      datasync: async () => undefined,
+      close: async () => { this.descriptores.delete(descriptor); },
+    };
+  }
+
+  private truncar(ruta: fs.PathLike, longitud: number = 0): void {
+    const actual = this.leerObligatorio(ruta);
+    const nuevo = Buffer.alloc(longitud);
+    actual.copy(nuevo, 0, 0, Math.min(longitud, actual.length));
+    this.escribir(ruta, nuevo);
+  }
+
+  // Un enlace se simula como copia del objetivo: quien lo lea ve lo mismo. Uno roto no se puede leer, así que no deja nada
+  private enlazar(objetivo: fs.PathLike, ruta: fs.PathLike): void {
+    const destino = path.resolve(path.dirname(this.resolver(ruta)), objetivo.toString());
+    if (this.existe(destino)) this.copiar(destino, ruta);
+  }
+
+  // Archivos (simulados o en disco) de una ruta: ella misma si es archivo, o todo lo que cuelga si es directorio
+  private contenidos(ruta: fs.PathLike): string[] {
+    const absoluta = this.resolver(ruta);
+    const encontrados = new Set<string>();
+    const recorrer = (actual: string) => {
+      if (!this.disco.existsSync(actual)) return;
+      if (!this.disco.statSync(actual).isDirectory()) {
+        encontrados.add(actual);
+        return;
+      }
+      this.disco.readdirSync(actual).forEach(entrada => recorrer(path.join(actual, entrada)));
+    };
+    recorrer(absoluta);
+    for (const [archivo, contenido] of this.archivos) {
+      if (archivo === absoluta || archivo.startsWith(absoluta + path.sep)) {
+        if (contenido === null) encontrados.delete(archivo);
+        else encontrados.add(archivo);
+      }
+    }
+    return [...encontrados];
+  }
+
+  private copiar(origen: fs.PathLike, destino: fs.PathLike): void {
+    const desde = this.resolver(origen);
+    const hasta = this.resolver(destino);
+    const archivos = this.contenidos(origen);
+    if (archivos.length === 0) this.leerObligatorio(origen); // ENOENT
+    for (const archivo of archivos) {
+      this.escribir(archivo === desde ? hasta : path.join(hasta, path.relative(desde, archivo)), this.leerObligatorio(archivo));
+    }
+  }
+
+  private mover(origen: fs.PathLike, destino: fs.PathLike): void {
+    this.copiar(origen, destino);
+    this.eliminar(origen);
+  }
+
+  private eliminar(ruta: fs.PathLike): void {
+    const absoluta = this.resolver(ruta);
+    for (const archivo of this.contenidos(ruta)) this.archivos.set(archivo, null);
+    for (const directorio of [...this.directorios]) {
+      if (directorio === absoluta || directorio.startsWith(absoluta + path.sep)) this.directorios.delete(directorio);
+    }
+    // Un directorio del disco queda marcado pa' que stat, readdir y existsSync dejen de verlo
+    if (this.disco.existsSync(absoluta) && this.disco.statSync(absoluta).isDirectory()) this.archivos.set(absoluta, null);
+  }
+}
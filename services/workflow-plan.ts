@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import {
+  ErrorPlan,
+  ResultadoValidacionPlan,
+  WorkflowPlan,
+  WorkflowPlanStep,
+} from '../types/workflow-types';
+import { DefinicionSalida } from './structured-output';
+
+/**
+ * Validación, normalización y vista previa del WorkflowPlan que genera el LLM
+ *
+ * - Resuelve nombres de agente contra el registro ('riskAgent' → 'risk', 'APIAgent' → 'api')
+ * - Detecta ids duplicados, dependsOn colgantes y ciclos
+ * - Los errores salen con mensajes concretos pa' devolvérselos al LLM en el bucle de reparación
+ *   (salidaPlan → BaseAgent.salidaEstructurada)
+ */
+
+// Clave del registro → nombres con los que el LLM suele referirse al agente (ej. nombre de clase)
+export type AgentesConocidos = Record<string, string[]>;
+
+const normalizarNombre = (nombre: string): string =>
+  nombre.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/agent$/, '');
+
+function resolverAgente(nombre: string, agentes: AgentesConocidos): string | undefined {
+  if (agentes[nombre]) return nombre;
+  const buscado = normalizarNombre(nombre);
+  if (!buscado) return undefined;
+  for (const [clave, alias] of Object.entries(agentes)) {
+    if ([clave, ...alias].some(a => normalizarNombre(a) === buscado)) return clave;
+  }
+  return undefined;
+}
+
+export function validarPlan(crudo: unknown, agentes: AgentesConocidos): ResultadoValidacionPlan {
+  const errores: ErrorPlan[] = [];
+  const correcciones: string[] = [];
+  const resultado = (plan?: WorkflowPlan, niveles: string[][] = []): ResultadoValidacionPlan =>
+    ({ valido: errores.length === 0, plan, errores, correcciones, niveles });
+
+  const steps = (crudo as { steps?: unknown })?.steps;
+  if (!Array.isArray(steps) || steps.length === 0) {
+    errores.push({ tipo: 'estructura', mensaje: 'El plan debe ser un objeto con un array "steps" no vacío' });
+    return resultado();
+  }
+
+  const pasos: WorkflowPlanStep[] = [];
+  const ids = new Set<string>();
+
+  steps.forEach((paso: any, index: number) => {
+    const id = typeof paso?.id === 'string' && paso.id.trim() ? paso.id.trim() : undefined;
+    const ref = id || `#${index + 1}`;
+    if (!id) {
+      errores.push({ tipo: 'campo_faltante', mensaje: `El paso ${ref} no tiene "id"` });
+    } else if (ids.has(id)) {
+      errores.push({ tipo: 'id_duplicado', stepId: id, mensaje: `El id "${id}" está repetido; cada paso necesita un id único` });
+    } else {
+      ids.add(id);
+    }
+
+    if (typeof paso?.agent !== 'string' || !paso.agent.trim()) {
+      errores.push({ tipo: 'campo_faltante', stepId: id, mensaje: `El paso ${ref} no tiene "agent"` });
+    }
+    if (typeof paso?.input !== 'string') {
+      errores.push({ tipo: 'campo_faltante', stepId: id, mensaje: `El paso ${ref} no tiene "input" (string)` });
+    }
+
+    let agent: string = typeof paso?.agent === 'string' ? paso.agent.trim() : '';
+    if (agent) {
+      const resuelto = resolverAgente(agent, agentes);
+      if (!resuelto) {
+        errores.push({
+          tipo: 'agente_desconocido',
+          stepId: id,
+          mensaje: `El agente "${agent}" del paso ${ref} no existe. Usa uno de: ${Object.keys(agentes).join(', ')}`,
+        });
+      } else if (resuelto !== agent) {
+        correcciones.push(`Paso ${ref}: agente "${agent}" → "${resuelto}"`);
+        agent = resuelto;
+      }
+    }
+
+    pasos.push({
+      id: id || ref,
+      agent,
+      input: typeof paso?.input === 'string' ? paso.input : '',
+      description: typeof paso?.description === 'string' ? paso.description : '',
+      dependsOn: ([] as unknown[]).concat(paso?.dependsOn ?? []).filter((d): d is string => typeof d === 'string'),
+      priority: typeof paso?.priority === 'number' ? paso.priority : 1,
+    });
+  });
+
+  for (const paso of pasos) {
+    for (const dep of paso.dependsOn as string[]) {
+      if (!ids.has(dep)) {
+        errores.push({ tipo: 'dependencia_inexistente', stepId: paso.id, mensaje: `El paso "${paso.id}" depende de "${dep}", que no existe en el plan` });
+      }
+    }
+  }
+
+  const plan: WorkflowPlan = { steps: pasos };
+  const { niveles, enCiclo } = calcularNiveles(plan);
+  if (enCiclo.length > 0) {
+    errores.push({ tipo: 'ciclo', mensaje: `Dependencias circulares entre los pasos: ${enCiclo.join(', ')}` });
+  }
+  return resultado(plan, enCiclo.length > 0 ? [] : niveles);
+}
+
+/**
+ * Agrupa los pasos por nivel (Kahn): cada nivel solo depende de niveles anteriores
+ * y sus pasos pueden correr en paralelo. Los pasos que quedan fuera forman un ciclo.
+ * Las dependencias a ids inexistentes se ignoran (validarPlan ya las reporta).
+ */
+export function calcularNiveles(plan: WorkflowPlan): { niveles: string[][]; enCiclo: string[] } {
+  const ids = new Set(plan.steps.map(p => p.id));
+  const pendientes = new Map<string, Set<string>>();
+  for (const paso of plan.steps) {
+    // Una autodependencia nunca se libera, así que el paso queda en enCiclo
+    const deps = ([] as string[]).concat(paso.dependsOn || []).filter(d => ids.has(d));
+    pendientes.set(paso.id, new Set(deps));
+  }
+
+  const niveles: string[][] = [];
+  while (pendientes.size > 0) {
+    const listos = [...pendientes.entries()].filter(([, deps]) => deps.size === 0).map(([id]) => id);
+    if (listos.length === 0) break;
+    niveles.push(listos);
+    for (const id of listos) pendientes.delete(id);
+    for (const deps of pendientes.values()) listos.forEach(id => deps.delete(id));
+  }
+  return { niveles, enCiclo: [...pendientes.keys()] };
+}
+
+/**
+ * Definición del plan pa' BaseAgent.salidaEstructurada: el JSON pasa por validarPlan y sale
+ * normalizado junto con las correcciones automáticas; sus errores alimentan la reparación.
+ */
+export function salidaPlan(agentes: AgentesConocidos): DefinicionSalida<{ plan: WorkflowPlan; correcciones: string[] }> {
+  return {
+    nombre: 'WorkflowPlan',
+    esquema: z.unknown().transform((crudo, ctx) => {
+      const validacion = validarPlan(crudo, agentes);
+      // Los mensajes de validarPlan ya nombran el paso
+      validacion.errores.forEach(error => ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.mensaje }));
+      if (!validacion.valido || !validacion.plan) return z.NEVER;
+      return { plan: validacion.plan, correcciones: validacion.correcciones };
+    }),
+    formato: '{ "steps": [{ "id": "step-1", "agent": "agentName", "input": "Entrada", "description": "Descripción", "dependsOn": ["step-id"], "priority": 1 }] }',
+    instrucciones: `Agentes válidos para "agent": ${Object.keys(agentes).join(', ')}\nCada "dependsOn" debe referirse a ids existentes y el grafo no puede tener ciclos.`,
+  };
+}
+
+// Vista previa legible del plan, por niveles de ejecución
+export function formatearPlan(plan: WorkflowPlan, correcciones: string[] = []): string {
+  const { niveles, enCiclo } = calcularNiveles(plan);
+  const porId = new Map(plan.steps.map(p => [p.id, p]));
+  const lineas: string[] = [`Plan de trabajo: ${plan.steps.length} pasos en ${niveles.length} grupos`];
+
+  niveles.forEach((nivel, index) => {
+    lineas.push('', `Grupo ${index + 1}${nivel.length > 1 ? ' (en paralelo)' : ''}`);
+    for (const id of nivel) {
+      const paso = porId.get(id)!;
+      const deps = ([] as string[]).concat(paso.dependsOn || []);
+      lineas.push(`  [${paso.id}] ${paso.agent} (prioridad ${paso.priority})${deps.length ? ` ← ${deps.join(', ')}` : ''}`);
+      if (paso.description) lineas.push(`      ${paso.description}`);
+      if (paso.input && paso.input !== paso.description) lineas.push(`      Entrada: ${paso.input}`);
+    }
+  });
+
+  if (enCiclo.length > 0) {
+    lineas.push('', `⚠️ Pasos en ciclo (no se ejecutarían): ${enCiclo.join(', ')}`);
+  }
+  if (correcciones.length > 0) {
+    lineas.push('', 'Correcciones automáticas:', ...correcciones.map(c => `  - ${c}`));
+  }
+  return lineas.join('\n');
+}
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { devmindConfig } from '../devmind.config';
+import { CreditLedger, CreditosInsuficientesError } from '../services/credit-ledger';
+
+const nuevaRuta = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cj-ledger-')), 'asientos.jsonl');
+const inicial = devmindConfig.creditos.saldoInicial;
+const tokens = (creditos: number) => creditos * devmindConfig.creditos.tokensPorCredito;
+
+test('abre la cuenta con el saldo inicial y liquida lo consumido, liberando el resto', () => {
+  const ledger = new CreditLedger(nuevaRuta());
+  assert.equal(ledger.saldo('ana').disponible, inicial);
+
+  const reserva = ledger.reservar({ userId: 'ana', proyectoId: 'p1', agente: 'APIAgent' }, 50);
+  assert.deepEqual(ledger.saldo('ana'), { userId: 'ana', disponible: inicial - 50, reservado: 50, consumido: 0 });
+
+  ledger.liquidar(reserva.id, [{ modelo: 'gpt-4', tokens: tokens(20) }]);
+  assert.deepEqual(ledger.saldo('ana'), { userId: 'ana', disponible: inicial - 20, reservado: 0, consumido: 20 });
+  assert.deepEqual(ledger.consumoPor('agente').map(g => [g.clave, g.creditos]), [['APIAgent', 20]]);
+});
+
+test('un paso fallido paga lo que ya gastó y devuelve solo lo que queda de la reserva', () => {
+  const ledger = new CreditLedger(nuevaRuta());
+  const reserva = ledger.reservar({ userId: 'ana', agente: 'DocAgent' }, 30);
+
+  const asientos = ledger.reembolsar(reserva.id, 'falló', [{ modelo: 'gpt-4', tokens: tokens(10) }]);
+  assert.deepEqual(asientos.map(a => a.tipo), ['liquidacion', 'reembolso']);
+  assert.deepEqual(ledger.saldo('ana'), { userId: 'ana', disponible: inicial - 10, reservado: 0, consumido: 10 });
+  assert.throws(() => ledger.liquidar(reserva.id, []), /ya se cerró/);
+});
+
+test('no reserva más de lo disponible y el libro se relee desde disco', () => {
+  const ruta = nuevaRuta();
+  const ledger = new CreditLedger(ruta);
+  assert.throws(() => ledger.reservar({ userId: 'ana' }, inicial + 1), CreditosInsuficientesError);
+
+  ledger.acreditar('ana', 100, { referencia: 'pack-1' });
+  ledger.cobrar({ userId: 'ana', modelo: 'gpt-4', tokens: tokens(5) });
+  assert.deepEqual(new CreditLedger(ruta).saldo('ana'), { userId: 'ana', disponible: inicial + 95, reservado: 0, consumido: 5 });
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { devmindConfig } from '../devmind.config';
+import { CLAVE_PUBLICA_EMISOR, LicenseManager } from '../services/license-manager';
+import { calcularNiveles } from '../services/workflow-plan';
+import { CANALES_VIVO } from '../types/realtime-types';
+import { configCompartida } from '../dashboard/backend/src/shared/config';
+import * as licenciaApi from '../dashboard/backend/src/shared/license';
+import { calcularNiveles as calcularNivelesApi } from '../dashboard/backend/src/shared/workflow-plan';
+import { CANALES_VIVO as CANALES_VIVO_API } from '../dashboard/backend/src/shared/realtime-types';
+
+// La API del dashboard lleva copias de lo que comparte con la CLI pa' instalarse sola: aquí se comprueba que no se separen
+
+const DIA_MS = 24 * 3600 * 1000;
+
+test('la API usa la misma clave del emisor, tokensPorCredito, gracia y canales que la CLI', () => {
+  assert.equal(licenciaApi.CLAVE_PUBLICA_EMISOR, CLAVE_PUBLICA_EMISOR);
+  assert.equal(configCompartida.creditos.tokensPorCredito, devmindConfig.creditos.tokensPorCredito);
+  assert.equal(configCompartida.licencias.graciaDias, devmindConfig.licencias.graciaDias);
+  assert.deepEqual(CANALES_VIVO_API, CANALES_VIVO);
+});
+
+test('la API verifica las licencias igual que el LicenseManager', () => {
+  const claves = new LicenseManager().generarClaves();
+  const cli = new LicenseManager(claves.publica);
+  const token = cli.emitir({ titular: 'ana@example.com', tier: 'Professional', asientos: 3, dias: 30 }, claves.privada);
+  const [prefijo, datos] = token.split('.');
+  const ajena = new LicenseManager().emitir({ titular: 'ana@example.com', tier: 'Enterprise', dias: 30 }, new LicenseManager().generarClaves().privada);
+
+  for (const [candidato, dias] of [[token, 0], [token, 31], [token, 30 + devmindConfig.licencias.graciaDias + 1], [`${prefijo}.${datos}.AAAA`, 0], [ajena, 0]] as [string, number][]) {
+    const ahora = new Date(Date.now() + dias * DIA_MS);
+    assert.deepEqual(licenciaApi.verificarLicencia(candidato, ahora, claves.publica), cli.verificar(candidato, ahora));
+  }
+  // Con la clave compilada, ninguna de las dos acepta una licencia de otro emisor
+  assert.equal(licenciaApi.verificarLicencia(token).estado, 'invalida');
+});
+
+test('la API agrupa los pasos en los mismos niveles que el orquestador', () => {
+  const steps = [
+    { id: 'db', agent: 'database', input: '', description: '', priority: 1 },
+    { id: 'api', agent: 'api', input: '', description: '', priority: 1, dependsOn: 'db' },
+    { id: 'ui', agent: 'uiDesign', input: '', description: '', priority: 1 },
+    { id: 'fin', agent: 'api', input: '', description: '', priority: 1, dependsOn: ['api', 'ui', 'fin'] },
+  ];
+  assert.deepEqual(calcularNivelesApi({ steps }), calcularNiveles({ steps }));
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CupoAgotadoError, Entitlements, FuncionNoIncluidaError, MATRIZ_DERECHOS } from '../services/entitlements';
+import { TierLicencia } from '../types/license-types';
+
+const nuevoArchivo = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cj-cupos-')), 'cupos.json');
+const derechos = (tier: TierLicencia, features: string[] = [], archivo = nuevoArchivo()) =>
+  new Entitlements({ tier: () => tier, features: () => features, archivo });
+
+test('las funciones de pago no están en Community y el error dice desde qué tier', () => {
+  const community = derechos('Community');
+  assert.equal(community.can('llm-nube'), false);
+  assert.equal(derechos('Professional').can('llm-nube'), true);
+  assert.throws(() => community.exigir('revision-codigo'), (error: unknown) => {
+    assert.ok(error instanceof FuncionNoIncluidaError);
+    assert.deepEqual([error.tier, error.desde], ['Community', 'Professional']);
+    return true;
+  });
+});
+
+test('una feature suelta de la licencia se suma a las del tier', () => {
+  const conPrototipos = derechos('Community', ['prototipos']);
+  assert.equal(conPrototipos.can('prototipos'), true);
+  assert.equal(conPrototipos.can('automejora'), false);
+  assert.ok(conPrototipos.funciones().some(f => f.funcion === 'prototipos' && f.incluida));
+});
+
+test('los límites fijos cortan con el siguiente tier que da más; 0 es sin límite', () => {
+  const { pasosPorPlan } = MATRIZ_DERECHOS.Community.cupos;
+  assert.doesNotThrow(() => derechos('Community').comprobarLimite('pasosPorPlan', pasosPorPlan));
+  assert.throws(() => derechos('Community').comprobarLimite('pasosPorPlan', pasosPorPlan + 1), (error: unknown) => {
+    assert.ok(error instanceof CupoAgotadoError);
+    assert.deepEqual(error.mejora, { tier: 'Professional', limite: MATRIZ_DERECHOS.Professional.cupos.pasosPorPlan });
+    return true;
+  });
+  assert.doesNotThrow(() => derechos('Enterprise').comprobarLimite('pasosPorPlan', 10_000));
+});
+
+test('los proyectos se cuentan por id y por usuario, y lo gastado sobrevive a otra instancia', () => {
+  const archivo = nuevoArchivo();
+  const community = derechos('Community', [], archivo);
+  const limite = MATRIZ_DERECHOS.Community.cupos.proyectos;
+
+  for (let i = 1; i <= limite; i++) community.consumir('proyectos', 'ana', `p${i}`);
+  assert.equal(community.consumir('proyectos', 'ana', 'p1').usado, limite); // Reabrir uno contado no gasta
+  assert.throws(() => community.consumir('proyectos', 'ana', 'otro'), CupoAgotadoError);
+  assert.equal(community.consumir('proyectos', 'luis', 'p1').usado, 1);
+
+  const releido = derechos('Community', [], archivo).uso('ana').find(u => u.cupo === 'proyectos');
+  assert.deepEqual(releido, { cupo: 'proyectos', limite, usado: limite, restante: 0 });
+});
+
+test('las ejecuciones por día se agotan y al día siguiente empiezan de cero', () => {
+  const archivo = nuevoArchivo();
+  const community = derechos('Community', [], archivo);
+  const limite = MATRIZ_DERECHOS.Community.cupos.ejecucionesPorDia;
+
+  for (let i = 0; i < limite; i++) community.consumir('ejecucionesPorDia', 'ana');
+  assert.throws(() => community.consumir('ejecucionesPorDia', 'ana'), CupoAgotadoError);
+
+  const datos = JSON.parse(fs.readFileSync(archivo, 'utf-8'));
+  datos.usuarios.ana.ejecuciones.fecha = '2000-01-01';
+  fs.writeFileSync(archivo, JSON.stringify(datos));
+  assert.equal(community.consumir('ejecucionesPorDia', 'ana').usado, 1);
+});
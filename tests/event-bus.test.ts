@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventBus } from '../services/event-bus';
+import { AgentEventType } from '../types/agent-types';
+
+// Cada test con su propio bus: el singleton lo comparten los agentes
+test('entrega por tipo exacto, comodín y patrón', async () => {
+  const bus = new EventBus();
+  const recibidos: string[] = [];
+  bus.on(AgentEventType.TEST_REQUESTED, () => void recibidos.push('exacto'));
+  bus.on('*', () => void recibidos.push('comodin'));
+  bus.on('TEST_*', () => void recibidos.push('patron'));
+  bus.on('*_ERROR', () => void recibidos.push('no'));
+
+  await bus.emit(AgentEventType.TEST_REQUESTED, {} as never);
+  assert.deepEqual(recibidos.sort(), ['comodin', 'exacto', 'patron']);
+});
+
+test('lo emitido dentro de un handler hereda el correlationId', async () => {
+  const bus = new EventBus();
+  bus.on(AgentEventType.TEST_REQUESTED, async () => {
+    await bus.emit(AgentEventType.COMPONENT_CREATED, {} as never);
+  });
+
+  const origen = await bus.emit(AgentEventType.TEST_REQUESTED, {} as never);
+  const cadena = bus.trace(origen.correlationId);
+  assert.deepEqual(cadena.map(e => e.type), [AgentEventType.TEST_REQUESTED, AgentEventType.COMPONENT_CREATED]);
+  assert.equal(cadena[1].causationId, origen.correlationId);
+});
+
+test('once se desuscribe solo y el replay llega a los suscriptores tardíos', async () => {
+  const bus = new EventBus(2);
+  let veces = 0;
+  bus.once(AgentEventType.TEST_REQUESTED, () => void veces++);
+  await bus.emit(AgentEventType.TEST_REQUESTED, {} as never);
+  await bus.emit(AgentEventType.TEST_REQUESTED, {} as never);
+  await bus.emit(AgentEventType.TEST_REQUESTED, {} as never);
+  assert.equal(veces, 1);
+
+  // El buffer es de 2: el primero ya salió
+  const tardios: number[] = [];
+  bus.on('*', e => void tardios.push(e.sequence), { replay: true });
+  assert.deepEqual(tardios, [2, 3]);
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { devmindConfig } from '../devmind.config';
+import { LicenseManager } from '../services/license-manager';
+
+const DIA_MS = 24 * 3600 * 1000;
+
+// Un emisor de prueba: el LicenseManager de los tests verifica con su pública, no con la del emisor real
+const claves = new LicenseManager().generarClaves();
+const licencias = new LicenseManager(claves.publica);
+const emitir = (dias = 30) => licencias.emitir({ titular: 'ana@example.com', tier: 'Enterprise', asientos: 5, dias, features: ['prototipos'] }, claves.privada);
+
+test('verifica una licencia firmada por el emisor', () => {
+  const verificada = licencias.verificar(emitir());
+  assert.equal(verificada.estado, 'activa');
+  assert.equal(verificada.tier, 'Enterprise');
+  assert.equal(verificada.datos?.asientos, 5);
+  assert.deepEqual(verificada.datos?.features, ['prototipos']);
+});
+
+test('una licencia alterada o de otro emisor queda en Community', () => {
+  const [prefijo, datos, firma] = emitir().split('.');
+  const editados = JSON.parse(Buffer.from(datos, 'base64url').toString('utf-8'));
+  editados.asientos = 500;
+  const alterada = `${prefijo}.${Buffer.from(JSON.stringify(editados)).toString('base64url')}.${firma}`;
+  assert.deepEqual([licencias.verificar(alterada).estado, licencias.verificar(alterada).tier], ['invalida', 'Community']);
+
+  // La CLI publicada solo confía en la clave compilada: una emitida con claves propias no vale
+  assert.equal(new LicenseManager().verificar(emitir()).estado, 'invalida');
+  assert.equal(licencias.verificar('no-es-una-licencia').estado, 'invalida');
+});
+
+test('expirada conserva el tier durante la gracia y después baja a Community', () => {
+  const token = emitir(30);
+  const gracia = devmindConfig.licencias.graciaDias;
+
+  const enGracia = licencias.verificar(token, new Date(Date.now() + (30 + 1) * DIA_MS));
+  assert.deepEqual([enGracia.estado, enGracia.tier], ['gracia', 'Enterprise']);
+
+  const vencida = licencias.verificar(token, new Date(Date.now() + (30 + gracia + 1) * DIA_MS));
+  assert.deepEqual([vencida.estado, vencida.tier], ['expirada', 'Community']);
+});
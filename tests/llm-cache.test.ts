@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { APIProxy, SolicitudAPI } from '../services/api-proxy';
+import { LLMCache } from '../services/llm-cache';
+import { LLMRequest } from '../services/llm-providers';
+
+// Los singletons (caché, transcripciones) resuelven context/ desde aquí al crearse
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), 'cj-cache-')));
+
+const llamadas: LLMRequest[] = [];
+APIProxy.registrarProveedor({
+  nombre: 'openai',
+  completar: async (request) => {
+    llamadas.push(request);
+    return { texto: `respuesta ${llamadas.length}`, modelo: request.modelo, tokensPrompt: 40, tokensRespuesta: 10 };
+  },
+});
+const solicitud: SolicitudAPI = { proveedor: 'openai', modelo: 'gpt-4', prompt: 'Diseña el esquema de usuarios', maxTokens: 200, temperatura: 0 };
+
+test('normaliza el prompt en la clave y distingue modelo y temperatura', () => {
+  const cache = new LLMCache(fs.mkdtempSync(path.join(os.tmpdir(), 'cj-cache-')));
+  const clave = cache.clave({ proveedor: 'openai', modelo: 'gpt-4', prompt: 'a  \r\nb\n' });
+  assert.equal(cache.clave({ proveedor: 'openai', modelo: 'gpt-4', prompt: '\na\nb' }), clave);
+  assert.notEqual(cache.clave({ proveedor: 'openai', modelo: 'gpt-4', prompt: '  a\nb' }), clave);
+  assert.notEqual(cache.clave({ proveedor: 'openai', modelo: 'gpt-3.5-turbo', prompt: 'a\nb' }), clave);
+  assert.notEqual(cache.clave({ proveedor: 'openai', modelo: 'gpt-4', prompt: 'a\nb', temperatura: 0.7 }), clave);
+});
+
+test('cuenta aciertos y fallos, y una entrada expirada o descartada vuelve a fallar', () => {
+  const cache = new LLMCache(fs.mkdtempSync(path.join(os.tmpdir(), 'cj-cache-')));
+  const entrada = { clave: 'k1', proveedor: 'openai', modelo: 'gpt-4', resultado: 'ok', tokensPrompt: 30, tokensRespuesta: 20, creada: new Date().toISOString() };
+
+  assert.equal(cache.obtener('k1'), null);
+  cache.guardar(entrada);
+  assert.equal(cache.obtener('k1')?.resultado, 'ok');
+  cache.descartar('k1');
+  assert.equal(cache.obtener('k1'), null);
+  cache.guardar({ ...entrada, clave: 'k2' }, -1);
+  assert.equal(cache.obtener('k2'), null);
+
+  const estadisticas = cache.estadisticas();
+  assert.deepEqual([estadisticas.aciertos, estadisticas.fallos, estadisticas.tokensAhorrados, estadisticas.entradas], [1, 3, 50, 0]);
+});
+
+test('APIProxy: la segunda llamada igual sale de la caché sin tokens y --no-cache siempre va al proveedor', async () => {
+  const proxy = new APIProxy();
+  const primera = await proxy.ejecutar(solicitud);
+  const segunda = await proxy.ejecutar({ ...solicitud, prompt: `${solicitud.prompt}\r\n` });
+  assert.equal(llamadas.length, 1);
+  assert.deepEqual([primera.cache, primera.tokens], [false, 50]);
+  assert.deepEqual([segunda.cache, segunda.tokens, segunda.resultado], [true, 0, 'respuesta 1']);
+
+  await proxy.ejecutar({ ...solicitud, cache: false });
+  assert.equal(llamadas.length, 2);
+
+  LLMCache.getInstance().desactivar(); // Lo que hace `cj --no-cache`
+  const sinCache = await proxy.ejecutar(solicitud);
+  await proxy.ejecutar(solicitud);
+  assert.equal(llamadas.length, 4);
+  assert.deepEqual([sinCache.cache, sinCache.claveCache], [false, undefined]);
+  assert.equal(LLMCache.getInstance().estadisticas().activa, false);
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureProvider, LLMProvider, LLMRequest } from '../services/llm-providers';
+
+test('las fixtures grabadas van redactadas y su clave incluye modelo y temperatura', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cj-fixtures-'));
+  const delegado: LLMProvider = {
+    nombre: 'openai',
+    completar: async () => ({ texto: 'Usa apiKey: "sk-live-respuesta"', modelo: 'gpt-4', tokensPrompt: 10, tokensRespuesta: 5 }),
+  };
+  const grabador = new FixtureProvider({ dir, modo: 'record', delegado });
+  const peticion: LLMRequest = { modelo: 'GPT-4', prompt: 'Conecta con password=hunter2222', maxTokens: 100, temperatura: 0 };
+
+  await grabador.completar(peticion);
+  await grabador.completar({ ...peticion, temperatura: 0.7 });
+  await grabador.completar({ ...peticion, modelo: 'GPT-3.5' });
+  const archivos = fs.readdirSync(dir);
+  assert.equal(archivos.length, 3);
+
+  const grabado = fs.readFileSync(path.join(dir, archivos[0]), 'utf-8');
+  assert.doesNotMatch(grabado, /hunter2222|sk-live-respuesta/);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { DefinicionSalida, ErrorSalida, extraerJSON, obtenerSalida, SalidaInvalidaError, validarSalida } from '../services/structured-output';
+
+const componentes: DefinicionSalida<{ components: { name: string; type: 'page' | 'widget' }[] }> = {
+  nombre: 'Componentes',
+  esquema: z.object({ components: z.array(z.object({ name: z.string().min(1), type: z.enum(['page', 'widget']) })).min(1) }),
+  formato: '{ "components": [{ "name": "...", "type": "page|widget" }] }',
+};
+const valido = '{"components": [{"name": "Login", "type": "page"}]}';
+
+test('extrae el JSON de un bloque o con texto alrededor y tolera comas finales', () => {
+  assert.deepEqual(extraerJSON('Aquí va:\n```json\n{"a": [1, 2,],}\n```\nListo'), { a: [1, 2] });
+  assert.deepEqual(extraerJSON('El plan es {"b": {"c": "}"}} y nada más'), { b: { c: '}' } });
+  assert.throws(() => extraerJSON('sin nada'), /no contiene JSON/);
+});
+
+test('los errores de validación señalan la ruta y lo que se esperaba', () => {
+  assert.equal(validarSalida(valido, componentes).valido, true);
+
+  const { valido: ok, errores } = validarSalida('{"components": [{"type": "modal"}]}', componentes);
+  assert.equal(ok, false);
+  assert.deepEqual(errores.map(e => e.ruta).sort(), ['components[0].name', 'components[0].type']);
+  assert.match(errores.find(e => e.ruta === 'components[0].type')!.mensaje, /"modal" no es válido; usa uno de: page, widget/);
+});
+
+test('pide reparación con los errores y la respuesta anterior hasta que sale válida', async () => {
+  const pedidos: { prompt: string; errores: ErrorSalida[]; intento: number }[] = [];
+  const respuestas = ['{"components": []}', valido];
+  const { valor, reparaciones } = await obtenerSalida(componentes, 'no es JSON', {
+    maxReparaciones: 3,
+    reparar: async (prompt, errores, intento) => {
+      pedidos.push({ prompt, errores, intento });
+      return respuestas.shift()!;
+    },
+  });
+
+  assert.equal(reparaciones, 2);
+  assert.deepEqual(valor, { components: [{ name: 'Login', type: 'page' }] });
+  assert.deepEqual(pedidos.map(p => p.intento), [1, 2]);
+  assert.match(pedidos[1].prompt, /components: necesita al menos 1 elementos/);
+  assert.match(pedidos[1].prompt, /Estructura esperada:\n\{ "components"/);
+  assert.match(pedidos[1].prompt, /Respuesta anterior:\n\{"components": \[\]\}/);
+});
+
+test('agotados los intentos lanza SalidaInvalidaError con los errores del último', async () => {
+  let llamadas = 0;
+  const fallo = obtenerSalida(componentes, '{}', { maxReparaciones: 2, reparar: async () => { llamadas++; return '{"components": "x"}'; } });
+
+  await assert.rejects(fallo, (error: unknown) => {
+    assert.ok(error instanceof SalidaInvalidaError);
+    assert.deepEqual([error.intentos, error.respuesta, error.errores[0].ruta], [3, '{"components": "x"}', 'components']);
+    return true;
+  });
+  assert.equal(llamadas, 2);
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IdAmbiguoError, MAX_INTENTOS, TaskManager, TaskTransitionError } from '../services/task-manager';
+
+const nuevoManager = () => new TaskManager(path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cj-tareas-')), 'tasks.json'));
+const tarea = { proyectoId: 'p1', agente: 'APIAgent', input: 'crear endpoint' };
+
+test('recorre el ciclo PENDING → IN_PROGRESS → REVIEW → COMPLETED con historial', async () => {
+  const tareas = nuevoManager();
+  const { id } = await tareas.crear(tarea);
+  await tareas.iniciar(id, 'test');
+  await tareas.enviarARevision(id, 'test');
+  const completada = await tareas.completar(id, 'ok', 'test', ['api/users.ts']);
+
+  assert.equal(completada.estado, 'COMPLETED');
+  assert.equal(completada.intentos, 1);
+  assert.deepEqual(completada.archivos, ['api/users.ts']);
+  assert.deepEqual(completada.historial.map(t => t.a), ['PENDING', 'IN_PROGRESS', 'REVIEW', 'COMPLETED']);
+});
+
+test('rechaza transiciones fuera de la tabla de context/rules.md', async () => {
+  const tareas = nuevoManager();
+  const { id } = await tareas.crear(tarea);
+  await assert.rejects(tareas.completar(id), TaskTransitionError);
+  await tareas.cancelar(id);
+  await assert.rejects(tareas.iniciar(id), TaskTransitionError);
+});
+
+test(`cancela la tarea al fallar ${MAX_INTENTOS} veces`, async () => {
+  const tareas = nuevoManager();
+  const { id } = await tareas.crear(tarea);
+  for (let intento = 1; intento <= MAX_INTENTOS; intento++) {
+    await tareas.iniciar(id);
+    await tareas.fallar(id, `fallo ${intento}`);
+  }
+  assert.equal(tareas.obtener(id)?.estado, 'CANCELLED');
+});
+
+test('busca por prefijo único; un prefijo vacío no es ninguno y uno ambiguo falla', async () => {
+  const tareas = nuevoManager();
+  const creadas = [await tareas.crear(tarea), await tareas.crear(tarea)];
+  const { id } = creadas[0];
+
+  assert.equal(tareas.obtener(id.substring(0, 8))?.id, id);
+  assert.equal(tareas.obtener(''), undefined);
+
+  // Dos ids de uuid que empiecen igual no se pueden forzar: se comparte el prefijo a mano
+  const archivo = (tareas as unknown as { archivo: string }).archivo;
+  const datos = JSON.parse(fs.readFileSync(archivo, 'utf-8'));
+  datos.tareas[1].id = `${id.substring(0, 4)}${datos.tareas[1].id.substring(4)}`;
+  fs.writeFileSync(archivo, JSON.stringify(datos));
+  assert.throws(() => tareas.obtener(id.substring(0, 4)), IdAmbiguoError);
+});
+
+test('enlaza dependencias solo mientras la tarea no empezó', async () => {
+  const tareas = nuevoManager();
+  const primera = await tareas.crear(tarea);
+  const segunda = await tareas.crear(tarea);
+
+  assert.deepEqual(tareas.enlazarDependencias(primera.id, [segunda.id]).dependeDe, [segunda.id]);
+  assert.deepEqual(tareas.obtener(primera.id)?.dependeDe, [segunda.id]);
+  await tareas.iniciar(segunda.id);
+  assert.throws(() => tareas.enlazarDependencias(segunda.id, [primera.id]), /IN_PROGRESS/);
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TransactionManager } from '../services/transaction-manager';
+
+// Un workspace temporal con un archivo ya existente y su propio context/
+const preparar = () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cj-tx-'));
+  fs.writeFileSync(path.join(dir, 'app.ts'), 'original\n');
+  return { dir, transacciones: new TransactionManager(path.join(dir, 'context')) };
+};
+
+test('revierte un paso: restaura lo modificado y borra lo creado, también los directorios nuevos', async () => {
+  const { dir, transacciones } = preparar();
+  const { id } = transacciones.iniciar({ agente: 'APIAgent', stepId: 'api' });
+  await transacciones.ejecutarEn(id, async () => {
+    fs.writeFileSync(path.join(dir, 'app.ts'), 'cambiado\n');
+    fs.mkdirSync(path.join(dir, 'src', 'routes'), { recursive: true });
+    await fs.promises.writeFile(path.join(dir, 'src', 'routes', 'users.ts'), 'export {};\n');
+  });
+  // Fuera de ejecutarEn no se captura nada
+  fs.writeFileSync(path.join(dir, 'ajeno.txt'), 'del usuario\n');
+
+  const resultado = await transacciones.revertir(id, { motivo: 'revisión por debajo del umbral' });
+  assert.equal(resultado.restaurados.length, 1);
+  assert.equal(resultado.eliminados.length, 1);
+  assert.equal(fs.readFileSync(path.join(dir, 'app.ts'), 'utf-8'), 'original\n');
+  assert.deepEqual(fs.readdirSync(dir).sort(), ['ajeno.txt', 'app.ts', 'context']);
+  assert.equal(transacciones.obtener(id)?.estado, 'revertida');
+});
+
+test('un archivo editado después de confirmar bloquea el rollback salvo con forzar', async () => {
+  const { dir, transacciones } = preparar();
+  const { id } = transacciones.iniciar({ agente: 'APIAgent', proyectoId: 'p1' });
+  await transacciones.ejecutarEn(id, async () => fs.writeFileSync(path.join(dir, 'app.ts'), 'del paso\n'));
+  assert.equal(transacciones.confirmar(id)?.estado, 'confirmada');
+
+  fs.writeFileSync(path.join(dir, 'app.ts'), 'editado a mano\n');
+  const bloqueado = await transacciones.revertir(id);
+  assert.equal(bloqueado.conflictos.length, 1);
+  assert.equal(fs.readFileSync(path.join(dir, 'app.ts'), 'utf-8'), 'editado a mano\n');
+  assert.equal(transacciones.buscar('p1')[0].estado, 'confirmada');
+
+  await transacciones.revertir(id, { forzar: true });
+  assert.equal(fs.readFileSync(path.join(dir, 'app.ts'), 'utf-8'), 'original\n');
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VirtualFileSystem } from '../services/virtual-fs';
+
+// Cada test simula sobre un directorio temporal con un archivo real y comprueba que el disco no cambió
+const simular = (prueba: (dir: string) => void | Promise<void>) => async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cj-vfs-'));
+  fs.writeFileSync(path.join(dir, 'real.txt'), 'en disco\n');
+  const vfs = VirtualFileSystem.getInstance();
+  vfs.activar();
+  try {
+    await prueba(dir);
+  } finally {
+    vfs.desactivar();
+    vfs.limpiar();
+  }
+  assert.deepEqual(fs.readdirSync(dir), ['real.txt']);
+  assert.equal(fs.readFileSync(path.join(dir, 'real.txt'), 'utf-8'), 'en disco\n');
+};
+
+test('guarda binarios sin tocarlos y los muestra como binarios en el diff', simular(dir => {
+  const binario = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+  fs.writeFileSync(path.join(dir, 'logo.png'), binario);
+
+  assert.deepEqual(fs.readFileSync(path.join(dir, 'logo.png')), binario);
+  const [cambio] = VirtualFileSystem.getInstance().cambios();
+  assert.deepEqual([cambio.tipo, cambio.despues], ['crear', '[binario: 7 bytes]\n']);
+}));
+
+test('openSync/writeSync/readSync trabajan en memoria y los descriptores reales siguen funcionando', simular(dir => {
+  const ruta = path.join(dir, 'log.txt');
+  const fd = fs.openSync(ruta, 'w+');
+  fs.writeSync(fd, 'hola ');
+  fs.writeSync(fd, Buffer.from('mundo'));
+  const leido = Buffer.alloc(4);
+  assert.equal(fs.readSync(fd, leido, 0, 4, 0), 4);
+  fs.closeSync(fd);
+  assert.equal(fs.readFileSync(ruta, 'utf-8'), 'hola mundo');
+
+  // Solo lectura de un archivo sin cambios: descriptor real
+  const real = fs.openSync(path.join(dir, 'real.txt'), 'r');
+  assert.ok(real < 1 << 20);
+  fs.closeSync(real);
+
+  const anexo = fs.openSync(path.join(dir, 'real.txt'), 'a');
+  fs.writeSync(anexo, 'y en memoria\n');
+  fs.closeSync(anexo);
+  assert.equal(fs.readFileSync(path.join(dir, 'real.txt'), 'utf-8'), 'en disco\ny en memoria\n');
+}));
+
+test('readdirSync y statSync mezclan lo simulado con el disco', simular(dir => {
+  fs.mkdirSync(path.join(dir, 'src'));
+  fs.writeFileSync(path.join(dir, 'src', 'index.ts'), 'export {};\n');
+  fs.cpSync(path.join(dir, 'src'), path.join(dir, 'copia'), { recursive: true });
+
+  assert.deepEqual(fs.readdirSync(dir), ['copia', 'real.txt', 'src']);
+  assert.deepEqual(fs.readdirSync(dir, { withFileTypes: true }).map(e => [e.name, e.isDirectory()]), [['copia', true], ['real.txt', false], ['src', true]]);
+  assert.equal(fs.statSync(path.join(dir, 'copia', 'index.ts')).size, 11);
+  assert.ok(fs.statSync(path.join(dir, 'src')).isDirectory());
+
+  fs.truncateSync(path.join(dir, 'real.txt'), 2);
+  assert.equal(fs.readFileSync(path.join(dir, 'real.txt'), 'utf-8'), 'en');
+  fs.rmdirSync(path.join(dir, 'copia'), { recursive: true });
+  fs.unlinkSync(path.join(dir, 'real.txt'));
+  assert.deepEqual(fs.readdirSync(dir), ['src']);
+  assert.equal(fs.statSync(path.join(dir, 'real.txt'), { throwIfNoEntry: false }), undefined);
+}));
+
+test('fs.promises.open da un FileHandle sobre la memoria', simular(async dir => {
+  const manejador = await fs.promises.open(path.join(dir, 'nuevo.json'), 'w');
+  await manejador.writeFile('{"ok":true}');
+  await manejador.close();
+  assert.deepEqual(JSON.parse(await fs.promises.readFile(path.join(dir, 'nuevo.json'), 'utf-8')), { ok: true });
+}));
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calcularNiveles, validarPlan } from '../services/workflow-plan';
+
+const agentes = { api: ['APIAgent'], uiDesign: ['UIDesignAgent'], database: ['DatabaseAgent'] };
+const paso = (id: string, agent: string, dependsOn?: string | string[]) => ({ id, agent, input: `hacer ${id}`, dependsOn });
+
+test('normaliza agentes y dependsOn, y agrupa los pasos en niveles paralelos', () => {
+  const resultado = validarPlan({
+    steps: [paso('db', 'DatabaseAgent'), paso('api', 'apiAgent', 'db'), paso('ui', 'uiDesign'), paso('fin', 'api', ['api', 'ui'])],
+  }, agentes);
+
+  assert.equal(resultado.valido, true);
+  assert.deepEqual(resultado.plan?.steps.map(p => p.agent), ['database', 'api', 'uiDesign', 'api']);
+  assert.deepEqual(resultado.plan?.steps[1].dependsOn, ['db']);
+  assert.deepEqual(resultado.niveles, [['db', 'ui'], ['api'], ['fin']]);
+  assert.equal(resultado.correcciones.length, 2);
+});
+
+test('reporta ids repetidos, campos faltantes, agentes y dependencias desconocidos', () => {
+  const resultado = validarPlan({
+    steps: [paso('a', 'api'), paso('a', 'api'), { id: 'b', input: 'x' }, paso('c', 'marketingAgent', 'zzz')],
+  }, agentes);
+
+  assert.equal(resultado.valido, false);
+  assert.deepEqual(resultado.errores.map(e => e.tipo).sort(), ['agente_desconocido', 'campo_faltante', 'dependencia_inexistente', 'id_duplicado']);
+  assert.equal(validarPlan({ steps: [] }, agentes).errores[0].tipo, 'estructura');
+});
+
+test('detecta ciclos, también una autodependencia', () => {
+  const ciclo = validarPlan({ steps: [paso('a', 'api', 'c'), paso('b', 'api', 'a'), paso('c', 'api', 'b'), paso('d', 'api')] }, agentes);
+  assert.equal(ciclo.valido, false);
+  assert.deepEqual(ciclo.errores.map(e => e.tipo), ['ciclo']);
+  assert.deepEqual(ciclo.niveles, []);
+
+  const { niveles, enCiclo } = calcularNiveles({ steps: [{ id: 'x', agent: 'api', input: '', description: '', priority: 1, dependsOn: 'x' }] });
+  assert.deepEqual([niveles, enCiclo], [[], ['x']]);
+});
@@ -0,0 +1,79 @@
+import type { ContextoProyecto } from '../agents/base-agent';
+import type { AgentEventType } from './agent-types';
+
+/**
+ * Contrato único de ejecución de agentes
+ *
+ * El orquestador, la CLI y el dashboard llaman a cualquier agente con
+ * `agent.ejecutar({ contexto, spec, opciones })` y reciben un AgentResult.
+ */
+
+export type CategoriaAgente =
+  | 'meta'
+  | 'frontend'
+  | 'backend'
+  | 'calidad'
+  | 'infraestructura'
+  | 'documentacion'
+  | 'negocio'
+  | 'otros';
+
+export type TipoOpcion = 'string' | 'number' | 'boolean' | 'string[]' | 'object';
+
+export interface OpcionSchema {
+  tipo: TipoOpcion;
+  descripcion: string;
+  requerido?: boolean;
+  valores?: string[]; // Valores permitidos (solo pa' tipo 'string')
+}
+
+// Esquema declarado de la entrada que acepta un agente
+export interface AgentInputSchema {
+  spec: {
+    descripcion: string;
+    requerido: boolean;
+    // Prefijos soportados (ej. 'search:', 'record:'); sin prefijo = operación por defecto
+    operaciones?: string[];
+  };
+  opciones?: Record<string, OpcionSchema>;
+}
+
+// Descriptor de capacidades: lo que la CLI lista y el dashboard muestra
+export interface AgentCapabilities {
+  nombre: string; // Clave en el registro del orquestador (ej. 'api', 'memory')
+  agente: string; // Nombre de clase (ej. 'APIAgent')
+  categoria: CategoriaAgente;
+  descripcion: string;
+  escribeArchivos: boolean;
+  usaLLM: boolean;
+  inputSchema: AgentInputSchema;
+}
+
+export interface AgentInput {
+  contexto: ContextoProyecto;
+  spec: string;
+  opciones?: Record<string, unknown>;
+  stepId?: string; // Paso del WorkflowPlan (pa' agrupar la transacción y poder revertirla)
+  ejecucionId?: string; // Orquestación a la que pertenece el paso (presupuesto por ejecución)
+}
+
+export interface AgentResult<T = unknown> {
+  ok: boolean;
+  agente: string;
+  spec: string;
+  archivos: string[]; // Rutas escritas durante la ejecución
+  transaccionId?: string; // Transacción del workspace (TransactionManager); se revierte sola si ok = false
+  eventos: AgentEventType[]; // Eventos emitidos por el agente durante la ejecución
+  tokensUsados: number;
+  creditosUsados: number; // Liquidados en el CreditLedger (si el paso falló, solo los tokens que sí se gastaron)
+  advertencias: string[];
+  duracionMs: number;
+  salida?: T;
+  error?: string;
+}
+
+export interface AgentRunner<T = unknown> {
+  readonly capabilities: AgentCapabilities;
+  ejecutar(input: AgentInput): Promise<AgentResult<T>>;
+  estimarCreditos?(): number; // Lo que se reservaría pa' un paso (estimación de coste de un plan)
+}
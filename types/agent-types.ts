@@ -0,0 +1,188 @@
+import type { ContextoProyecto, HistorialEntry } from '../agents/base-agent';
+import type { TaskState } from './task-types';
+
+// Enum para los tipos de eventos de agentes
+export enum AgentEventType {
+  // Eventos de diseño y frontend (StyleAgent, UIDesignAgent, LayoutAgent)
+  DESIGN_SYSTEM_UPDATED = 'DESIGN_SYSTEM_UPDATED',
+  DESIGN_SYSTEM_REQUESTED = 'DESIGN_SYSTEM_REQUESTED',
+  COMPONENT_REQUESTED = 'COMPONENT_REQUESTED',
+  COMPONENT_CREATED = 'COMPONENT_CREATED',
+  COMPONENT_ERROR = 'COMPONENT_ERROR',
+  THEME_REQUESTED = 'THEME_REQUESTED',
+  THEME_CREATED = 'THEME_CREATED',
+  THEME_ERROR = 'THEME_ERROR',
+
+  // Eventos de pruebas (TestAgent, TestingAgent)
+  TEST_REQUESTED = 'TEST_REQUESTED',
+  TEST_CREATED = 'TEST_CREATED',
+  TEST_ERROR = 'TEST_ERROR',
+
+  // Eventos de automejora (SelfImprovementAgent)
+  SELF_IMPROVEMENT_REQUESTED = 'SELF_IMPROVEMENT_REQUESTED',
+  SELF_IMPROVEMENT_COMPLETED = 'SELF_IMPROVEMENT_COMPLETED',
+  SELF_IMPROVEMENT_ERROR = 'SELF_IMPROVEMENT_ERROR',
+
+  // Eventos de revisión de código (CodeReviewAgent)
+  CODE_REVIEW_REQUESTED = 'CODE_REVIEW_REQUESTED',
+  CODE_REVIEW_COMPLETED = 'CODE_REVIEW_COMPLETED',
+  CODE_REVIEW_ERROR = 'CODE_REVIEW_ERROR',
+
+  // Eventos de Meta-Nivel (QuestionAgent, OrchestratorAgent)
+  QUESTION_REQUESTED = 'QUESTION_REQUESTED',
+  QUESTION_PROCESSED = 'QUESTION_PROCESSED',
+  ORCHESTRATION_STARTED = 'ORCHESTRATION_STARTED',
+  ORCHESTRATION_COMPLETED = 'ORCHESTRATION_COMPLETED',
+  TASK_STATE_CHANGED = 'TASK_STATE_CHANGED',
+  WORKSPACE_ROLLED_BACK = 'WORKSPACE_ROLLED_BACK',
+
+  // Eventos de Backend (APIAgent, DatabaseAgent, LogicAgent)
+  API_ENDPOINT_REQUESTED = 'API_ENDPOINT_REQUESTED',
+  API_ENDPOINT_CREATED = 'API_ENDPOINT_CREATED',
+  API_ENDPOINT_ERROR = 'API_ENDPOINT_ERROR',
+  DATABASE_SCHEMA_REQUESTED = 'DATABASE_SCHEMA_REQUESTED',
+  DATABASE_SCHEMA_CREATED = 'DATABASE_SCHEMA_CREATED',
+  DATABASE_SCHEMA_ERROR = 'DATABASE_SCHEMA_ERROR',
+
+  // Eventos de Calidad (SecurityAgent, TestingAgent)
+  SECURITY_AUDIT_STARTED = 'SECURITY_AUDIT_STARTED',
+  SECURITY_AUDIT_COMPLETED = 'SECURITY_AUDIT_COMPLETED',
+  SECURITY_AUDIT_ERROR = 'SECURITY_AUDIT_ERROR',
+
+  // Eventos de Infraestructura (DevOpsAgent, MonitorAgent)
+  DEPLOYMENT_REQUESTED = 'DEPLOYMENT_REQUESTED',
+  DEPLOYMENT_COMPLETED = 'DEPLOYMENT_COMPLETED',
+  DEPLOYMENT_ERROR = 'DEPLOYMENT_ERROR',
+  MONITORING_ALERT = 'MONITORING_ALERT',
+
+  // Eventos de Documentación (DocAgent, MemoryAgent)
+  DOCUMENTATION_REQUESTED = 'DOCUMENTATION_REQUESTED',
+  DOCUMENTATION_CREATED = 'DOCUMENTATION_CREATED',
+  DOCUMENTATION_ERROR = 'DOCUMENTATION_ERROR',
+  MEMORY_STORED = 'MEMORY_STORED',
+  MEMORY_RETRIEVED = 'MEMORY_RETRIEVED',
+
+  // Eventos de Negocio (BusinessAgent, LaunchAgent, MarketAgent, GrowthAgent, AnalyticsAgent)
+  ROI_CALCULATION_REQUESTED = 'ROI_CALCULATION_REQUESTED',
+  ROI_CALCULATION_COMPLETED = 'ROI_CALCULATION_COMPLETED',
+  LAUNCH_PLAN_REQUESTED = 'LAUNCH_PLAN_REQUESTED',
+  LAUNCH_PLAN_CREATED = 'LAUNCH_PLAN_CREATED',
+  MARKET_ANALYSIS_REQUESTED = 'MARKET_ANALYSIS_REQUESTED',
+  MARKET_ANALYSIS_COMPLETED = 'MARKET_ANALYSIS_COMPLETED',
+  GROWTH_STRATEGY_REQUESTED = 'GROWTH_STRATEGY_REQUESTED',
+  GROWTH_STRATEGY_CREATED = 'GROWTH_STRATEGY_CREATED',
+  ANALYTICS_REPORT_REQUESTED = 'ANALYTICS_REPORT_REQUESTED',
+  ANALYTICS_REPORT_COMPLETED = 'ANALYTICS_REPORT_COMPLETED',
+
+  // Eventos de Autoextensión (ExtensionAgent)
+  EXTENSION_INSTALL_REQUESTED = 'EXTENSION_INSTALL_REQUESTED',
+  EXTENSION_INSTALLED = 'EXTENSION_INSTALLED',
+  EXTENSION_INSTALL_ERROR = 'EXTENSION_INSTALL_ERROR',
+
+  // Eventos de Otros (VSCodeAgentBridge, DashboardAgent, IntegrationAgent, etc.)
+  DASHBOARD_UPDATED = 'DASHBOARD_UPDATED',
+  INTEGRATION_REQUESTED = 'INTEGRATION_REQUESTED',
+  INTEGRATION_COMPLETED = 'INTEGRATION_COMPLETED',
+  INTEGRATION_ERROR = 'INTEGRATION_ERROR',
+}
+
+// Campos comunes a todos los payloads: casi todos los agentes adjuntan el contexto
+export interface BasePayload {
+  contexto?: ContextoProyecto;
+  [extra: string]: unknown;
+}
+
+export interface ErrorPayload extends BasePayload {
+  error: string;
+}
+
+export interface ArtifactPayload extends BasePayload {
+  files?: string[];
+}
+
+// Mapa de payloads tipados: una entrada por cada miembro de AgentEventType
+export interface AgentEventPayloads {
+  [AgentEventType.DESIGN_SYSTEM_UPDATED]: BasePayload & { designSystem?: unknown };
+  [AgentEventType.DESIGN_SYSTEM_REQUESTED]: BasePayload & { spec?: string };
+  [AgentEventType.COMPONENT_REQUESTED]: BasePayload & { componente?: string };
+  [AgentEventType.COMPONENT_CREATED]: ArtifactPayload & { componente?: string };
+  [AgentEventType.COMPONENT_ERROR]: ErrorPayload;
+  [AgentEventType.THEME_REQUESTED]: BasePayload & { theme?: string };
+  [AgentEventType.THEME_CREATED]: ArtifactPayload & { theme?: string };
+  [AgentEventType.THEME_ERROR]: ErrorPayload;
+
+  [AgentEventType.TEST_REQUESTED]: BasePayload & { componente?: string };
+  [AgentEventType.TEST_CREATED]: ArtifactPayload & { testCoverage?: number };
+  [AgentEventType.TEST_ERROR]: ErrorPayload;
+
+  [AgentEventType.SELF_IMPROVEMENT_REQUESTED]: BasePayload & { agentName?: string };
+  [AgentEventType.SELF_IMPROVEMENT_COMPLETED]: BasePayload & { sugerencia?: string | null };
+  [AgentEventType.SELF_IMPROVEMENT_ERROR]: ErrorPayload;
+
+  [AgentEventType.CODE_REVIEW_REQUESTED]: BasePayload & { codigo?: string };
+  [AgentEventType.CODE_REVIEW_COMPLETED]: BasePayload & { qualityScore?: number };
+  [AgentEventType.CODE_REVIEW_ERROR]: ErrorPayload;
+
+  [AgentEventType.QUESTION_REQUESTED]: BasePayload & { prompt?: string };
+  [AgentEventType.QUESTION_PROCESSED]: BasePayload & { respuestas?: Record<string, string> };
+  [AgentEventType.ORCHESTRATION_STARTED]: BasePayload & { description?: string };
+  [AgentEventType.ORCHESTRATION_COMPLETED]: BasePayload & { progreso?: number };
+  [AgentEventType.TASK_STATE_CHANGED]: BasePayload & { taskId: string; proyectoId: string; agente: string; de: TaskState | null; a: TaskState; motivo?: string; stepId?: string; intentos?: number; error?: string; archivos?: string[]; omitida?: boolean };
+  [AgentEventType.WORKSPACE_ROLLED_BACK]: BasePayload & { transaccionId: string; proyectoId?: string; stepId?: string; agente: string; motivo?: string; archivos: string[] };
+
+  [AgentEventType.API_ENDPOINT_REQUESTED]: BasePayload & { spec?: string };
+  [AgentEventType.API_ENDPOINT_CREATED]: ArtifactPayload & { endpoint?: string };
+  [AgentEventType.API_ENDPOINT_ERROR]: ErrorPayload;
+  [AgentEventType.DATABASE_SCHEMA_REQUESTED]: BasePayload & { spec?: string };
+  [AgentEventType.DATABASE_SCHEMA_CREATED]: ArtifactPayload & { schema?: unknown };
+  [AgentEventType.DATABASE_SCHEMA_ERROR]: ErrorPayload;
+
+  [AgentEventType.SECURITY_AUDIT_STARTED]: BasePayload & { target?: string };
+  [AgentEventType.SECURITY_AUDIT_COMPLETED]: BasePayload & { hallazgos?: unknown[] };
+  [AgentEventType.SECURITY_AUDIT_ERROR]: ErrorPayload;
+
+  [AgentEventType.DEPLOYMENT_REQUESTED]: BasePayload & { environment?: string };
+  [AgentEventType.DEPLOYMENT_COMPLETED]: BasePayload & { environment?: string; url?: string };
+  [AgentEventType.DEPLOYMENT_ERROR]: ErrorPayload;
+  [AgentEventType.MONITORING_ALERT]: BasePayload & { metric?: string; value?: number; severity?: string };
+
+  [AgentEventType.DOCUMENTATION_REQUESTED]: BasePayload & { target?: string };
+  [AgentEventType.DOCUMENTATION_CREATED]: ArtifactPayload;
+  [AgentEventType.DOCUMENTATION_ERROR]: ErrorPayload;
+  [AgentEventType.MEMORY_STORED]: BasePayload & { entry?: HistorialEntry };
+  [AgentEventType.MEMORY_RETRIEVED]: BasePayload & { query?: unknown };
+
+  [AgentEventType.ROI_CALCULATION_REQUESTED]: BasePayload;
+  [AgentEventType.ROI_CALCULATION_COMPLETED]: BasePayload & { roi?: number };
+  [AgentEventType.LAUNCH_PLAN_REQUESTED]: BasePayload;
+  [AgentEventType.LAUNCH_PLAN_CREATED]: ArtifactPayload;
+  [AgentEventType.MARKET_ANALYSIS_REQUESTED]: BasePayload;
+  [AgentEventType.MARKET_ANALYSIS_COMPLETED]: ArtifactPayload;
+  [AgentEventType.GROWTH_STRATEGY_REQUESTED]: BasePayload;
+  [AgentEventType.GROWTH_STRATEGY_CREATED]: ArtifactPayload;
+  [AgentEventType.ANALYTICS_REPORT_REQUESTED]: BasePayload & { metrics?: string[] };
+  [AgentEventType.ANALYTICS_REPORT_COMPLETED]: BasePayload & { analysisResult?: unknown };
+
+  [AgentEventType.EXTENSION_INSTALL_REQUESTED]: BasePayload & { extensionId?: string };
+  [AgentEventType.EXTENSION_INSTALLED]: BasePayload & { extensionId?: string };
+  [AgentEventType.EXTENSION_INSTALL_ERROR]: ErrorPayload;
+
+  [AgentEventType.DASHBOARD_UPDATED]: BasePayload;
+  [AgentEventType.INTEGRATION_REQUESTED]: BasePayload & { service?: string };
+  [AgentEventType.INTEGRATION_COMPLETED]: BasePayload & { service?: string };
+  [AgentEventType.INTEGRATION_ERROR]: ErrorPayload;
+}
+
+// Sobre que viaja por el EventBus
+export interface AgentEvent<T extends AgentEventType = AgentEventType> {
+  type: T;
+  payload: AgentEventPayloads[T];
+  timestamp: string;
+  agentName: string;
+  correlationId: string; // Se hereda de la cadena de eventos que lo provocó
+  causationId?: string; // correlationId del evento cuyo handler emitió este
+  sequence: number;
+}
+
+// Suscripción exacta, comodín ('*') o patrón con asterisco ('*_ERROR', 'TEST_*')
+export type AgentEventPattern = AgentEventType | '*' | `${string}*${string}`;
@@ -0,0 +1,63 @@
+/**
+ * Tipos de los presupuestos de créditos (BudgetManager)
+ */
+
+// proyecto: todo lo gastado en el proyecto · ejecucion: una orquestación · agente: un agente dentro del proyecto
+export type AmbitoPresupuesto = 'proyecto' | 'ejecucion' | 'agente';
+
+// ok: por debajo del aviso · aviso: se sigue pero se avisa · corte: no se lanza nada más
+export type NivelPresupuesto = 'ok' | 'aviso' | 'corte';
+
+// Límites en créditos; 0 o ausente = sin límite
+export interface LimitesPresupuesto {
+  proyecto?: number;
+  ejecucion?: number;
+  agentes?: Record<string, number>; // Nombre del agente (ej. 'APIAgent') → límite
+}
+
+// Al llegar al `umbral` (fracción del límite más apretado) se cambia `desde` por `a`
+export interface ReglaDegradacion {
+  desde: string;
+  a: string;
+  proveedor?: string; // Si el modelo nuevo es de otro proveedor (ej. 'local' pa' Mistral)
+  umbral: number;
+}
+
+// Qué se está gastando: el BudgetManager revisa cada ámbito que aplique
+export interface AlcanceGasto {
+  userId: string;
+  proyectoId?: string;
+  ejecucionId?: string;
+  agente?: string;
+}
+
+export interface EstadoPresupuesto {
+  ambito: AmbitoPresupuesto;
+  clave: string; // Id del proyecto, de la ejecución o nombre del agente
+  limite: number;
+  gastado: number; // Consumido + reservado en pasos en curso
+  previsto: number; // gastado + lo que se va a gastar
+  fraccion: number; // previsto / limite
+  nivel: NivelPresupuesto;
+}
+
+export interface DecisionPresupuesto {
+  permitido: boolean;
+  estados: EstadoPresupuesto[];
+  avisos: string[];
+  // Modelo al que bajar si el límite más apretado pasó el umbral de alguna regla
+  degradacion?: { proveedor?: string; modelo: string; motivo: string };
+}
+
+export interface EstimacionPaso {
+  stepId: string;
+  agente: string;
+  creditos: number;
+}
+
+export interface EstimacionPlan {
+  pasos: EstimacionPaso[];
+  total: number;
+  disponible: number; // Saldo del usuario en el CreditLedger
+  decision: DecisionPresupuesto; // Con el total del plan como gasto previsto
+}
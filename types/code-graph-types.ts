@@ -0,0 +1,50 @@
+/**
+ * Tipos del grafo de símbolos del código (services/code-graph.ts)
+ */
+
+export type TipoNodoGrafo = 'archivo' | 'clase' | 'interfaz' | 'funcion' | 'metodo' | 'tipo' | 'enum' | 'variable';
+
+// importa: archivo → archivo · llama: símbolo → función/método/clase (new) · referencia: uso como tipo
+export type TipoRelacion = 'importa' | 'llama' | 'extiende' | 'implementa' | 'referencia';
+
+export interface NodoGrafo {
+  id: string; // `ruta` pa' archivos, `ruta#Nombre` o `ruta#Clase.metodo` pa' símbolos
+  nombre: string;
+  tipo: TipoNodoGrafo;
+  archivo: string; // Ruta relativa al proyecto
+  linea: number; // 1-based
+  exportado: boolean;
+  contenedor?: string; // Id de la clase/interfaz de un método
+  complejidad?: number; // Ciclomática, pa' funciones y métodos
+}
+
+export interface RelacionGrafo {
+  origen: string;
+  destino: string;
+  tipo: TipoRelacion;
+  archivo: string; // Dónde aparece la primera vez
+  linea: number;
+}
+
+export interface GrafoCodigo {
+  version: 1;
+  generado: string;
+  archivos: number;
+  nodos: NodoGrafo[];
+  relaciones: RelacionGrafo[];
+}
+
+export type PreguntaGrafo = 'llamadores' | 'llamados' | 'implementaciones' | 'subclases' | 'referencias' | 'impacto';
+
+export interface ResultadoConsultaGrafo {
+  pregunta: PreguntaGrafo;
+  simbolo: string;
+  objetivos: NodoGrafo[]; // Nodos que casaron con el nombre buscado
+  resultados: {
+    nodo: NodoGrafo;
+    relacion: TipoRelacion;
+    profundidad: number; // 1 = directo; >1 solo en consultas transitivas (subclases, impacto)
+    archivo: string;
+    linea: number;
+  }[];
+}
@@ -0,0 +1,113 @@
+import { CanalCli, DatosCanalVivo } from './realtime-types';
+
+/**
+ * Eventos que la CLI manda a la API del dashboard (DashboardSync → POST /api/sync)
+ */
+
+interface BaseEventoSync {
+  id: string; // Lo genera la CLI; reenviarlo no duplica nada en la base de datos
+  fecha: string; // ISO
+  proyecto: { id: string; nombre?: string }; // El id del ContextoProyecto; la API crea el Project si no existe
+}
+
+// Una entrada de registrarActividad → Activity
+export interface EventoActividad extends BaseEventoSync {
+  tipo: 'actividad';
+  agente: string;
+  accion: string;
+  datos?: string; // JSON recortado a dashboard.maxDetalle caracteres
+  correlationId?: string;
+  stepId?: string; // Paso del plan en el que se registró
+}
+
+// Un prompt que gastó tokens → ApiUsage, descontado de los CreditPack del usuario
+export interface EventoUso extends BaseEventoSync {
+  tipo: 'uso';
+  agente: string;
+  proveedor: string;
+  modelo: string;
+  tokens: number;
+  creditos: number; // Lo que cobró el CreditLedger de la CLI; la API no lo lee, recalcula el coste con los tokens
+  stepId?: string;
+}
+
+// Un cambio de estado de una tarea del plan (TASK_STATE_CHANGED) → Activity y, con stepId, WorkflowStep
+export interface EventoPaso extends BaseEventoSync {
+  tipo: 'paso';
+  taskId: string;
+  agente: string;
+  de: string | null;
+  a: string;
+  motivo?: string;
+  stepId?: string;
+  intentos?: number;
+  error?: string;
+  archivos?: string[]; // Los que escribió, al completarse
+  omitida?: boolean; // Cancelada pa' que sus dependientes sigan (cj system tasks skip)
+}
+
+// Un paso del WorkflowPlan tal como lo ve el dashboard
+export interface PasoPlanSync {
+  id: string;
+  agente: string;
+  descripcion: string;
+  input: string;
+  dependeDe: string[];
+  prioridad: number;
+}
+
+// El plan validado de la orquestación (al planificar y al reanudar) → WorkflowStep
+export interface EventoPlan extends BaseEventoSync {
+  tipo: 'plan';
+  pasos: PasoPlanSync[];
+}
+
+// Un prompt y su respuesta, pa'l detalle de cada paso en el dashboard → PromptLog
+export interface EventoPrompt extends BaseEventoSync {
+  tipo: 'prompt';
+  agente: string;
+  stepId?: string;
+  modelo: string;
+  prompt: string; // Recortados a dashboard.maxTranscripcion caracteres
+  respuesta: string;
+  tokens: number;
+  duracionMs: number;
+  cache: boolean;
+}
+
+// Estado y progreso de la orquestación → Project.status / Project.progress
+export interface EventoProyecto extends BaseEventoSync {
+  tipo: 'proyecto';
+  estado: 'planning' | 'active' | 'completed' | 'failed';
+  progreso: number; // 0-100
+}
+
+// Solo pa' los que miran el proyecto en vivo (estado de los agentes, avisos, revisiones): no se guarda
+export interface EventoVivo<C extends CanalCli = CanalCli> extends BaseEventoSync {
+  tipo: 'vivo';
+  canal: C;
+  datos: DatosCanalVivo[C];
+}
+
+export type EventoSync = EventoActividad | EventoUso | EventoPaso | EventoPlan | EventoPrompt | EventoProyecto | EventoVivo;
+
+export interface ResultadoSync {
+  aceptados: number;
+  duplicados: number; // Ya estaban (reintento de un lote que sí llegó)
+  rechazados: { id: string; error: string }[]; // Inválidos: no se reintentan
+}
+
+// Reintentar u omitir un paso, pedido desde el dashboard (GET /api/sync/acciones); lo aplica la CLI
+export interface AccionDashboard {
+  id: string;
+  proyectoId: string;
+  stepId: string;
+  taskId?: string; // La última tarea del paso que conoce el dashboard
+  accion: 'retry' | 'skip';
+  fecha: string; // ISO
+}
+
+export interface ResultadoAccion {
+  estado: 'done' | 'failed';
+  detalle?: string;
+}
@@ -0,0 +1,45 @@
+/**
+ * Tipos de los derechos por tier (Entitlements)
+ */
+
+import { TierLicencia } from './license-types';
+
+// Funciones que una licencia incluye o no. Una licencia puede sumar alguna suelta en `features`
+export type Funcion =
+  | 'llm-nube' // Modelos de OpenAI/Anthropic; sin ella, solo el modelo local
+  | 'revision-codigo' // CodeReviewAgent sobre lo que escribe cada paso de la orquestación
+  | 'automejora' // SelfImprovementAgent al terminar y al proponer mejoras
+  | 'extensiones' // Instalar extensiones (ExtensionAgent implement: y las que pida el plan)
+  | 'vision-interactiva' // Cuestionario interactivo del VisionAgent
+  | 'diseno-avanzado' // Modos de diseño y exportación del sistema de diseño (UIDesignAgent)
+  | 'prototipos' // Prototipos navegables del LayoutAgent
+  | 'agentes-relacionados'; // Estilos, tests y revisión automáticos al generar componentes
+
+// Cupos numéricos; 0 = sin límite
+export type Cupo =
+  | 'proyectos' // Proyectos creados por usuario
+  | 'ejecucionesPorDia' // Ejecuciones de agentes por usuario y día; una orquestación cuenta una vez, no por paso
+  | 'paralelismo' // Pasos de una orquestación corriendo a la vez
+  | 'pasosPorPlan' // Pasos que puede tener un plan de orquestación
+  | 'modulosPorProyecto' // Módulos del proyecto que el ArchitectAgent diseña
+  | 'nivelContextual' // Nivel máximo de profundidad de preguntas y contexto (1-5)
+  | 'caracteresNombre' // Largo del nombre de un proyecto
+  | 'caracteresPromptOffline'; // Largo de un prompt al modelo local sin conexión
+
+// Cupos que se van gastando y se cuentan en licencias.cupos (~/.cj-devmind/cupos.json); el resto son límites fijos
+export type CupoContado = 'proyectos' | 'ejecucionesPorDia';
+
+export interface DerechosTier {
+  funciones: Funcion[];
+  cupos: Record<Cupo, number>;
+  llm: { proveedor: 'local' | 'openai' | 'anthropic'; modelo: string; maxTokens: number }; // Modelo por defecto de los agentes
+}
+
+export type MatrizDerechos = Record<TierLicencia, DerechosTier>;
+
+export interface UsoCupo {
+  cupo: Cupo;
+  limite: number; // 0 = sin límite
+  usado?: number; // Solo en los cupos contados
+  restante?: number;
+}
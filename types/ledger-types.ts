@@ -0,0 +1,61 @@
+/**
+ * Tipos del libro de créditos (CreditLedger)
+ */
+
+// compra: entran créditos · reserva: se apartan antes de un paso · liquidacion: consumo real del paso
+// liberacion: lo reservado que sobró · reembolso: el paso falló y vuelve lo que quedaba de la reserva · cargo: consumo fuera de un paso
+export type TipoAsiento = 'compra' | 'reserva' | 'liquidacion' | 'liberacion' | 'reembolso' | 'cargo';
+
+// Cuentas por usuario: disponible:<userId>, reservado:<userId>, consumo:<userId>; 'compras' es la contrapartida de las recargas
+export interface LineaAsiento {
+  cuenta: string;
+  monto: number; // Positivo = entra a la cuenta, negativo = sale; las líneas de un asiento suman 0
+}
+
+// A quién se le cobra y quién lo gastó
+export interface Atribucion {
+  userId: string;
+  proyectoId?: string;
+  agente?: string;
+  stepId?: string; // Paso del WorkflowPlan
+  ejecucionId?: string; // Orquestación a la que pertenece el paso
+  modelo?: string;
+  tokens?: number;
+}
+
+export interface AsientoLedger {
+  id: string;
+  fecha: string;
+  tipo: TipoAsiento;
+  reservaId?: string; // Id del asiento de reserva al que pertenece (liquidación, liberación, reembolso)
+  referencia?: string; // Ej. id del CreditPack de una compra
+  motivo?: string;
+  lineas: LineaAsiento[];
+  atribucion: Atribucion;
+}
+
+export interface SaldoCreditos {
+  userId: string;
+  disponible: number;
+  reservado: number;
+  consumido: number;
+}
+
+export type DimensionConsumo = 'agente' | 'proyecto' | 'modelo' | 'paso' | 'ejecucion';
+
+export interface FiltroConsumo {
+  userId?: string;
+  proyectoId?: string;
+  ejecucionId?: string;
+  agente?: string;
+  desde?: string; // ISO
+  hasta?: string; // ISO
+}
+
+export interface ConsumoAgrupado {
+  clave: string; // Agente, proyecto, modelo, stepId o ejecución ('-' si el asiento no lo tiene)
+  creditos: number;
+  tokens: number;
+  asientos: number;
+  reembolsados: number; // Pasos fallidos cuya reserva se devolvió
+}
@@ -0,0 +1,39 @@
+/**
+ * Tipos de las licencias firmadas (LicenseManager)
+ */
+
+export type TierLicencia = 'Community' | 'Professional' | 'Enterprise';
+
+export const TIERS_LICENCIA: TierLicencia[] = ['Community', 'Professional', 'Enterprise'];
+
+// Lo que va firmado dentro del token (cjl1.<datos>.<firma>)
+export interface DatosLicencia {
+  v: 1;
+  id: string; // Id de la licencia (el mismo que el `key` del modelo License del dashboard)
+  titular: string; // Email u organización
+  tier: TierLicencia;
+  asientos: number; // Usuarios que cubre; se controla al activar en el dashboard, no offline
+  features: string[]; // Flags extra sobre las del tier (ej. 'marketplace', 'sso')
+  emitida: string; // ISO
+  expira: string; // ISO
+}
+
+// activa: firma y fecha válidas · gracia: expirada hace menos de licencias.graciaDias, sigue valiendo
+// expirada: pasó la gracia, se baja a Community · invalida: firma o formato mal · ausente: no hay licencia
+export type EstadoLicencia = 'activa' | 'gracia' | 'expirada' | 'invalida' | 'ausente';
+
+export interface LicenciaVerificada {
+  estado: EstadoLicencia;
+  tier: TierLicencia; // Efectivo: el de la licencia si está activa o en gracia, si no Community
+  datos?: DatosLicencia; // Solo si la firma es válida
+  diasRestantes?: number; // Hasta que expira (negativo = días de gracia consumidos)
+  motivo?: string; // Por qué no vale o cuánto le queda de gracia
+}
+
+export interface NuevaLicencia {
+  titular: string;
+  tier: TierLicencia;
+  asientos?: number;
+  features?: string[];
+  dias: number; // Vigencia desde hoy
+}
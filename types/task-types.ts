@@ -0,0 +1,64 @@
+/**
+ * Tipos del ciclo de vida de tareas (TaskManager)
+ *
+ * Estados y transiciones según context/rules.md, sección "Ciclo de Vida de Tareas".
+ */
+
+export type TaskState =
+  | 'PENDING'
+  | 'IN_PROGRESS'
+  | 'BLOCKED'
+  | 'REVIEW'
+  | 'COMPLETED'
+  | 'ERROR'
+  | 'CANCELLED';
+
+export const TASK_STATES: TaskState[] = ['PENDING', 'IN_PROGRESS', 'BLOCKED', 'REVIEW', 'COMPLETED', 'ERROR', 'CANCELLED'];
+
+// Estados de los que ya no se sale
+export const TERMINAL_TASK_STATES: TaskState[] = ['COMPLETED', 'CANCELLED'];
+
+export interface TaskTransition {
+  de: TaskState | null; // null = creación
+  a: TaskState;
+  fecha: string;
+  motivo?: string;
+  agente?: string; // Quién hizo la transición (ej. 'OrchestratorAgent', 'cli')
+}
+
+export interface Task {
+  id: string;
+  proyectoId: string;
+  stepId?: string; // Id del paso en el WorkflowPlan (ej. 'step-3')
+  agente: string; // Clave en el registro del orquestador
+  input: string;
+  descripcion?: string;
+  prioridad: number;
+  dependeDe: string[]; // Ids de otras tareas
+  estado: TaskState;
+  intentos: number; // Veces que pasó a IN_PROGRESS
+  motivoBloqueo?: string;
+  error?: string;
+  resultado?: string;
+  archivos?: string[]; // Archivos escritos por el agente (se verifican al reanudar)
+  omitida?: boolean; // Cancelada con omitir(): sus dependientes siguen como si se hubiera completado
+  creada: string;
+  actualizada: string;
+  historial: TaskTransition[];
+}
+
+export interface NuevaTarea {
+  proyectoId: string;
+  agente: string;
+  input: string;
+  stepId?: string;
+  descripcion?: string;
+  prioridad?: number;
+  dependeDe?: string[];
+}
+
+export interface FiltroTareas {
+  proyectoId?: string;
+  estado?: TaskState | TaskState[];
+  agente?: string;
+}
@@ -0,0 +1,38 @@
+/**
+ * Tipos de las transacciones del workspace (TransactionManager)
+ */
+
+// abierta: el agente está escribiendo · confirmada: el paso terminó bien · revertida: se restauró el snapshot
+export type EstadoTransaccion = 'abierta' | 'confirmada' | 'revertida';
+
+export interface ArchivoTransaccion {
+  ruta: string; // Absoluta
+  antes: string | null; // Contenido original en base64; null = el archivo no existía
+  hashDespues?: string | null; // sha256 al confirmar (null = eliminado); pa' detectar ediciones posteriores
+}
+
+export interface Transaccion {
+  id: string;
+  agente: string;
+  proyectoId?: string;
+  stepId?: string; // Id del paso en el WorkflowPlan
+  estado: EstadoTransaccion;
+  creada: string;
+  actualizada: string;
+  motivo?: string; // Por qué se revirtió
+  archivos: ArchivoTransaccion[];
+  directorios: string[]; // Creados durante la transacción; se borran al revertir si quedan vacíos
+}
+
+export interface NuevaTransaccion {
+  agente: string;
+  proyectoId?: string;
+  stepId?: string;
+}
+
+export interface ResultadoRollback {
+  transaccionId: string;
+  restaurados: string[];
+  eliminados: string[]; // Archivos creados por el paso
+  conflictos: string[]; // Modificados después de la transacción; no se tocan sin forzar
+}
@@ -0,0 +1,54 @@
+/**
+ * Tipos de las transcripciones de TranscriptStore (services/transcript-store.ts):
+ * cada intercambio con el LLM tal como salió por el APIProxy, con los secretos ya redactados
+ */
+
+// Quién mandó el prompt; APIProxy lo recibe en SolicitudAPI.origen
+export interface OrigenTranscripcion {
+  agente: string;
+  proyectoId?: string;
+  stepId?: string; // Paso del WorkflowPlan en curso
+  replayDe?: string; // Transcripción que se está repitiendo con otro modelo
+}
+
+export interface Transcripcion {
+  id: string;
+  fecha: string; // ISO, cuando llegó la respuesta (o el error)
+  agente: string;
+  proyectoId?: string;
+  stepId?: string;
+  correlationId?: string; // El del EventBus al mandar el prompt
+  tipo: 'prompt' | 'resumen'; // resumen = sección resumida por el APIProxy pa' caber en la ventana
+  proveedor: string;
+  modeloPedido: string;
+  modelo: string; // El que respondió
+  temperatura?: number;
+  maxTokens: number; // Respuesta pedida de verdad, tras ajustar a la ventana
+  prompt: string; // Lo que se mandó (ya recortado a la ventana), redactado
+  respuesta: string; // Salida cruda del modelo, redactada
+  tokensPrompt: number;
+  tokensRespuesta: number;
+  latenciaMs: number;
+  cache: boolean; // true = la respuesta salió de LLMCache
+  error?: string;
+  redacciones: Record<string, number>; // Tipo de secreto → veces que se tapó
+  replayDe?: string; // Transcripción original si salió de `cj system transcript replay`
+}
+
+export type NuevaTranscripcion = Omit<Transcripcion, 'id' | 'fecha' | 'redacciones'> & { fecha?: string };
+
+export interface FiltroTranscripciones {
+  agente?: string;
+  proyectoId?: string;
+  stepId?: string;
+  correlationId?: string;
+  modelo?: string;
+  desde?: string; // ISO
+  soloErrores?: boolean;
+  limite?: number; // Por defecto 50, las más recientes primero
+}
+
+export interface Redaccion {
+  texto: string;
+  redacciones: Record<string, number>;
+}
@@ -0,0 +1,38 @@
+/**
+ * Tipos del plan de trabajo que genera el OrchestratorAgent
+ */
+
+export interface WorkflowPlanStep {
+  id: string;
+  agent: string; // Clave en el registro del orquestador (ej. 'api', 'uiDesign')
+  input: string;
+  description: string;
+  dependsOn?: string | string[];
+  priority: number;
+}
+
+export interface WorkflowPlan {
+  steps: WorkflowPlanStep[];
+}
+
+export type TipoErrorPlan =
+  | 'estructura'
+  | 'campo_faltante'
+  | 'agente_desconocido'
+  | 'id_duplicado'
+  | 'dependencia_inexistente'
+  | 'ciclo';
+
+export interface ErrorPlan {
+  tipo: TipoErrorPlan;
+  mensaje: string;
+  stepId?: string;
+}
+
+export interface ResultadoValidacionPlan {
+  valido: boolean;
+  plan?: WorkflowPlan; // Plan normalizado (dependsOn como array, agentes resueltos)
+  errores: ErrorPlan[];
+  correcciones: string[]; // Arreglos aplicados sin consultar al LLM (ej. 'riskAgent' → 'risk')
+  niveles: string[][]; // Ids de pasos agrupados por nivel de ejecución (solo si no hay ciclos)
+}